@@ -0,0 +1,350 @@
+import * as vscode from 'vscode';
+import { KernelAPI } from './kernel/KernelAPI';
+import { FileHistory } from './kernel/api/FileHistoryCollector';
+
+/**
+ * RL4 File History Provider
+ *
+ * Answers "what does RL4 know about the file I'm looking at" for the active editor:
+ * - Explorer view: event timeline, linked decisions (with invalidation status), ADRs, commits
+ * - CodeLens on the first line summarizing what is known
+ * - "Copy file context prompt" action (explain_file intent)
+ *
+ * Refreshes are debounced and skipped while neither the view nor the CodeLens is shown;
+ * the kernel caches each file's history until a new MIL event (saves force a reload).
+ */
+
+const REFRESH_DEBOUNCE_MS = 400;
+
+export class RL4FileHistoryProvider {
+    private context: vscode.ExtensionContext;
+    private kernelAPI: KernelAPI;
+    private treeDataProvider: FileHistoryTreeDataProvider;
+    private codeLensProvider: FileHistoryCodeLensProvider;
+    private treeView: vscode.TreeView<RL4FileHistoryItem> | null = null;
+    private refreshTimer: NodeJS.Timeout | null = null;
+    private pendingRefresh: boolean = false;    // Editor changed while hidden
+    private forceNextRefresh: boolean = false;  // Next query bypasses the kernel cache
+
+    constructor(context: vscode.ExtensionContext, kernelAPI: KernelAPI) {
+        this.context = context;
+        this.kernelAPI = kernelAPI;
+        this.treeDataProvider = new FileHistoryTreeDataProvider();
+        this.codeLensProvider = new FileHistoryCodeLensProvider();
+    }
+
+    /**
+     * Register the view, the CodeLens and the commands, then follow the active editor
+     */
+    register() {
+        this.treeView = vscode.window.createTreeView('rl4FileHistory', {
+            treeDataProvider: this.treeDataProvider,
+            showCollapseAll: true
+        });
+
+        const codeLens = vscode.languages.registerCodeLensProvider({ scheme: 'file' }, this.codeLensProvider);
+
+        const showCommand = vscode.commands.registerCommand(
+            'rl4.showFileHistory',
+            () => vscode.commands.executeCommand('rl4FileHistory.focus')
+        );
+
+        const refreshCommand = vscode.commands.registerCommand(
+            'rl4.refreshFileHistory',
+            () => this.refresh(true)
+        );
+
+        // Same prompt as "Explain File History": copied to the clipboard by the explain_file command
+        const copyPromptCommand = vscode.commands.registerCommand(
+            'rl4.copyFileContextPrompt',
+            (uri?: vscode.Uri) => vscode.commands.executeCommand('rl4.explainFileHistory', uri ?? this.treeDataProvider.uri)
+        );
+
+        const editorListener = vscode.window.onDidChangeActiveTextEditor(() => this.scheduleRefresh());
+        const saveListener = vscode.workspace.onDidSaveTextDocument(document => {
+            if (document.uri.toString() === vscode.window.activeTextEditor?.document.uri.toString()) {
+                this.scheduleRefresh(true);
+            }
+        });
+        const visibilityListener = this.treeView.onDidChangeVisibility(event => {
+            if (event.visible && this.pendingRefresh) {
+                this.scheduleRefresh();
+            }
+        });
+        const configListener = vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('rl4.fileHistory.codeLens') || event.affectsConfiguration('editor.codeLens')) {
+                this.scheduleRefresh();
+            }
+        });
+
+        this.context.subscriptions.push(
+            this.treeView,
+            codeLens,
+            showCommand,
+            refreshCommand,
+            copyPromptCommand,
+            editorListener,
+            saveListener,
+            visibilityListener,
+            configListener,
+            { dispose: () => this.cancelScheduledRefresh() }
+        );
+
+        this.scheduleRefresh();
+    }
+
+    /**
+     * Coalesce editor switches and saves into one kernel query
+     */
+    private scheduleRefresh(force: boolean = false) {
+        this.forceNextRefresh = this.forceNextRefresh || force;
+        this.cancelScheduledRefresh();
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = null;
+            const refresh = this.forceNextRefresh;
+            this.forceNextRefresh = false;
+            this.refresh(refresh);
+        }, REFRESH_DEBOUNCE_MS);
+    }
+
+    private cancelScheduledRefresh() {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+            this.refreshTimer = null;
+        }
+    }
+
+    /**
+     * The view is open, or the CodeLens is enabled
+     */
+    private isShown(): boolean {
+        return !!this.treeView?.visible || this.codeLensProvider.isEnabled();
+    }
+
+    /**
+     * Reload the history of the active editor file
+     * @param force - bypass the kernel cache (manual refresh, file saved)
+     */
+    async refresh(force: boolean = false) {
+        if (!this.isShown()) {
+            this.pendingRefresh = true;
+            this.forceNextRefresh = this.forceNextRefresh || force;
+            return;
+        }
+        this.pendingRefresh = false;
+
+        const uri = vscode.window.activeTextEditor?.document.uri;
+        if (!uri || uri.scheme !== 'file' || !vscode.workspace.getWorkspaceFolder(uri)) {
+            this.update(undefined, null, 'Open a workspace file to see what RL4 knows about it');
+            return;
+        }
+
+        try {
+            const history = await this.kernelAPI.getFileHistory(uri.fsPath, force);
+            // The editor may have changed while the kernel was answering
+            if (vscode.window.activeTextEditor?.document.uri.toString() === uri.toString()) {
+                this.update(uri, history);
+            }
+        } catch (error: any) {
+            this.update(uri, null, `RL4 history unavailable: ${error.message || error}`);
+        }
+    }
+
+    private update(uri: vscode.Uri | undefined, history: FileHistory | null, message?: string) {
+        this.treeDataProvider.setHistory(uri, history, message);
+        this.codeLensProvider.setHistory(uri, history);
+        if (this.treeView) {
+            this.treeView.description = uri ? vscode.workspace.asRelativePath(uri, false) : undefined;
+        }
+    }
+
+    /**
+     * Dispose resources
+     */
+    dispose() {
+        this.cancelScheduledRefresh();
+        this.treeView?.dispose();
+    }
+}
+
+/**
+ * Tree Data Provider for the RL4 File History view
+ */
+class FileHistoryTreeDataProvider implements vscode.TreeDataProvider<RL4FileHistoryItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<RL4FileHistoryItem | undefined | null> = new vscode.EventEmitter<RL4FileHistoryItem | undefined | null>();
+    readonly onDidChangeTreeData: vscode.Event<RL4FileHistoryItem | undefined | null> = this._onDidChangeTreeData.event;
+
+    public uri: vscode.Uri | undefined;
+    private history: FileHistory | null = null;
+    private message: string | undefined;
+
+    setHistory(uri: vscode.Uri | undefined, history: FileHistory | null, message?: string) {
+        this.uri = uri;
+        this.history = history;
+        this.message = message;
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    getTreeItem(element: RL4FileHistoryItem): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: RL4FileHistoryItem): Thenable<RL4FileHistoryItem[]> {
+        if (element) {
+            return Promise.resolve(element.children || []);
+        }
+        return Promise.resolve(this.getRootItems());
+    }
+
+    private getRootItems(): RL4FileHistoryItem[] {
+        if (!this.history) {
+            return this.message ? [new RL4FileHistoryItem(this.message, vscode.TreeItemCollapsibleState.None, undefined, new vscode.ThemeIcon('info'))] : [];
+        }
+        const history = this.history;
+
+        const events = history.events.map(event => new RL4FileHistoryItem(
+            `${formatDate(event.timestamp)} ${event.type}`,
+            vscode.TreeItemCollapsibleState.None,
+            event.summary || undefined,
+            new vscode.ThemeIcon('circle-small'),
+            `${event.id} (${event.source})`
+        ));
+        if (history.totalEvents > history.events.length) {
+            events.push(new RL4FileHistoryItem(
+                `… ${history.totalEvents - history.events.length} older event(s)`,
+                vscode.TreeItemCollapsibleState.None
+            ));
+        }
+
+        const decisions = history.decisions.map(decision => new RL4FileHistoryItem(
+            `${decision.intent_text || decision.intent} → ${decision.chosen_option || '(no option)'}`,
+            vscode.TreeItemCollapsibleState.None,
+            `${decision.status} · ${decision.confidence_llm}%`,
+            new vscode.ThemeIcon(DECISION_STATUS_ICONS[decision.status] || 'lightbulb'),
+            `${decision.id} — ${formatDate(decision.timestamp)}, gate ${decision.confidence_gate}, ${decision.status}` +
+                (decision.related_adrs.length > 0 ? `\nADRs: ${decision.related_adrs.join(', ')}` : '')
+        ));
+
+        const adrs = history.adrs.map(adr => new RL4FileHistoryItem(
+            adr.title,
+            vscode.TreeItemCollapsibleState.None,
+            `${adr.status} · ${adr.match}`,
+            new vscode.ThemeIcon('law'),
+            `${adr.id}\n${adr.decision.replace(/\s+/g, ' ').substring(0, 300)}`
+        ));
+
+        const commits = history.commits.map(commit => new RL4FileHistoryItem(
+            commit.subject,
+            vscode.TreeItemCollapsibleState.None,
+            `${commit.hash.substring(0, 7)} · ${commit.date}`,
+            new vscode.ThemeIcon('git-commit'),
+            `${commit.hash}\n${commit.author}, ${commit.date}`
+        ));
+
+        return [
+            RL4FileHistoryItem.group(`Events (${history.totalEvents})`, 'pulse', events),
+            RL4FileHistoryItem.group(`Decisions (${decisions.length})`, 'lightbulb', decisions),
+            RL4FileHistoryItem.group(`ADRs (${adrs.length})`, 'law', adrs),
+            RL4FileHistoryItem.group(`Commits (${commits.length})`, 'git-commit', commits)
+        ];
+    }
+}
+
+/**
+ * CodeLens on the first line of the active file when RL4 knows something about it
+ */
+class FileHistoryCodeLensProvider implements vscode.CodeLensProvider {
+    private _onDidChangeCodeLenses: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses: vscode.Event<void> = this._onDidChangeCodeLenses.event;
+
+    private uri: vscode.Uri | undefined;
+    private history: FileHistory | null = null;
+
+    setHistory(uri: vscode.Uri | undefined, history: FileHistory | null) {
+        this.uri = uri;
+        this.history = history;
+        this._onDidChangeCodeLenses.fire();
+    }
+
+    isEnabled(): boolean {
+        return vscode.workspace.getConfiguration('rl4.fileHistory').get<boolean>('codeLens', true)
+            && vscode.workspace.getConfiguration('editor').get<boolean>('codeLens', true);
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        const history = this.history;
+        if (!history || !this.isEnabled() || document.uri.toString() !== this.uri?.toString()) {
+            return [];
+        }
+        if (history.totalEvents + history.decisions.length + history.adrs.length === 0) {
+            return [];
+        }
+
+        const invalidated = history.decisions.filter(d => d.status === 'invalidated' || d.status === 'superseded').length;
+        const range = new vscode.Range(0, 0, 0, 0);
+        return [
+            new vscode.CodeLens(range, {
+                title: `RL4: ${history.totalEvents} event(s), ${history.decisions.length} decision(s)` +
+                    (invalidated > 0 ? ` (${invalidated} invalidated)` : '') +
+                    `, ${history.adrs.length} ADR(s)`,
+                command: 'rl4.showFileHistory'
+            }),
+            new vscode.CodeLens(range, {
+                title: 'Copy file context prompt',
+                command: 'rl4.copyFileContextPrompt',
+                arguments: [document.uri]
+            })
+        ];
+    }
+}
+
+const DECISION_STATUS_ICONS: Record<string, string> = {
+    valid: 'pass',
+    revalidated: 'verified',
+    invalidated: 'error',
+    superseded: 'history'
+};
+
+function formatDate(timestamp: number): string {
+    return new Date(timestamp).toISOString().substring(0, 16).replace('T', ' ');
+}
+
+/**
+ * Tree Item class for the RL4 File History view
+ */
+class RL4FileHistoryItem extends vscode.TreeItem {
+    public children?: RL4FileHistoryItem[];
+
+    constructor(
+        public label: string,
+        public collapsibleState: vscode.TreeItemCollapsibleState,
+        description?: string,
+        iconPath?: vscode.ThemeIcon,
+        tooltip?: string
+    ) {
+        super(label, collapsibleState);
+
+        if (description) {
+            this.description = description;
+        }
+
+        if (iconPath) {
+            this.iconPath = iconPath;
+        }
+
+        if (tooltip) {
+            this.tooltip = tooltip;
+        }
+    }
+
+    static group(label: string, icon: string, children: RL4FileHistoryItem[]): RL4FileHistoryItem {
+        const item = new RL4FileHistoryItem(
+            label,
+            children.length > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None,
+            undefined,
+            new vscode.ThemeIcon(icon)
+        );
+        item.children = children;
+        return item;
+    }
+}
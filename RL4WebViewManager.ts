@@ -176,9 +176,29 @@ export class RL4WebViewManager {
             responseType = 'modeChanged';
             break;
           case 'rl4:generateSnapshot':
-            response = await this.kernelAPI.generateSnapshot(payload.mode || 'flexible');
+            response = await this.kernelAPI.generateSnapshot(payload.mode || 'flexible', {
+              tokenBudget: payload.tokenBudget,
+              model: payload.model,
+              branch: payload.branch
+            });
             responseType = 'snapshotGenerated';
             break;
+          case 'rl4:getTokenizer':
+            try {
+              response = await this.kernelAPI.getTokenizer();
+            } catch (tokenizerError: any) {
+              response = { error: tokenizerError.message || 'Tokenizer lookup failed' };
+            }
+            responseType = 'tokenizerInfo';
+            break;
+          case 'rl4:setTokenizerModel':
+            try {
+              response = await this.kernelAPI.setTokenizerModel(payload.model);
+            } catch (tokenizerError: any) {
+              response = { error: tokenizerError.message || 'Tokenizer selection failed' };
+            }
+            responseType = 'tokenizerInfo';
+            break;
           case 'rl4:getAutoTasksCount':
             const count = await this.kernelAPI.getAutoTasksCount();
             response = { count };
@@ -232,9 +252,93 @@ export class RL4WebViewManager {
             responseType = 'insightsPayload';
             break;
           case 'rl4:buildTimeMachine':
-            response = await this.kernelAPI.buildTimeMachinePrompt(payload.startIso, payload.endIso);
+            response = await this.kernelAPI.buildTimeMachinePrompt(payload.startIso, payload.endIso, payload.branch);
             responseType = 'timeMachineGenerated';
             break;
+          case 'rl4:queryEvents':
+            // Syntax errors are reported inline, not as a kernel error (no safe mode)
+            try {
+              response = await this.kernelAPI.queryEvents(payload.query);
+            } catch (queryError: any) {
+              response = { events: [], count: 0, error: queryError.message || 'Query failed' };
+            }
+            responseType = 'eventsQueried';
+            break;
+          case 'rl4:searchHistory':
+            try {
+              response = await this.kernelAPI.searchHistory(payload.query, { limit: payload.limit });
+            } catch (searchError: any) {
+              response = { hits: [], count: 0, error: searchError.message || 'Search failed' };
+            }
+            responseType = 'historySearchResults';
+            break;
+          case 'rl4:getDecisionGraph':
+            try {
+              response = await this.kernelAPI.getDecisionGraph({ decisionId: payload?.decisionId });
+            } catch (graphError: any) {
+              response = { nodes: [], edges: [], cycles: [], dangling: [], error: graphError.message || 'Decision graph failed' };
+            }
+            responseType = 'decisionGraph';
+            break;
+          case 'rl4:getDecisionConflicts':
+            try {
+              response = await this.kernelAPI.getDecisionConflicts();
+            } catch (conflictError: any) {
+              response = { conflicts: [], count: 0, error: conflictError.message || 'Conflict detection failed' };
+            }
+            responseType = 'decisionConflicts';
+            break;
+          case 'rl4:getDecisionExtraction':
+            try {
+              response = await this.kernelAPI.getDecisionExtractionReport();
+            } catch (extractionError: any) {
+              response = { report: null, error: extractionError.message || 'Extraction report failed' };
+            }
+            responseType = 'decisionExtraction';
+            break;
+          case 'rl4:submitDecisions':
+            // Resubmission of corrected decisions: errors (unknown reference...) are shown inline
+            try {
+              const result = await this.kernelAPI.processLLMResponse(payload.response, payload.rcepRef);
+              response = { report: result.report, stored: result.count };
+            } catch (extractionError: any) {
+              response = { report: null, error: extractionError.message || 'Decision extraction failed' };
+            }
+            responseType = 'decisionExtraction';
+            break;
+          case 'rl4:replayDiff':
+            try {
+              response = await this.kernelAPI.replayDiff(payload.a, payload.b);
+            } catch (diffError: any) {
+              response = { error: diffError.message || 'Replay diff failed' };
+            }
+            responseType = 'replayDiff';
+            break;
+          case 'rl4:getGitBranches':
+            try {
+              response = await this.kernelAPI.getGitBranches();
+            } catch (branchError: any) {
+              response = { current: null, branches: [], error: branchError.message || 'Branch listing failed' };
+            }
+            responseType = 'gitBranches';
+            break;
+          case 'rl4:getStorageReport':
+            try {
+              response = { report: await this.kernelAPI.getStorageReport() };
+            } catch (storageError: any) {
+              response = { error: storageError.message || 'Storage report failed' };
+            }
+            responseType = 'storageReport';
+            break;
+          case 'rl4:reclaimStorage':
+            try {
+              const reclaim = await this.kernelAPI.reclaimStorage();
+              response = { report: reclaim.report, reclaim };
+            } catch (storageError: any) {
+              response = { error: storageError.message || 'Reclaim failed' };
+            }
+            responseType = 'storageReport';
+            break;
           case 'rl4:getTimelineRange':
             response = await this.kernelAPI.getTimelineRange();
             responseType = 'timelineRange';
@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import { KernelAPI } from '../kernel/KernelAPI';
+import { ILogger } from '../kernel/core/ILogger';
+import { IntentPromptResult } from '../kernel/api/IntentPrompt';
+
+/**
+ * Prompts for the explain_file, code_review and onboarding intents
+ *
+ * Each command asks the kernel for its prompt, copies it to the clipboard and offers
+ * to open it in an editor for a last look before pasting it into the assistant.
+ */
+export class IntentPromptCommands {
+    private kernelAPI: KernelAPI;
+    private logger: ILogger | null;
+
+    constructor(kernelAPI: KernelAPI, logger?: ILogger | null) {
+        this.kernelAPI = kernelAPI;
+        this.logger = logger || null;
+    }
+
+    static registerCommands(context: vscode.ExtensionContext, kernelAPI: KernelAPI, logger?: ILogger | null) {
+        const intentCommands = new IntentPromptCommands(kernelAPI, logger);
+
+        const explainFileCommand = vscode.commands.registerCommand(
+            'rl4.explainFileHistory',
+            (uri?: vscode.Uri) => intentCommands.explainFile(uri)
+        );
+
+        const codeReviewCommand = vscode.commands.registerCommand(
+            'rl4.reviewUncommittedChanges',
+            () => intentCommands.run('Code review', () => intentCommands.kernelAPI.buildCodeReviewPrompt())
+        );
+
+        const onboardingCommand = vscode.commands.registerCommand(
+            'rl4.onboardingBrief',
+            () => intentCommands.run('Onboarding brief', () => intentCommands.kernelAPI.buildOnboardingPrompt())
+        );
+
+        context.subscriptions.push(explainFileCommand, codeReviewCommand, onboardingCommand);
+        return intentCommands;
+    }
+
+    private async explainFile(uri?: vscode.Uri) {
+        const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+        if (!target || target.scheme !== 'file') {
+            vscode.window.showWarningMessage('RL4: Open or select a workspace file to explain its history');
+            return;
+        }
+        const label = vscode.workspace.asRelativePath(target, false);
+        await this.run(`History of ${label}`, () => this.kernelAPI.buildExplainFilePrompt(target.fsPath));
+    }
+
+    private async run(label: string, build: () => Promise<IntentPromptResult>) {
+        try {
+            const result = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `RL4: Building prompt — ${label}` },
+                build
+            );
+            await vscode.env.clipboard.writeText(result.prompt);
+            this.logger?.info(`${label} prompt copied (${result.intent}, ${result.metrics.finalTokens} tokens)`);
+
+            const action = await vscode.window.showInformationMessage(
+                `RL4: ${label} prompt copied to clipboard (${result.metrics.finalTokens}${result.metrics.tokensExact ? '' : '~'} tokens). Paste it in your AI agent.`,
+                'Open Prompt'
+            );
+            if (action === 'Open Prompt') {
+                const document = await vscode.workspace.openTextDocument({ content: result.prompt, language: 'markdown' });
+                await vscode.window.showTextDocument(document, { preview: true });
+            }
+        } catch (error: any) {
+            const errorMsg = `RL4: ${label} failed: ${error.message || error}`;
+            vscode.window.showErrorMessage(errorMsg);
+            this.logger?.error(errorMsg);
+        }
+    }
+}
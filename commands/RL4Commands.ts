@@ -4,6 +4,8 @@ import * as fs from 'fs';
 import { getGlobalLedger } from '../kernel/rbom/index';
 import { ILogger } from '../kernel/core/ILogger';
 import { repairJsonlForRuntime, runUpgradeCheck } from '../kernel/bootstrap/UpgradeGuard';
+import { verifyLedgers, writeLedgerState, describeBrokenLink } from '../kernel/rbom/LedgerVerifier';
+import { IgnoreEngine, describeIgnoreVerdict } from '../kernel/utils/IgnoreEngine';
 
 export class RL4Commands {
     private workspaceRoot: string;
@@ -26,6 +28,16 @@ export class RL4Commands {
             () => this.repairLedger()
         );
 
+        const verifyLedgersCommand = vscode.commands.registerCommand(
+            'rl4.verifyLedgers',
+            () => this.verifyLedgers()
+        );
+
+        const explainIgnoreCommand = vscode.commands.registerCommand(
+            'rl4.explainIgnore',
+            (uri?: vscode.Uri) => this.explainIgnore(uri)
+        );
+
         const repairKernelCommand = vscode.commands.registerCommand(
             'rl4.repairKernel',
             () => this.repairKernel()
@@ -37,6 +49,8 @@ export class RL4Commands {
         context.subscriptions.push(
             openTerminalCommand,
             repairLedgerCommand,
+            verifyLedgersCommand,
+            explainIgnoreCommand,
             repairKernelCommand
         );
     }
@@ -128,6 +142,65 @@ export class RL4Commands {
         }
     }
 
+    private async verifyLedgers() {
+        try {
+            const timestamp = new Date().toISOString().substring(11, 23);
+            this.logger?.system(`[${timestamp}] 🔗 Verifying ledger hash chains...`);
+
+            const report = verifyLedgers(this.workspaceRoot);
+            writeLedgerState(this.workspaceRoot, report);
+
+            for (const ledger of report.ledgers) {
+                this.logger?.system(`[${timestamp}] ${ledger.ok ? '✅' : '❌'} ${ledger.file}: ${ledger.chained}/${ledger.entries} chained entries`);
+            }
+
+            if (report.firstBroken) {
+                const message = `Ledger verification failed: first broken link at ${describeBrokenLink(report.firstBroken)}`;
+                vscode.window.showErrorMessage(message);
+                this.logger?.error(`[${timestamp}] ${message}`);
+            } else {
+                const root = report.lastCycleMerkleRoot ? report.lastCycleMerkleRoot.substring(0, 16) : 'n/a';
+                const message = `Ledgers verified: ${report.cyclesSealed} sealed cycle(s), last Merkle root ${root}`;
+                vscode.window.showInformationMessage(message);
+                this.logger?.success(`[${timestamp}] ${message}`);
+            }
+        } catch (error) {
+            const errorMsg = `Ledger verification failed: ${error}`;
+            vscode.window.showErrorMessage(errorMsg);
+            this.logger?.error(errorMsg);
+        }
+    }
+
+    /**
+     * Why is this file ignored? (explorer selection, active editor, or typed path)
+     */
+    private async explainIgnore(uri?: vscode.Uri) {
+        try {
+            let target = uri?.fsPath || vscode.window.activeTextEditor?.document.uri.fsPath;
+            if (!target) {
+                target = await vscode.window.showInputBox({
+                    prompt: 'Path to check (relative to the workspace)',
+                    placeHolder: 'src/generated/schema.ts'
+                });
+                if (!target) {
+                    return;
+                }
+            }
+
+            const fullPath = path.resolve(this.workspaceRoot, target);
+            const isDirectory = fs.existsSync(fullPath) && fs.statSync(fullPath).isDirectory();
+            const verdict = new IgnoreEngine(this.workspaceRoot).explain(fullPath, isDirectory);
+            const message = describeIgnoreVerdict(verdict);
+
+            vscode.window.showInformationMessage(message);
+            this.logger?.system(`🙈 ${message}`);
+        } catch (error) {
+            const errorMsg = `Ignore check failed: ${error}`;
+            vscode.window.showErrorMessage(errorMsg);
+            this.logger?.error(errorMsg);
+        }
+    }
+
     private async repairKernel() {
         try {
             const timestamp = new Date().toISOString().substring(11, 23);
@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import { KernelAPI } from '../kernel/KernelAPI';
+import { ILogger } from '../kernel/core/ILogger';
+import { RL4UpdateProposal } from '../kernel/api/RL4UpdateManager';
+
+/**
+ * Review of the Plan/Tasks/Context.RL4 updates proposed by LLM responses
+ *
+ * Each pending update is shown as a diff (current file ↔ proposed content) before the
+ * kernel writes it; nothing is written without an explicit "Apply".
+ */
+export class RL4UpdateCommands implements vscode.TextDocumentContentProvider {
+    static readonly scheme = 'rl4-update';
+
+    private kernelAPI: KernelAPI;
+    private logger: ILogger | null;
+    private contents: Map<string, string> = new Map();
+
+    constructor(kernelAPI: KernelAPI, logger?: ILogger | null) {
+        this.kernelAPI = kernelAPI;
+        this.logger = logger || null;
+    }
+
+    static registerCommands(context: vscode.ExtensionContext, kernelAPI: KernelAPI, logger?: ILogger | null) {
+        const updateCommands = new RL4UpdateCommands(kernelAPI, logger);
+
+        const provider = vscode.workspace.registerTextDocumentContentProvider(RL4UpdateCommands.scheme, updateCommands);
+
+        const reviewCommand = vscode.commands.registerCommand(
+            'rl4.reviewRL4Updates',
+            () => updateCommands.reviewPending()
+        );
+
+        context.subscriptions.push(provider, reviewCommand);
+        return updateCommands;
+    }
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) ?? '';
+    }
+
+    /**
+     * Review pending updates one by one (diff, then Apply / Discard / Skip)
+     */
+    async reviewPending(): Promise<void> {
+        try {
+            const { updates } = await this.kernelAPI.getRL4Updates();
+            const pending = updates.filter(u => u.status === 'pending');
+
+            if (pending.length === 0) {
+                vscode.window.showInformationMessage('RL4: No pending Plan/Tasks/Context updates');
+                return;
+            }
+
+            for (const update of pending) {
+                const stop = await this.reviewUpdate(update, pending.length);
+                if (stop) {
+                    break;
+                }
+            }
+        } catch (error: any) {
+            const errorMsg = `Failed to review RL4 updates: ${error.message || error}`;
+            vscode.window.showErrorMessage(errorMsg);
+            this.logger?.error(errorMsg);
+        }
+    }
+
+    /**
+     * @returns true when the user closed the prompt (stop reviewing)
+     */
+    private async reviewUpdate(update: RL4UpdateProposal, total: number): Promise<boolean> {
+        const before = vscode.Uri.parse(`${RL4UpdateCommands.scheme}:/${update.id}/current/${update.file}`);
+        const after = vscode.Uri.parse(`${RL4UpdateCommands.scheme}:/${update.id}/proposed/${update.file}`);
+        this.contents.set(before.toString(), update.before || '');
+        this.contents.set(after.toString(), update.after || '');
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            before,
+            after,
+            `${update.file}: current ↔ proposed (decision ${update.decision_id?.substring(0, 8)})`,
+            { preview: true }
+        );
+
+        const summary = update.ops.map(op => `${op.op} ${op.field}: ${op.value}`).join(' · ');
+        const choice = await vscode.window.showInformationMessage(
+            `RL4 update ${total > 1 ? `(${total} pending) ` : ''}for ${update.file} — ${summary}`,
+            'Apply', 'Discard', 'Skip'
+        );
+
+        try {
+            if (choice === 'Apply') {
+                await this.kernelAPI.applyRL4Update(update.id);
+                vscode.window.showInformationMessage(`RL4: ${update.file} updated (recorded in the ledger)`);
+                this.logger?.info(`RL4 update ${update.id} applied to ${update.file}`);
+            } else if (choice === 'Discard') {
+                await this.kernelAPI.discardRL4Update(update.id);
+                this.logger?.info(`RL4 update ${update.id} discarded`);
+            }
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`RL4: Failed to ${choice?.toLowerCase()} update for ${update.file}: ${error.message || error}`);
+            this.logger?.error(`RL4 update ${update.id}: ${error.message || error}`);
+        } finally {
+            this.contents.delete(before.toString());
+            this.contents.delete(after.toString());
+        }
+
+        return choice === undefined;
+    }
+}
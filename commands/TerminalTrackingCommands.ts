@@ -1,18 +1,23 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
 import { AppendOnlyWriter } from '../kernel/AppendOnlyWriter';
 
 /**
  * TerminalTrackingCommands
  * - Permet au LLM de tracer explicitement les commandes terminal
  * - Append-only vers .reasoning_rl4/terminal-events.jsonl
+ * - Chaque start reçoit un runId repris par son end (appariement côté kernel → MIL)
  * - Mode passif (observabilité pure)
  */
 export class TerminalTrackingCommands {
   private writer: AppendOnlyWriter;
   private initialized: boolean = false;
+  private workspaceRoot: string;
+  private openRuns: Map<string, string[]> = new Map(); // command + taskId → runIds en cours (ordre de lancement)
 
   constructor(workspaceRoot: string) {
+    this.workspaceRoot = workspaceRoot;
     const eventsPath = path.join(workspaceRoot, '.reasoning_rl4', 'terminal-events.jsonl');
     this.writer = new AppendOnlyWriter(eventsPath, { fsync: false, mkdirRecursive: true });
   }
@@ -26,40 +31,62 @@ export class TerminalTrackingCommands {
 
   registerCommands(context: vscode.ExtensionContext): void {
     context.subscriptions.push(
-      vscode.commands.registerCommand('rl4.trackCommand', (cmd: string, taskId?: string) =>
-        this.trackCommandStart(cmd, taskId)
+      vscode.commands.registerCommand('rl4.trackCommand', (cmd: string, taskId?: string, cwd?: string) =>
+        this.trackCommandStart(cmd, taskId, cwd)
       ),
-      vscode.commands.registerCommand('rl4.trackCommandEnd', (cmd: string, exitCode: number, taskId?: string) =>
-        this.trackCommandEnd(cmd, exitCode, taskId)
+      vscode.commands.registerCommand('rl4.trackCommandEnd', (cmd: string, exitCode: number, taskId?: string, runId?: string) =>
+        this.trackCommandEnd(cmd, exitCode, taskId, runId)
       )
     );
   }
 
-  private async trackCommandStart(command: string, taskId?: string): Promise<void> {
+  private async trackCommandStart(command: string, taskId?: string, cwd?: string): Promise<string> {
     if (!this.initialized) {
       await this.init();
     }
+    const runId = uuidv4();
+    const key = this.runKey(command, taskId);
+    this.openRuns.set(key, [...(this.openRuns.get(key) || []), runId]);
+
     await this.writer.append({
       timestamp: new Date().toISOString(),
       type: 'command_start',
       command,
       taskId,
+      cwd: cwd ? path.resolve(this.workspaceRoot, cwd) : this.workspaceRoot,
+      runId,
       terminal: 'RL4'
     });
+    return runId;
   }
 
-  private async trackCommandEnd(command: string, exitCode: number, taskId?: string): Promise<void> {
+  private async trackCommandEnd(command: string, exitCode: number, taskId?: string, runId?: string): Promise<void> {
     if (!this.initialized) {
       await this.init();
     }
+    // Sans runId explicite : la plus ancienne exécution encore ouverte de cette commande
+    const key = this.runKey(command, taskId);
+    const open = this.openRuns.get(key) || [];
+    const resolvedRunId = runId || open[0];
+    const remaining = open.filter(id => id !== resolvedRunId);
+    if (remaining.length > 0) {
+      this.openRuns.set(key, remaining);
+    } else {
+      this.openRuns.delete(key);
+    }
+
     await this.writer.append({
       timestamp: new Date().toISOString(),
       type: 'command_end',
       command,
       exitCode,
       taskId,
+      runId: resolvedRunId,
       terminal: 'RL4'
     });
   }
-}
 
+  private runKey(command: string, taskId?: string): string {
+    return `${taskId || ''}\u0000${command}`;
+  }
+}
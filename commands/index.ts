@@ -2,4 +2,6 @@ export { KernelCommands } from './KernelCommands';
 export { RL4Commands } from './RL4Commands';
 export { ADRValidationCommands } from './ADRValidationCommands';
 export type { ADRProposal } from './ADRValidationCommands';
-export { TerminalTrackingCommands } from './TerminalTrackingCommands';
\ No newline at end of file
+export { TerminalTrackingCommands } from './TerminalTrackingCommands';
+export { RL4UpdateCommands } from './RL4UpdateCommands';
+export { IntentPromptCommands } from './IntentPromptCommands';
\ No newline at end of file
@@ -14,7 +14,10 @@ if (typeof window !== 'undefined') {
 }
 import { ADRValidationCommands } from './commands/ADRValidationCommands';
 import { TerminalTrackingCommands } from './commands/TerminalTrackingCommands';
+import { RL4UpdateCommands } from './commands/RL4UpdateCommands';
+import { IntentPromptCommands } from './commands/IntentPromptCommands';
 import { RL4ActivityBarProvider } from './RL4ActivityBarProvider';
+import { RL4FileHistoryProvider } from './RL4FileHistoryProvider';
 import { RL4WebViewManager } from './RL4WebViewManager';
 import { KernelBridge } from './kernel/process/KernelBridge';
 import { detectWorkspaceState } from './kernel/onboarding/OnboardingDetector';
@@ -156,32 +159,50 @@ export async function activate(context: vscode.ExtensionContext) {
         ADRValidationCommands.registerCommands(context, workspaceRoot, logger);
         logger.success('ADR validation commands registered');
 
+        // Governed write-back of Plan/Tasks/Context.RL4 (diff review before any write)
+        const rl4UpdateCommands = RL4UpdateCommands.registerCommands(context, kernelAPI, logger);
+
+        // explain_file / code_review / onboarding intents (editor and explorer context menus)
+        IntentPromptCommands.registerCommands(context, kernelAPI, logger);
+
         // Step 10: Register RL4 LLM Response Processing Command
         const processLLMResponseCommand = vscode.commands.registerCommand('rl4.processLLMResponse', async () => {
-            const response = await vscode.window.showInputBox({
-                prompt: 'Paste the LLM response containing decisions (```json:decisions block)',
-                placeHolder: 'Paste LLM response here...',
-                ignoreFocusOut: true
-            });
-            
+            // Response source: editor selection, then clipboard (if it looks like an RL4 answer), then input box.
+            // The RCEP reference is read by the kernel from the [RL4-REF …] line the LLM copied.
+            const looksLikeRL4Response = (text: string) => /\[RL4-REF rcep=|```json:decisions|rl4_update/.test(text);
+            const editor = vscode.window.activeTextEditor;
+            const selection = editor && !editor.selection.isEmpty ? editor.document.getText(editor.selection) : '';
+            const clipboard = selection ? '' : await vscode.env.clipboard.readText();
+
+            let response = selection || (looksLikeRL4Response(clipboard) ? clipboard : '');
+            const source = selection ? 'editor selection' : response ? 'clipboard' : 'input';
             if (!response) {
-                return;
+                response = await vscode.window.showInputBox({
+                    prompt: 'Paste the LLM response (with its [RL4-REF …] line and ```json:decisions block)',
+                    placeHolder: 'Paste LLM response here...',
+                    ignoreFocusOut: true
+                }) || '';
             }
             
-            // Get RCEP ref from metadata (if available) or prompt user
-            const rcepRef = await vscode.window.showInputBox({
-                prompt: 'Enter RCEP reference (checksum) for this response',
-                placeHolder: 'rcep_checksum...',
-                ignoreFocusOut: true
-            });
-            
-            if (!rcepRef) {
-                vscode.window.showWarningMessage('RL4: RCEP reference is required for decision extraction');
+            if (!response) {
                 return;
             }
             
             try {
-                const result = await kernelAPI.processLLMResponse(response, rcepRef);
+                const result = await kernelAPI.processLLMResponse(response);
+                
+                // Partial acceptance: rejected decisions and unreadable blocks are fixed from the dashboard
+                const rejected = result.report.rejected.length + result.report.blockErrors.length;
+                if (rejected > 0) {
+                    vscode.window.showWarningMessage(
+                        `RL4: ${rejected} decision(s) or block(s) rejected — ${result.report.rejected[0]?.issues[0]?.message || result.report.blockErrors[0]?.message}`,
+                        'Open Report'
+                    ).then(choice => {
+                        if (choice === 'Open Report') {
+                            webViewManager?.show();
+                        }
+                    });
+                }
                 
                 if (result.decisions && result.decisions.length > 0) {
                     // Check for low confidence decisions
@@ -196,11 +217,22 @@ export async function activate(context: vscode.ExtensionContext) {
                     }
                     
                     vscode.window.showInformationMessage(
-                        `RL4: ${result.count} decision(s) extracted and stored successfully`
+                        `RL4: ${result.count} decision(s) extracted from ${source} and stored (snapshot ${result.rcepRef.substring(0, 12)})`
                     );
-                } else {
+                } else if (rejected === 0) {
                     vscode.window.showInformationMessage('RL4: No decisions found in LLM response');
                 }
+                
+                // rl4_update blocks: rejected ones are explained, pending ones are reviewed as diffs
+                const rejectedUpdates = result.updates.filter(u => u.status === 'rejected');
+                if (rejectedUpdates.length > 0) {
+                    vscode.window.showWarningMessage(
+                        `RL4: ${rejectedUpdates.length} Plan/Tasks/Context update(s) rejected — ${rejectedUpdates[0].issues[0]}`
+                    );
+                }
+                if (result.updates.some(u => u.status === 'pending')) {
+                    await rl4UpdateCommands.reviewPending();
+                }
             } catch (error: any) {
                 vscode.window.showErrorMessage(`RL4: Failed to process LLM response: ${error.message}`);
                 logger?.error?.(`Failed to process LLM response: ${error}`);
@@ -213,6 +245,11 @@ export async function activate(context: vscode.ExtensionContext) {
         activityBarProvider.register();
         context.subscriptions.push(activityBarProvider);
 
+        // Per-file history of the active editor (explorer view + CodeLens)
+        const fileHistoryProvider = new RL4FileHistoryProvider(context, kernelAPI);
+        fileHistoryProvider.register();
+        context.subscriptions.push(fileHistoryProvider);
+
         // Step 12: Initialize WebView Manager
         webViewManager = new RL4WebViewManager(context, kernelAPI);
         
@@ -260,7 +297,8 @@ export async function activate(context: vscode.ExtensionContext) {
         try {
             const rulesResult = await kernelAPI.installRules();
             if (rulesResult.success) {
-                logger.success(`RL4 governance rules installed: ${rulesResult.rulesInstalled.join(', ')}`);
+                const targets = (rulesResult.targets || []).map(t => t.target).join(', ');
+                logger.success(`RL4 governance rules v${rulesResult.version} installed for ${targets}: ${rulesResult.rulesInstalled.join(', ')}`);
             } else {
                 logger.warning(`Rules installation failed: ${rulesResult.errors.join(', ')}`);
             }
@@ -1,6 +1,7 @@
 import * as fs from "fs";
 import * as path from "path";
 import { WriteTracker } from "./WriteTracker";
+import { hashLedgerEntry, readLedgerHead, withLedgerLock } from "./rbom/LedgerChain";
 
 /**
  * AppendOnlyWriter RL6
@@ -15,6 +16,7 @@ import { WriteTracker } from "./WriteTracker";
  * - Gestion des erreurs courantes : EBUSY, EAGAIN, EMFILE
  * - Retry exponentiel (max 5 tentatives)
  * - Queue bornée avec stratégie d'overflow configurable
+ * - Chaînage optionnel (prevHash/hash) pour les ledgers : voir rbom/LedgerChain
  */
 
 export enum OverflowStrategy {
@@ -29,6 +31,7 @@ export interface AppendOnlyWriterOptions {
     maxRetries?: number;             // Retries en cas d'erreur
     maxQueueSize?: number;           // NEW: Maximum queue size (default: 1000)
     overflowStrategy?: OverflowStrategy;  // NEW: Strategy when queue is full
+    chained?: boolean;               // Chaîne chaque entrée à la précédente (prevHash/hash)
 }
 
 export class AppendOnlyWriter {
@@ -40,15 +43,21 @@ export class AppendOnlyWriter {
     private writeTracker = WriteTracker.getInstance();
     private readonly MAX_QUEUE_SIZE: number;
     private readonly overflowStrategy: OverflowStrategy;
+    private chainTail: Promise<void> = Promise.resolve();  // Appends chaînés, dans l'ordre des appels
 
     constructor(filePath: string, options: AppendOnlyWriterOptions = {}) {
         this.filePath = filePath;
         this.MAX_QUEUE_SIZE = options.maxQueueSize ?? 1000;
         this.overflowStrategy = options.overflowStrategy ?? OverflowStrategy.BLOCK;
+        // Une chaîne ne tolère aucune entrée perdue : seule la stratégie BLOCK est compatible
+        if (options.chained && this.overflowStrategy !== OverflowStrategy.BLOCK) {
+            throw new Error(`AppendOnlyWriter: chained ledger ${filePath} requires the BLOCK overflow strategy`);
+        }
         this.options = {
             fsync: options.fsync ?? false,
             mkdirRecursive: options.mkdirRecursive ?? true,
             maxRetries: options.maxRetries ?? 5,
+            chained: options.chained ?? false,
         };
     }
 
@@ -73,10 +82,13 @@ export class AppendOnlyWriter {
      * ⚠️ NEW: Handles queue overflow based on overflowStrategy
      */
     async append(value: any): Promise<void> {
+        if (this.options.chained) {
+            return this.appendChained(value);
+        }
         const line = JSON.stringify({
-            ...value,
-            timestamp: new Date().toISOString(),
-        }) + "\n";
+                ...value,
+                timestamp: new Date().toISOString(),
+            }) + "\n";
 
         // NEW: Handle overflow based on strategy
         if (this.queue.length >= this.MAX_QUEUE_SIZE) {
@@ -112,10 +124,35 @@ export class AppendOnlyWriter {
         return this.processQueue();
     }
 
+    /**
+     * Append chaîné : prevHash = tête relue sur disque sous verrou, hash = sha256 de l'entrée.
+     * Un autre process (watchers ADR de l'extension) peut écrire le même ledger : la tête
+     * n'est jamais gardée en mémoire entre deux appends.
+     */
+    private appendChained(value: any): Promise<void> {
+        const task = this.chainTail.then(async () => {
+            if (this.fileHandle === null) {
+                await this.init();
+            }
+            await withLedgerLock(this.filePath, async () => {
+                const { prevHash: _prevHash, hash: _hash, ...content } = value;
+                const entry = {
+                    ...content,
+                    timestamp: new Date().toISOString(),
+                    prevHash: readLedgerHead(this.filePath),
+                };
+                await this.writeWithRetry(JSON.stringify({ ...entry, hash: hashLedgerEntry(entry) }) + "\n");
+            });
+        });
+        this.chainTail = task.catch(() => undefined);
+        return task;
+    }
+
     /**
      * flush() = assure que toute la queue a été écrite.
      */
     async flush(): Promise<void> {
+        await this.chainTail;
         await this.processQueue();
         if (this.options.fsync && this.fileHandle !== null) {
             await this.fileHandle.sync();
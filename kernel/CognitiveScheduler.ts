@@ -7,6 +7,7 @@ import { AppendOnlyWriter } from "./AppendOnlyWriter";
 import { SnapshotRotation } from "./indexer/SnapshotRotation";
 import { RL4CacheIndexer } from "./indexer/CacheIndex";
 import { RBOMLedger } from "./rbom/RBOMLedger";
+import { CycleMerkle } from "./rbom/LedgerChain";
 import { WriteAheadLog } from "./persistence/WriteAheadLog";
 import { StateRegistry } from "./StateRegistry";
 import { ActivityReconstructor } from "./api/ActivityReconstructor";
@@ -292,6 +293,9 @@ export class CognitiveScheduler {
     private async phasePersistCycle(timestamp: string, cycleStart: number): Promise<void> {
         if (!this.cyclesWriter) return;
 
+        // Merkle root des écritures chaînées du cycle (RBOM, décisions) : ancré dans l'entrée du cycle
+        const seal = CycleMerkle.getInstance(this.workspaceRoot).seal();
+
         const cycleData = {
             cycleId: this.cycleId,
             timestamp,
@@ -303,14 +307,16 @@ export class CognitiveScheduler {
             },
             metadata: {
                 heapUsed: process.memoryUsage().heapUsed
-            }
+            },
+            merkleRoot: seal.merkleRoot,
+            ledgers: seal.ledgers
         };
 
         const cyclesFilePath = path.join(this.workspaceRoot, ".reasoning_rl4", "ledger", "cycles.jsonl");
 
         // WAL avant écriture
         if (this.wal) {
-            this.wal.logSync("cycles.jsonl", JSON.stringify(cycleData));
+            this.wal.logSync("ledger/cycles.jsonl", JSON.stringify(cycleData), "append_line");
         }
 
         // WriteTracker
@@ -99,7 +99,7 @@ export class ExecPool {
   /**
    * Execute a shell command (convenience method for GitCommitListener)
    */
-  async run(command: string, options?: { cwd?: string }): Promise<{ stdout: string; stderr: string; code: number }> {
+  async run(command: string, options?: { cwd?: string; maxBuffer?: number }): Promise<{ stdout: string; stderr: string; code: number }> {
     return this.submit(async (ctx) => {
       const { exec } = await import('child_process');
       const { promisify } = await import('util');
@@ -108,6 +108,7 @@ export class ExecPool {
       try {
         const result = await execAsync(command, { 
           cwd: options?.cwd,
+          ...(options?.maxBuffer ? { maxBuffer: options.maxBuffer } : {}),
           signal: ctx.abortSignal 
         });
         return {
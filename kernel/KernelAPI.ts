@@ -20,7 +20,21 @@ import { PlanDrift } from './types/SystemStatus';
 import { Blindspots } from './types/SystemStatus';
 import { SystemStatus } from './types/SystemStatus';
 import { FAQItem } from './types/SystemStatus';
-import { RulesInstaller, RuleInstallationResult } from './api/RulesInstaller';
+import { RulesInstaller, RuleInstallationResult, RuleTargetStatus, RulesUpdateReport } from './api/RulesInstaller';
+import { RuleTargetId } from './api/RuleTargets';
+import { EventQuery } from './memory/types';
+import { TextSearchHit, TextDocumentKind } from './memory/TextIndex';
+import { DecisionGraphData } from './cognitive/DecisionGraph';
+import { DecisionConflict } from './cognitive/DecisionConflictDetector';
+import { DecisionExtractionReport } from './cognitive/DecisionResponseParser';
+import { RL4UpdateProposal } from './api/RL4UpdateManager';
+import { IntentPromptResult } from './api/IntentPrompt';
+import { FileHistory } from './api/FileHistoryCollector';
+import { ReplayTarget } from './replay/ReplayEngine';
+import { ReplayDiff } from './replay/ReplayDiff';
+import { TokenizerInfo } from './api/TokenBudget';
+import { IgnoreVerdict } from './utils/IgnoreEngine';
+import { StorageReport, ReclaimResult } from './storage/StorageAccountant';
 
 // TODO: CycleResult n'est pas exporté par CognitiveScheduler
 interface CycleResult {
@@ -281,10 +295,11 @@ export class KernelAPI {
 
     /**
      * Generate snapshot prompt (UI use, not kernel cycle)
+     * @param budget - Optional token budget / model profile the prompt must fit into
      */
-    async generateSnapshot(mode: string): Promise<{prompt: string, metadata: any}> {
+    async generateSnapshot(mode: string, budget: { tokenBudget?: number; model?: string; branch?: string } = {}): Promise<{prompt: string, metadata: any}> {
         try {
-            const data = await this.query('generate_snapshot', { mode }, 60000); // 60s timeout for prompt generation
+            const data = await this.query('generate_snapshot', { mode, ...budget }, 60000); // 60s timeout for prompt generation
             return {
                 prompt: data.prompt || '',
                 metadata: data.metadata || {}
@@ -295,6 +310,20 @@ export class KernelAPI {
         }
     }
 
+    /**
+     * Get the workspace model profile and the tokenizer used to size prompts
+     */
+    async getTokenizer(): Promise<TokenizerInfo> {
+        return await this.query('get_tokenizer', {});
+    }
+
+    /**
+     * Select the workspace model profile (persisted in .reasoning_rl4/tokenizer_config.json)
+     */
+    async setTokenizerModel(model: string): Promise<TokenizerInfo> {
+        return await this.query('set_tokenizer_model', { model });
+    }
+
     /**
      * Get auto tasks count
      */
@@ -399,11 +428,12 @@ export class KernelAPI {
     /**
      * Build time machine prompt
      */
-    async buildTimeMachinePrompt(startDate: string, endDate?: string): Promise<TimeMachineResult> {
+    async buildTimeMachinePrompt(startDate: string, endDate?: string, branch?: string): Promise<TimeMachineResult> {
         try {
             const data = await this.query('build_time_machine_prompt', {
                 startIso: startDate,
-                endIso: endDate
+                endIso: endDate,
+                branch
             }, 60000); // 60s timeout for time machine prompt generation
             return data;
         } catch (error) {
@@ -412,6 +442,36 @@ export class KernelAPI {
         }
     }
 
+    /**
+     * Build the explain_file prompt (MIL events, decisions, ADRs and commits touching a file)
+     */
+    async buildExplainFilePrompt(file: string): Promise<IntentPromptResult> {
+        return await this.query('build_explain_file_prompt', { file }, 60000);
+    }
+
+    /**
+     * Build the code_review prompt (uncommitted diff against accepted ADRs and current decisions)
+     */
+    async buildCodeReviewPrompt(): Promise<IntentPromptResult> {
+        return await this.query('build_code_review_prompt', {}, 60000);
+    }
+
+    /**
+     * Build the onboarding prompt (project summary, key decisions, accepted ADRs)
+     */
+    async buildOnboardingPrompt(): Promise<IntentPromptResult> {
+        return await this.query('build_onboarding_prompt', {}, 60000);
+    }
+
+    /**
+     * Get what RL4 knows about a file (event timeline, decisions with status, ADRs, commits)
+     * 
+     * Cached by the kernel until a new MIL event; `refresh` bypasses the cache
+     */
+    async getFileHistory(file: string, refresh: boolean = false): Promise<FileHistory> {
+        return await this.query('get_file_history', { file, refresh });
+    }
+
     /**
      * Get repository delta
      */
@@ -536,12 +596,12 @@ export class KernelAPI {
     }
 
     /**
-     * Install RL4 governance rules for LLM calibration
+     * Install RL4 governance rules for LLM calibration (configured assistants by default)
      */
-    async installRules(): Promise<RuleInstallationResult> {
+    async installRules(targets?: RuleTargetId[]): Promise<RuleInstallationResult> {
         try {
             const rulesInstaller = new RulesInstaller(this.workspaceRoot, this.extensionPath);
-            return await rulesInstaller.installRules();
+            return await rulesInstaller.installRules(targets);
         } catch (error) {
             this.logger.error(`[KernelAPI] Failed to install rules: ${error}`);
             return {
@@ -553,28 +613,28 @@ export class KernelAPI {
     }
 
     /**
-     * Verify RL4 rules installation status
+     * Verify RL4 rules installation status, per target
      */
-    async verifyRulesInstallation(): Promise<{ installed: string[]; missing: string[] }> {
+    async verifyRulesInstallation(): Promise<{ installed: string[]; missing: string[]; targets: RuleTargetStatus[] }> {
         try {
-            const rulesInstaller = new RulesInstaller(this.workspaceRoot);
+            const rulesInstaller = new RulesInstaller(this.workspaceRoot, this.extensionPath);
             return await rulesInstaller.verifyInstallation();
         } catch (error) {
             this.logger.error(`[KernelAPI] Failed to verify rules installation: ${error}`);
-            return { installed: [], missing: ['RL4.Agent.System.mdc', 'RL4.Core.mdc'] };
+            return { installed: [], missing: ['RL4.Agent.System.mdc', 'RL4.Core.mdc'], targets: [] };
         }
     }
 
     /**
-     * Check if rules need update
+     * Check if rules need update (version drift or local edits, per target)
      */
-    async rulesNeedUpdate(): Promise<boolean> {
+    async rulesNeedUpdate(): Promise<RulesUpdateReport> {
         try {
-            const rulesInstaller = new RulesInstaller(this.workspaceRoot);
-            return await rulesInstaller.needsUpdate();
+            const rulesInstaller = new RulesInstaller(this.workspaceRoot, this.extensionPath);
+            return await rulesInstaller.checkForUpdates();
         } catch (error) {
             this.logger.error(`[KernelAPI] Failed to check rules update status: ${error}`);
-            return true; // Err on side of caution
+            return { needsUpdate: true, version: 'unknown', targets: [] }; // Err on side of caution
         }
     }
 
@@ -678,11 +738,40 @@ export class KernelAPI {
      * Process LLM response and extract decisions
      * 
      * ⚠️ PHASE 4 : Extraction et stockage des décisions cognitives
+     * Without rcepRef, the kernel reads the signed [RL4-REF …] marker copied into the response.
      */
-    public async processLLMResponse(response: string, rcepRef: string): Promise<{ decisions: any[]; count: number }> {
+    public async processLLMResponse(response: string, rcepRef?: string): Promise<{ decisions: any[]; count: number; rcepRef: string; report: DecisionExtractionReport; updates: RL4UpdateProposal[] }> {
         return await this.query('process_llm_response', { response, rcepRef });
     }
 
+    /**
+     * Get the report of the last decision extraction (accepted / rejected with reasons)
+     */
+    public async getDecisionExtractionReport(): Promise<{ report: DecisionExtractionReport | null }> {
+        return await this.query('get_decision_extraction_report');
+    }
+
+    /**
+     * Get the pending Plan/Tasks/Context.RL4 updates proposed by LLM responses
+     */
+    public async getRL4Updates(): Promise<{ updates: RL4UpdateProposal[] }> {
+        return await this.query('get_rl4_updates');
+    }
+
+    /**
+     * Apply an approved RL4 update (WAL-protected write, recorded in the RBOM ledger)
+     */
+    public async applyRL4Update(id: string): Promise<{ update: RL4UpdateProposal }> {
+        return await this.query('apply_rl4_update', { id });
+    }
+
+    /**
+     * Discard a pending RL4 update (recorded in the RBOM ledger, file left untouched)
+     */
+    public async discardRL4Update(id: string): Promise<{ update: RL4UpdateProposal }> {
+        return await this.query('discard_rl4_update', { id });
+    }
+
     /**
      * Get decisions by time range
      * 
@@ -692,6 +781,33 @@ export class KernelAPI {
         return await this.query('get_decisions', { startTime, endTime });
     }
 
+    /**
+     * Get the decision lineage graph
+     * 
+     * Without decisionId: full graph within the time window.
+     * With decisionId: sub-graph of its ancestors ("what led to it") and descendants ("what depends on it").
+     */
+    public async getDecisionGraph(options: {
+        decisionId?: string;
+        startTime?: number;
+        endTime?: number;
+    } = {}): Promise<DecisionGraphData & {
+        decisionId?: string;
+        ancestors?: Array<{ id: string; depth: number }>;
+        descendants?: Array<{ id: string; depth: number }>;
+    }> {
+        return await this.query('get_decision_graph', options);
+    }
+
+    /**
+     * Get conflicting current decisions (same intent or shared files, different chosen option)
+     * 
+     * The most recent decision of each pair is reported as current.
+     */
+    public async getDecisionConflicts(startTime?: number, endTime?: number): Promise<{ conflicts: DecisionConflict[]; count: number }> {
+        return await this.query('get_decision_conflicts', { startTime, endTime });
+    }
+
     /**
      * Replay a cognitive trajectory deterministically
      * 
@@ -700,12 +816,83 @@ export class KernelAPI {
     public async replayTrajectory(startTime: number, endTime: number, anchorEventId?: string): Promise<{
         events: any[];
         decisions: any[];
+        rcepBlobCount: number;
         hash: string;
         timestamp: number;
     }> {
         return await this.query('replay_trajectory', { startTime, endTime, anchorEventId });
     }
 
+    /**
+     * Compare two replay trajectories
+     * 
+     * Each side is a window replayed now or a previously recorded replay (by hash);
+     * returns a structured diff of their CanonicalReplay objects.
+     */
+    public async replayDiff(a: ReplayTarget, b: ReplayTarget): Promise<{
+        a: { hash: string; startTime: number; endTime: number; timestamp: number };
+        b: { hash: string; startTime: number; endTime: number; timestamp: number };
+        diff: ReplayDiff;
+        recorded: Array<{ hash: string; startTime: number; endTime: number; timestamp: number }>;
+    }> {
+        return await this.query('replay_diff', { a, b });
+    }
+
+    /**
+     * Query MIL events with a compound query
+     * 
+     * Accepts a structured EventQuery or the string syntax
+     * (e.g. "type:file_modify,git_commit AND dir:kernel/memory since:7d limit:50")
+     */
+    public async queryEvents(query: EventQuery | string): Promise<{ events: any[]; count: number }> {
+        return await this.query('query_events', { query });
+    }
+
+    /**
+     * Full-text search over captured history (commits, chats, ADRs, decisions)
+     * 
+     * BM25-ranked, optionally restricted to document kinds and a time window
+     */
+    public async searchHistory(query: string, options: {
+        limit?: number;
+        kinds?: TextDocumentKind[];
+        startTime?: number;
+        endTime?: number;
+    } = {}): Promise<{ hits: TextSearchHit[]; count: number }> {
+        return await this.query('search_history', { query, ...options });
+    }
+
+    /**
+     * Local git branches and the active one (null when HEAD is detached)
+     */
+    public async getGitBranches(): Promise<{ current: string | null; branches: string[] }> {
+        return await this.query('get_git_branches');
+    }
+
+    /**
+     * Why a workspace path is (not) ignored: decisive rule, source file and line
+     */
+    public async explainIgnore(filePath: string): Promise<IgnoreVerdict & { description: string }> {
+        return await this.query('explain_ignore', { path: filePath });
+    }
+
+    /**
+     * Size of each .reasoning_rl4/ subtree, per MemoryClass totals and quota state
+     */
+    public async getStorageReport(): Promise<StorageReport> {
+        return await this.query('get_storage_report');
+    }
+
+    /**
+     * Reclaim every eligible WARM/COLD file (rotated traces archived, stale snapshots removed),
+     * then enforce storage quotas (ARCHIVED only trimmed over quota, HOT never touched)
+     * 
+     * Archiving and deleting can take a while on large workspaces: longer timeout
+     */
+    public async reclaimStorage(): Promise<ReclaimResult> {
+        return await this.query('reclaim_storage', undefined, 120000);
+    }
+
     /**
      * ✅ P1.1: Dispose method to clean up EventEmitter listener
      * Idempotent - safe to call multiple times
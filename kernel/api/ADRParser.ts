@@ -20,6 +20,7 @@ import { z } from "zod";
 import { RBOMLedger } from "../rbom/RBOMLedger";
 import { ActivityReconstructor } from "./ActivityReconstructor";
 import { WriteTracker } from "../WriteTracker";
+import { TextDocument } from "../memory/TextIndex";
 
 export interface ADRRecord {
     id: string;
@@ -622,4 +623,38 @@ export class ADRParser {
             return [];
         }
     }
+
+    /**
+     * ADR bodies (markdown files + ledger) as full-text documents for MIL search
+     */
+    async getTextDocuments(): Promise<TextDocument[]> {
+        const docs: TextDocument[] = [];
+
+        for (const record of await this.loadAll()) {
+            docs.push({
+                id: `adr:${record.id}`,
+                kind: 'adr',
+                ref: record.id,
+                timestamp: Date.parse(record.createdAt || '') || fs.statSync(record.filePath).mtimeMs,
+                title: record.title,
+                text: [record.context, record.decision, record.consequences].filter(Boolean).join('\n')
+            });
+        }
+
+        for (const adr of this.getAllADRsFromLedger()) {
+            const consequences = adr.consequences
+                ? [...(adr.consequences.positive || []), ...(adr.consequences.negative || [])]
+                : [];
+            docs.push({
+                id: `adr:${adr.id}`,
+                kind: 'adr',
+                ref: adr.id,
+                timestamp: Date.parse(adr.date) || 0,
+                title: adr.title,
+                text: [adr.context, adr.decision, ...consequences].filter(Boolean).join('\n')
+            });
+        }
+
+        return docs;
+    }
 }
\ No newline at end of file
@@ -0,0 +1,160 @@
+/**
+ * CodeReviewPromptBuilder - Intent code_review : "Relis mon diff non commité"
+ *
+ * Le diff de travail (git diff HEAD + contenu des fichiers non suivis) est confronté aux ADRs acceptés
+ * et aux décisions courantes qui portent sur les fichiers modifiés. Le LLM doit signaler
+ * chaque écart en citant l'ADR ou la décision concernée.
+ */
+
+import { ILogger } from '../core/ILogger';
+import { CognitiveDecision } from '../cognitive/DecisionSchema';
+import { FileHistoryCollector } from './FileHistoryCollector';
+import { toPosixPath } from '../utils/GlobMatcher';
+import { AcceptedADR, IntentPromptResult, finalizeIntentPrompt, loadAcceptedADRs, runGit } from './IntentPrompt';
+
+const MAX_DIFF_CHARS = 60000;
+const RL4_DIR = '.reasoning_rl4';
+
+export interface WorkingTreeChange {
+    file: string;
+    status: string;             // Code porcelain (M, A, D, R, ??)
+}
+
+export class CodeReviewPromptBuilder {
+    constructor(
+        private workspaceRoot: string,
+        private collector: FileHistoryCollector,
+        private logger?: ILogger
+    ) {}
+
+    async build(): Promise<IntentPromptResult> {
+        const status = runGit(this.workspaceRoot, ['status', '--porcelain', '--untracked-files=all']);
+        if (status === null) {
+            throw new Error('No git repository detected: code review needs a working tree diff');
+        }
+        // État interne RL4 (.reasoning_rl4/) : jamais relu comme du code
+        const changes = parsePorcelainStatus(status).filter(c => !c.file.startsWith(`${RL4_DIR}/`));
+        if (changes.length === 0) {
+            throw new Error('No uncommitted changes to review');
+        }
+
+        // Dépôt sans commit : pas de HEAD, on prend l'index
+        const pathspec = ['--', '.', `:(exclude)${RL4_DIR}`];
+        const trackedDiff = runGit(this.workspaceRoot, ['diff', 'HEAD', '--unified=3', ...pathspec])
+            ?? runGit(this.workspaceRoot, ['diff', '--cached', '--unified=3', ...pathspec])
+            ?? '';
+        const diff = [trackedDiff.trim(), this.untrackedDiff(changes, MAX_DIFF_CHARS - trackedDiff.length)]
+            .filter(Boolean)
+            .join('\n');
+        const adrs = await loadAcceptedADRs(this.workspaceRoot);
+        const decisions = await this.collector.currentDecisionsFor(changes.map(c => c.file));
+        this.logger?.info(`[CodeReview] ${changes.length} changed file(s), ${adrs.length} accepted ADR(s), ${decisions.length} current decision(s)`);
+
+        return finalizeIntentPrompt(this.workspaceRoot, 'code_review', this.composePrompt(changes, diff, adrs, decisions), {
+            files: changes.length,
+            adrs: adrs.length,
+            decisions: decisions.length,
+            diffChars: diff.length
+        });
+    }
+
+    /**
+     * Fichiers non suivis : absents de `git diff HEAD`, rendus comme des ajouts (diff contre /dev/null)
+     * tant que le budget MAX_DIFF_CHARS le permet
+     */
+    private untrackedDiff(changes: WorkingTreeChange[], budget: number): string {
+        const untracked = changes.filter(c => c.status === '??');
+        const parts: string[] = [];
+        let shown = 0;
+        for (; shown < untracked.length && budget > 0; shown++) {
+            const fileDiff = runGit(this.workspaceRoot, ['diff', '--no-index', '--unified=3', '--', '/dev/null', untracked[shown].file], [1]) || '';
+            parts.push(fileDiff.trim());
+            budget -= fileDiff.length;
+        }
+        if (shown < untracked.length) {
+            parts.push(`... (${untracked.length - shown} untracked file(s) not shown: diff size limit reached)`);
+        }
+        return parts.filter(Boolean).join('\n');
+    }
+
+    private composePrompt(changes: WorkingTreeChange[], diff: string, adrs: AcceptedADR[], decisions: CognitiveDecision[]): string {
+        const sections: string[] = [];
+        sections.push('# RL4_AGENT_INTENT: CODE_REVIEW');
+        sections.push('');
+        sections.push('# RL4 CODE REVIEW — uncommitted changes');
+        sections.push('');
+        sections.push(`Generated: ${new Date().toISOString()}`);
+        sections.push('');
+        sections.push('---');
+        sections.push('');
+
+        sections.push(`## 1. Changed files (${changes.length})`);
+        sections.push('```');
+        sections.push(changes.map(c => `${c.status.padEnd(2)} ${c.file}`).join('\n'));
+        sections.push('```');
+        sections.push('');
+
+        sections.push('## 2. Diff against HEAD (untracked files shown as new files)');
+        sections.push('```diff');
+        if (diff.length > MAX_DIFF_CHARS) {
+            sections.push(diff.substring(0, MAX_DIFF_CHARS));
+            sections.push(`... (diff truncated: ${diff.length - MAX_DIFF_CHARS} more characters)`);
+        } else {
+            sections.push(diff.trim() || '(No textual changes.)');
+        }
+        sections.push('```');
+        sections.push('');
+
+        sections.push(`## 3. Accepted ADRs (${adrs.length})`);
+        if (adrs.length === 0) {
+            sections.push('No accepted ADR in this workspace.');
+        }
+        for (const adr of adrs) {
+            sections.push(`### [${adr.id}] ${adr.title}`);
+            sections.push(adr.decision.trim() || '(No decision text.)');
+            sections.push('');
+        }
+        sections.push('');
+
+        sections.push(`## 4. Current decisions on the changed files (${decisions.length})`);
+        if (decisions.length === 0) {
+            sections.push('No current decision references the changed files.');
+        }
+        for (const d of decisions) {
+            const files = d.context_refs.filter(ref => changes.some(c => c.file === toPosixPath(ref)));
+            sections.push(`- [${d.id}] ${d.intent_text || d.intent} → ${d.chosen_option || '(no option)'} (files: ${files.join(', ')})`);
+            for (const constraint of d.constraints || []) {
+                sections.push(`  Constraint: ${constraint}`);
+            }
+        }
+        sections.push('');
+
+        sections.push('---');
+        sections.push('');
+        sections.push('## Your task');
+        sections.push('');
+        sections.push('Review the diff against the accepted ADRs and current decisions above:');
+        sections.push('1. List every change that contradicts an ADR or a decision, citing its id and the file/hunk.');
+        sections.push('2. List changes that should be backed by a new decision or ADR (new dependency, new pattern, changed contract).');
+        sections.push('3. Then give a short general review (bugs, missing tests), separately from governance findings.');
+        sections.push('');
+        sections.push('Format governance findings as a table: | Severity (blocker/warning/info) | File | ADR or decision id | Finding |.');
+        sections.push('Only cite ADR and decision ids listed above; write "none" when nothing applies.');
+
+        return sections.join('\n');
+    }
+}
+
+/**
+ * "XY path" / "R  old -> new" → fichiers modifiés (chemin de destination pour les renommages)
+ */
+export function parsePorcelainStatus(output: string): WorkingTreeChange[] {
+    return output
+        .split('\n')
+        .filter(line => line.length > 3)
+        .map(line => {
+            const status = line.substring(0, 2).trim() || 'M';
+            const target = line.substring(3).split(' -> ').pop()!.replace(/^"(.*)"$/, '$1');
+            return { file: target, status };
+        });
+}
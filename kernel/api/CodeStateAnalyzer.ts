@@ -2,6 +2,7 @@ import * as fs from "fs";
 import * as path from "path";
 import { RL4Event, MessageType } from "../legacy/rl4/RL4Messages";
 import { RL4Dictionary } from "../legacy/rl4/RL4Dictionary";
+import { IgnoreEngine } from "../utils/IgnoreEngine";
 
 /**
  * CodeStateAnalyzer - RL6 Deterministic Codebase State Engine
@@ -91,16 +92,21 @@ export class CodeStateAnalyzer {
     }
 
     /***********************************************************************************************
-     * STEP 1 — File scanning (deterministic, recursive, TS/JS only)
+     * STEP 1 — File scanning (deterministic, recursive, TS/JS only, .gitignore/.rl4ignore honored)
      ***********************************************************************************************/
     private scanFiles(root: string): string[] {
         const result: string[] = [];
+        const ignore = new IgnoreEngine(root);
 
         const walk = (dir: string) => {
             for (const entry of fs.readdirSync(dir)) {
                 const full = path.join(dir, entry);
                 const stat = fs.statSync(full);
 
+                if (ignore.isIgnored(full, stat.isDirectory())) {
+                    continue;
+                }
+
                 if (stat.isDirectory()) {
                     walk(full);
                     continue;
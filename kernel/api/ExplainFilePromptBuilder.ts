@@ -0,0 +1,121 @@
+/**
+ * ExplainFilePromptBuilder - Intent explain_file : "Explique l'histoire de ce fichier"
+ *
+ * Le prompt réunit l'historique collecté par FileHistoryCollector (événements MIL, décisions,
+ * ADRs, commits) et demande au LLM d'expliquer pourquoi le fichier est tel qu'il est,
+ * en citant ses sources (id d'événement, de décision, d'ADR ou hash de commit).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ILogger } from '../core/ILogger';
+import { FileHistory, FileHistoryCollector } from './FileHistoryCollector';
+import { IntentPromptResult, finalizeIntentPrompt } from './IntentPrompt';
+
+const MAX_EXCERPT_LINES = 80;
+
+export class ExplainFilePromptBuilder {
+    constructor(
+        private workspaceRoot: string,
+        private collector: FileHistoryCollector,
+        private logger?: ILogger
+    ) {}
+
+    async build(options: { file: string }): Promise<IntentPromptResult> {
+        if (!options?.file) {
+            throw new Error('Missing file');
+        }
+        const history = await this.collector.collect(options.file);
+        const excerpt = this.readExcerpt(history.file);
+        this.logger?.info(`[ExplainFile] ${history.file}: ${history.totalEvents} event(s), ${history.decisions.length} decision(s), ${history.adrs.length} ADR(s), ${history.commits.length} commit(s)`);
+
+        return finalizeIntentPrompt(this.workspaceRoot, 'explain_file', this.composePrompt(history, excerpt), {
+            events: history.totalEvents,
+            decisions: history.decisions.length,
+            adrs: history.adrs.length,
+            commits: history.commits.length
+        });
+    }
+
+    private composePrompt(history: FileHistory, excerpt: string | null): string {
+        const sections: string[] = [];
+        sections.push('# RL4_AGENT_INTENT: EXPLAIN_FILE');
+        sections.push('');
+        sections.push(`# RL4 FILE HISTORY — ${history.file}`);
+        sections.push('');
+        sections.push(`Generated: ${new Date().toISOString()}`);
+        sections.push('');
+        sections.push('---');
+        sections.push('');
+
+        sections.push('## 1. Commits touching this file (git, most recent first)');
+        sections.push('```');
+        sections.push(history.commits.length > 0
+            ? history.commits.map(c => `${c.hash} ${c.date} ${c.author}: ${c.subject}`).join('\n')
+            : 'No git history for this file.');
+        sections.push('```');
+        sections.push('');
+
+        sections.push('## 2. Cognitive decisions referencing this file');
+        if (history.decisions.length === 0) {
+            sections.push('No recorded decision references this file.');
+        }
+        for (const d of history.decisions) {
+            sections.push(`- [${d.id}] ${new Date(d.timestamp).toISOString().split('T')[0]} ${d.intent_text || d.intent} → ${d.chosen_option || '(no option)'} (confidence ${d.confidence_llm}%, ${d.status})`);
+        }
+        sections.push('');
+
+        sections.push('## 3. ADRs mentioning this file or linked by its decisions');
+        if (history.adrs.length === 0) {
+            sections.push('No ADR mentions this file.');
+        }
+        for (const adr of history.adrs) {
+            sections.push(`- [${adr.id}] ${adr.title} (${adr.status}, matched by ${adr.match})`);
+            if (adr.decision) {
+                sections.push(`  Decision: ${adr.decision.replace(/\s+/g, ' ').substring(0, 300)}`);
+            }
+        }
+        sections.push('');
+
+        sections.push(`## 4. MIL events (${history.events.length} of ${history.totalEvents}, most recent first)`);
+        sections.push('```');
+        sections.push(history.events.length > 0
+            ? history.events.map(e => `[${new Date(e.timestamp).toISOString()}] ${e.type} (${e.source}) ${e.id}${e.summary ? ` — ${e.summary}` : ''}`).join('\n')
+            : 'No MIL event recorded for this file.');
+        sections.push('```');
+        sections.push('');
+
+        if (excerpt !== null) {
+            sections.push(`## 5. Current content (first ${MAX_EXCERPT_LINES} lines)`);
+            sections.push('```');
+            sections.push(excerpt);
+            sections.push('```');
+            sections.push('');
+        }
+
+        sections.push('---');
+        sections.push('');
+        sections.push('## Your task');
+        sections.push('');
+        sections.push(`Explain the history of \`${history.file}\` to a developer about to change it:`);
+        sections.push('1. What the file is for and how it reached its current shape (phases, turning points).');
+        sections.push('2. Which decisions and ADRs constrain it, and which of them are invalidated or superseded.');
+        sections.push('3. What to be careful about when modifying it.');
+        sections.push('');
+        sections.push('Cite every claim with its source: commit hash, decision id, ADR id or MIL event id. Do not invent history that is not listed above.');
+
+        return sections.join('\n');
+    }
+
+    private readExcerpt(file: string): string | null {
+        const fullPath = path.join(this.workspaceRoot, file);
+        try {
+            if (!fs.existsSync(fullPath) || !fs.statSync(fullPath).isFile()) {
+                return null;
+            }
+            return fs.readFileSync(fullPath, 'utf8').split('\n').slice(0, MAX_EXCERPT_LINES).join('\n');
+        } catch {
+            return null;
+        }
+    }
+}
@@ -0,0 +1,256 @@
+/**
+ * FileHistoryCollector - Historique d'un fichier à travers les mémoires RL4
+ *
+ * Réunit pour un fichier :
+ *   - les événements MIL (MIL.queryByFile)
+ *   - les décisions cognitives dont les context_refs citent le fichier (avec leur statut)
+ *   - les ADRs dont les components le couvrent, qui le mentionnent ou que ces décisions référencent
+ *   - les commits git qui l'ont modifié (git log --follow)
+ *
+ * Utilisé par les intents explain_file et code_review, et par la vue RL4 File History.
+ * Résultat mis en cache par fichier tant qu'aucun événement n'est ingéré dans MIL.
+ *
+ * ⚠️ ZERO-INTELLIGENCE : correspondances textuelles sur les chemins, aucune interprétation.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ILogger } from '../core/ILogger';
+import { MIL } from '../memory/MIL';
+import { EventType } from '../memory/types';
+import { eventToTextDocument } from '../memory/TextIndex';
+import { DecisionStore, DecisionStatus } from '../cognitive/DecisionStore';
+import { CognitiveDecision } from '../cognitive/DecisionSchema';
+import { ADR } from '../cognitive/types';
+import { ADRParser } from './ADRParser';
+import { runGitAsync } from './IntentPrompt';
+import { LRUCache } from '../utils/LRUCache';
+import { isGlobPattern, matchesGlob, toPosixPath } from '../utils/GlobMatcher';
+
+const MAX_EVENTS = 50;
+const MAX_COMMITS = 20;
+const MAX_CACHED_FILES = 50;
+
+export interface FileHistoryEvent {
+    id: string;
+    timestamp: number;
+    type: string;
+    source: string;
+    summary: string;            // Message de commit, commande, message de build ('' si aucun)
+}
+
+export interface FileHistoryDecision {
+    id: string;
+    timestamp: number;
+    intent: string;
+    intent_text: string;
+    chosen_option: string;
+    confidence_llm: number;
+    confidence_gate: 'pass' | 'fail';
+    status: DecisionStatus;
+    related_adrs: string[];
+}
+
+export interface FileHistoryADR {
+    id: string;
+    title: string;
+    status: string;
+    decision: string;
+    match: 'component' | 'path' | 'basename' | 'decision';   // components de l'ADR, chemin cité, nom de fichier cité, ou lié par une décision
+}
+
+export interface FileHistoryCommit {
+    hash: string;
+    date: string;               // YYYY-MM-DD
+    author: string;
+    subject: string;
+}
+
+export interface FileHistory {
+    file: string;               // Chemin relatif au workspace (POSIX)
+    events: FileHistoryEvent[];          // Plus récents d'abord
+    decisions: FileHistoryDecision[];    // Plus récentes d'abord
+    adrs: FileHistoryADR[];
+    commits: FileHistoryCommit[];        // Plus récents d'abord
+    totalEvents: number;                 // Avant troncature
+}
+
+export class FileHistoryCollector {
+    private cache = new LRUCache<string, { revision: number; history: FileHistory }>(MAX_CACHED_FILES);
+
+    constructor(
+        private workspaceRoot: string,
+        private mil?: MIL,
+        private decisionStore?: DecisionStore,
+        private logger?: ILogger
+    ) {}
+
+    /**
+     * Chemin relatif POSIX (accepte un chemin absolu sous le workspace)
+     */
+    normalize(filePath: string): string {
+        const relative = path.isAbsolute(filePath) ? path.relative(this.workspaceRoot, filePath) : filePath;
+        if (!relative || relative.startsWith('..')) {
+            throw new Error(`File is outside the workspace: ${filePath}`);
+        }
+        return toPosixPath(relative);
+    }
+
+    /**
+     * @param options.refresh - ignorer le cache (sauvegarde du fichier, rafraîchissement manuel)
+     */
+    async collect(filePath: string, options: { refresh?: boolean } = {}): Promise<FileHistory> {
+        const file = this.normalize(filePath);
+        const revision = this.mil?.getRevision() ?? 0;
+        const cached = this.cache.get(file);
+        if (cached && cached.revision === revision && !options.refresh) {
+            return cached.history;
+        }
+
+        const allEvents = await this.collectEvents(file);
+        const decisions = await this.collectDecisions(file);
+        const adrs = await this.collectADRs(file, decisions);
+        const commits = await this.collectCommits(file);
+
+        const history: FileHistory = {
+            file,
+            events: allEvents.slice(0, MAX_EVENTS),
+            decisions,
+            adrs,
+            commits,
+            totalEvents: allEvents.length
+        };
+        this.cache.set(file, { revision, history });
+        return history;
+    }
+
+    /**
+     * Décisions courantes (gate 'pass', ni invalidées ni remplacées) citant l'un des fichiers
+     */
+    async currentDecisionsFor(files: string[]): Promise<CognitiveDecision[]> {
+        if (!this.decisionStore || files.length === 0) {
+            return [];
+        }
+        const wanted = new Set(files.map(f => this.normalize(f)));
+        const current: CognitiveDecision[] = [];
+        for (const decision of await this.decisionStore.getByTimeRange(0, Date.now())) {
+            if (decision.confidence_gate !== 'pass') continue;
+            if (!(decision.context_refs || []).some(ref => wanted.has(toPosixPath(ref)))) continue;
+            const withStatus = await this.decisionStore.getDecisionWithStatus(decision.id);
+            if (withStatus?.status === 'invalidated' || withStatus?.status === 'superseded') continue;
+            current.push(decision);
+        }
+        return current;
+    }
+
+    private async collectEvents(file: string): Promise<FileHistoryEvent[]> {
+        if (!this.mil) {
+            return [];
+        }
+        try {
+            const orphaned = await this.mil.getOrphanedCommits();
+            return (await this.mil.queryByFile(file))
+                .filter(e => !(e.type === EventType.GIT_COMMIT && orphaned.has(e.payload?.metadata?.commit?.hash)))
+                .sort((a, b) => b.timestamp - a.timestamp)
+                .map(event => ({
+                    id: event.id,
+                    timestamp: event.timestamp,
+                    type: event.type,
+                    source: event.source,
+                    summary: eventToTextDocument(event)?.title || ''
+                }));
+        } catch (error) {
+            this.logger?.warning(`[FileHistoryCollector] Failed to query MIL for ${file}: ${error}`);
+            return [];
+        }
+    }
+
+    private async collectDecisions(file: string): Promise<FileHistoryDecision[]> {
+        if (!this.decisionStore) {
+            return [];
+        }
+        const decisions: FileHistoryDecision[] = [];
+        for (const decision of await this.decisionStore.getByTimeRange(0, Date.now())) {
+            if (!(decision.context_refs || []).some(ref => toPosixPath(ref) === file)) continue;
+            const withStatus = await this.decisionStore.getDecisionWithStatus(decision.id);
+            decisions.push({
+                id: decision.id,
+                timestamp: decision.timestamp,
+                intent: decision.intent,
+                intent_text: decision.intent_text,
+                chosen_option: decision.chosen_option,
+                confidence_llm: decision.confidence_llm,
+                confidence_gate: decision.confidence_gate,
+                status: withStatus?.status || 'valid',
+                related_adrs: decision.related_adrs || []
+            });
+        }
+        return decisions.sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    private async collectADRs(file: string, decisions: FileHistoryDecision[]): Promise<FileHistoryADR[]> {
+        const parser = new ADRParser(this.workspaceRoot);
+        const linked = new Set(decisions.flatMap(d => d.related_adrs));
+        const basename = path.posix.basename(file);
+        const adrs = new Map<string, FileHistoryADR>();
+
+        const consider = (id: string, title: string, status: string, decision: string, text: string, components: string[] = []) => {
+            const match: FileHistoryADR['match'] | null = components.some(c => coversFile(c, file)) ? 'component'
+                : text.includes(file) ? 'path'
+                : text.includes(basename) ? 'basename'
+                : linked.has(id) ? 'decision'
+                : null;
+            if (match && !adrs.has(id)) {
+                adrs.set(id, { id, title, status, decision, match });
+            }
+        };
+
+        try {
+            // ADRs générés (.reasoning_rl4/adrs/auto/*.json) : components déclarés explicitement
+            const autoDir = path.join(this.workspaceRoot, '.reasoning_rl4', 'adrs', 'auto');
+            for (const fileName of fs.existsSync(autoDir) ? fs.readdirSync(autoDir).filter(f => f.endsWith('.json')) : []) {
+                try {
+                    const adr = JSON.parse(fs.readFileSync(path.join(autoDir, fileName), 'utf8')) as Partial<ADR>;
+                    consider(adr.id || fileName.replace('.json', ''), adr.title || 'ADR', adr.status || 'proposed', adr.decision || '',
+                        [adr.title, adr.context, adr.decision, adr.consequences].join('\n'), Array.isArray(adr.components) ? adr.components : []);
+                } catch (error) {
+                    this.logger?.warning(`[FileHistoryCollector] Failed to parse ADR ${fileName}: ${error}`);
+                }
+            }
+            for (const record of await parser.loadAll()) {
+                consider(record.id, record.title.split('\n')[0], record.status.split('\n')[0], record.decision,
+                    [record.title, record.context, record.decision, record.consequences].join('\n'));
+            }
+            for (const adr of parser.getAllADRsFromLedger()) {
+                const consequences = adr.consequences
+                    ? [...(adr.consequences.positive || []), ...(adr.consequences.negative || [])]
+                    : [];
+                consider(adr.id, adr.title, adr.status, adr.decision,
+                    [adr.title, adr.context, adr.decision, ...consequences].join('\n'));
+            }
+        } catch (error) {
+            this.logger?.warning(`[FileHistoryCollector] Failed to load ADRs: ${error}`);
+        }
+
+        return [...adrs.values()];
+    }
+
+    private async collectCommits(file: string): Promise<FileHistoryCommit[]> {
+        // Git absent ou hors dépôt : pas d'historique de commits
+        const output = ((await runGitAsync(this.workspaceRoot, ['log', '--follow', `-n${MAX_COMMITS}`, '--format=%h%x1f%ad%x1f%an%x1f%s', '--date=short', '--', file])) || '').trim();
+        return output ? output.split('\n').map(line => {
+            const [hash, date, author, subject] = line.split('\x1f');
+            return { hash, date, author, subject };
+        }) : [];
+    }
+}
+
+/**
+ * Un component d'ADR couvre le fichier : chemin exact, dossier parent ou glob
+ */
+function coversFile(component: string, file: string): boolean {
+    const normalized = toPosixPath(component).replace(/\/$/, '');
+    if (!normalized) return false;
+    if (isGlobPattern(normalized)) return matchesGlob(file, normalized);
+    return file === normalized || file.startsWith(`${normalized}/`);
+}
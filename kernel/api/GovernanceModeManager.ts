@@ -95,9 +95,9 @@ export class GovernanceModeManager {
             const writeTracker = WriteTracker.getInstance();
             writeTracker.markInternalWrite(this.contextPath);
 
-            // Write-Ahead Log
-            const workspaceRoot = path.dirname(this.rl4Path);
-            WriteAheadLog.getInstance(workspaceRoot).logSync('Context.RL4', newContent);
+            // Write-Ahead Log (rl4Path = <ws>/.reasoning_rl4/governance, entry relative to .reasoning_rl4)
+            const rl4Dir = path.dirname(this.rl4Path);
+            WriteAheadLog.getInstance(path.dirname(rl4Dir)).logSync(path.relative(rl4Dir, this.contextPath), newContent);
 
             // Atomic write
             AtomicFS.writeAtomicSync(this.contextPath, newContent);
@@ -0,0 +1,103 @@
+/**
+ * IntentPrompt - Éléments communs aux prompts d'intent (explain_file, code_review, onboarding)
+ *
+ * Chaque intent a son builder ; ils partagent la forme du résultat, la mesure en tokens
+ * (tokenizer du workspace) et la lecture des ADRs acceptés.
+ */
+
+import { execFile, execFileSync } from 'child_process';
+import { ADRParser } from './ADRParser';
+import { resolveModelProfile, tokenizerFor } from './TokenBudget';
+import { loadTokenizerConfig } from '../config/TokenizerConfig';
+import { KernelIntent } from '../core/KernelIntent';
+
+export interface IntentPromptResult {
+    prompt: string;
+    intent: KernelIntent['kind'];
+    metrics: {
+        finalBytes: number;
+        finalTokens: number;
+        tokenizer: string;          // Tokenizer id used for finalTokens
+        tokensExact: boolean;       // false when estimated (no vocabulary available)
+        sections: Record<string, number>;   // Items per section (events, decisions, adrs, ...)
+    };
+}
+
+export interface AcceptedADR {
+    id: string;
+    title: string;
+    decision: string;
+    source: 'file' | 'ledger';
+}
+
+/**
+ * Mesurer le prompt final avec le tokenizer du workspace
+ */
+export function finalizeIntentPrompt(
+    workspaceRoot: string,
+    intent: KernelIntent['kind'],
+    prompt: string,
+    sections: Record<string, number>
+): IntentPromptResult {
+    const tokenizer = tokenizerFor(resolveModelProfile(loadTokenizerConfig(workspaceRoot).model));
+    return {
+        prompt,
+        intent,
+        metrics: {
+            finalBytes: Buffer.byteLength(prompt, 'utf-8'),
+            finalTokens: tokenizer.count(prompt),
+            tokenizer: tokenizer.id,
+            tokensExact: tokenizer.exact,
+            sections
+        }
+    };
+}
+
+/**
+ * ADRs au statut accepté (fichiers .reasoning_rl4/adrs, docs/adr, adr + ledger adrs.jsonl)
+ */
+export async function loadAcceptedADRs(workspaceRoot: string): Promise<AcceptedADR[]> {
+    const parser = new ADRParser(workspaceRoot);
+    const accepted = new Map<string, AcceptedADR>();
+
+    for (const record of await parser.loadAll()) {
+        if (/^accepted\b/i.test(record.status.trim())) {
+            accepted.set(record.id, { id: record.id, title: record.title.split('\n')[0], decision: record.decision, source: 'file' });
+        }
+    }
+    for (const adr of parser.getAllADRsFromLedger()) {
+        if (adr.status === 'accepted' && !accepted.has(adr.id)) {
+            accepted.set(adr.id, { id: adr.id, title: adr.title, decision: adr.decision, source: 'ledger' });
+        }
+    }
+
+    return [...accepted.values()];
+}
+
+/**
+ * Sortie d'une commande git (null si git absent ou hors dépôt)
+ * `okExitCodes` : codes de sortie non nuls attendus (ex. 1 pour `git diff --no-index` avec différences)
+ */
+export function runGit(workspaceRoot: string, args: string[], okExitCodes: number[] = []): string | null {
+    try {
+        return execFileSync('git', args, {
+            cwd: workspaceRoot,
+            encoding: 'utf8',
+            stdio: ['ignore', 'pipe', 'ignore'],
+            maxBuffer: 16 * 1024 * 1024
+        });
+    } catch (error: any) {
+        return okExitCodes.includes(error?.status) && typeof error.stdout === 'string' ? error.stdout : null;
+    }
+}
+
+/**
+ * runGit sans bloquer la boucle d'événements du kernel (requêtes fréquentes, ex. vue File History)
+ */
+export function runGitAsync(workspaceRoot: string, args: string[]): Promise<string | null> {
+    return new Promise(resolve => {
+        execFile('git', args, { cwd: workspaceRoot, encoding: 'utf8', maxBuffer: 16 * 1024 * 1024 }, (error, stdout) => {
+            resolve(error ? null : stdout);
+        });
+    });
+}
@@ -0,0 +1,173 @@
+/**
+ * OnboardingPromptBuilder - Intent onboarding : "Présente le projet à un nouvel arrivant"
+ *
+ * Le prompt réunit le résumé du projet (README, structure, Plan/Tasks/Context.RL4),
+ * les décisions clés encore courantes, les ADRs acceptés et l'activité git récente,
+ * et demande au LLM un brief d'onboarding sourcé.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ILogger } from '../core/ILogger';
+import { DecisionStore } from '../cognitive/DecisionStore';
+import { CognitiveDecision } from '../cognitive/DecisionSchema';
+import { PlanTasksContextParser } from './PlanTasksContextParser';
+import { IgnoreEngine } from '../utils/IgnoreEngine';
+import { IntentPromptResult, finalizeIntentPrompt, loadAcceptedADRs, runGit } from './IntentPrompt';
+
+const MAX_README_LINES = 60;
+const MAX_KEY_DECISIONS = 15;
+const MAX_RECENT_COMMITS = 15;
+
+export class OnboardingPromptBuilder {
+    constructor(
+        private workspaceRoot: string,
+        private planParser: PlanTasksContextParser,
+        private decisionStore?: DecisionStore,
+        private logger?: ILogger
+    ) {}
+
+    async build(): Promise<IntentPromptResult> {
+        const decisions = await this.collectKeyDecisions();
+        const adrs = await loadAcceptedADRs(this.workspaceRoot);
+        const commits = (runGit(this.workspaceRoot, ['log', `-n${MAX_RECENT_COMMITS}`, '--format=%h %ad %an: %s', '--date=short']) || '').trim();
+        const sections: string[] = [];
+
+        sections.push('# RL4_AGENT_INTENT: ONBOARDING');
+        sections.push('');
+        sections.push(`# RL4 ONBOARDING BRIEF — ${path.basename(this.workspaceRoot)}`);
+        sections.push('');
+        sections.push(`Generated: ${new Date().toISOString()}`);
+        sections.push('');
+        sections.push('---');
+        sections.push('');
+
+        sections.push(...this.composeProjectSummary());
+
+        sections.push(`## 3. Key decisions still in force (${decisions.length}, highest confidence first)`);
+        if (decisions.length === 0) {
+            sections.push('No current cognitive decision recorded yet.');
+        }
+        for (const d of decisions) {
+            const files = d.context_refs.filter(ref => /[\\/]|\.[a-z0-9]{1,8}$/i.test(ref)).slice(0, 3);
+            sections.push(`- [${d.id}] ${d.intent_text || d.intent} → ${d.chosen_option || '(no option)'} (${d.confidence_llm}%${files.length > 0 ? `, ${files.join(', ')}` : ''})`);
+        }
+        sections.push('');
+
+        sections.push(`## 4. Accepted ADRs (${adrs.length})`);
+        if (adrs.length === 0) {
+            sections.push('No accepted ADR in this workspace.');
+        }
+        for (const adr of adrs) {
+            sections.push(`- [${adr.id}] ${adr.title}: ${adr.decision.replace(/\s+/g, ' ').substring(0, 200)}`);
+        }
+        sections.push('');
+
+        sections.push('## 5. Recent commits');
+        sections.push('```');
+        sections.push(commits || 'No git history available.');
+        sections.push('```');
+        sections.push('');
+
+        sections.push('---');
+        sections.push('');
+        sections.push('## Your task');
+        sections.push('');
+        sections.push('Write an onboarding brief for a developer joining this project today:');
+        sections.push('1. What the project does and where it stands (phase, goal, active work, blockers).');
+        sections.push('2. How the code is organized and where to start reading.');
+        sections.push('3. The decisions and ADRs a newcomer must respect, and why they were taken.');
+        sections.push('4. A first-week reading and task list.');
+        sections.push('');
+        sections.push('Cite decision ids and ADR ids for every rule you state. Do not invent decisions that are not listed above.');
+
+        const prompt = sections.join('\n');
+        this.logger?.info(`[Onboarding] ${decisions.length} key decision(s), ${adrs.length} accepted ADR(s)`);
+        return finalizeIntentPrompt(this.workspaceRoot, 'onboarding', prompt, {
+            decisions: decisions.length,
+            adrs: adrs.length,
+            commits: commits ? commits.split('\n').length : 0
+        });
+    }
+
+    private composeProjectSummary(): string[] {
+        const lines: string[] = [];
+        const plan = this.planParser.parsePlan();
+        const tasks = this.planParser.parseTasks();
+        const context = this.planParser.parseContext();
+
+        lines.push('## 1. Project state (Plan / Tasks / Context.RL4)');
+        if (plan) {
+            lines.push(`- Phase: ${plan.phase}`);
+            lines.push(`- Goal: ${plan.goal}`);
+            lines.push(`- Timeline: ${plan.timeline.start} → ${plan.timeline.target}`);
+            for (const criterion of plan.successCriteria) {
+                lines.push(`- Success criterion: ${criterion}`);
+            }
+            for (const constraint of plan.constraints) {
+                lines.push(`- Constraint: ${constraint}`);
+            }
+        }
+        if (tasks) {
+            for (const task of tasks.active.filter(t => !t.completed)) {
+                lines.push(`- Active task: ${task.task}`);
+            }
+            for (const blocker of tasks.blockers) {
+                lines.push(`- Blocker: ${blocker}`);
+            }
+        }
+        if (context && context.activeFiles.length > 0) {
+            lines.push(`- Active files: ${context.activeFiles.slice(0, 10).join(', ')}`);
+        }
+        lines.push('');
+
+        lines.push('## 2. Repository overview');
+        const readme = ['README.md', 'readme.md', 'README'].map(name => path.join(this.workspaceRoot, name)).find(p => fs.existsSync(p));
+        if (readme) {
+            lines.push(`### ${path.basename(readme)} (first ${MAX_README_LINES} lines)`);
+            lines.push('```markdown');
+            lines.push(fs.readFileSync(readme, 'utf8').split('\n').slice(0, MAX_README_LINES).join('\n'));
+            lines.push('```');
+        }
+        lines.push('### Top-level layout');
+        lines.push('```');
+        lines.push(this.listTopLevel().join('\n') || '(empty)');
+        lines.push('```');
+        lines.push('');
+        return lines;
+    }
+
+    /**
+     * Décisions courantes (gate 'pass', ni invalidées ni remplacées), confiance décroissante puis récence
+     */
+    private async collectKeyDecisions(): Promise<CognitiveDecision[]> {
+        if (!this.decisionStore) {
+            return [];
+        }
+        const current: CognitiveDecision[] = [];
+        for (const decision of await this.decisionStore.getByTimeRange(0, Date.now())) {
+            if (decision.confidence_gate !== 'pass') continue;
+            const withStatus = await this.decisionStore.getDecisionWithStatus(decision.id);
+            if (withStatus?.status === 'invalidated' || withStatus?.status === 'superseded') continue;
+            current.push(decision);
+        }
+        return current
+            .sort((a, b) => b.confidence_llm - a.confidence_llm || b.timestamp - a.timestamp)
+            .slice(0, MAX_KEY_DECISIONS);
+    }
+
+    /**
+     * Entrées de premier niveau non exclues par IgnoreEngine (.gitignore, .rl4ignore, défauts RL4)
+     */
+    private listTopLevel(): string[] {
+        const ignoreEngine = new IgnoreEngine(this.workspaceRoot);
+        try {
+            return fs.readdirSync(this.workspaceRoot, { withFileTypes: true })
+                .filter(entry => !ignoreEngine.isIgnored(entry.name, entry.isDirectory()))
+                .sort((a, b) => Number(b.isDirectory()) - Number(a.isDirectory()) || a.name.localeCompare(b.name))
+                .map(entry => entry.isDirectory() ? `${entry.name}/` : entry.name);
+        } catch {
+            return [];
+        }
+    }
+}
@@ -191,10 +191,11 @@ export class PlanTasksContextParser {
         
         active: this.parseTaskList(markdown, '## Active'),
         blockers: this.extractListItems(markdown, '## Blockers'),
-        completed: this.parseTaskList(markdown, '## Completed').map(t => ({
-          task: t.task,
-          timestamp: t.timestamp || 'unknown'
-        }))
+        // Written as "## Completed (last 24h)" / "- task (timestamp)" by saveTasks
+        completed: this.extractListItems(markdown, '## Completed \\(last 24h\\)').map(item => {
+          const match = item.match(/^(.*?)\s*\(([^()]*)\)$/);
+          return { task: match ? match[1] : item, timestamp: match ? match[2] : 'unknown' };
+        })
       };
     } catch (error) {
       console.error('[PlanTasksContextParser] Error parsing Tasks.RL4:', error);
@@ -553,23 +554,16 @@ export class PlanTasksContextParser {
   }
 
   /**
-   * Save Plan.RL4 to disk
+   * Render Plan.RL4 content (frontmatter + Markdown) without writing it
    */
-  savePlan(data: PlanData): boolean {
-    const planPath = path.join(this.rl4Path, 'Plan.RL4');
-    
-    try {
-      // ✅ P0-HOTFIX: Mark as internal write BEFORE writing
-      const writeTracker = WriteTracker.getInstance();
-      writeTracker.markInternalWrite(planPath);
-      
-      const frontmatter = {
-        version: data.version,
-        updated: data.updated,
-        confidence: data.confidence
-      };
+  renderPlan(data: PlanData): string {
+    const frontmatter = {
+      version: data.version,
+      updated: data.updated,
+      confidence: data.confidence
+    };
 
-      const content = `---
+    return `---
 ${yaml.dump(frontmatter).trim()}
 ---
 
@@ -590,10 +584,32 @@ ${data.successCriteria.map(c => `- ${c}`).join('\n')}
 
 ${data.constraints.length > 0 ? `## Constraints\n${data.constraints.map(c => `- ${c}`).join('\n')}` : ''}
 `;
+  }
+
+  /**
+   * Log a governance file write in the workspace WAL (<ws>/.reasoning_rl4/wal.jsonl)
+   * rl4Path = <ws>/.reasoning_rl4/governance : the entry is relative to .reasoning_rl4
+   */
+  private logWal(filePath: string, content: string): void {
+    const rl4Dir = path.dirname(this.rl4Path);
+    WriteAheadLog.getInstance(path.dirname(rl4Dir)).logSync(path.relative(rl4Dir, filePath), content);
+  }
+
+  /**
+   * Save Plan.RL4 to disk
+   */
+  savePlan(data: PlanData): boolean {
+    const planPath = path.join(this.rl4Path, 'Plan.RL4');
+    
+    try {
+      // ✅ P0-HOTFIX: Mark as internal write BEFORE writing
+      const writeTracker = WriteTracker.getInstance();
+      writeTracker.markInternalWrite(planPath);
+      
+      const content = this.renderPlan(data);
 
       // ✅ P0-CONSISTENCY: Write-Ahead Log
-      const workspaceRoot = path.dirname(this.rl4Path);
-      WriteAheadLog.getInstance(workspaceRoot).logSync('Plan.RL4', content);
+      this.logWal(planPath, content);
 
       AtomicFS.writeAtomicSync(planPath, content);
       console.log('[PlanTasksContextParser] ✅ Plan.RL4 saved (WAL + AtomicFS)');
@@ -605,23 +621,16 @@ ${data.constraints.length > 0 ? `## Constraints\n${data.constraints.map(c => `-
   }
 
   /**
-   * Save Tasks.RL4 to disk
+   * Render Tasks.RL4 content (frontmatter + Markdown) without writing it
    */
-  saveTasks(data: TasksData): boolean {
-    const tasksPath = path.join(this.rl4Path, 'Tasks.RL4');
-    
-    try {
-      // ✅ P0-HOTFIX: Mark as internal write BEFORE writing
-      const writeTracker = WriteTracker.getInstance();
-      writeTracker.markInternalWrite(tasksPath);
-      
-      const frontmatter = {
-        version: data.version,
-        updated: data.updated,
-        bias: data.bias
-      };
+  renderTasks(data: TasksData): string {
+    const frontmatter = {
+      version: data.version,
+      updated: data.updated,
+      bias: data.bias
+    };
 
-      const content = `---
+    return `---
 ${yaml.dump(frontmatter).trim()}
 ---
 
@@ -634,10 +643,23 @@ ${data.blockers.length > 0 ? `## Blockers\n${data.blockers.map(b => `- ${b}`).jo
 
 ${data.completed.length > 0 ? `## Completed (last 24h)\n${data.completed.map(c => `- ${c.task} (${c.timestamp})`).join('\n')}` : ''}
 `;
+  }
+
+  /**
+   * Save Tasks.RL4 to disk
+   */
+  saveTasks(data: TasksData): boolean {
+    const tasksPath = path.join(this.rl4Path, 'Tasks.RL4');
+    
+    try {
+      // ✅ P0-HOTFIX: Mark as internal write BEFORE writing
+      const writeTracker = WriteTracker.getInstance();
+      writeTracker.markInternalWrite(tasksPath);
+      
+      const content = this.renderTasks(data);
 
       // ✅ P0-CONSISTENCY: Write-Ahead Log
-      const workspaceRoot = path.dirname(this.rl4Path);
-      WriteAheadLog.getInstance(workspaceRoot).logSync('Tasks.RL4', content);
+      this.logWal(tasksPath, content);
 
       AtomicFS.writeAtomicSync(tasksPath, content);
       console.log('[PlanTasksContextParser] ✅ Tasks.RL4 saved (WAL + AtomicFS)');
@@ -649,26 +671,19 @@ ${data.completed.length > 0 ? `## Completed (last 24h)\n${data.completed.map(c =
   }
 
   /**
-   * Save Context.RL4 to disk
+   * Render Context.RL4 content (frontmatter + Markdown) without writing it
    */
-  saveContext(data: ContextData): boolean {
-    const contextPath = path.join(this.rl4Path, 'Context.RL4');
-    
-    try {
-      // ✅ P0-HOTFIX: Mark as internal write BEFORE writing
-      const writeTracker = WriteTracker.getInstance();
-      writeTracker.markInternalWrite(contextPath);
-      
-      const frontmatter = {
-        version: data.version,
-        updated: data.updated,
-        confidence: data.confidence,
-        kpis_llm: data.kpis_llm || [],      // ✅ P0-KPI-SEPARATION-03: LLM KPIs (preserved)
-        kpis_kernel: data.kpis_kernel || [] // ✅ P0-KPI-SEPARATION-03: Kernel KPIs (preserved)
-        // ❌ DEPRECATED: kpis field no longer written (migrated to kpis_kernel)
-      };
+  renderContext(data: ContextData): string {
+    const frontmatter = {
+      version: data.version,
+      updated: data.updated,
+      confidence: data.confidence,
+      kpis_llm: data.kpis_llm || [],      // ✅ P0-KPI-SEPARATION-03: LLM KPIs (preserved)
+      kpis_kernel: data.kpis_kernel || [] // ✅ P0-KPI-SEPARATION-03: Kernel KPIs (preserved)
+      // ❌ DEPRECATED: kpis field no longer written (migrated to kpis_kernel)
+    };
 
-      const content = `---
+    return `---
 ${yaml.dump(frontmatter).trim()}
 ---
 
@@ -688,10 +703,23 @@ ${data.activeFiles.map(f => `- ${f}`).join('\n')}
 
 ${data.observations.length > 0 ? `## Observations\n${data.observations.map(o => `- ${o}`).join('\n')}` : ''}
 `;
+  }
+
+  /**
+   * Save Context.RL4 to disk
+   */
+  saveContext(data: ContextData): boolean {
+    const contextPath = path.join(this.rl4Path, 'Context.RL4');
+    
+    try {
+      // ✅ P0-HOTFIX: Mark as internal write BEFORE writing
+      const writeTracker = WriteTracker.getInstance();
+      writeTracker.markInternalWrite(contextPath);
+      
+      const content = this.renderContext(data);
 
       // ✅ P0-CONSISTENCY: Write-Ahead Log
-      const workspaceRoot = path.dirname(this.rl4Path);
-      WriteAheadLog.getInstance(workspaceRoot).logSync('Context.RL4', content);
+      this.logWal(contextPath, content);
 
       AtomicFS.writeAtomicSync(contextPath, content);
       console.log('[PlanTasksContextParser] ✅ Context.RL4 saved (internal write tracked, WAL + AtomicFS)');
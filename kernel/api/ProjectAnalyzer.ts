@@ -14,6 +14,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { execSync } from 'child_process';
 import { ProjectDetector, ProjectType, ProjectMetadata } from '../detection/ProjectDetector';
+import { IgnoreEngine } from '../utils/IgnoreEngine';
 
 export interface QualityMetrics {
     structureScore: number;        // 0-100 - folder organization quality
@@ -94,10 +95,12 @@ export interface Recommendation {
 export class ProjectAnalyzer {
     private workspaceRoot: string;
     private projectDetector: ProjectDetector;
+    private ignoreEngine: IgnoreEngine;
 
     constructor(workspaceRoot: string) {
         this.workspaceRoot = workspaceRoot;
         this.projectDetector = new ProjectDetector(workspaceRoot);
+        this.ignoreEngine = new IgnoreEngine(workspaceRoot);
     }
 
     /**
@@ -225,6 +228,9 @@ export class ProjectAnalyzer {
                 for (const item of items) {
                     const itemPath = path.join(dir, item);
                     const stats = fs.statSync(itemPath);
+                    if (this.ignoreEngine.isIgnored(itemPath, stats.isDirectory())) {
+                        continue;
+                    }
 
                     if (stats.isFile()) {
                         const ext = path.extname(item);
@@ -237,10 +243,7 @@ export class ProjectAnalyzer {
                             }
                         }
                     } else if (stats.isDirectory() && depth < 5) {
-                        // Skip common non-source directories
-                        if (!['node_modules', '.git', 'venv', '__pycache__', 'target', 'dist'].includes(item)) {
-                            walkDir(itemPath, depth + 1);
-                        }
+                        walkDir(itemPath, depth + 1);
                     }
                 }
             };
@@ -294,6 +297,9 @@ export class ProjectAnalyzer {
                 for (const item of items) {
                     const itemPath = path.join(dir, item);
                     const stats = fs.statSync(itemPath);
+                    if (this.ignoreEngine.isIgnored(itemPath, stats.isDirectory())) {
+                        continue;
+                    }
 
                     if (stats.isFile()) {
                         const isTest = testPatterns.some(pattern => item.includes(pattern));
@@ -305,9 +311,7 @@ export class ProjectAnalyzer {
                             sourceFiles++;
                         }
                     } else if (stats.isDirectory() && depth < 5) {
-                        if (!['node_modules', '.git', 'venv', '__pycache__', 'target'].includes(item)) {
-                            walkDir(itemPath, depth + 1);
-                        }
+                        walkDir(itemPath, depth + 1);
                     }
                 }
             };
@@ -697,13 +701,14 @@ export class ProjectAnalyzer {
                 for (const item of items) {
                     const itemPath = path.join(dir, item);
                     const stats = fs.statSync(itemPath);
+                    if (this.ignoreEngine.isIgnored(itemPath, stats.isDirectory())) {
+                        continue;
+                    }
 
                     if (stats.isFile() && this.isCodeFile(path.extname(item), type)) {
                         sizes.push(stats.size);
                     } else if (stats.isDirectory() && depth < 5) {
-                        if (!['node_modules', '.git', 'venv', '__pycache__', 'target', 'dist'].includes(item)) {
-                            walkDir(itemPath, depth + 1);
-                        }
+                        walkDir(itemPath, depth + 1);
                     }
                 }
             } catch {
@@ -727,6 +732,9 @@ export class ProjectAnalyzer {
                 for (const item of items) {
                     const itemPath = path.join(dir, item);
                     const stats = fs.statSync(itemPath);
+                    if (this.ignoreEngine.isIgnored(itemPath, stats.isDirectory())) {
+                        continue;
+                    }
 
                     if (stats.isDirectory() && depth < 10) {
                         walkDir(itemPath, depth + 1);
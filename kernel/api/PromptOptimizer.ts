@@ -7,6 +7,12 @@ import { ParsedPlanningContext } from "./parsers/PlanTasksContextParser";
 import { BlindSpotReport } from "./BlindSpotDataLoader";
 import { ILogger } from "../core/ILogger";
 import { PromptCodecRL4, PromptContext, Layer, Topic, TimelineEvent, Decision, Insight } from "../rl4/PromptCodecRL4";
+import { ModelProfile, PromptCut, resolveModelProfile, estimateTokens, truncateToTokens } from "./TokenBudget";
+
+// Fragment budget when no target is given (legacy behaviour)
+const DEFAULT_CONTEXT_BUDGET = 2000;
+// Below this, a fragment is dropped rather than summarized
+const MIN_SUMMARY_TOKENS = 16;
 
 export interface OptimizationRequest {
     rawIntent: string;
@@ -15,6 +21,8 @@ export interface OptimizationRequest {
     planningContext?: ParsedPlanningContext;
     blindSpots?: BlindSpotReport;
     metadata?: Record<string, any>;
+    tokenBudget?: number;             // Max tokens for the optimized prompt (fragments are cut to fit)
+    modelProfile?: ModelProfile;      // Token estimation profile (default profile if omitted)
 }
 
 export interface OptimizedPrompt {
@@ -43,6 +51,11 @@ export interface OptimizedPrompt {
         maxTokens: number;
         priorityContext: string[];
     };
+    budget?: {
+        tokenBudget?: number;
+        estimatedTokens: number;
+        cuts: PromptCut[];            // Fragments dropped or summarized, highest value first
+    };
 }
 
 export interface ContextFragment {
@@ -90,11 +103,13 @@ export class PromptOptimizer {
     async optimize(request: OptimizationRequest): Promise<OptimizedPrompt> {
         this.logger?.info(`Starting RCEP-based prompt optimization (session: ${this.sessionId}, intent length: ${request.rawIntent.length})`);
 
+        const profile = request.modelProfile || resolveModelProfile();
+
         // 1. Extract and rank context fragments
-        const fragments = this.extractContextFragments(request);
+        const fragments = this.extractContextFragments(request, profile);
 
-        // 2. Filter and prioritize fragments
-        const prioritized = this.prioritizeFragments(fragments);
+        // 2. Filter and prioritize fragments (drop / summarize the lowest-value ones to fit the budget)
+        const { selected: prioritized, cuts } = this.prioritizeFragments(fragments, request.rawIntent, profile, request.tokenBudget);
 
         // 3. Normalize into PromptContext for RCEP encoding
         const promptContext = this.normalizeToPromptContext(request, prioritized);
@@ -115,7 +130,7 @@ export class PromptOptimizer {
         const metrics = this.calculatePromptMetrics(driftCorrected, request);
 
         // 9. Generate execution hints
-        const hints = this.generateExecutionHints(driftCorrected, metrics);
+        const hints = this.generateExecutionHints(driftCorrected, metrics, profile);
 
         // 10. Calculate compression ratio
         const originalSize = this.calculateOriginalSize(request, prioritized);
@@ -143,7 +158,12 @@ export class PromptOptimizer {
                 ambiguityScore: metrics.ambiguityScore,
                 architecturalDepth: metrics.architecturalDepth
             },
-            executionHints: hints
+            executionHints: hints,
+            budget: {
+                tokenBudget: request.tokenBudget,
+                estimatedTokens: estimateTokens(driftCorrected, profile),
+                cuts
+            }
         };
     }
 
@@ -200,7 +220,7 @@ export class PromptOptimizer {
      * CONTEXT FRAGMENT EXTRACTION
      * Pulls relevant context from all RL6 modules
      ****************************************************************************************/
-    private extractContextFragments(request: OptimizationRequest): ContextFragment[] {
+    private extractContextFragments(request: OptimizationRequest, profile: ModelProfile): ContextFragment[] {
         const fragments: ContextFragment[] = [];
 
         // ADR fragments - architectural constraints and decisions
@@ -213,7 +233,7 @@ export class PromptOptimizer {
                         content: `ADR ${adr.adrId}: ${adr.decision}`,
                         source: `adr:${adr.adrId}`,
                         priority: adr.relevance > 0.8 ? "critical" : adr.relevance > 0.6 ? "high" : "medium",
-                        size: this.estimateTokens(adr.decision)
+                        size: estimateTokens(adr.decision, profile)
                     });
 
                     // Add invariants as separate fragments
@@ -224,7 +244,7 @@ export class PromptOptimizer {
                             content: `Invariant: ${invariant}`,
                             source: `adr:${adr.adrId}:invariant`,
                             priority: adr.warnings.length > 0 ? "critical" : "high",
-                            size: this.estimateTokens(invariant)
+                            size: estimateTokens(invariant, profile)
                         });
                     }
 
@@ -236,7 +256,7 @@ export class PromptOptimizer {
                             content: `⚠️ ${warning}`,
                             source: `adr:${adr.adrId}:warning`,
                             priority: "critical",
-                            size: this.estimateTokens(warning)
+                            size: estimateTokens(warning, profile)
                         });
                     }
                 }
@@ -249,24 +269,26 @@ export class PromptOptimizer {
         // Blind spot fragments - areas needing attention
         if (request.blindSpots) {
             if (request.blindSpots.missingExpectedFiles.length > 0) {
+                const content = `Missing expected files: ${request.blindSpots.missingExpectedFiles.slice(0, 3).join(", ")}`;
                 fragments.push({
                     type: "blindspot",
                     relevance: 0.8,
-                    content: `Missing expected files: ${request.blindSpots.missingExpectedFiles.slice(0, 3).join(", ")}`,
+                    content,
                     source: "blindspot:missing_files",
                     priority: "high",
-                    size: 50
+                    size: estimateTokens(content, profile)
                 });
             }
 
             if (request.blindSpots.unexploredHotspots.length > 0) {
+                const content = `Unexplored hotspots: ${request.blindSpots.unexploredHotspots.slice(0, 3).map(h => h.file).join(", ")}`;
                 fragments.push({
                     type: "blindspot",
                     relevance: 0.7,
-                    content: `Unexplored hotspots: ${request.blindSpots.unexploredHotspots.slice(0, 3).map(h => h.file).join(", ")}`,
+                    content,
                     source: "blindspot:hotspots",
                     priority: "medium",
-                    size: 60
+                    size: estimateTokens(content, profile)
                 });
             }
         }
@@ -284,7 +306,7 @@ export class PromptOptimizer {
                     content: `Active task: ${slice.summary}`,
                     source: `plan:${slice.id}`,
                     priority: "critical",
-                    size: this.estimateTokens(slice.summary)
+                    size: estimateTokens(slice.summary, profile)
                 });
             }
         }
@@ -296,7 +318,12 @@ export class PromptOptimizer {
      * FRAGMENT PRIORITIZATION
      * Selects and orders fragments for maximum impact
      ****************************************************************************************/
-    private prioritizeFragments(fragments: ContextFragment[]): ContextFragment[] {
+    private prioritizeFragments(
+        fragments: ContextFragment[],
+        rawIntent: string,
+        profile: ModelProfile,
+        tokenBudget?: number
+    ): { selected: ContextFragment[]; cuts: PromptCut[] } {
         // Sort by priority and relevance
         const sorted = fragments.sort((a, b) => {
             const priorityWeight = {
@@ -312,20 +339,63 @@ export class PromptOptimizer {
             return scoreB - scoreA;
         });
 
-        // Select top fragments within token budget (roughly 2000 tokens for context)
-        const budget = 2000;
+        const kept = new Map<ContextFragment, ContextFragment>(); // original → rendered
         let used = 0;
-        const selected: ContextFragment[] = [];
 
-        for (const fragment of sorted) {
-            if (used + fragment.size <= budget) {
-                selected.push(fragment);
-                used += fragment.size;
+        if (tokenBudget === undefined) {
+            for (const fragment of sorted) {
+                if (used + fragment.size <= DEFAULT_CONTEXT_BUDGET) {
+                    kept.set(fragment, fragment);
+                    used += fragment.size;
+                }
             }
+        } else {
+            // Measured on the rendered prompt, so section headers and the task count against the budget
+            const render = (extra: ContextFragment): number =>
+                estimateTokens(this.buildOptimizedPrompt(rawIntent, [...kept.values(), extra]), profile);
+
+            for (const fragment of sorted) {
+                if (render(fragment) <= tokenBudget) {
+                    kept.set(fragment, fragment);
+                    continue;
+                }
+
+                // Critical / high fragments are shortened to the remaining room rather than lost
+                if (fragment.priority !== "critical" && fragment.priority !== "high") {
+                    continue;
+                }
+                let room = tokenBudget - render({ ...fragment, content: "" });
+                while (room >= MIN_SUMMARY_TOKENS) {
+                    const content = truncateToTokens(fragment.content, room, profile);
+                    const summarized = { ...fragment, content, size: estimateTokens(content, profile) };
+                    if (render(summarized) <= tokenBudget) {
+                        kept.set(fragment, summarized);
+                        break;
+                    }
+                    room--;
+                }
+            }
+            used = estimateTokens(this.buildOptimizedPrompt(rawIntent, [...kept.values()]), profile);
         }
 
-        this.logger?.debug(`Selected ${selected.length} fragments out of ${fragments.length} within ${used} tokens`);
-        return selected;
+        const cuts: PromptCut[] = sorted
+            .filter(fragment => kept.get(fragment) !== fragment)
+            .map(fragment => {
+                const rendered = kept.get(fragment);
+                return {
+                    source: fragment.source,
+                    type: fragment.type,
+                    priority: fragment.priority,
+                    relevance: fragment.relevance,
+                    action: rendered ? "summarized" as const : "dropped" as const,
+                    tokensBefore: estimateTokens(fragment.content, profile),
+                    tokensAfter: rendered ? estimateTokens(rendered.content, profile) : 0
+                };
+            });
+
+        const selected = [...kept.values()];
+        this.logger?.debug(`Selected ${selected.length} fragments out of ${fragments.length} within ${used} tokens (${cuts.length} cut)`);
+        return { selected, cuts };
     }
 
     /****************************************************************************************
@@ -573,7 +643,7 @@ export class PromptOptimizer {
      * EXECUTION HINTS GENERATION
      * Provides guidance for optimal LLM execution
      ****************************************************************************************/
-    private generateExecutionHints(prompt: string, metrics: any) {
+    private generateExecutionHints(prompt: string, metrics: any, profile: ModelProfile) {
         const hints = {
             recommendedModel: "claude-3.5-sonnet",
             temperatureRange: [0.3, 0.7] as [number, number],
@@ -589,7 +659,7 @@ export class PromptOptimizer {
         }
 
         // Set token limit based on prompt length
-        const promptTokens = Math.round(prompt.length * 0.25); // Rough token estimation
+        const promptTokens = estimateTokens(prompt, profile);
         hints.maxTokens = Math.max(1000, Math.min(8000, promptTokens * 2));
 
         // Priority context indicators
@@ -683,11 +753,6 @@ export class PromptOptimizer {
         return enhanced;
     }
 
-    private estimateTokens(text: string): number {
-        // Rough estimation: 1 token ≈ 4 characters
-        return Math.ceil(text.length / 4);
-    }
-
     private calculateOriginalSize(request: OptimizationRequest, fragments: ContextFragment[]): number {
         // Calculate original approximate size before RCEP compression
         let size = request.rawIntent.length;
@@ -0,0 +1,370 @@
+/**
+ * RL4UpdateManager - Write-back gouverné des mises à jour LLM vers Plan/Tasks/Context.RL4
+ *
+ * Le LLM propose un bloc ```json:rl4_update (ou yaml / json5) :
+ *   { "target": "tasks", "decision_id": "<id>", "ops": [{ "op": "complete", "field": "active", "value": "[P0] Ship v1" }] }
+ *
+ * Gouvernance :
+ *   - la décision citée doit exister (réponse courante ou DecisionStore), porter un intent rl4_update
+ *     et un confidence_gate 'pass' (VERROU 2 : confidence_llm >= 95)
+ *   - seuls les champs rédigés par le LLM sont modifiables (métriques du kernel exclues)
+ *   - la mise à jour reste en attente jusqu'à approbation, avec l'aperçu avant/après
+ *   - application via PlanTasksContextParser (WAL + AtomicFS), tracée dans le ledger RBOM
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { ILogger } from '../core/ILogger';
+import { RBOMLedger } from '../rbom/RBOMLedger';
+import { DecisionStore } from '../cognitive/DecisionStore';
+import { CognitiveDecision } from '../cognitive/DecisionSchema';
+import { findFencedBlocks, formatIssuePath, parseFencedBlock } from '../cognitive/DecisionResponseParser';
+import { ContextData, PlanData, PlanTasksContextParser, TasksData } from './PlanTasksContextParser';
+import { LRUCache } from '../utils/LRUCache';
+
+export type RL4UpdateTarget = 'plan' | 'tasks' | 'context';
+export type RL4UpdateOp = 'set' | 'add' | 'remove' | 'complete';
+export type RL4UpdateStatus = 'pending' | 'rejected' | 'applied' | 'discarded';
+
+export interface RL4UpdateOperation {
+  op: RL4UpdateOp;
+  field: string;
+  value: string;
+}
+
+export interface RL4UpdateProposal {
+  id: string;
+  block: number;                  // Bloc rl4_update d'origine (1-based)
+  target?: RL4UpdateTarget;
+  file?: string;                  // Plan.RL4 / Tasks.RL4 / Context.RL4
+  decision_id?: string;
+  ops: RL4UpdateOperation[];
+  status: RL4UpdateStatus;
+  issues: string[];               // Raisons du rejet (vide si en attente / appliquée)
+  before?: string;                // Contenu actuel du fichier
+  after?: string;                 // Contenu après application
+  createdAt: string;
+}
+
+type TargetData = PlanData | TasksData | ContextData;
+
+const MAX_RESOLVED_UPDATES = 100;   // Statuts gardés pour signaler une double application
+
+const TARGET_FILES: Record<RL4UpdateTarget, string> = {
+  plan: 'Plan.RL4',
+  tasks: 'Tasks.RL4',
+  context: 'Context.RL4'
+};
+
+// Champs modifiables par le LLM et opérations permises
+const EDITABLE_FIELDS: Record<RL4UpdateTarget, Record<string, RL4UpdateOp[]>> = {
+  plan: {
+    phase: ['set'],
+    goal: ['set'],
+    'timeline.start': ['set'],
+    'timeline.target': ['set'],
+    successCriteria: ['add', 'remove'],
+    constraints: ['add', 'remove']
+  },
+  tasks: {
+    active: ['add', 'remove', 'complete'],
+    blockers: ['add', 'remove']
+  },
+  context: {
+    observations: ['add', 'remove']
+  }
+};
+
+const RL4UpdateBlockSchema = z.object({
+  // "Tasks", "Tasks.RL4" → tasks
+  target: z.preprocess(
+    value => typeof value === 'string' ? value.trim().toLowerCase().replace(/\.rl4$/, '') : value,
+    z.enum(['plan', 'tasks', 'context'])
+  ),
+  decision_id: z.string().trim().min(1).optional(),
+  ops: z.array(z.object({
+    op: z.enum(['set', 'add', 'remove', 'complete']),
+    field: z.string().trim().min(1),
+    value: z.string().trim().min(1, 'Must not be empty')
+  })).min(1, 'At least one operation is required')
+});
+
+interface PendingUpdate {
+  proposal: RL4UpdateProposal;
+  data: TargetData;               // Données patchées, écrites telles que prévisualisées
+  baseHash: string;               // Hash du fichier au moment de l'aperçu
+}
+
+export class RL4UpdateManager {
+  private updates: Map<string, PendingUpdate> = new Map();                 // En attente uniquement
+  private resolved = new LRUCache<string, RL4UpdateStatus>(MAX_RESOLVED_UPDATES); // Traitées : statut seul, sans contenu
+
+  constructor(
+    private rl4Path: string,
+    private parser: PlanTasksContextParser,
+    private decisionStore?: DecisionStore,
+    private rbomLedger?: RBOMLedger,
+    private logger?: ILogger
+  ) {}
+
+  /**
+   * Lire les blocs rl4_update d'une réponse et préparer un aperçu pour chacun
+   *
+   * @param decisions Décisions extraites de la même réponse (consultées avant DecisionStore)
+   */
+  async propose(response: string, decisions: CognitiveDecision[] = []): Promise<RL4UpdateProposal[]> {
+    const proposals: RL4UpdateProposal[] = [];
+
+    for (const block of findFencedBlocks(response, 'rl4_update')) {
+      const parsed = parseFencedBlock(block);
+      if ('error' in parsed) {
+        proposals.push(this.rejected(block.index, [], [`Line ${parsed.error.line}: ${parsed.error.message}`]));
+        continue;
+      }
+
+      const items = Array.isArray(parsed.value) ? parsed.value : [parsed.value];
+      for (const item of items) {
+        const validated = RL4UpdateBlockSchema.safeParse(item);
+        if (!validated.success) {
+          const issues = validated.error.issues.map(issue => `${formatIssuePath(issue.path) || 'update'}: ${issue.message}`);
+          proposals.push(this.rejected(block.index, [], issues));
+          continue;
+        }
+        proposals.push(await this.prepare(block.index, validated.data as { target: RL4UpdateTarget; decision_id?: string; ops: RL4UpdateOperation[] }, decisions));
+      }
+    }
+
+    for (const proposal of proposals) {
+      if (proposal.status === 'rejected') {
+        this.logger?.warning(`[RL4UpdateManager] Update rejected (block ${proposal.block}): ${proposal.issues.join('; ')}`);
+      }
+    }
+    return proposals;
+  }
+
+  /**
+   * Appliquer une mise à jour approuvée (WAL + AtomicFS via PlanTasksContextParser, puis ledger)
+   */
+  async apply(updateId: string): Promise<RL4UpdateProposal> {
+    const update = this.getPending(updateId);
+    const { proposal } = update;
+    const filePath = path.join(this.rl4Path, proposal.file!);
+
+    if (this.hashFile(filePath) !== update.baseHash) {
+      proposal.status = 'rejected';
+      proposal.issues.push(`${proposal.file} changed since the preview: regenerate the update`);
+      this.resolve(proposal);
+      throw new Error(proposal.issues[proposal.issues.length - 1]);
+    }
+
+    const saved = proposal.target === 'plan' ? this.parser.savePlan(update.data as PlanData)
+      : proposal.target === 'tasks' ? this.parser.saveTasks(update.data as TasksData)
+      : this.parser.saveContext(update.data as ContextData);
+    if (!saved) {
+      throw new Error(`Failed to write ${proposal.file}`);
+    }
+
+    proposal.status = 'applied';
+    this.resolve(proposal);
+    await this.record('rl4_update_applied', proposal, update.baseHash);
+    this.logger?.info(`[RL4UpdateManager] ${proposal.file} updated from decision ${proposal.decision_id} (${proposal.ops.length} op(s))`);
+    return proposal;
+  }
+
+  /**
+   * Écarter une mise à jour en attente (tracé dans le ledger, fichier inchangé)
+   */
+  async discard(updateId: string): Promise<RL4UpdateProposal> {
+    const update = this.getPending(updateId);
+    update.proposal.status = 'discarded';
+    this.resolve(update.proposal);
+    await this.record('rl4_update_discarded', update.proposal, update.baseHash);
+    return update.proposal;
+  }
+
+  /**
+   * Mises à jour en attente (appliquées, écartées ou périmées : retirées avec leur contenu)
+   */
+  list(): RL4UpdateProposal[] {
+    return [...this.updates.values()].map(update => update.proposal);
+  }
+
+  private async prepare(
+    block: number,
+    update: { target: RL4UpdateTarget; decision_id?: string; ops: RL4UpdateOperation[] },
+    decisions: CognitiveDecision[]
+  ): Promise<RL4UpdateProposal> {
+    const gateIssue = await this.checkDecision(update.decision_id, decisions);
+    if (gateIssue) {
+      return this.rejected(block, update.ops, [gateIssue], update);
+    }
+
+    const file = TARGET_FILES[update.target];
+    const filePath = path.join(this.rl4Path, file);
+    const baseHash = this.hashFile(filePath);
+    const current = update.target === 'plan' ? this.parser.parsePlan()
+      : update.target === 'tasks' ? this.parser.parseTasks()
+      : this.parser.parseContext();
+
+    if (!current) {
+      return this.rejected(block, update.ops, [`${file} could not be read`], update);
+    }
+
+    const { data, issues } = applyRL4UpdateOperations(update.target, current, update.ops);
+    if (issues.length > 0) {
+      return this.rejected(block, update.ops, issues, update);
+    }
+    data.updated = new Date().toISOString();
+
+    const proposal: RL4UpdateProposal = {
+      id: uuidv4(),
+      block,
+      target: update.target,
+      file,
+      decision_id: update.decision_id,
+      ops: update.ops,
+      status: 'pending',
+      issues: [],
+      before: fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : '',
+      after: update.target === 'plan' ? this.parser.renderPlan(data as PlanData)
+        : update.target === 'tasks' ? this.parser.renderTasks(data as TasksData)
+        : this.parser.renderContext(data as ContextData),
+      createdAt: new Date().toISOString()
+    };
+    this.updates.set(proposal.id, { proposal, data, baseHash });
+    return proposal;
+  }
+
+  /**
+   * Gate : la mise à jour doit découler d'une décision rl4_update validée (null si OK)
+   */
+  private async checkDecision(decisionId: string | undefined, decisions: CognitiveDecision[]): Promise<string | null> {
+    if (!decisionId) {
+      return 'decision_id: RL4 updates must reference the rl4_update decision that justifies them';
+    }
+    const decision = decisions.find(d => d.id === decisionId)
+      || (this.decisionStore ? await this.decisionStore.getById(decisionId) : null);
+    if (!decision) {
+      return `decision_id: decision ${decisionId} not found`;
+    }
+    if (!decision.intent.includes('rl4_update')) {
+      return `decision_id: decision ${decisionId} has intent '${decision.intent}', expected an rl4_update intent`;
+    }
+    if (decision.confidence_gate !== 'pass') {
+      return `decision_id: decision ${decisionId} did not pass the confidence gate (confidence_llm ${decision.confidence_llm} < 95)`;
+    }
+    return null;
+  }
+
+  private rejected(
+    block: number,
+    ops: RL4UpdateOperation[],
+    issues: string[],
+    update?: { target: RL4UpdateTarget; decision_id?: string }
+  ): RL4UpdateProposal {
+    return {
+      id: uuidv4(),
+      block,
+      target: update?.target,
+      file: update ? TARGET_FILES[update.target] : undefined,
+      decision_id: update?.decision_id,
+      ops,
+      status: 'rejected',
+      issues,
+      createdAt: new Date().toISOString()
+    };
+  }
+
+  private getPending(updateId: string): PendingUpdate {
+    const update = this.updates.get(updateId);
+    if (!update) {
+      const status = this.resolved.get(updateId);
+      throw new Error(status ? `RL4 update ${updateId} is already ${status}` : `Unknown RL4 update ${updateId}`);
+    }
+    return update;
+  }
+
+  private resolve(proposal: RL4UpdateProposal): void {
+    this.updates.delete(proposal.id);
+    this.resolved.set(proposal.id, proposal.status);
+  }
+
+  private async record(type: string, proposal: RL4UpdateProposal, baseHash: string): Promise<void> {
+    if (!this.rbomLedger) {
+      return;
+    }
+    await this.rbomLedger.append(type, {
+      update_id: proposal.id,
+      decision_id: proposal.decision_id,
+      file: proposal.file,
+      ops: proposal.ops,
+      before_hash: baseHash,
+      after_hash: crypto.createHash('sha256').update(proposal.after || '').digest('hex')
+    });
+  }
+
+  private hashFile(filePath: string): string {
+    const content = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : '';
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+}
+
+/**
+ * Appliquer des opérations à une copie des données d'un fichier (pure)
+ *
+ * add est idempotent ; remove / complete d'un élément absent est une erreur.
+ */
+export function applyRL4UpdateOperations(
+  target: RL4UpdateTarget,
+  current: TargetData,
+  ops: RL4UpdateOperation[]
+): { data: TargetData; issues: string[] } {
+  const data = JSON.parse(JSON.stringify(current)) as any;
+  const issues: string[] = [];
+  const same = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+  ops.forEach((operation, index) => {
+    const { op, field, value } = operation;
+    const allowed = EDITABLE_FIELDS[target][field];
+    if (!allowed) {
+      issues.push(`ops[${index}].field: '${field}' is not editable in ${TARGET_FILES[target]} (editable: ${Object.keys(EDITABLE_FIELDS[target]).join(', ')})`);
+      return;
+    }
+    if (!allowed.includes(op)) {
+      issues.push(`ops[${index}].op: '${op}' is not allowed on ${field} (allowed: ${allowed.join(', ')})`);
+      return;
+    }
+
+    if (op === 'set') {
+      const [head, tail] = field.split('.');
+      if (tail) {
+        data[head][tail] = value;
+      } else {
+        data[head] = value;
+      }
+      return;
+    }
+
+    // Listes : tâches (objets) ou chaînes
+    const list: any[] = data[field];
+    const textOf = (item: any): string => typeof item === 'string' ? item : item.task;
+    const position = list.findIndex(item => same(textOf(item), value));
+
+    if (op === 'add') {
+      if (position < 0) {
+        list.push(field === 'active' ? { completed: false, task: value } : value);
+      }
+    } else if (position < 0) {
+      issues.push(`ops[${index}].value: '${value}' not found in ${field}`);
+    } else if (op === 'remove') {
+      list.splice(position, 1);
+    } else {
+      list[position] = { ...list[position], completed: true, timestamp: new Date().toISOString() };
+    }
+  });
+
+  return { data, issues };
+}
@@ -0,0 +1,168 @@
+import * as crypto from 'crypto';
+
+/**
+ * RuleTargets - Rendu des règles RL4 dans le format natif de chaque assistant
+ *
+ * Les sources (kernel/rules/*.mdc) restent uniques ; chaque cible les réécrit là où son
+ * assistant les lit :
+ *   - cursor    → .cursor/rules/<Rule>.mdc            (un fichier par règle, frontmatter mdc)
+ *   - windsurf  → .windsurf/rules/<rule>.md           (frontmatter trigger: always_on)
+ *   - continue  → .continue/rules/<rule>.md           (frontmatter alwaysApply: true)
+ *   - agents    → AGENTS.md                           (section gérée, contenu utilisateur préservé)
+ *   - copilot   → .github/copilot-instructions.md     (section gérée, contenu utilisateur préservé)
+ *
+ * Chaque rendu porte la version des sources (hash) : la dérive se détecte sans comparer
+ * les dates de fichiers.
+ */
+
+export type RuleTargetId = 'cursor' | 'windsurf' | 'continue' | 'agents' | 'copilot';
+
+export interface RuleSource {
+    fileName: string;                     // RL4.Core.mdc
+    name: string;                         // RL4.Core
+    description: string;
+    frontmatter: string;                  // Frontmatter YAML d'origine (sans les ---)
+    body: string;                         // Markdown sans frontmatter
+}
+
+export interface RenderedRuleFile {
+    path: string;                         // Relatif au workspace
+    content: string;
+    managedSection: boolean;              // true : seule la section RL4 du fichier nous appartient
+}
+
+export interface RuleTarget {
+    id: RuleTargetId;
+    label: string;
+    detect: string[];                     // Chemins dont la présence signale l'assistant (auto-détection)
+    render(rules: RuleSource[], version: string): RenderedRuleFile[];
+}
+
+export const SECTION_BEGIN = '<!-- RL4:BEGIN governance-rules';
+export const SECTION_END = '<!-- RL4:END governance-rules -->';
+
+export const RULE_TARGETS: RuleTarget[] = [
+    {
+        id: 'cursor',
+        label: 'Cursor',
+        detect: ['.cursor'],
+        render: (rules, version) => rules.map(rule => ({
+            path: `.cursor/rules/${rule.fileName}`,
+            content: withFrontmatter(rule.frontmatter, `${versionComment(version)}\n${rule.body}`),
+            managedSection: false
+        }))
+    },
+    {
+        id: 'windsurf',
+        label: 'Windsurf',
+        detect: ['.windsurf', '.windsurfrules'],
+        render: (rules, version) => rules.map(rule => ({
+            path: `.windsurf/rules/${slug(rule.name)}.md`,
+            content: withFrontmatter(`trigger: always_on\ndescription: ${JSON.stringify(rule.description)}`, `${versionComment(version)}\n${rule.body}`),
+            managedSection: false
+        }))
+    },
+    {
+        id: 'continue',
+        label: 'Continue',
+        detect: ['.continue'],
+        render: (rules, version) => rules.map(rule => ({
+            path: `.continue/rules/${slug(rule.name)}.md`,
+            content: withFrontmatter(`name: ${JSON.stringify(rule.name)}\ndescription: ${JSON.stringify(rule.description)}\nalwaysApply: true`, `${versionComment(version)}\n${rule.body}`),
+            managedSection: false
+        }))
+    },
+    {
+        id: 'agents',
+        label: 'AGENTS.md',
+        detect: ['AGENTS.md'],
+        render: (rules, version) => [{ path: 'AGENTS.md', content: renderSection(rules, version), managedSection: true }]
+    },
+    {
+        id: 'copilot',
+        label: 'GitHub Copilot',
+        detect: ['.github/copilot-instructions.md'],
+        render: (rules, version) => [{ path: '.github/copilot-instructions.md', content: renderSection(rules, version), managedSection: true }]
+    }
+];
+
+/**
+ * Découper une règle .mdc (frontmatter YAML simple + corps)
+ */
+export function parseRuleSource(fileName: string, content: string): RuleSource {
+    const normalized = content.replace(/\r\n/g, '\n');
+    const match = normalized.match(/^---\n([\s\S]*?)\n---\n?/);
+    const frontmatter = match ? match[1] : '';
+    const description = frontmatter.match(/^description:\s*"?(.*?)"?\s*$/m)?.[1] || fileName;
+    return {
+        fileName,
+        name: fileName.replace(/\.mdc$/, ''),
+        description,
+        frontmatter,
+        body: (match ? normalized.slice(match[0].length) : normalized).replace(/^\n+/, '')
+    };
+}
+
+/**
+ * Version des sources : hash du contenu (ordre des règles inclus)
+ */
+export function computeRulesVersion(contents: string[]): string {
+    const hash = crypto.createHash('sha256');
+    contents.forEach(content => hash.update(content.replace(/\r\n/g, '\n')).update('\0'));
+    return hash.digest('hex').substring(0, 12);
+}
+
+/**
+ * Version inscrite dans un rendu installé (null : absente, fichier non géré par RL4)
+ */
+export function readInstalledVersion(content: string): string | null {
+    const match = content.match(/RL4[: ](?:BEGIN governance-rules|governance rules) version[= ]([0-9a-f]{12})/);
+    return match ? match[1] : null;
+}
+
+/**
+ * Section RL4 d'un fichier partagé (null si absente)
+ */
+export function extractManagedSection(content: string): string | null {
+    const start = content.indexOf(SECTION_BEGIN);
+    const end = content.indexOf(SECTION_END, start);
+    if (start < 0 || end < 0) {
+        return null;
+    }
+    return content.slice(start, end + SECTION_END.length);
+}
+
+/**
+ * Remplacer (ou ajouter en fin de fichier) la section RL4, sans toucher au reste
+ */
+export function mergeManagedSection(existing: string, section: string): string {
+    const current = extractManagedSection(existing);
+    if (current) {
+        return existing.replace(current, () => section);
+    }
+    if (!existing.trim()) {
+        return `${section}\n`;
+    }
+    return `${existing.replace(/\n*$/, '')}\n\n${section}\n`;
+}
+
+function renderSection(rules: RuleSource[], version: string): string {
+    const parts = [
+        `${SECTION_BEGIN} version=${version} (generated by RL4, edits inside this section are overwritten) -->`,
+        ...rules.map(rule => rule.body.trim()),
+        SECTION_END
+    ];
+    return parts.join('\n\n');
+}
+
+function versionComment(version: string): string {
+    return `<!-- RL4 governance rules version ${version} (generated by RL4, do not edit) -->`;
+}
+
+function withFrontmatter(frontmatter: string, body: string): string {
+    return frontmatter ? `---\n${frontmatter}\n---\n\n${body}` : body;
+}
+
+function slug(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
@@ -1,71 +1,100 @@
 import * as path from 'path';
 import * as fs from 'fs';
+import {
+    RULE_TARGETS,
+    RuleSource,
+    RuleTarget,
+    RuleTargetId,
+    RenderedRuleFile,
+    computeRulesVersion,
+    extractManagedSection,
+    mergeManagedSection,
+    parseRuleSource,
+    readInstalledVersion
+} from './RuleTargets';
+import { loadRulesConfig } from '../config/RulesConfig';
 
 /**
  * RulesInstaller - RL6
  *
  * Installs RL4 governance rules in the workspace for LLM calibration.
  * These rules are invariant and ensure LLM behaves according to RL4 governance.
+ *
+ * The same sources are rendered for every configured assistant (see RuleTargets);
+ * each rendered file carries the source version so drift is reported per target.
  */
 
+export const RULE_SOURCE_FILES = ['RL4.Agent.System.mdc', 'RL4.Core.mdc'];
+
 export interface RuleInstallationResult {
     success: boolean;
-    rulesInstalled: string[];
+    rulesInstalled: string[];   // Files written, relative to the workspace
     errors: string[];
+    version?: string;
+    targets?: Array<{ target: RuleTargetId; files: string[]; errors: string[] }>;
+}
+
+export type RuleFileStatus = 'up_to_date' | 'missing' | 'outdated' | 'modified';
+
+export interface RuleFileState {
+    path: string;
+    status: RuleFileStatus;
+    installedVersion: string | null;
+}
+
+export interface RuleTargetStatus {
+    target: RuleTargetId;
+    label: string;
+    status: RuleFileStatus;     // Worst file status of the target
+    files: RuleFileState[];
 }
 
+export interface RulesUpdateReport {
+    needsUpdate: boolean;
+    version: string;            // Version of the rule sources shipped with the extension
+    targets: RuleTargetStatus[];
+}
+
+const STATUS_SEVERITY: RuleFileStatus[] = ['up_to_date', 'modified', 'outdated', 'missing'];
+
 export class RulesInstaller {
 
     constructor(private workspaceRoot: string, private extensionPath?: string) {}
 
     /**
-     * Install RL4 rules in .cursor/rules directory
+     * Install RL4 rules for each target (configured ones by default)
      */
-    async installRules(): Promise<RuleInstallationResult> {
+    async installRules(targetIds?: RuleTargetId[]): Promise<RuleInstallationResult> {
         const result: RuleInstallationResult = {
             success: false,
             rulesInstalled: [],
-            errors: []
+            errors: [],
+            targets: []
         };
 
         try {
-            // Create .cursor/rules directory
-            const rulesDir = path.join(this.workspaceRoot, '.cursor', 'rules');
-            await fs.promises.mkdir(rulesDir, { recursive: true });
-
-            // Determine source path for rules
-            // In VSIX, rules are in /kernel/rules/ (not in out/)
-            const rulesSourceDir = this.extensionPath 
-                ? path.join(this.extensionPath, 'kernel', 'rules')
-                : path.join(__dirname, '..', 'rules');
-
-            // Install Agent System rules (highest priority)
-            const systemRuleResult = await this.installRule(
-                'RL4.Agent.System.mdc',
-                path.join(rulesSourceDir, 'RL4.Agent.System.mdc'),
-                rulesDir
-            );
-
-            if (systemRuleResult) {
-                result.rulesInstalled.push('RL4.Agent.System.mdc');
-            } else {
-                result.errors.push('Failed to install RL4.Agent.System.mdc');
+            const { rules, version, errors } = await this.loadSources();
+            result.version = version;
+            result.errors.push(...errors);
+            if (rules.length === 0) {
+                return result;
             }
 
-            // Install Core governance rules (high priority)
-            const coreRuleResult = await this.installRule(
-                'RL4.Core.mdc',
-                path.join(rulesSourceDir, 'RL4.Core.mdc'),
-                rulesDir
-            );
-
-            if (coreRuleResult) {
-                result.rulesInstalled.push('RL4.Core.mdc');
-            } else {
-                result.errors.push('Failed to install RL4.Core.mdc');
+            for (const target of this.resolveTargets(targetIds)) {
+                const report = { target: target.id, files: [] as string[], errors: [] as string[] };
+                for (const file of target.render(rules, version)) {
+                    if (await this.writeRuleFile(file)) {
+                        report.files.push(file.path);
+                        result.rulesInstalled.push(file.path);
+                    } else {
+                        report.errors.push(`Failed to install ${file.path}`);
+                    }
+                }
+                result.errors.push(...report.errors);
+                result.targets!.push(report);
             }
 
-            result.success = result.rulesInstalled.length === 2 && result.errors.length === 0;
+            result.success = result.rulesInstalled.length > 0 && result.errors.length === 0;
 
         } catch (error: any) {
             result.errors.push(`Installation failed: ${error.message}`);
@@ -76,89 +105,134 @@ export class RulesInstaller {
     }
 
     /**
-     * Install single rule file
+     * Write one rendered file (managed section merged into the existing file)
      */
-    private async installRule(
-        ruleName: string,
-        sourcePath: string,
-        targetDir: string
-    ): Promise<boolean> {
+    private async writeRuleFile(file: RenderedRuleFile): Promise<boolean> {
         try {
-            const targetPath = path.join(targetDir, ruleName);
+            const targetPath = path.join(this.workspaceRoot, file.path);
+            await fs.promises.mkdir(path.dirname(targetPath), { recursive: true });
 
-            // Check if source exists
-            if (!fs.existsSync(sourcePath)) {
-                console.error(`[RulesInstaller] Source rule not found: ${sourcePath}`);
-                return false;
+            let content = file.content;
+            if (file.managedSection) {
+                const existing = fs.existsSync(targetPath) ? await fs.promises.readFile(targetPath, 'utf8') : '';
+                content = mergeManagedSection(existing, file.content);
             }
+            await fs.promises.writeFile(targetPath, content, 'utf8');
 
-            // Copy rule file
-            const sourceContent = await fs.promises.readFile(sourcePath, 'utf8');
-            await fs.promises.writeFile(targetPath, sourceContent, 'utf8');
-
-            console.log(`[RulesInstaller] Installed rule: ${ruleName}`);
+            console.log(`[RulesInstaller] Installed rule: ${file.path}`);
             return true;
 
         } catch (error: any) {
-            console.error(`[RulesInstaller] Failed to install ${ruleName}:`, error.message);
+            console.error(`[RulesInstaller] Failed to install ${file.path}:`, error.message);
             return false;
         }
     }
 
     /**
-     * Verify rules are properly installed
+     * Verify rules are properly installed, per target
      */
-    async verifyInstallation(): Promise<{ installed: string[]; missing: string[] }> {
-        const rulesDir = path.join(this.workspaceRoot, '.cursor', 'rules');
-        const expectedRules = ['RL4.Agent.System.mdc', 'RL4.Core.mdc'];
-
-        const installed: string[] = [];
-        const missing: string[] = [];
-
-        for (const rule of expectedRules) {
-            const rulePath = path.join(rulesDir, rule);
-            if (fs.existsSync(rulePath)) {
-                installed.push(rule);
-            } else {
-                missing.push(rule);
-            }
-        }
-
-        return { installed, missing };
+    async verifyInstallation(): Promise<{ installed: string[]; missing: string[]; targets: RuleTargetStatus[] }> {
+        const { targets } = await this.checkForUpdates();
+        const files = targets.flatMap(target => target.files);
+
+        return {
+            installed: files.filter(file => file.status !== 'missing').map(file => file.path),
+            missing: files.filter(file => file.status === 'missing').map(file => file.path),
+            targets
+        };
     }
 
     /**
-     * Check if rules need update (source newer than target)
+     * Check if rules need update (any target missing, outdated or locally modified)
      */
     async needsUpdate(): Promise<boolean> {
         try {
-            const rulesDir = path.join(this.workspaceRoot, '.cursor', 'rules');
-            const sourceDir = this.extensionPath 
-                ? path.join(this.extensionPath, 'kernel', 'rules')
-                : path.join(__dirname, '..', 'rules');
+            return (await this.checkForUpdates()).needsUpdate;
+        } catch (error) {
+            console.error('[RulesInstaller] Error checking update status:', error);
+            return true; // Err on side of caution
+        }
+    }
 
-            for (const rule of ['RL4.Agent.System.mdc', 'RL4.Core.mdc']) {
-                const sourcePath = path.join(sourceDir, rule);
-                const targetPath = path.join(rulesDir, rule);
+    /**
+     * Compare each target's installed files with the current rendering
+     */
+    async checkForUpdates(targetIds?: RuleTargetId[]): Promise<RulesUpdateReport> {
+        const { rules, version } = await this.loadSources();
+        const targets: RuleTargetStatus[] = [];
+
+        for (const target of this.resolveTargets(targetIds)) {
+            const files = target.render(rules, version).map(file => this.checkRuleFile(file, version));
+            const status = files.reduce<RuleFileStatus>(
+                (worst, file) => STATUS_SEVERITY.indexOf(file.status) > STATUS_SEVERITY.indexOf(worst) ? file.status : worst,
+                'up_to_date'
+            );
+            targets.push({ target: target.id, label: target.label, status, files });
+        }
 
-                if (!fs.existsSync(targetPath)) {
-                    return true; // Needs installation
-                }
+        return {
+            needsUpdate: targets.some(target => target.status !== 'up_to_date'),
+            version,
+            targets
+        };
+    }
 
-                if (fs.existsSync(sourcePath)) {
-                    const sourceStats = await fs.promises.stat(sourcePath);
-                    const targetStats = await fs.promises.stat(targetPath);
+    private checkRuleFile(file: RenderedRuleFile, version: string): RuleFileState {
+        const targetPath = path.join(this.workspaceRoot, file.path);
+        let installed: string | null = null;
+        try {
+            const content = fs.readFileSync(targetPath, 'utf8');
+            installed = file.managedSection ? extractManagedSection(content) : content;
+        } catch {
+            // Not installed
+        }
 
-                    if (sourceStats.mtime > targetStats.mtime) {
-                        return true; // Needs update
-                    }
-                }
-            }
+        if (installed === null) {
+            return { path: file.path, status: 'missing', installedVersion: null };
+        }
+        const installedVersion = readInstalledVersion(installed);
+        const status: RuleFileStatus = installedVersion !== version
+            ? 'outdated'
+            : installed.replace(/\r\n/g, '\n') !== file.content ? 'modified' : 'up_to_date';
+        return { path: file.path, status, installedVersion };
+    }
 
-            return false; // Up to date
-        } catch (error) {
-            console.error('[RulesInstaller] Error checking update status:', error);
-            return true; // Err on side of caution
+    /**
+     * Requested targets, else configured ones ('auto': Cursor plus detected assistants)
+     */
+    private resolveTargets(targetIds?: RuleTargetId[]): RuleTarget[] {
+        const configured = targetIds ?? loadRulesConfig(this.workspaceRoot).targets;
+        if (configured !== 'auto') {
+            return RULE_TARGETS.filter(target => configured.includes(target.id));
         }
+        return RULE_TARGETS.filter(target =>
+            target.id === 'cursor' || target.detect.some(marker => fs.existsSync(path.join(this.workspaceRoot, marker)))
+        );
     }
-}
\ No newline at end of file
+
+    /**
+     * Read rule sources (in VSIX, rules are in /kernel/rules/, not in out/)
+     */
+    private async loadSources(): Promise<{ rules: RuleSource[]; version: string; errors: string[] }> {
+        const rulesSourceDir = this.extensionPath
+            ? path.join(this.extensionPath, 'kernel', 'rules')
+            : path.join(__dirname, '..', 'rules');
+
+        const rules: RuleSource[] = [];
+        const contents: string[] = [];
+        const errors: string[] = [];
+        for (const fileName of RULE_SOURCE_FILES) {
+            const sourcePath = path.join(rulesSourceDir, fileName);
+            try {
+                const content = await fs.promises.readFile(sourcePath, 'utf8');
+                contents.push(content);
+                rules.push(parseRuleSource(fileName, content));
+            } catch {
+                console.error(`[RulesInstaller] Source rule not found: ${sourcePath}`);
+                errors.push(`Failed to install ${fileName}: source not found`);
+            }
+        }
+
+        return { rules, version: computeRulesVersion(contents), errors };
+    }
+}
@@ -4,6 +4,12 @@ import { execFileSync } from 'child_process';
 import { TimelineAggregator, DailyTimeline } from '../indexer/TimelineAggregator';
 import { CognitiveLogger } from '../core/CognitiveLogger';
 import { MIL } from '../memory/MIL';
+import { EventSource, EventType } from '../memory/types';
+import { DiffStore, describeChangedRegions } from '../memory/DiffStore';
+import { formatTerminalRun } from '../inputs/TerminalCommandListener';
+import { resolveModelProfile, tokenizerFor } from './TokenBudget';
+import { loadTokenizerConfig } from '../config/TokenizerConfig';
+import { LedgerState, loadLedgerState, verifyLedgers, writeLedgerState } from '../rbom/LedgerVerifier';
 
 export interface TimeMachinePromptResult {
     prompt: string;
@@ -13,6 +19,9 @@ export interface TimeMachinePromptResult {
         safeModeEvents: number;
         avgCognitiveLoad?: number;
         finalBytes: number;
+        finalTokens: number;
+        tokenizer: string;          // Tokenizer id used for finalTokens
+        tokensExact: boolean;       // false when estimated (no vocabulary available)
     };
 }
 
@@ -73,6 +82,7 @@ interface ContextSnapshotData {
 interface LedgerStateSummary {
     safeMode: boolean;
     corruptionReason?: string | null;
+    lastCycleId?: number;
     lastCycleMerkleRoot?: string;
     updated?: string;
 }
@@ -80,10 +90,12 @@ interface LedgerStateSummary {
 interface TimeMachinePromptData {
     start: Date;
     end: Date;
+    branch?: string;
     cyclesObserved: number;
     safeModeEvents: number;
     avgCognitiveLoad?: number;
     gitActivity: GitActivityData;
+    changedRegions: string[];   // Hunks (DiffStore) : "abc1234 lines 40–90 of src/x.ts (Symbol)"
     walData: WalData;
     diagnostics: {
         shadow: DiagnosticRunData;
@@ -94,6 +106,7 @@ interface TimeMachinePromptData {
     ledgerState?: LedgerStateSummary;
     modifiedFiles: string[];
     milEvents?: any[]; // MIL unified events
+    rewrittenCommits?: number; // GIT_COMMIT events hidden because their commit was rewritten
     decisions?: any[]; // Cognitive decisions
     replayHash?: string; // Deterministic replay hash
 }
@@ -128,7 +141,10 @@ export class TimeMachinePromptBuilder {
         }
     }
 
-    async build(range: { startIso: string; endIso?: string }): Promise<TimeMachinePromptResult> {
+    /**
+     * @param range.branch - Only keep git history and MIL events of this branch (all branches if omitted)
+     */
+    async build(range: { startIso: string; endIso?: string; branch?: string }): Promise<TimeMachinePromptResult> {
         const startDate = new Date(range.startIso);
         if (Number.isNaN(startDate.getTime())) {
             throw new Error('Invalid start date');
@@ -140,13 +156,16 @@ export class TimeMachinePromptBuilder {
         if (endDate.getTime() < startDate.getTime()) {
             throw new Error('End date cannot be before start date');
         }
+        if (range.branch !== undefined && !/^[^-\s][^\s]*$/.test(range.branch)) {
+            throw new Error(`Invalid branch: ${range.branch}`);
+        }
 
         const timelineSummaries = await this.loadTimelines(startDate, endDate);
         const cyclesObserved = this.countCycles(startDate, endDate);
         const safeModeEvents = this.countSafeModeEvents(startDate, endDate);
         const avgCognitiveLoad = this.computeAverageCognitiveLoad(timelineSummaries);
 
-        const gitActivity = this.collectGitActivity(startDate, endDate);
+        const gitActivity = this.collectGitActivity(startDate, endDate, range.branch);
         const walData = this.collectWalData(startDate, endDate);
         const diagnosticsShadow = this.collectDiagnosticRuns('shadow', startDate, endDate);
         const diagnosticsLive = this.collectDiagnosticRuns('live', startDate, endDate);
@@ -157,17 +176,27 @@ export class TimeMachinePromptBuilder {
 
         // Enrich with MIL events (if available)
         let milEvents: any[] = [];
+        let rewrittenCommits = 0;
+        let orphaned = new Set<string>();
         if (this.mil) {
             try {
                 const startMs = startDate.getTime();
                 const endMs = endDate.getTime();
-                milEvents = await this.mil.queryTemporal(startMs, endMs);
+                milEvents = await this.mil.queryTemporal(startMs, endMs, range.branch ? { branch: range.branch } : undefined);
+
+                // Commits réécrits (rebase, reset, amend) : absents de l'historique git, retirés ici aussi
+                orphaned = await this.mil.getOrphanedCommits();
+                const kept = milEvents.filter(e => !(e.type === EventType.GIT_COMMIT && orphaned.has(e.payload?.metadata?.commit?.hash)));
+                rewrittenCommits = milEvents.length - kept.length;
+                milEvents = kept;
             } catch (error) {
                 // Silent failure - MIL is optional
                 this.logger?.warning?.(`Failed to query MIL events: ${error}`);
             }
         }
 
+        const changedRegions = this.collectChangedRegions(startDate, endDate, range.branch, orphaned);
+
         // ⚠️ PHASE 8 : Load decisions and RCEP blobs, reconstruct SCF, calculate replay hash
         let decisions: any[] = [];
         let replayHash: string | null = null;
@@ -190,10 +219,12 @@ export class TimeMachinePromptBuilder {
         const prompt = this.composePrompt({
             start: startDate,
             end: endDate,
+            branch: range.branch,
             cyclesObserved,
             safeModeEvents,
             avgCognitiveLoad,
             gitActivity,
+            changedRegions,
             walData,
             diagnostics: {
                 shadow: diagnosticsShadow,
@@ -204,18 +235,23 @@ export class TimeMachinePromptBuilder {
             ledgerState,
             modifiedFiles,
             milEvents: milEvents.length > 0 ? milEvents : undefined,
+            rewrittenCommits: rewrittenCommits > 0 ? rewrittenCommits : undefined,
             decisions: decisions.length > 0 ? decisions : undefined,
             replayHash: replayHash || undefined
         });
 
         const finalBytes = Buffer.byteLength(prompt, 'utf-8');
+        const tokenizer = tokenizerFor(resolveModelProfile(loadTokenizerConfig(this.workspaceRoot).model));
+        const finalTokens = tokenizer.count(prompt);
         this.writeDiagnostics({
             start: startDate.toISOString(),
             end: endDate.toISOString(),
             cyclesObserved,
             safeModeEvents,
             avgCognitiveLoad,
-            finalBytes
+            finalBytes,
+            finalTokens,
+            tokenizer: tokenizer.id
         });
 
         return {
@@ -225,7 +261,10 @@ export class TimeMachinePromptBuilder {
                 cyclesObserved,
                 safeModeEvents,
                 avgCognitiveLoad,
-                finalBytes
+                finalBytes,
+                finalTokens,
+                tokenizer: tokenizer.id,
+                tokensExact: tokenizer.exact
             }
         };
     }
@@ -245,6 +284,9 @@ export class TimeMachinePromptBuilder {
         sections.push('');
         sections.push(`Generated: ${generatedAt}`);
         sections.push(`Period: ${periodLabel}`);
+        if (data.branch) {
+            sections.push(`Branch: ${data.branch}`);
+        }
         sections.push('');
         sections.push('---');
         sections.push('');
@@ -253,6 +295,13 @@ export class TimeMachinePromptBuilder {
         sections.push(data.gitActivity.log || 'No git commits recorded in this range.');
         sections.push('```');
         sections.push(`Commits count: ${data.gitActivity.count}`);
+        if (data.changedRegions.length > 0) {
+            sections.push('');
+            sections.push('### Changed regions (per hunk, most recent first)');
+            sections.push('```');
+            sections.push(...data.changedRegions);
+            sections.push('```');
+        }
         sections.push('');
         sections.push('---');
         sections.push('');
@@ -261,6 +310,19 @@ export class TimeMachinePromptBuilder {
         if (data.milEvents && data.milEvents.length > 0) {
             sections.push('## 2. MIL Unified Events (Memory Index Layer)');
             sections.push(`Total unified events: ${data.milEvents.length}`);
+            if (data.rewrittenCommits) {
+                sections.push(`Rewritten commits hidden (rebase/reset/amend): ${data.rewrittenCommits}`);
+            }
+            const terminalRuns = data.milEvents.filter(e => e.type === EventType.TERMINAL_COMMAND);
+            if (terminalRuns.length > 0) {
+                sections.push('');
+                sections.push('Terminal commands (chronological, with exit code):');
+                sections.push('```');
+                for (const event of terminalRuns.slice(-20)) {
+                    sections.push(`[${new Date(event.timestamp).toISOString()}] ${formatTerminalRun(event.metadata || {})}`);
+                }
+                sections.push('```');
+            }
             sections.push('');
             sections.push('Event timeline (normalized, unified schema):');
             sections.push('```');
@@ -269,6 +331,12 @@ export class TimeMachinePromptBuilder {
             for (const event of eventsToShow) {
                 const time = new Date(event.timestamp).toISOString();
                 sections.push(`[${time}] ${event.type} (${event.source})`);
+                if (event.type === EventType.TERMINAL_COMMAND) {
+                    sections.push(`  → ${formatTerminalRun(event.metadata || {})}`);
+                }
+                if (event.source === EventSource.BUILD && event.metadata?.message) {
+                    sections.push(`  → ${event.metadata.message}`);
+                }
                 if (event.indexed_fields?.files && event.indexed_fields.files.length > 0) {
                     sections.push(`  → Files: ${event.indexed_fields.files.slice(0, 3).join(', ')}${event.indexed_fields.files.length > 3 ? '...' : ''}`);
                 }
@@ -333,6 +401,7 @@ export class TimeMachinePromptBuilder {
         if (data.ledgerState) {
             sections.push(`- safeMode: ${data.ledgerState.safeMode}`);
             sections.push(`- corruptionReason: ${data.ledgerState.corruptionReason ?? 'none'}`);
+            sections.push(`- lastCycleId: ${data.ledgerState.lastCycleId ?? 'n/a'}`);
             sections.push(`- lastCycleMerkleRoot: ${data.ledgerState.lastCycleMerkleRoot ?? 'n/a'}`);
             sections.push(`- updated: ${data.ledgerState.updated ?? 'unknown'}`);
         } else {
@@ -482,13 +551,13 @@ export class TimeMachinePromptBuilder {
         return total / timelines.length;
     }
 
-    private collectGitActivity(start: Date, end: Date): GitActivityData {
+    private collectGitActivity(start: Date, end: Date, branch?: string): GitActivityData {
         try {
             const startIso = this.getStartOfDay(start).toISOString();
             const untilIso = this.addDays(this.getEndOfDay(end), 1).toISOString();
             const output = execFileSync(
                 'git',
-                ['log', `--since=${startIso}`, `--until=${untilIso}`, '--format=%h %ad %s', '--date=short'],
+                ['log', `--since=${startIso}`, `--until=${untilIso}`, '--format=%h %ad %s', '--date=short', ...(branch ? [branch, '--'] : [])],
                 { cwd: this.workspaceRoot, encoding: 'utf8' }
             ).trim();
             const lines = output ? output.split('\n').filter(Boolean) : [];
@@ -497,14 +566,29 @@ export class TimeMachinePromptBuilder {
                 count: lines.length
             };
         } catch {
-            // Git not available or not a repo — silently fallback
+            // Git not available or not a repo (or unknown branch) — silently fallback
             return {
-                log: '(No git repository detected — skipping git activity.)',
+                log: branch
+                    ? `(No git history for branch ${branch} — skipping git activity.)`
+                    : '(No git repository detected — skipping git activity.)',
                 count: 0
             };
         }
     }
 
+    private collectChangedRegions(start: Date, end: Date, branch: string | undefined, orphaned: Set<string>): string[] {
+        try {
+            const records = new DiffStore(this.workspaceRoot)
+                .readRange(this.getStartOfDay(start).getTime(), this.getEndOfDay(end).getTime())
+                .filter(record => !branch || record.branch === branch)
+                .filter(record => !(record.commit && orphaned.has(record.commit)));
+            return describeChangedRegions(records, MAX_SECTION_ITEMS);
+        } catch (error) {
+            this.logger?.warning?.(`Failed to read diff hunks: ${error}`);
+            return [];
+        }
+    }
+
     private collectWalData(start: Date, end: Date): WalData {
         const walPath = path.join(this.workspaceRoot, '.reasoning_rl4', 'wal.jsonl');
         if (!fs.existsSync(walPath)) {
@@ -670,23 +754,27 @@ export class TimeMachinePromptBuilder {
         };
     }
 
+    /**
+     * Ledger state from a fresh hash chain verification (falls back to the last recorded one)
+     */
     private collectLedgerState(): LedgerStateSummary | undefined {
-        const statePath = path.join(this.workspaceRoot, '.reasoning_rl4', 'ledger', 'state.json');
-        if (!fs.existsSync(statePath)) {
-            return undefined;
-        }
+        let data: LedgerState | null;
         try {
-            const data = JSON.parse(fs.readFileSync(statePath, 'utf-8'));
-            return {
-                safeMode: Boolean(data.safeMode),
-                corruptionReason: data.corruptionReason ?? null,
-                lastCycleMerkleRoot: data.lastCycleMerkleRoot,
-                updated: data.updated
-            };
+            data = writeLedgerState(this.workspaceRoot, verifyLedgers(this.workspaceRoot));
         } catch (error) {
-            this.logger?.warning(`[TimeMachine] Failed to read ledger state: ${error instanceof Error ? error.message : error}`);
+            this.logger?.warning(`[TimeMachine] Failed to verify ledgers: ${error instanceof Error ? error.message : error}`);
+            data = loadLedgerState(this.workspaceRoot);
+        }
+        if (!data) {
             return undefined;
         }
+        return {
+            safeMode: Boolean(data.safeMode),
+            corruptionReason: data.corruptionReason ?? null,
+            lastCycleId: data.lastCycleId,
+            lastCycleMerkleRoot: data.lastCycleMerkleRoot,
+            updated: data.updated
+        };
     }
 
     private collectModifiedFiles(start: Date, end: Date): string[] {
@@ -789,6 +877,8 @@ export class TimeMachinePromptBuilder {
         safeModeEvents: number;
         avgCognitiveLoad?: number;
         finalBytes: number;
+        finalTokens: number;
+        tokenizer: string;
     }) {
         try {
             const payload = {
@@ -0,0 +1,134 @@
+/**
+ * TokenBudget - Model profiles and token budget accounting for snapshot assembly
+ *
+ * Purpose:
+ *   Resolves the token budget a snapshot must fit into (explicit budget or the
+ *   model's context window minus the tokens reserved for the answer), and
+ *   records exactly which context was dropped or summarized to fit it.
+ *
+ * Token counts come from the profile's tokenizer family (see TokenizerRegistry):
+ * exact with an offline BPE vocabulary, estimated otherwise.
+ */
+
+import { Tokenizer } from '../tokenizer/Tokenizer';
+import { TokenizerFamily, getTokenizer } from '../tokenizer/TokenizerRegistry';
+
+export interface ModelProfile {
+    id: string;
+    contextWindow: number;          // Total tokens accepted by the model
+    reservedOutputTokens: number;   // Tokens kept free for the model's answer
+    tokenizer: TokenizerFamily;
+}
+
+export interface TokenBudgetOptions {
+    tokenBudget?: number;           // Explicit target (tokens), overrides the profile
+    model?: string;                 // Model profile id (see MODEL_PROFILES)
+}
+
+export interface PromptCut {
+    source: string;                 // Fragment source (e.g. "adr:ADR-001", "section:mil_context")
+    type: string;                   // Fragment type or section name
+    priority: "critical" | "high" | "medium" | "low";
+    relevance: number;              // 0..1
+    action: "dropped" | "summarized";
+    tokensBefore: number;
+    tokensAfter: number;            // 0 when dropped
+}
+
+export interface TokenBudgetReport {
+    model: string;
+    budget: number;
+    estimatedTokens: number;        // Estimated size of the returned prompt
+    fits: boolean;
+    cuts: PromptCut[];
+}
+
+export const DEFAULT_MODEL_PROFILE = "default";
+
+export const MODEL_PROFILES: Record<string, ModelProfile> = {
+    "default": { id: "default", contextWindow: 8000, reservedOutputTokens: 0, tokenizer: "heuristic" },
+    "claude-3.5-sonnet": { id: "claude-3.5-sonnet", contextWindow: 200000, reservedOutputTokens: 8192, tokenizer: "claude" },
+    "claude-3-haiku": { id: "claude-3-haiku", contextWindow: 200000, reservedOutputTokens: 4096, tokenizer: "claude" },
+    "gpt-4o": { id: "gpt-4o", contextWindow: 128000, reservedOutputTokens: 4096, tokenizer: "o200k_base" },
+    "gpt-4": { id: "gpt-4", contextWindow: 8192, reservedOutputTokens: 1024, tokenizer: "cl100k_base" },
+    "gpt-3.5-turbo": { id: "gpt-3.5-turbo", contextWindow: 16385, reservedOutputTokens: 1024, tokenizer: "cl100k_base" },
+    "gemini-1.5-pro": { id: "gemini-1.5-pro", contextWindow: 1000000, reservedOutputTokens: 8192, tokenizer: "gemini" }
+};
+
+/**
+ * Resolve a model profile by id (unknown ids fall back to the default profile)
+ */
+export function resolveModelProfile(model?: string): ModelProfile {
+    return (model && MODEL_PROFILES[model]) || MODEL_PROFILES[DEFAULT_MODEL_PROFILE];
+}
+
+/**
+ * Resolve the token budget: explicit budget first, else context window minus reserved output
+ */
+export function resolveTokenBudget(options: TokenBudgetOptions, profile: ModelProfile): number {
+    if (options.tokenBudget !== undefined) {
+        if (!Number.isFinite(options.tokenBudget) || options.tokenBudget <= 0) {
+            throw new Error(`Invalid token budget: ${options.tokenBudget}`);
+        }
+        return Math.floor(options.tokenBudget);
+    }
+    return profile.contextWindow - profile.reservedOutputTokens;
+}
+
+/**
+ * Tokenizer used to size prompts for a model profile
+ */
+export function tokenizerFor(profile: ModelProfile = MODEL_PROFILES[DEFAULT_MODEL_PROFILE]): Tokenizer {
+    return getTokenizer(profile.tokenizer);
+}
+
+/**
+ * Token count of a text for a model profile (exact when the profile's vocabulary is available)
+ */
+export function estimateTokens(text: string, profile: ModelProfile = MODEL_PROFILES[DEFAULT_MODEL_PROFILE]): number {
+    return tokenizerFor(profile).count(text);
+}
+
+/**
+ * Shorten a text to at most maxTokens (mechanical truncation, marked with an ellipsis)
+ */
+export function truncateToTokens(text: string, maxTokens: number, profile: ModelProfile = MODEL_PROFILES[DEFAULT_MODEL_PROFILE]): string {
+    if (estimateTokens(text, profile) <= maxTokens) {
+        return text;
+    }
+    // Longest prefix that still fits once the ellipsis is appended
+    let low = 0;
+    let high = text.length;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (estimateTokens(text.slice(0, mid).trimEnd() + "…", profile) <= maxTokens) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return text.slice(0, low).trimEnd() + "…";
+}
+
+export interface TokenizerInfo {
+    model: string;
+    contextWindow: number;
+    tokenizer: string;
+    exact: boolean;
+    models: string[];               // Selectable model profiles
+}
+
+/**
+ * Describe the tokenizer used for a model (for UI display)
+ */
+export function describeTokenizer(model?: string): TokenizerInfo {
+    const profile = resolveModelProfile(model);
+    const tokenizer = tokenizerFor(profile);
+    return {
+        model: profile.id,
+        contextWindow: profile.contextWindow,
+        tokenizer: tokenizer.id,
+        exact: tokenizer.exact,
+        models: Object.keys(MODEL_PROFILES)
+    };
+}
@@ -72,13 +72,17 @@ import { ADRSignalEnricher, EnrichedADRSignal } from './ADRSignalEnricher';
 import { ProjectAnalyzer, ProjectAnalysis } from './ProjectAnalyzer';
 import { ProjectDetector } from '../detection/ProjectDetector';
 import { PromptOptimizer, OptimizationRequest } from './PromptOptimizer';
+import { TokenBudgetOptions, TokenBudgetReport, PromptCut, resolveModelProfile, resolveTokenBudget, estimateTokens, tokenizerFor } from './TokenBudget';
+import { loadTokenizerConfig } from '../config/TokenizerConfig';
 import { AppendOnlyWriter } from '../AppendOnlyWriter';
 import { ILogger } from '../core/ILogger';
 import { SnapshotDataSummaryComplete } from '../types/ExtendedTypes';
 import { CodeStateAnalyzer } from './CodeStateAnalyzer';
 import { ActivityReconstructor, ActivitySummary } from './ActivityReconstructor';
 import { CycleContextV1 } from '../core/CycleContextV1';
+import { loadLedgerState } from '../rbom/LedgerVerifier';
 import { PromptIntegrityValidator } from './PromptIntegrityValidator';
+import { RCEPReference, formatRCEPReference } from '../storage/RCEPStore';
 import { PromptCodecRL4, PromptContext, Layer, Topic, TimelineEvent, Decision, Insight as RCEPInsight } from '../rl4/PromptCodecRL4';
 import { KernelIntent } from '../core/KernelIntent';
 import {
@@ -94,6 +98,18 @@ import {
 } from '../context/snapshot/PromptSnapshot';
 import { PromptSnapshotValidator } from '../context/snapshot/PromptSnapshotValidator';
 import { MIL } from '../memory/MIL';
+import { DiffStore, describeChangedRegions } from '../memory/DiffStore';
+import { EventQueryNode, EventSource, EventType } from '../memory/types';
+import { formatTerminalRun } from '../inputs/TerminalCommandListener';
+import { BUILD_RESULT_EVENT_TYPES, describeRedGreenHistory } from '../inputs/BuildResultListener';
+import { DecisionConflictDetector, DecisionConflict } from '../cognitive/DecisionConflictDetector';
+
+/**
+ * Snapshot generation options: token budget + branch scope
+ */
+export interface SnapshotOptions extends TokenBudgetOptions {
+  branch?: string;                // Only keep MIL activity of this git branch
+}
 
 type AdHocAction = {
   confidence?: 'HIGH' | 'MEDIUM' | 'LOW';
@@ -138,6 +154,7 @@ interface SnapshotData {
   llmKPIs?: any;
   workspaceRoot?: string;
   milContext?: any; // MIL context (if available)
+  redGreenHistory?: { state: string[]; history: string[] }; // Builds / tests (BuildResultListener)
 }
 
 export interface PromptGenerationMetrics {
@@ -148,6 +165,9 @@ export interface PromptGenerationMetrics {
   format_time_ms: number;
   optimize_time_ms: number;
   total_time_ms: number;
+  prompt_tokens: number;
+  tokenizer: string; // Tokenizer id (e.g. "cl100k_base", "heuristic:4")
+  tokens_exact: boolean; // false when counted with the characters-per-token estimate
 }
 
 export interface SnapshotMetadata {
@@ -161,7 +181,9 @@ export interface SnapshotMetadata {
   compression: { originalSize: number; optimizedSize: number; reductionPercent: number; mode: string };
   rcepBlob?: string; // RCEP-encoded context
   rcepChecksum?: string | null; // RCEP checksum for reference
+  rcepReference?: string | null; // Signed [RL4-REF …] marker embedded in the prompt
   promptMetrics?: PromptGenerationMetrics;
+  tokenBudget?: TokenBudgetReport; // Target budget and what was cut to fit it
   snapshot?: PromptSnapshot; // Phase 1: PromptSnapshot artefact (non-intrusive)
 }
 
@@ -327,18 +349,24 @@ export class UnifiedPromptBuilder {
    * @param deviationMode - User's perception angle (strict/flexible/exploratory/free/firstUse)
    * @param cycleContext - Optional cycle context
    * @param intent - Optional KernelIntent (Phase 0: accepted but ignored for backward-compat)
-   * @returns Prompt with metadata (compression metrics, RCEP blob)
+   * @param budgetOptions - Optional token budget / model profile the prompt must fit into, and branch scope
+   * @returns Prompt with metadata (compression metrics, RCEP blob, token budget report)
    */
   async generate(
     deviationMode: 'strict' | 'flexible' | 'exploratory' | 'free' | 'firstUse' = 'flexible',
     cycleContext?: CycleContextV1,
-    intent?: KernelIntent
+    intent?: KernelIntent,
+    budgetOptions: SnapshotOptions = {}
   ): Promise<{
     prompt: string;
     metadata: SnapshotMetadata;
   }> {
     const now = new Date();
     const resolvedMode = this.resolveMode(deviationMode, cycleContext?.deviation_mode);
+    // Modèle explicite, sinon celui choisi pour le workspace
+    const modelProfile = resolveModelProfile(budgetOptions.model ?? loadTokenizerConfig(this.workspaceRoot).model);
+    const tokenizer = tokenizerFor(modelProfile);
+    const tokenBudget = resolveTokenBudget(budgetOptions, modelProfile);
 
     // Phase 0: Log intent if provided (observability)
     if (intent) {
@@ -363,7 +391,7 @@ export class UnifiedPromptBuilder {
     }
 
     // PHASE 0: Build SnapshotData (agrège et normalise toutes les données)
-    const snapshotData = await this.buildSnapshotData(resolvedMode, cycleContext);
+    const snapshotData = await this.buildSnapshotData(resolvedMode, cycleContext, budgetOptions.branch);
 
     // PHASE 1: Build PromptContext from SnapshotData for RCEP encoding
     const promptContext = await this.buildPromptContext(snapshotData, cycleContext);
@@ -387,6 +415,29 @@ export class UnifiedPromptBuilder {
     // PHASE 2: Encode through RCEP and optimize with PromptOptimizer v2
     const formatStart = Date.now();
 
+    // Sections ajoutées après optimisation : leur taille est retirée du budget des fragments
+    const milSection = snapshotData.milContext ? this.formatMILContext(snapshotData.milContext) : '';
+    const redGreenSection = snapshotData.redGreenHistory ? this.formatRedGreenHistory(snapshotData.redGreenHistory) : '';
+    let conflictSection = '';
+    if (this.decisionStore) {
+      // Conflits entre décisions courantes : indiquer au LLM quelle décision fait foi
+      try {
+        const conflicts = await new DecisionConflictDetector(this.decisionStore).detect();
+        conflictSection = this.formatDecisionConflicts(conflicts);
+      } catch (error) {
+        this.logger?.warning?.(`[UnifiedPromptBuilder] Failed to detect decision conflicts: ${error}`);
+      }
+    }
+    // ⚠️ PHASE 3 : Instructions cognitives strictes pour LLM (jamais coupées)
+    // (référence RCEP pas encore connue : un marqueur de même taille réserve sa place dans le budget)
+    let cognitiveInstructions = this.formatCognitiveInstructions(
+      this.rcepStore ? { checksum: '0'.repeat(64), signature: '0'.repeat(16) } : null
+    );
+    const sectionTokens = estimateTokens(
+      this.ensureSnapshotMarkers([milSection, redGreenSection, conflictSection, cognitiveInstructions].join('\n\n\n\n')),
+      modelProfile
+    );
+
     // Create optimization request for PromptOptimizer v2
     const optimizationRequest: OptimizationRequest = {
       rawIntent: this.extractRawIntent(snapshotData),
@@ -399,7 +450,9 @@ export class UnifiedPromptBuilder {
         deviationMode: resolvedMode,
         timestamp: now.toISOString(),
         workspaceRoot: this.workspaceRoot
-      }
+      },
+      tokenBudget: Math.max(0, tokenBudget - sectionTokens),
+      modelProfile
     };
 
     // Use new PromptOptimizer v2 with RCEP integration
@@ -412,19 +465,35 @@ export class UnifiedPromptBuilder {
     let rcepChecksum: string | null = null;
     if (this.rcepStore && rcepBlob) {
       try {
-        rcepChecksum = this.rcepStore.calculateChecksumPublic(rcepBlob);
+        const checksum = this.rcepStore.calculateChecksumPublic(rcepBlob);
         await this.rcepStore.store(rcepBlob, {
           timestamp: Date.now(),
-          checksum: rcepChecksum
+          checksum
         });
+        // Only a stored blob can be referenced: no [RL4-REF] marker otherwise
+        rcepChecksum = checksum;
         this.logger?.info?.(`[UnifiedPromptBuilder] RCEP blob stored with checksum: ${rcepChecksum}`);
       } catch (error) {
         this.logger?.error?.(`[UnifiedPromptBuilder] Failed to store RCEP blob: ${error}`);
       }
     }
 
+    // Référence signée du blob : recopiée par le LLM, elle rattache sa réponse à ce snapshot
+    let rcepReference: RCEPReference | null = null;
+    if (this.rcepStore && rcepChecksum) {
+      try {
+        rcepReference = this.rcepStore.createReference(rcepChecksum);
+        cognitiveInstructions = this.formatCognitiveInstructions(rcepReference);
+      } catch (error) {
+        this.logger?.warning?.(`[UnifiedPromptBuilder] Failed to sign RCEP reference: ${error}`);
+      }
+    }
+    if (!rcepReference) {
+      cognitiveInstructions = this.formatCognitiveInstructions(null);
+    }
+
     // ⚠️ PHASE 7 : Compresser RCEP en SCF et décompresser en prompt final
-    let finalPrompt = prompt;
+    let scfPrompt: string | null = null;
     let scfGenerationId: string | undefined;
     if (this.scfCompressor && rcepBlob && rcepChecksum) {
       try {
@@ -433,40 +502,79 @@ export class UnifiedPromptBuilder {
         
         // Compresser PromptContext → SCF
         const anchorEventId = (snapshotData.metadata as any).anchorEventId;
-        const scf = await this.scfCompressor.compress(promptContext, anchorEventId);
+        const scf = await this.scfCompressor.compress(promptContext, anchorEventId, tokenBudget);
         scfGenerationId = scf.anchor.event_id;
         
         // Décompresser SCF → prompt final
-        finalPrompt = await this.scfCompressor.decompress(scf);
+        scfPrompt = await this.scfCompressor.decompress(scf);
         
         this.logger?.info?.(`[UnifiedPromptBuilder] SCF compression and decompression applied.`);
       } catch (error) {
         this.logger?.error?.(`[UnifiedPromptBuilder] Failed to compress/decompress SCF: ${error}`);
         // Fallback to original prompt
       }
-    } else {
-      finalPrompt = prompt; // Fallback to original prompt if SCF not enabled/available
     }
 
-    // Add MIL context section if available (MVP: enrich prompt with unified events)
-    if (snapshotData.milContext) {
-      const milSection = this.formatMILContext(snapshotData.milContext);
-      // Insert after first section or at beginning
-      const firstSectionMatch = prompt.match(/^(##\s+[^\n]+\n)/m);
-      if (firstSectionMatch) {
-        const insertPos = firstSectionMatch.index! + firstSectionMatch[0].length;
-        prompt = prompt.slice(0, insertPos) + '\n' + milSection + '\n\n' + prompt.slice(insertPos);
-      } else {
-        prompt = milSection + '\n\n' + prompt;
+    const assemble = (include: { mil: boolean; redGreen: boolean; conflicts: boolean }): string => {
+      let assembled = optimizationResult.optimizedPrompt;
+      // Add MIL context section if available (MVP: enrich prompt with unified events)
+      if (include.mil && milSection) {
+        // Insert after first section or at beginning
+        const firstSectionMatch = assembled.match(/^(##\s+[^\n]+\n)/m);
+        if (firstSectionMatch) {
+          const insertPos = firstSectionMatch.index! + firstSectionMatch[0].length;
+          assembled = assembled.slice(0, insertPos) + '\n' + milSection + '\n\n' + assembled.slice(insertPos);
+        } else {
+          assembled = milSection + '\n\n' + assembled;
+        }
       }
-    }
+      if (include.redGreen && redGreenSection) {
+        assembled = assembled + '\n\n' + redGreenSection;
+      }
+      if (include.conflicts && conflictSection) {
+        assembled = assembled + '\n\n' + conflictSection;
+      }
+      // Insérer avant la fin du prompt
+      assembled = assembled + '\n\n' + cognitiveInstructions;
+      return this.ensureSnapshotMarkers(assembled);
+    };
 
-    // ⚠️ PHASE 3 : Ajouter instructions cognitives strictes pour LLM
-    const cognitiveInstructions = this.formatCognitiveInstructions();
-    // Insérer avant la fin du prompt
-    prompt = prompt + '\n\n' + cognitiveInstructions;
+    // Si le prompt déborde encore : le contexte MIL, l'historique rouge/vert, puis les conflits, cèdent leur place
+    const budgetCuts: PromptCut[] = [...(optimizationResult.budget?.cuts || [])];
+    const include = { mil: true, redGreen: true, conflicts: true };
+    prompt = assemble(include);
+    const optionalSections: Array<{ key: 'mil' | 'redGreen' | 'conflicts'; content: string; priority: PromptCut['priority'] }> = [
+      { key: 'mil', content: milSection, priority: 'medium' },
+      { key: 'redGreen', content: redGreenSection, priority: 'medium' },
+      { key: 'conflicts', content: conflictSection, priority: 'high' }
+    ];
+    for (const section of optionalSections) {
+      if (!section.content || estimateTokens(prompt, modelProfile) <= tokenBudget) continue;
+      include[section.key] = false;
+      prompt = assemble(include);
+      budgetCuts.push({
+        source: `section:${section.key}`,
+        type: 'section',
+        priority: section.priority,
+        relevance: 1,
+        action: 'dropped',
+        tokensBefore: estimateTokens(section.content, modelProfile),
+        tokensAfter: 0
+      });
+    }
 
-    prompt = this.ensureSnapshotMarkers(prompt);
+    // Le prompt SCF n'est retenu que s'il tient dans le budget
+    let finalPrompt = prompt; // Fallback to budgeted prompt if SCF not enabled/available
+    if (scfPrompt !== null) {
+      const referencedScfPrompt = rcepReference && !scfPrompt.includes(formatRCEPReference(rcepReference))
+        ? `${scfPrompt}\n\n${this.formatReferenceInstructions(rcepReference)}`
+        : scfPrompt;
+      if (estimateTokens(referencedScfPrompt, modelProfile) <= tokenBudget) {
+        finalPrompt = referencedScfPrompt;
+      } else {
+        this.logger?.warning?.(`[UnifiedPromptBuilder] SCF prompt exceeds token budget (${tokenBudget}), using budgeted prompt`);
+      }
+    }
     const formatDuration = Date.now() - formatStart;
 
     // PHASE 3: Update metadata with compression metrics
@@ -484,6 +592,8 @@ export class UnifiedPromptBuilder {
     };
     snapshotData.metadata.rcepBlob = rcepBlob; // Store RCEP blob
     snapshotData.metadata.rcepChecksum = rcepChecksum; // Store checksum for reference
+    snapshotData.metadata.rcepReference = rcepReference ? formatRCEPReference(rcepReference) : null; // Signed marker embedded in the prompt
+    const estimatedTokens = estimateTokens(finalPrompt, modelProfile);
     snapshotData.metadata.promptMetrics = {
       prompt_chars_original: originalSize,
       prompt_chars_optimized: optimizedSize,
@@ -491,7 +601,17 @@ export class UnifiedPromptBuilder {
       rcep_compression_ratio: Number(rcepCompressionRatio.toFixed(4)),
       format_time_ms: formatDuration,
       optimize_time_ms: 0, // Handled by PromptOptimizer
-      total_time_ms: formatDuration
+      total_time_ms: formatDuration,
+      prompt_tokens: estimatedTokens,
+      tokenizer: tokenizer.id,
+      tokens_exact: tokenizer.exact
+    };
+    snapshotData.metadata.tokenBudget = {
+      model: modelProfile.id,
+      budget: tokenBudget,
+      estimatedTokens,
+      fits: estimatedTokens <= tokenBudget,
+      cuts: budgetCuts
     };
 
     // Phase 1: Add snapshot to metadata (non-intrusive, doesn't affect prompt)
@@ -900,7 +1020,8 @@ export class UnifiedPromptBuilder {
 
   private async buildSnapshotData(
     requestedMode: 'strict' | 'flexible' | 'exploratory' | 'free' | 'firstUse',
-    cycleContext?: CycleContextV1
+    cycleContext?: CycleContextV1,
+    branch?: string
   ): Promise<SnapshotData> {
     const resolvedMode = this.resolveMode(requestedMode, cycleContext?.deviation_mode);
     const profile = this.profiles[resolvedMode];
@@ -993,13 +1114,44 @@ export class UnifiedPromptBuilder {
       let milContext = null;
       if (this.mil) {
         try {
-          milContext = await this.mil.buildContextForLLM(undefined, 3600000); // 1 hour window
+          milContext = await this.mil.buildContextForLLM(undefined, 3600000, branch ? { branch } : undefined); // 1 hour window
+          if (milContext && branch) {
+            milContext = { ...milContext, branch };
+          }
+          if (milContext && milContext.events.length > 0) {
+            // Hunks (COLD) des commits / rafales de la fenêtre : références citables par les décisions
+            const records = new DiffStore(this.workspaceRoot).findByEvents(
+              milContext.events.map(e => e.id),
+              milContext.window.start,
+              milContext.window.end
+            );
+            milContext = { ...milContext, changed_regions: describeChangedRegions(records, 15) };
+          }
         } catch (error) {
           // Silent failure - MIL is optional
           this.logger?.warning?.(`Failed to build MIL context: ${error}`);
         }
       }
 
+      // 9b. Red/green history: last build/test results, beyond the 1-hour MIL window
+      let redGreenHistory: SnapshotData['redGreenHistory'];
+      if (this.mil) {
+        try {
+          const typeNode: EventQueryNode = { op: 'type', values: BUILD_RESULT_EVENT_TYPES };
+          const results = await this.mil.query({
+            where: branch ? { op: 'and', nodes: [typeNode, { op: 'branch', values: [branch] }] } : typeNode,
+            orderBy: 'timestamp',
+            order: 'desc',
+            limit: 50
+          });
+          if (results.length > 0) {
+            redGreenHistory = describeRedGreenHistory(results, 10);
+          }
+        } catch (error) {
+          this.logger?.warning?.(`Failed to build red/green history: ${error}`);
+        }
+      }
+
       // 10. Analyze code state
       const goalText = plan?.goal || '';
       const taskTexts = tasks?.active.map(t => t.task) || [];
@@ -1027,6 +1179,13 @@ export class UnifiedPromptBuilder {
       // DEPRECATED: anomalyDetector removed (violation Loi 1)
       const anomalies: any[] = [];
 
+      // Ledger integrity: root from the cycle context, else the last verified cycle (ledger/state.json)
+      const ledgerState = loadLedgerState(this.workspaceRoot);
+      const merkleRoot = (cycleContext instanceof CycleContextV1 ? cycleContext.getMerkleRoot() : (cycleContext as any)?.merkleRoot)
+        || (cycleContext as any)?.merkle_root
+        || ledgerState?.lastCycleMerkleRoot
+        || safeDefaults.merkleRoot;
+
       // 11. Build complete snapshot data
       const snapshotData: SnapshotData = {
         plan,
@@ -1058,11 +1217,12 @@ export class UnifiedPromptBuilder {
         deviationMode: resolvedMode,
         generatedTimestamp: now,
         milContext: milContext || undefined, // Add MIL context to snapshot
+        redGreenHistory,
         metadata: {
           kernelCycle: (cycleContext as any)?.kernel_cycle || 0,
-          merkleRoot: (cycleContext as any)?.merkle_root || safeDefaults.merkleRoot,
+          merkleRoot,
           kernelFlags: {
-            safeMode: (cycleContext as any)?.kernel_flags?.safe_mode || safeDefaults.safeMode,
+            safeMode: (cycleContext as any)?.kernel_flags?.safe_mode || ledgerState?.safeMode || safeDefaults.safeMode,
             ready: (cycleContext as any)?.kernel_flags?.ready || safeDefaults.ready
           },
           deviationMode: resolvedMode,
@@ -1079,7 +1239,7 @@ export class UnifiedPromptBuilder {
         cycleContext,
         recentActivityDigest: (cycleContext as any)?.recent_activity_digest,
         rbomCycleSummary: (cycleContext as any)?.rbom_cycle_summary,
-        ledgerState: (cycleContext as any)?.ledger_state,
+        ledgerState: (cycleContext as any)?.ledger_state ?? ledgerState ?? undefined,
         kernelKPIs: (cycleContext as any)?.kernel_kpis,
         llmKPIs: (cycleContext as any)?.llm_kpis,
         workspaceRoot: this.workspaceRoot
@@ -1351,7 +1511,11 @@ export class UnifiedPromptBuilder {
     section += `### Temporal Window\n`;
     section += `- **Period**: ${new Date(window.start).toISOString()} → ${new Date(window.end).toISOString()}\n`;
     section += `- **Duration**: ${Math.round(window.duration_ms / 1000)}s\n`;
-    section += `- **Total Events**: ${events.length} (normalized, unified schema)\n\n`;
+    section += `- **Total Events**: ${events.length} (normalized, unified schema)\n`;
+    if (milContext.branch) {
+      section += `- **Branch**: ${milContext.branch}\n`;
+    }
+    section += `\n`;
 
     if (spatial && (spatial.files?.length > 0 || spatial.modules?.length > 0)) {
       section += `### Spatial Context (Where)\n`;
@@ -1372,12 +1536,36 @@ export class UnifiedPromptBuilder {
       section += '\n';
     }
 
+    const regions: string[] = milContext.changed_regions || [];
+    if (regions.length > 0) {
+      section += `### Changed Regions (cite as "lines X–Y of <file>")\n`;
+      regions.forEach((region: string) => {
+        section += `- ${region}\n`;
+      });
+      section += '\n';
+    }
+
+    const terminalRuns = events.filter((e: any) => e.type === EventType.TERMINAL_COMMAND);
+    if (terminalRuns.length > 0) {
+      section += `### Terminal Commands (chronological, with exit code)\n`;
+      terminalRuns.slice(-10).forEach((event: any) => {
+        section += `- [${new Date(event.timestamp).toISOString()}] ${formatTerminalRun(event.metadata || {})}\n`;
+      });
+      section += '\n';
+    }
+
     section += `### Unified Event Timeline\n\n`;
     // Show recent events (last 10)
     const recentEvents = events.slice(-10);
     for (const event of recentEvents) {
       const time = new Date(event.timestamp).toISOString();
       section += `[${time}] ${event.type} (${event.source})\n`;
+      if (event.type === EventType.TERMINAL_COMMAND) {
+        section += `  → ${formatTerminalRun(event.metadata || {})}\n`;
+      }
+      if (event.source === EventSource.BUILD && event.metadata?.message) {
+        section += `  → ${event.metadata.message}\n`;
+      }
       if (event.indexed_fields?.files && event.indexed_fields.files.length > 0) {
         section += `  → Files: ${event.indexed_fields.files.slice(0, 3).join(', ')}${event.indexed_fields.files.length > 3 ? '...' : ''}\n`;
       }
@@ -1391,6 +1579,58 @@ export class UnifiedPromptBuilder {
     return section;
   }
 
+  /**
+   * Format build/test red/green history for prompt inclusion
+   */
+  private formatRedGreenHistory(redGreen: { state: string[]; history: string[] }): string {
+    if (redGreen.history.length === 0) {
+      return '';
+    }
+
+    let section = '## 🚦 RED/GREEN HISTORY (builds & tests)\n\n';
+    redGreen.state.forEach(line => {
+      section += `- **${line.split(':')[0]}**:${line.slice(line.indexOf(':') + 1)}\n`;
+    });
+    section += '\nMost recent first:\n';
+    redGreen.history.forEach(line => {
+      section += `- ${line}\n`;
+    });
+    return section;
+  }
+
+  /**
+   * Format decision conflicts for prompt inclusion
+   * 
+   * La décision la plus récente fait foi tant que le conflit n'est pas résolu via `supersedes`.
+   */
+  private formatDecisionConflicts(conflicts: DecisionConflict[]): string {
+    if (conflicts.length === 0) {
+      return '';
+    }
+
+    let section = '## ⚖️ CONFLICTING DECISIONS\n\n';
+    section += 'The following current decisions contradict each other. The most recent one is authoritative until resolved.\n\n';
+
+    for (const conflict of conflicts.slice(0, 10)) {
+      const [olderId, newerId] = conflict.decision_ids;
+      const [olderOption, newerOption] = conflict.chosen_options;
+      const scope = [
+        conflict.intent ? `intent \`${conflict.intent}\`` : null,
+        conflict.shared_files.length > 0 ? `files ${conflict.shared_files.slice(0, 3).join(', ')}${conflict.shared_files.length > 3 ? '...' : ''}` : null
+      ].filter(Boolean).join(' / ');
+      section += `- ${scope}\n`;
+      section += `  → CURRENT: \`${newerId}\` chose "${newerOption}"\n`;
+      section += `  → OLDER:   \`${olderId}\` chose "${olderOption}"\n`;
+    }
+
+    if (conflicts.length > 10) {
+      section += `\n*(${conflicts.length - 10} more conflicts)*\n`;
+    }
+
+    section += '\nIf you confirm the current decision, emit a decision whose `supersedes` lists the older decision ID.\n';
+    return section;
+  }
+
   /**
    * ⚠️ PHASE 3 : Formatage des instructions cognitives strictes pour LLM
    * 
@@ -1398,10 +1638,15 @@ export class UnifiedPromptBuilder {
    * - Format JSON strict avec schéma DecisionSchema
    * - confidence >= 95% pour RL4 updates
    * - Jamais inventer context_refs
+   * - Recopier la référence RCEP signée (null : blob non stocké, pas de référence)
    */
-  private formatCognitiveInstructions(): string {
+  private formatCognitiveInstructions(rcepReference: RCEPReference | null): string {
     let section = '## 🧠 COGNITIVE DECISION GENERATION (MANDATORY)\n\n';
     
+    if (rcepReference) {
+      section += this.formatReferenceInstructions(rcepReference) + '\n';
+    }
+    
     section += 'You MUST generate cognitive decisions in the following format:\n\n';
     section += '```json:decisions\n';
     section += '[\n';
@@ -1416,13 +1661,16 @@ export class UnifiedPromptBuilder {
     section += '    "chosen_option": "...",\n';
     section += '    "constraints": ["constraint1", "constraint2"],\n';
     section += '    "invalidation_conditions": [\n';
-    section += '      { "condition": "...", "trigger_event_types": ["FILE_DELETE"], "severity": "critical" }\n';
+    section += '      { "condition": "...", "trigger_event_types": ["file_delete"], "severity": "critical" },\n';
+    section += '      { "condition": "more than 3 commits touching src/db", "trigger_event_types": ["git_commit"], "paths": ["src/db/**"], "min_events": 4, "severity": "warning" },\n';
+    section += '      { "condition": "payment tests fail", "trigger_event_types": ["test_failed"], "paths": ["src/payments/**"], "severity": "critical" }\n';
     section += '    ],\n';
     section += '    "previous_decisions": ["decision_id_1"],\n';
+    section += '    "supersedes": ["decision_id_replaced"],\n';
     section += '    "related_adrs": ["adr_id_1"],\n';
     section += '    "confidence_llm": 95,  // 0-100 (MUST be >= 95 for RL4 updates)\n';
     section += '    "validation_status": "pending",\n';
-    section += '    "rcep_ref": "rcep_checksum"\n';
+    section += `    "rcep_ref": "${rcepReference ? rcepReference.checksum : 'rcep_checksum'}"\n`;
     section += '  }\n';
     section += ']\n';
     section += '```\n\n';
@@ -1432,16 +1680,41 @@ export class UnifiedPromptBuilder {
     section += '2. **Confidence >= 95% for RL4 updates**: If `intent` includes `rl4_update`, `confidence_llm` MUST be >= 95.\n';
     section += '3. **Never invent context_refs**: All `context_refs` MUST reference real event IDs, ADR IDs, or file paths from the context.\n';
     section += '4. **Explicit options**: Always provide at least 2 options in `options_considered`.\n';
-    section += '5. **Invalidation conditions**: For critical decisions, specify `invalidation_conditions` that would invalidate the decision.\n';
-    section += '6. **Previous decisions**: Link to previous decisions that led to this one via `previous_decisions`.\n\n';
+    section += '5. **Invalidation conditions**: For critical decisions, specify `invalidation_conditions` that would invalidate the decision. Scope them with `paths` (globs), `modules` or `keywords`, and `min_events` as a threshold; unscoped conditions fire on ANY event of the listed types.\n';
+    section += '6. **Previous decisions**: Link to previous decisions that led to this one via `previous_decisions`.\n';
+    section += '7. **Supersession**: When a decision replaces an earlier one (same intent or same files, different option), list the earlier decision ID in `supersedes`.\n\n';
     
     section += '### ⚠️ VALIDATION:\n\n';
     section += 'Decisions with `confidence_llm < 95%` for RL4 updates will be REJECTED.\n';
     section += 'Decisions with invalid or missing `context_refs` will be REJECTED.\n';
-    section += 'Decisions without a valid `intent` will be REJECTED.\n\n';
-    
+    section += 'Decisions without a valid `intent` will be REJECTED.\n';
+    section += 'Each decision is validated on its own: valid ones are kept, rejected ones are reported back with the failing field.\n';
+    if (rcepReference) {
+      section += 'Responses without the RL4 reference line, or with an altered one, will be REJECTED.\n';
+    }
+    section += '\n';
+
+    section += '### ✏️ PLAN / TASKS / CONTEXT UPDATES (optional):\n\n';
+    section += 'To change Plan.RL4, Tasks.RL4 or Context.RL4, add an `rl4_update` block that references the decision (intent including `rl4_update`, confidence >= 95) justifying it:\n\n';
+    section += '```json:rl4_update\n';
+    section += '{ "target": "tasks", "decision_id": "uuid-of-the-rl4_update-decision", "ops": [\n';
+    section += '  { "op": "complete", "field": "active", "value": "exact task text" },\n';
+    section += '  { "op": "add", "field": "blockers", "value": "..." }\n';
+    section += '] }\n';
+    section += '```\n\n';
+    section += 'Editable fields: plan → `phase`, `goal`, `timeline.start`, `timeline.target` (set), `successCriteria`, `constraints` (add/remove); ';
+    section += 'tasks → `active` (add/remove/complete), `blockers` (add/remove); context → `observations` (add/remove).\n';
+    section += 'Updates are shown to the user as a diff and only written after approval.\n\n';
+
     return section;
   }
+
+  /**
+   * Consigne de recopie du marqueur (aussi ajoutée au prompt SCF, qui n'a pas les instructions)
+   */
+  private formatReferenceInstructions(rcepReference: RCEPReference): string {
+    return `**RL4 reference**: copy this line verbatim as the first line of your answer:\n\n${formatRCEPReference(rcepReference)}\n`;
+  }
 }
 
 export interface RCEPExportResult {
@@ -0,0 +1,104 @@
+/**
+ * Tests for FileHistoryCollector - backing data of the RL4 File History view
+ *
+ * Verifies that generated ADRs are linked to a file through their declared components
+ * (exact path, parent directory or glob), that decisions keep their invalidation status, and
+ * that a file's history is cached until a new MIL event.
+ */
+
+import { FileHistoryCollector } from '../FileHistoryCollector';
+import { DecisionStore } from '../../cognitive/DecisionStore';
+import { CognitiveDecision } from '../../cognitive/DecisionSchema';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('FileHistoryCollector', () => {
+  let root: string;
+  let decisionStore: DecisionStore;
+
+  const writeAutoADR = (id: string, components: string[]) => {
+    const dir = path.join(root, '.reasoning_rl4', 'adrs', 'auto');
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, `${id}.json`), JSON.stringify({
+      id,
+      title: `Generated ${id}`,
+      status: 'accepted',
+      context: 'Detected pattern',
+      decision: 'Keep the module layout',
+      consequences: '',
+      components
+    }));
+  };
+  const decision = (id: string, contextRefs: string[]): CognitiveDecision => ({
+    id,
+    seq: 1,
+    timestamp: Date.now() - 1000,
+    isoTimestamp: new Date().toISOString(),
+    intent: 'choose_layout',
+    intent_text: `Decision ${id}`,
+    context_refs: contextRefs,
+    options_considered: [{ option: 'Modules', rationale: 'Test', weight: 500 }],
+    chosen_option: 'Modules',
+    constraints: [],
+    invalidation_conditions: [],
+    previous_decisions: [],
+    related_adrs: [],
+    confidence_llm: 90,
+    confidence_gate: 'pass',
+    validation_status: 'validated',
+    rcep_ref: 'test-checksum'
+  });
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'rl4-file-history-test-'));
+    fs.mkdirSync(path.join(root, 'src', 'db'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'src', 'db', 'store.ts'), 'export {};\n');
+    decisionStore = new DecisionStore(root);
+    await decisionStore.init();
+  });
+
+  afterEach(async () => {
+    await decisionStore.close();
+    if (fs.existsSync(root)) {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  test('should link generated ADRs through their components and report decision status', async () => {
+    writeAutoADR('adr-auto-exact', ['src/db/store.ts']);
+    writeAutoADR('adr-auto-dir', ['src/db/']);
+    writeAutoADR('adr-auto-glob', ['src/**/*.ts']);
+    writeAutoADR('adr-auto-other', ['src/api', 'lib/**/*.ts']);
+    await decisionStore.store(decision('dec-current', ['src/db/store.ts']));
+    await decisionStore.store(decision('dec-old', ['src/db/store.ts']));
+    await decisionStore.invalidateDecision('dec-old', 'evt-1', 'Layout changed');
+
+    const history = await new FileHistoryCollector(root, undefined, decisionStore).collect('src/db/store.ts');
+
+    expect(history.adrs.map(a => `${a.id}:${a.match}`).sort())
+      .toEqual(['adr-auto-dir:component', 'adr-auto-exact:component', 'adr-auto-glob:component']);
+    expect(history.adrs[0]).toMatchObject({ status: 'accepted', decision: 'Keep the module layout' });
+    expect(history.decisions.map(d => `${d.id}:${d.status}`).sort()).toEqual(['dec-current:valid', 'dec-old:invalidated']);
+    expect(history.events).toEqual([]);
+  });
+
+  test('should cache a file history until a new MIL event or a forced refresh', async () => {
+    let revision = 1;
+    const mil = {
+      queryByFile: jest.fn().mockResolvedValue([]),
+      getOrphanedCommits: jest.fn().mockResolvedValue(new Set()),
+      getRevision: jest.fn(() => revision)
+    };
+    const collector = new FileHistoryCollector(root, mil as any, decisionStore);
+
+    const first = await collector.collect(path.join(root, 'src', 'db', 'store.ts'));
+    expect(await collector.collect('src/db/store.ts')).toBe(first);
+    expect(mil.queryByFile).toHaveBeenCalledTimes(1);
+
+    revision++;
+    expect(await collector.collect('src/db/store.ts')).not.toBe(first);
+    await collector.collect('src/db/store.ts', { refresh: true });
+    expect(mil.queryByFile).toHaveBeenCalledTimes(3);
+  });
+});
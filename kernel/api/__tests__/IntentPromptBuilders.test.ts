@@ -0,0 +1,158 @@
+/**
+ * Tests for the explain_file, code_review and onboarding intents
+ *
+ * Verifies that the new commands resolve to first-class intents, that the explain-file
+ * prompt gathers MIL events, decisions, ADRs and commits touching the file, and that the
+ * review and onboarding prompts are built from the working tree and the governance state.
+ */
+
+import { IntentionResolver } from '../../core/IntentionResolver';
+import { FileHistoryCollector } from '../FileHistoryCollector';
+import { ExplainFilePromptBuilder } from '../ExplainFilePromptBuilder';
+import { CodeReviewPromptBuilder, parsePorcelainStatus } from '../CodeReviewPromptBuilder';
+import { OnboardingPromptBuilder } from '../OnboardingPromptBuilder';
+import { PlanTasksContextParser } from '../PlanTasksContextParser';
+import { DecisionStore } from '../../cognitive/DecisionStore';
+import { CognitiveDecision } from '../../cognitive/DecisionSchema';
+import { EventSource, EventType } from '../../memory/types';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('Intent prompt builders - explain_file, code_review, onboarding', () => {
+  let root: string;
+  let decisionStore: DecisionStore;
+
+  const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=Dev', '-c', 'user.email=dev@example.com', ...args], { cwd: root, stdio: 'pipe' });
+  const write = (relative: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(root, relative)), { recursive: true });
+    fs.writeFileSync(path.join(root, relative), content);
+  };
+  const decision = (id: string, fields: Partial<CognitiveDecision>): CognitiveDecision => ({
+    id,
+    seq: 1,
+    timestamp: Date.now() - 1000,
+    isoTimestamp: new Date().toISOString(),
+    intent: 'choose_storage',
+    intent_text: `Decision ${id}`,
+    context_refs: [],
+    options_considered: [{ option: 'Repository', rationale: 'Test', weight: 500 }],
+    chosen_option: 'Repository',
+    constraints: [],
+    invalidation_conditions: [],
+    previous_decisions: [],
+    related_adrs: [],
+    confidence_llm: 90,
+    confidence_gate: 'pass',
+    validation_status: 'validated',
+    rcep_ref: 'test-checksum',
+    ...fields
+  });
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'rl4-intent-test-'));
+    git('init', '-q');
+    write('src/db/store.ts', 'export const store = new Map();\n');
+    write('docs/adr/adr-001-repository.md', [
+      '# Repository pattern for storage',
+      '',
+      'Status: Accepted',
+      'Date: 2026-01-02',
+      '',
+      '## Context',
+      'SQL is spread across the code base.',
+      '',
+      '## Decision',
+      'All SQL goes through the repository in src/db/store.ts; no raw SQL in handlers.'
+    ].join('\n'));
+    write('README.md', '# Demo\n\nA demo service.\n');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'Add storage repository');
+
+    decisionStore = new DecisionStore(root);
+    await decisionStore.init();
+  });
+
+  afterEach(async () => {
+    await decisionStore.close();
+    if (fs.existsSync(root)) {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  test('should resolve the new commands and explain a file from events, decisions, ADRs and commits', async () => {
+    const resolver = new IntentionResolver();
+    expect(['build_explain_file_prompt', 'build_code_review_prompt', 'build_onboarding_prompt', 'debug_me']
+      .map(command => resolver.resolve({ command })).map(i => `${i.kind}:${i.source.confidence}`))
+      .toEqual(['explain_file:1', 'code_review:1', 'onboarding:1', 'snapshot:0.5']);
+
+    await decisionStore.store(decision('dec-repo', { context_refs: ['./src/db/store.ts'], related_adrs: ['adr-001-repository'] }));
+    await decisionStore.store(decision('dec-other', { context_refs: ['src/api/routes.ts'] }));
+    const mil = {
+      queryByFile: jest.fn().mockResolvedValue([
+        { id: 'evt-1', timestamp: 1000, type: EventType.FILE_MODIFY, source: EventSource.FILE_SYSTEM, payload: {} },
+        { id: 'evt-2', timestamp: 2000, type: EventType.GIT_COMMIT, source: EventSource.GIT, payload: { metadata: { commit: { hash: 'abc', message: 'Add storage repository' } } } }
+      ]),
+      getOrphanedCommits: jest.fn().mockResolvedValue(new Set()),
+      getRevision: jest.fn().mockReturnValue(1)
+    };
+    const collector = new FileHistoryCollector(root, mil as any, decisionStore);
+
+    const history = await collector.collect(path.join(root, 'src', 'db', 'store.ts'));
+    expect(mil.queryByFile).toHaveBeenCalledWith('src/db/store.ts');
+    expect(history.events.map(e => `${e.id}:${e.summary}`)).toEqual(['evt-2:Add storage repository', 'evt-1:']);
+    expect(history.decisions.map(d => `${d.id}:${d.status}`)).toEqual(['dec-repo:valid']);
+    expect(history.adrs).toEqual([expect.objectContaining({ id: 'adr-001-repository', title: 'Repository pattern for storage', match: 'path' })]);
+    expect(history.commits.map(c => c.subject)).toEqual(['Add storage repository']);
+    expect(() => collector.normalize('/elsewhere/file.ts')).toThrow('outside the workspace');
+
+    const result = await new ExplainFilePromptBuilder(root, collector).build({ file: 'src/db/store.ts' });
+    expect(result.intent).toBe('explain_file');
+    expect(result.prompt).toMatch(/^# RL4_AGENT_INTENT: EXPLAIN_FILE/);
+    expect(result.prompt).toMatch(/\[dec-repo\] \d{4}-\d{2}-\d{2} Decision dec-repo → Repository \(confidence 90%, valid\)/);
+    expect(result.prompt).toContain('[adr-001-repository] Repository pattern for storage (Accepted, matched by path)');
+    expect(result.prompt).toContain('export const store = new Map();');
+    expect(result.metrics.sections).toEqual({ events: 2, decisions: 1, adrs: 1, commits: 1 });
+    expect(result.metrics.finalTokens).toBeGreaterThan(0);
+  });
+
+  test('should review the uncommitted diff against accepted ADRs and brief a newcomer', async () => {
+    const collector = new FileHistoryCollector(root, undefined, decisionStore);
+    const review = new CodeReviewPromptBuilder(root, collector);
+    await expect(review.build()).rejects.toThrow('No uncommitted changes to review');
+
+    await decisionStore.store(decision('dec-repo', { context_refs: ['src/db/store.ts'], constraints: ['No raw SQL outside the repository'] }));
+    await decisionStore.store(decision('dec-old', { context_refs: ['src/db/store.ts'], chosen_option: 'Active record' }));
+    await decisionStore.invalidateDecision('dec-old', 'evt-9', 'Replaced by the repository');
+    write('src/db/store.ts', 'export const store = new Map();\nexport const raw = "SELECT * FROM users";\n');
+    write('src/api/handler.ts', 'export {};\n');
+
+    const result = await review.build();
+    expect(result.intent).toBe('code_review');
+    expect(result.prompt).toContain('M  src/db/store.ts');
+    expect(result.prompt).toContain('?? src/api/handler.ts');
+    expect(result.prompt).toMatch(/\+\+\+ b\/src\/api\/handler\.ts\n@@ -0,0 \+1 @@\n\+export \{\};/);
+    expect(result.prompt).toContain('+export const raw = "SELECT * FROM users";');
+    expect(result.prompt).toContain('### [adr-001-repository] Repository pattern for storage');
+    expect(result.prompt).toContain('- [dec-repo] Decision dec-repo → Repository (files: src/db/store.ts)\n  Constraint: No raw SQL outside the repository');
+    expect(result.prompt).not.toContain('dec-old');
+    expect(result.metrics.sections).toMatchObject({ files: 2, adrs: 1, decisions: 1 });
+    expect(parsePorcelainStatus('R  old.ts -> new.ts\n M "a b.ts"\n')).toEqual([{ file: 'new.ts', status: 'R' }, { file: 'a b.ts', status: 'M' }]);
+
+    // Top-level listing follows the shared ignore rules (RL4 defaults, .git/info/exclude, .gitignore, .rl4ignore)
+    write('node_modules/left-pad/index.js', '');
+    write('dist/bundle.js', '');
+    fs.appendFileSync(path.join(root, '.git', 'info', 'exclude'), '\ndist/\n');
+    const rl4Path = path.join(root, '.reasoning_rl4', 'governance');
+    fs.mkdirSync(rl4Path, { recursive: true });
+    const onboarding = await new OnboardingPromptBuilder(root, new PlanTasksContextParser(rl4Path), decisionStore).build();
+    expect(onboarding.intent).toBe('onboarding');
+    expect(onboarding.prompt).toMatch(/^# RL4_AGENT_INTENT: ONBOARDING/);
+    expect(onboarding.prompt).toContain('A demo service.');
+    expect(onboarding.prompt).toContain('docs/\nsrc/\nREADME.md');
+    expect(onboarding.prompt).toContain('[dec-repo] Decision dec-repo → Repository (90%, src/db/store.ts)');
+    expect(onboarding.prompt).toMatch(/[0-9a-f]{7} \d{4}-\d{2}-\d{2} Dev: Add storage repository/);
+    expect(onboarding.metrics.sections).toEqual({ decisions: 1, adrs: 1, commits: 1 });
+  });
+});
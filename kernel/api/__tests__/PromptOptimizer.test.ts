@@ -0,0 +1,73 @@
+/**
+ * Tests for PromptOptimizer token budgeting
+ *
+ * Verifies that fragments are ranked by priority/relevance, that the lowest-value ones
+ * are dropped (or critical ones summarized) until the prompt fits, and that every cut is reported.
+ */
+
+import { PromptOptimizer, OptimizationRequest } from '../PromptOptimizer';
+import { BlindSpotReport } from '../BlindSpotDataLoader';
+import { PlanningSlice } from '../parsers/PlanTasksContextParser';
+import { estimateTokens, resolveModelProfile, resolveTokenBudget } from '../TokenBudget';
+
+describe('PromptOptimizer - Token budget', () => {
+  function makeSlice(id: string, summary: string): PlanningSlice {
+    return { id, start: '2026-01-01T00:00:00Z', end: null, filesTouched: new Set(), gitCommits: [], messages: [{} as any], summary };
+  }
+
+  const blindSpots: BlindSpotReport = {
+    missingExpectedFiles: ['src/storage/README.md'],
+    orphanFiles: [],
+    staleFiles: [],
+    timelineGaps: [],
+    unexploredHotspots: [{ file: 'src/storage/Compactor.ts', reason: 'churn' }],
+    weakSemanticZones: []
+  };
+
+  const request: OptimizationRequest = {
+    rawIntent: 'Refactor the snapshot file writer so the result should stay deterministic.',
+    planningContext: {
+      cycleId: 1,
+      slices: [
+        makeSlice('s1', `Migrate the ledger writer. ${'Keep the storage layer append-only and replayable. '.repeat(4)}`),
+        makeSlice('s2', `Harden crash recovery. ${'Replay the write-ahead log before serving queries. '.repeat(4)}`)
+      ]
+    },
+    blindSpots
+  };
+
+  test('should keep every fragment when the budget is large enough', async () => {
+    const result = await new PromptOptimizer().optimize({ ...request, tokenBudget: 100000 });
+
+    expect(result.budget!.cuts).toEqual([]);
+    expect(result.contextEnrichment.injectedPlanSlices).toBe(2);
+    expect(result.contextEnrichment.injectedBlindSpots).toBe(2);
+  });
+
+  test('should drop the lowest-value fragments and summarize critical ones to fit', async () => {
+    const tokenBudget = 130;
+    const result = await new PromptOptimizer().optimize({ ...request, tokenBudget });
+
+    expect(estimateTokens(result.optimizedPrompt)).toBeLessThanOrEqual(tokenBudget);
+    expect(result.budget!.estimatedTokens).toBeLessThanOrEqual(tokenBudget);
+    expect(result.optimizedPrompt).toContain('Migrate the ledger writer');
+
+    const cuts = result.budget!.cuts;
+    expect(cuts.map(c => [c.source, c.action])).toEqual([
+      ['plan:s2', 'summarized'],
+      ['blindspot:missing_files', 'dropped'],
+      ['blindspot:hotspots', 'dropped']
+    ]);
+    expect(cuts[0].tokensAfter).toBeLessThan(cuts[0].tokensBefore);
+    expect(result.optimizedPrompt).toContain('Harden crash recovery');
+    expect(result.contextEnrichment.injectedBlindSpots).toBe(0);
+  });
+
+  test('should resolve the budget from the model profile unless given explicitly', () => {
+    const gpt4 = resolveModelProfile('gpt-4');
+    expect(resolveTokenBudget({}, gpt4)).toBe(8192 - 1024);
+    expect(resolveTokenBudget({ tokenBudget: 3000 }, gpt4)).toBe(3000);
+    expect(resolveModelProfile('unknown-model').id).toBe('default');
+    expect(() => resolveTokenBudget({ tokenBudget: 0 }, gpt4)).toThrow('Invalid token budget');
+  });
+});
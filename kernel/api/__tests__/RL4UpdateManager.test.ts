@@ -0,0 +1,163 @@
+/**
+ * Tests for governed Plan/Tasks/Context.RL4 write-back
+ *
+ * Verifies that rl4_update blocks become pending previews only when they reference a
+ * passing rl4_update decision, that approval writes the previewed content and records it
+ * in the ledger, that invalid, ungated or stale updates are refused, and that an approved
+ * update interrupted before its atomic write is re-applied from the WAL at boot.
+ */
+
+import { RL4UpdateManager } from '../RL4UpdateManager';
+import { PlanTasksContextParser } from '../PlanTasksContextParser';
+import { AtomicFS } from '../../core/AtomicFS';
+import { WriteAheadLog } from '../../persistence/WriteAheadLog';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('RL4UpdateManager - Governed write-back', () => {
+  let root: string;
+  let rl4Path: string;
+  let parser: PlanTasksContextParser;
+  let ledger: { append: jest.Mock };
+  let manager: RL4UpdateManager;
+
+  const decision = (id: string, intent: string, confidence: number): any => ({
+    id,
+    intent,
+    confidence_llm: confidence,
+    confidence_gate: !intent.includes('rl4_update') || confidence >= 95 ? 'pass' : 'fail'
+  });
+  const updateBlock = (update: object) => '```json:rl4_update\n' + JSON.stringify(update, null, 2) + '\n```';
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'rl4-update-test-'));
+    rl4Path = path.join(root, '.reasoning_rl4', 'governance');
+    fs.mkdirSync(rl4Path, { recursive: true });
+    parser = new PlanTasksContextParser(rl4Path);
+    parser.saveTasks({
+      version: '1.0.0',
+      updated: '2026-01-01T00:00:00.000Z',
+      active: [{ completed: false, task: '[P0] Ship the diff review' }, { completed: false, task: 'Write docs' }],
+      blockers: [],
+      completed: [{ task: 'Bootstrap', timestamp: '2025-12-31T10:00:00.000Z' }]
+    });
+    ledger = { append: jest.fn().mockResolvedValue({}) };
+    manager = new RL4UpdateManager(rl4Path, parser, undefined, ledger as any);
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(root)) {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  test('should preview a gated update and write exactly the preview on approval', async () => {
+    const tasksFile = path.join(rl4Path, 'Tasks.RL4');
+    const original = fs.readFileSync(tasksFile, 'utf8');
+    const response = `Done.\n\n${updateBlock({
+      target: 'Tasks.RL4',
+      decision_id: 'dec-ship',
+      ops: [
+        { op: 'complete', field: 'active', value: '[p0] ship the diff review' },
+        { op: 'add', field: 'blockers', value: 'Waiting for API keys' },
+        { op: 'add', field: 'active', value: 'Write docs' }
+      ]
+    })}`;
+
+    const [proposal] = await manager.propose(response, [decision('dec-ship', 'rl4_update_tasks', 97)]);
+    expect(proposal).toMatchObject({ status: 'pending', target: 'tasks', file: 'Tasks.RL4', decision_id: 'dec-ship', issues: [], before: original });
+    expect(proposal.after).toMatch(/- \[x\] \[P0\] Ship the diff review \(completed: .+\)/);
+    expect(proposal.after).toContain('## Blockers\n- Waiting for API keys');
+    expect(proposal.after!.match(/Write docs/g)).toHaveLength(1);
+
+    // Nothing written before approval
+    expect(fs.readFileSync(tasksFile, 'utf8')).toBe(original);
+    expect(manager.list().map(u => u.status)).toEqual(['pending']);
+
+    await manager.apply(proposal.id);
+    expect(fs.readFileSync(tasksFile, 'utf8')).toBe(proposal.after);
+    const tasks = parser.parseTasks()!;
+    expect(tasks.active[0]).toMatchObject({ completed: true, task: '[P0] Ship the diff review' });
+    expect(tasks.blockers).toEqual(['Waiting for API keys']);
+    expect(tasks.completed).toEqual([{ task: 'Bootstrap', timestamp: '2025-12-31T10:00:00.000Z' }]);
+
+    expect(ledger.append).toHaveBeenCalledWith('rl4_update_applied', expect.objectContaining({
+      update_id: proposal.id,
+      decision_id: 'dec-ship',
+      file: 'Tasks.RL4',
+      before_hash: expect.stringMatching(/^[0-9a-f]{64}$/)
+    }));
+    await expect(manager.apply(proposal.id)).rejects.toThrow('already applied');
+    expect(manager.list()).toEqual([]); // Resolved updates are dropped with their contents
+  });
+
+  test('should refuse ungated, invalid or stale updates', async () => {
+    const decisions = [decision('dec-low', 'rl4_update_plan', 80), decision('dec-db', 'choose_database', 99), decision('dec-ok', 'rl4_update_plan', 96)];
+    const response = [
+      updateBlock({ target: 'plan', ops: [{ op: 'set', field: 'phase', value: 'Beta' }] }),
+      updateBlock({ target: 'plan', decision_id: 'dec-low', ops: [{ op: 'set', field: 'phase', value: 'Beta' }] }),
+      updateBlock({ target: 'plan', decision_id: 'dec-db', ops: [{ op: 'set', field: 'phase', value: 'Beta' }] }),
+      updateBlock({ target: 'context', decision_id: 'dec-ok', ops: [{ op: 'set', field: 'health', value: 'OK' }] }),
+      updateBlock({ target: 'tasks', decision_id: 'dec-ok', ops: [{ op: 'remove', field: 'active', value: 'Unknown task' }, { op: 'set', field: 'blockers', value: 'x' }] }),
+      updateBlock({ target: 'roadmap', decision_id: 'dec-ok', ops: [] }),
+      updateBlock({ target: 'plan', decision_id: 'dec-ok', ops: [{ op: 'set', field: 'phase', value: 'Beta' }] })
+    ].join('\n\n');
+
+    const proposals = await manager.propose(response, decisions);
+    expect(proposals.map(p => p.status)).toEqual(['rejected', 'rejected', 'rejected', 'rejected', 'rejected', 'rejected', 'pending']);
+    expect(proposals[0].issues[0]).toMatch(/^decision_id: RL4 updates must reference/);
+    expect(proposals[1].issues).toEqual(['decision_id: decision dec-low did not pass the confidence gate (confidence_llm 80 < 95)']);
+    expect(proposals[2].issues[0]).toMatch(/has intent 'choose_database'/);
+    expect(proposals[3].issues[0]).toMatch(/^ops\[0\]\.field: 'health' is not editable in Context\.RL4/);
+    expect(proposals[4].issues).toEqual([
+      "ops[0].value: 'Unknown task' not found in active",
+      "ops[1].op: 'set' is not allowed on blockers (allowed: add, remove)"
+    ]);
+    expect(proposals[5].issues.length).toBeGreaterThanOrEqual(2);
+    expect(manager.list()).toHaveLength(1);
+
+    // Plan.RL4 edited after the preview: the update must be regenerated
+    const planFile = path.join(rl4Path, 'Plan.RL4');
+    fs.writeFileSync(planFile, '# edited by hand\n');
+    await expect(manager.apply(proposals[6].id)).rejects.toThrow('Plan.RL4 changed since the preview');
+    await expect(manager.discard(proposals[6].id)).rejects.toThrow('already rejected');
+    expect(fs.readFileSync(planFile, 'utf8')).toBe('# edited by hand\n');
+    expect(ledger.append).not.toHaveBeenCalled();
+
+    // Discard is recorded without touching the file
+    const [again] = await manager.propose(response.split('\n\n').pop()!, decisions);
+    await manager.discard(again.id);
+    expect(ledger.append).toHaveBeenCalledWith('rl4_update_discarded', expect.objectContaining({ update_id: again.id, decision_id: 'dec-ok' }));
+    expect(fs.readFileSync(planFile, 'utf8')).toBe('# edited by hand\n');
+  });
+
+  test('should re-apply at boot an approved update interrupted before the atomic write', async () => {
+    const tasksFile = path.join(rl4Path, 'Tasks.RL4');
+    const past = new Date(Date.now() - 60000);
+    fs.utimesSync(tasksFile, past, past);
+    const original = fs.readFileSync(tasksFile, 'utf8');
+    const [proposal] = await manager.propose(updateBlock({
+      target: 'Tasks.RL4',
+      decision_id: 'dec-block',
+      ops: [{ op: 'add', field: 'blockers', value: 'Waiting for API keys' }]
+    }), [decision('dec-block', 'rl4_update_tasks', 96)]);
+
+    // Process dies between the WAL append and AtomicFS
+    const crash = jest.spyOn(AtomicFS, 'writeAtomicSync').mockImplementation(() => {
+      throw new Error('killed');
+    });
+    try {
+      await expect(manager.apply(proposal.id)).rejects.toThrow('Failed to write Tasks.RL4');
+    } finally {
+      crash.mockRestore();
+    }
+    expect(fs.readFileSync(tasksFile, 'utf8')).toBe(original);
+    expect(ledger.append).not.toHaveBeenCalled();
+
+    const result = WriteAheadLog.getInstance(root).recover();
+    expect(result.reapplied).toEqual(['governance/Tasks.RL4']);
+    expect(fs.readFileSync(tasksFile, 'utf8')).toBe(proposal.after);
+    expect(parser.parseTasks()!.blockers).toEqual(['Waiting for API keys']);
+  });
+});
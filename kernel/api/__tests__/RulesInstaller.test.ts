@@ -0,0 +1,96 @@
+/**
+ * Tests for multi-assistant rule installation
+ *
+ * Verifies that the RL4 governance rules are rendered into each assistant's native
+ * instruction files (with user content preserved around managed sections), and that
+ * verification reports missing, outdated and locally modified files per target.
+ */
+
+import { RulesInstaller } from '../RulesInstaller';
+import { SECTION_BEGIN, readInstalledVersion } from '../RuleTargets';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('RulesInstaller - Rule targets beyond Cursor', () => {
+  const extensionPath = path.resolve(__dirname, '..', '..', '..');
+  let root: string;
+
+  const read = (relative: string): string => fs.readFileSync(path.join(root, relative), 'utf-8');
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'rl4-rules-test-'));
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(root)) {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  test('should render rules for Cursor and every detected assistant', async () => {
+    fs.writeFileSync(path.join(root, 'AGENTS.md'), '# Team conventions\n\nUse pnpm.\n');
+    fs.mkdirSync(path.join(root, '.windsurf'));
+
+    const installer = new RulesInstaller(root, extensionPath);
+    const result = await installer.installRules();
+
+    expect(result.success).toBe(true);
+    expect(result.targets!.map(t => t.target)).toEqual(['cursor', 'windsurf', 'agents']);
+    expect(result.rulesInstalled).toEqual([
+      '.cursor/rules/RL4.Agent.System.mdc',
+      '.cursor/rules/RL4.Core.mdc',
+      '.windsurf/rules/rl4-agent-system.md',
+      '.windsurf/rules/rl4-core.md',
+      'AGENTS.md'
+    ]);
+
+    expect(read('.cursor/rules/RL4.Core.mdc')).toMatch(/^---\ndescription: "RL4\.Core — Adaptive Governance Layer"\n[\s\S]*alwaysApply: true\n[\s\S]*---\n\n<!-- RL4 governance rules version [0-9a-f]{12} /);
+    expect(read('.windsurf/rules/rl4-core.md')).toMatch(/^---\ntrigger: always_on\ndescription: "RL4\.Core — Adaptive Governance Layer"\n---\n/);
+    expect(readInstalledVersion(read('.windsurf/rules/rl4-core.md'))).toBe(result.version);
+
+    // Shared file: user content kept, one RL4 section even after reinstalling
+    await installer.installRules();
+    const agents = read('AGENTS.md');
+    expect(agents.startsWith('# Team conventions\n\nUse pnpm.\n\n<!-- RL4:BEGIN governance-rules')).toBe(true);
+    expect(agents.split(SECTION_BEGIN)).toHaveLength(2);
+    expect(agents).toContain('# RL4 AGENT SYSTEM PROMPT');
+    expect(agents).not.toContain('alwaysApply');
+  });
+
+  test('should report missing, outdated and modified files per target', async () => {
+    fs.mkdirSync(path.join(root, '.reasoning_rl4'));
+    fs.writeFileSync(path.join(root, '.reasoning_rl4', 'rules_config.json'), JSON.stringify({ targets: ['cursor', 'copilot'] }));
+    const installer = new RulesInstaller(root, extensionPath);
+
+    expect((await installer.checkForUpdates()).targets.map(t => `${t.target}:${t.status}`)).toEqual(['cursor:missing', 'copilot:missing']);
+
+    const { version } = await installer.installRules();
+    expect(await installer.needsUpdate()).toBe(false);
+
+    fs.appendFileSync(path.join(root, '.cursor', 'rules', 'RL4.Core.mdc'), '\nlocal tweak\n');
+    const copilotPath = path.join(root, '.github', 'copilot-instructions.md');
+    fs.writeFileSync(copilotPath, fs.readFileSync(copilotPath, 'utf-8').replace(version!, '000000000000'));
+    fs.rmSync(path.join(root, '.cursor', 'rules', 'RL4.Agent.System.mdc'));
+
+    const report = await installer.checkForUpdates();
+    expect(report.needsUpdate).toBe(true);
+    expect(report.targets).toEqual([
+      {
+        target: 'cursor', label: 'Cursor', status: 'missing', files: [
+          { path: '.cursor/rules/RL4.Agent.System.mdc', status: 'missing', installedVersion: null },
+          { path: '.cursor/rules/RL4.Core.mdc', status: 'modified', installedVersion: version }
+        ]
+      },
+      {
+        target: 'copilot', label: 'GitHub Copilot', status: 'outdated', files: [
+          { path: '.github/copilot-instructions.md', status: 'outdated', installedVersion: '000000000000' }
+        ]
+      }
+    ]);
+    expect((await installer.verifyInstallation()).missing).toEqual(['.cursor/rules/RL4.Agent.System.mdc']);
+
+    await installer.installRules();
+    expect((await installer.checkForUpdates()).targets.map(t => t.status)).toEqual(['up_to_date', 'up_to_date']);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * DecisionConflictDetector - Détection Mécanique des Décisions Contradictoires
+ *
+ * Deux décisions courantes (gate 'pass', ni invalidées ni remplacées) sont en conflit lorsqu'elles :
+ * - portent sur le même intent, OU
+ * - partagent au moins un fichier dans leurs context_refs
+ * ET choisissent des options différentes, sans qu'aucune ne remplace l'autre (supersedes).
+ *
+ * La décision la plus récente est considérée comme courante tant que le conflit
+ * n'est pas résolu explicitement par un lien `supersedes`.
+ *
+ * ⚠️ ZERO-INTELLIGENCE : Comparaison textuelle des options, aucune interprétation sémantique.
+ */
+
+import { DecisionStore } from './DecisionStore';
+import { CognitiveDecision } from './DecisionSchema';
+import { toPosixPath } from '../utils/GlobMatcher';
+
+export type DecisionConflictReason = 'same_intent' | 'shared_files';
+
+export interface DecisionConflict {
+  decision_ids: [string, string];      // [plus ancienne, plus récente]
+  current_id: string;                  // Décision considérée comme courante (la plus récente)
+  reasons: DecisionConflictReason[];
+  intent?: string;                     // Renseigné si same_intent
+  shared_files: string[];
+  chosen_options: [string, string];
+}
+
+export class DecisionConflictDetector {
+  constructor(private decisionStore: DecisionStore) {}
+
+  /**
+   * Détecter les conflits entre décisions courantes dans une fenêtre temporelle
+   */
+  async detect(startTime: number = 0, endTime: number = Date.now()): Promise<DecisionConflict[]> {
+    const decisions = await this.decisionStore.getByTimeRange(startTime, endTime);
+
+    const current: CognitiveDecision[] = [];
+    for (const decision of decisions) {
+      if (decision.confidence_gate !== 'pass') continue;
+      const withStatus = await this.decisionStore.getDecisionWithStatus(decision.id);
+      if (withStatus?.status === 'invalidated' || withStatus?.status === 'superseded') continue;
+      current.push(decision);
+    }
+
+    return this.detectAmong(current);
+  }
+
+  /**
+   * Détection pure sur une liste de décisions déjà filtrées
+   */
+  detectAmong(decisions: CognitiveDecision[]): DecisionConflict[] {
+    // Regrouper par intent et par fichier pour éviter la comparaison de toutes les paires
+    const byIntent = new Map<string, CognitiveDecision[]>();
+    const byFile = new Map<string, CognitiveDecision[]>();
+    const filesOf = new Map<string, Set<string>>();
+
+    for (const decision of decisions) {
+      const group = byIntent.get(decision.intent) || [];
+      group.push(decision);
+      byIntent.set(decision.intent, group);
+
+      const files = new Set((decision.context_refs || []).filter(isFileRef).map(toPosixPath));
+      filesOf.set(decision.id, files);
+      for (const file of files) {
+        const fileGroup = byFile.get(file) || [];
+        fileGroup.push(decision);
+        byFile.set(file, fileGroup);
+      }
+    }
+
+    const conflicts = new Map<string, DecisionConflict>();
+    const consider = (a: CognitiveDecision, b: CognitiveDecision) => {
+      const [older, newer] = a.timestamp <= b.timestamp ? [a, b] : [b, a];
+      const key = `${older.id}\u0000${newer.id}`;
+      if (conflicts.has(key) || older.id === newer.id) return;
+      if (normalizeOption(older.chosen_option) === normalizeOption(newer.chosen_option)) return;
+      if ((newer.supersedes || []).includes(older.id) || (older.supersedes || []).includes(newer.id)) return;
+
+      const reasons: DecisionConflictReason[] = [];
+      if (older.intent === newer.intent) reasons.push('same_intent');
+      const newerFiles = filesOf.get(newer.id)!;
+      const sharedFiles = [...filesOf.get(older.id)!].filter(file => newerFiles.has(file)).sort();
+      if (sharedFiles.length > 0) reasons.push('shared_files');
+
+      conflicts.set(key, {
+        decision_ids: [older.id, newer.id],
+        current_id: newer.id,
+        reasons,
+        ...(older.intent === newer.intent ? { intent: older.intent } : {}),
+        shared_files: sharedFiles,
+        chosen_options: [older.chosen_option, newer.chosen_option]
+      });
+    };
+
+    for (const group of [...byIntent.values(), ...byFile.values()]) {
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) {
+          consider(group[i], group[j]);
+        }
+      }
+    }
+
+    // Conflits les plus récents d'abord
+    const timestampOf = new Map(decisions.map(d => [d.id, d.timestamp]));
+    return [...conflicts.values()].sort((a, b) => timestampOf.get(b.current_id)! - timestampOf.get(a.current_id)!);
+  }
+}
+
+/**
+ * context_refs mélange event IDs, ADR IDs et chemins : un chemin contient '/' ou une extension
+ */
+function isFileRef(ref: string): boolean {
+  if (!ref || /^adr[-_]/i.test(ref)) return false;
+  return /[\\/]/.test(ref) || /\.[a-z0-9]{1,8}$/i.test(ref);
+}
+
+function normalizeOption(option: string): string {
+  return (option || '').trim().replace(/\s+/g, ' ').toLowerCase();
+}
@@ -7,6 +7,13 @@
  * - confidence_llm : subjectif, généré par LLM (0-100)
  * - confidence_gate : mécanique, calculé par kernel ('pass'|'fail')
  * 
+ * La référence RCEP est lue dans le marqueur signé recopié par le LLM
+ * ([RL4-REF rcep=… sig=…], embarqué par UnifiedPromptBuilder) ; une réponse dont la
+ * référence est falsifiée ou absente de RCEPStore est rejetée en bloc.
+ * 
+ * Les décisions, elles, sont validées une à une : les valides sont retenues, les autres
+ * figurent dans le rapport d'extraction avec le chemin et la raison du rejet.
+ * 
  * Référence : northstar.md Section 11.5
  */
 
@@ -16,14 +23,25 @@ import { MIL } from '../memory/MIL';
 import { ILogger } from '../core/ILogger';
 import { DecisionStore } from './DecisionStore';
 import { CognitiveDecision } from './DecisionSchema';
+import { RCEPStore, findRCEPReference } from '../storage/RCEPStore';
+import {
+  DecisionExtractionReport,
+  DecisionIssue,
+  DecisionProposal,
+  findDecisionBlocks,
+  parseDecisionBlock,
+  validateDecisionProposal
+} from './DecisionResponseParser';
 
 export class DecisionExtractor {
   private clock: GlobalClock;
+  private lastReport: DecisionExtractionReport | null = null;
 
   constructor(
     private decisionStore: DecisionStore,
     private mil: MIL,
-    private logger?: ILogger
+    private logger?: ILogger,
+    private rcepStore?: RCEPStore
   ) {
     this.clock = GlobalClock.getInstance();
   }
@@ -31,34 +49,110 @@ export class DecisionExtractor {
   /**
    * Extrait les décisions cognitives depuis la réponse LLM
    * 
-   * Format attendu : ```json:decisions\n[{...}]\n```
+   * Format attendu : ```json:decisions\n[{...}]\n``` (voir DecisionResponseParser pour les variantes)
+   * 
+   * Sans rcepRef explicite, la référence vient du marqueur présent dans la réponse.
    */
-  async extractFromResponse(llmResponse: string, rcepRef: string): Promise<CognitiveDecision[]> {
-    // Extraire le bloc JSON des décisions
-    const jsonMatch = llmResponse.match(/```json:decisions\s*\n([\s\S]*?)\n```/);
-    if (!jsonMatch) {
+  async extractFromResponse(llmResponse: string, rcepRef?: string): Promise<CognitiveDecision[]> {
+    return (await this.extractWithReport(llmResponse, rcepRef)).decisions;
+  }
+
+  /**
+   * Extraction avec rapport : décisions acceptées, rejetées (chemin + raison), blocs illisibles
+   * 
+   * Acceptation partielle : une décision invalide n'empêche pas les autres d'être retenues.
+   */
+  async extractWithReport(llmResponse: string, rcepRef?: string): Promise<{ decisions: CognitiveDecision[]; report: DecisionExtractionReport }> {
+    rcepRef = this.resolveRCEPRef(llmResponse, rcepRef);
+
+    const blocks = findDecisionBlocks(llmResponse);
+    const report: DecisionExtractionReport = {
+      rcepRef,
+      extractedAt: new Date().toISOString(),
+      blocks: blocks.length,
+      accepted: [],
+      rejected: [],
+      blockErrors: []
+    };
+    if (blocks.length === 0) {
       this.logger?.warning?.('[DecisionExtractor] No decisions block found in LLM response');
-      return [];
     }
-    
-    let rawDecisions: any[];
-    try {
-      rawDecisions = JSON.parse(jsonMatch[1]);
-    } catch (error) {
-      this.logger?.error?.(`[DecisionExtractor] Failed to parse decisions JSON: ${error}`);
-      return [];
-    }
-    
-    // Valider et transformer chaque décision
+
     const decisions: CognitiveDecision[] = [];
-    for (const raw of rawDecisions) {
-      const decision = await this.validateDecision(raw, rcepRef);
-      if (decision) {
-        decisions.push(decision);
+    for (const block of blocks) {
+      const parsed = parseDecisionBlock(block);
+      if ('error' in parsed) {
+        this.logger?.error?.(`[DecisionExtractor] Block ${block.index} (line ${parsed.error.line}): ${parsed.error.message}`);
+        report.blockErrors.push(parsed.error);
+        continue;
       }
+
+      parsed.items.forEach((raw, index) => {
+        const validated = this.validateDecision(raw, rcepRef!);
+        const duplicate = 'decision' in validated && decisions.some(d => d.id === validated.decision.id);
+        if ('decision' in validated && !duplicate) {
+          decisions.push(validated.decision);
+          report.accepted.push({
+            block: block.index,
+            index,
+            id: validated.decision.id,
+            intent: validated.decision.intent,
+            confidence_llm: validated.decision.confidence_llm,
+            confidence_gate: validated.decision.confidence_gate
+          });
+          return;
+        }
+
+        const issues = 'issues' in validated ? validated.issues : [{ path: 'id', message: 'Duplicate id in this response' }];
+        this.logger?.warning?.(`[DecisionExtractor] Decision rejected (block ${block.index}, item ${index}): ${issues.map(i => `${i.path || '<decision>'}: ${i.message}`).join('; ')}`);
+        report.rejected.push({
+          block: block.index,
+          index,
+          intent: typeof (raw as any)?.intent === 'string' ? (raw as any).intent : undefined,
+          issues,
+          source: JSON.stringify(raw, null, 2) ?? String(raw)
+        });
+      });
     }
-    
-    return decisions;
+
+    this.lastReport = report;
+    return { decisions, report };
+  }
+
+  /**
+   * Rapport de la dernière extraction (null avant la première)
+   */
+  getLastReport(): DecisionExtractionReport | null {
+    return this.lastReport;
+  }
+
+  /**
+   * Référence RCEP de la réponse (throw si absente, falsifiée ou inconnue de RCEPStore)
+   */
+  resolveRCEPRef(llmResponse: string, rcepRef?: string): string {
+    if (rcepRef) {
+      if (this.rcepStore && !this.rcepStore.has(rcepRef)) {
+        throw new Error(`Unknown RCEP reference ${rcepRef}: no snapshot stored with this checksum`);
+      }
+      return rcepRef;
+    }
+
+    const reference = findRCEPReference(llmResponse);
+    if (!reference) {
+      throw new Error('No RL4 reference found in response: generate the prompt with RL4 and keep the [RL4-REF …] line in the answer');
+    }
+    if (!this.rcepStore) {
+      throw new Error('RCEPStore not available: cannot verify the RL4 reference');
+    }
+
+    const status = this.rcepStore.verifyReference(reference);
+    if (status === 'bad_signature') {
+      throw new Error(`RL4 reference signature mismatch for ${reference.checksum}: not generated by this workspace`);
+    }
+    if (status === 'unknown') {
+      throw new Error(`Unknown RCEP reference ${reference.checksum}: no snapshot stored with this checksum`);
+    }
+    return reference.checksum;
   }
 
   /**
@@ -66,59 +160,47 @@ export class DecisionExtractor {
    * 
    * ⚠️ VERROU 2 : Calcul mécanique de confidence_gate
    */
-  private async validateDecision(raw: any, rcepRef: string): Promise<CognitiveDecision | null> {
-    // Validation de base : intent obligatoire
-    if (!raw.intent || !raw.intent.trim()) {
-      this.logger?.warning?.('[DecisionExtractor] Decision rejected: missing intent');
-      return null;
-    }
-    
-    // Validation : confidence_llm obligatoire
-    if (typeof raw.confidence_llm !== 'number' || raw.confidence_llm < 0 || raw.confidence_llm > 100) {
-      this.logger?.warning?.('[DecisionExtractor] Decision rejected: invalid confidence_llm');
-      return null;
-    }
-    
-    // Validation : context_refs existent (mécanique)
-    const validRefs = await this.validateContextRefs(raw.context_refs || []);
-    if (!validRefs) {
-      this.logger?.warning?.('[DecisionExtractor] Decision rejected: invalid context_refs');
-      return null;
+  private validateDecision(raw: unknown, rcepRef: string): { decision: CognitiveDecision } | { issues: DecisionIssue[] } {
+    const validated = validateDecisionProposal(raw);
+    if ('issues' in validated) {
+      return validated;
     }
+    const proposal = validated.proposal;
     
     // ⚠️ VERROU 2 : Calcul mécanique de confidence_gate
-    const confidenceGate = this.calculateConfidenceGate(raw);
+    const confidenceGate = this.calculateConfidenceGate(proposal);
     
     // Construire la décision complète
     const decision: CognitiveDecision = {
-      id: raw.id || uuidv4(),
+      id: proposal.id || uuidv4(),
       seq: this.clock.next(),
       timestamp: Date.now(),
       isoTimestamp: new Date().toISOString(),
       
-      intent: raw.intent,
-      intent_text: raw.intent_text || raw.intent,
+      intent: proposal.intent,
+      intent_text: proposal.intent_text || proposal.intent,
       
-      context_refs: raw.context_refs || [],
-      options_considered: raw.options_considered || [],
-      chosen_option: raw.chosen_option || '',
-      constraints: raw.constraints || [],
+      context_refs: proposal.context_refs,
+      options_considered: proposal.options_considered,
+      chosen_option: proposal.chosen_option,
+      constraints: proposal.constraints,
       
-      invalidation_conditions: raw.invalidation_conditions || [],
-      previous_decisions: raw.previous_decisions || [],
-      related_adrs: raw.related_adrs || [],
+      invalidation_conditions: proposal.invalidation_conditions,
+      previous_decisions: proposal.previous_decisions,
+      supersedes: proposal.supersedes,
+      related_adrs: proposal.related_adrs,
       
       // ⚠️ VERROU 2 : Séparation confidence LLM vs gate système
-      confidence_llm: raw.confidence_llm,
+      confidence_llm: proposal.confidence_llm,
       confidence_gate: confidenceGate,
       
       validation_status: confidenceGate === 'pass' ? 'validated' : 'pending',
       
       rcep_ref: rcepRef,
-      scf_generation_id: raw.scf_generation_id
+      scf_generation_id: proposal.scf_generation_id
     };
     
-    return decision;
+    return { decision };
   }
 
   /**
@@ -129,43 +211,19 @@ export class DecisionExtractor {
    *   - OU intent ne contient PAS 'rl4_update'
    *   - ET tous les context_refs existent (validés mécaniquement)
    */
-  private calculateConfidenceGate(raw: any): 'pass' | 'fail' {
-    const isRL4Update = raw.intent.includes('rl4_update');
+  private calculateConfidenceGate(proposal: DecisionProposal): 'pass' | 'fail' {
+    const isRL4Update = proposal.intent.includes('rl4_update');
     
     // Si c'est un RL4 update, confidence doit être >= 95%
     if (isRL4Update) {
-      if (raw.confidence_llm >= 95) {
+      if (proposal.confidence_llm >= 95) {
         return 'pass';
       } else {
         return 'fail';
       }
     }
     
-    // Si ce n'est pas un RL4 update, on accepte (mais on valide quand même les refs)
+    // Si ce n'est pas un RL4 update, on accepte (context_refs non vides validés par le schéma)
     return 'pass';
   }
-
-  /**
-   * Valide que tous les context_refs existent (mécanique)
-   * 
-   * Vérifie que les event IDs existent dans MIL
-   */
-  private async validateContextRefs(contextRefs: string[]): Promise<boolean> {
-    // Pour chaque ref, vérifier si c'est un event ID, ADR ID, ou file path
-    // Pour l'instant, on valide seulement que les refs ne sont pas vides
-    // Une validation plus poussée nécessiterait d'interroger MIL et ADR parser
-    
-    // Validation minimale : pas de refs vides
-    for (const ref of contextRefs) {
-      if (!ref || !ref.trim()) {
-        return false;
-      }
-    }
-    
-    // TODO: Validation plus poussée (vérifier existence dans MIL)
-    // Pour l'instant, on accepte toutes les refs non vides
-    
-    return true;
-  }
 }
-
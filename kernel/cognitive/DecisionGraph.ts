@@ -0,0 +1,271 @@
+/**
+ * DecisionGraph - Graphe de lignée des décisions cognitives
+ *
+ * Construit le graphe orienté à partir des liens déjà portés par CognitiveDecision :
+ * - previous_decisions : décision antérieure → décision (arête "led_to")
+ * - supersedes         : décision remplacée → décision qui la remplace (arête "supersedes")
+ * - related_adrs       : décision → ADR (arête "adr")
+ * - context_refs       : une référence qui désigne une autre décision (arête "context")
+ *
+ * Détecte les cycles (le graphe devrait être un DAG) et les références pendantes
+ * (previous_decisions vers une décision inconnue), et répond à :
+ * - "qu'est-ce qui a mené à cette décision" (ancêtres)
+ * - "qu'est-ce qui en dépend" (descendants)
+ *
+ * ⚠️ ZERO-INTELLIGENCE : Traversée des liens déclarés uniquement, aucune inférence de lien.
+ */
+
+import { DecisionStore, DecisionStatus } from './DecisionStore';
+import { CognitiveDecision } from './DecisionSchema';
+
+export type DecisionEdgeType = 'led_to' | 'supersedes' | 'adr' | 'context';
+
+export interface DecisionGraphNode {
+  id: string;
+  kind: 'decision' | 'adr';
+  label: string;
+  timestamp?: number;
+  intent?: string;
+  confidence_gate?: 'pass' | 'fail';
+  status?: DecisionStatus;
+}
+
+export interface DecisionGraphEdge {
+  from: string;
+  to: string;
+  type: DecisionEdgeType;
+}
+
+export interface DecisionGraphData {
+  nodes: DecisionGraphNode[];
+  edges: DecisionGraphEdge[];
+  cycles: string[][];                 // Chaque cycle = liste ordonnée d'IDs de décisions
+  dangling: DecisionGraphEdge[];      // Arêtes led_to / supersedes dont la source est inconnue
+}
+
+export interface DecisionLineage {
+  decisionId: string;
+  ancestors: Array<{ id: string; depth: number }>;     // Ce qui a mené à la décision
+  descendants: Array<{ id: string; depth: number }>;   // Ce qui en dépend
+  graph: DecisionGraphData;                            // Sous-graphe (décision + lignée + ADRs)
+}
+
+export class DecisionGraph {
+  constructor(private decisionStore: DecisionStore) {}
+
+  /**
+   * Construire le graphe complet (optionnellement borné dans le temps)
+   */
+  async build(startTime: number = 0, endTime: number = Date.now()): Promise<DecisionGraphData> {
+    const decisions = await this.decisionStore.getByTimeRange(startTime, endTime);
+    return this.buildFromDecisions(decisions);
+  }
+
+  /**
+   * Lignée d'une décision : ancêtres (previous_decisions transitifs) et descendants
+   */
+  async getLineage(decisionId: string): Promise<DecisionLineage> {
+    const full = await this.build(0, Number.MAX_SAFE_INTEGER);
+    if (!full.nodes.some(n => n.id === decisionId && n.kind === 'decision')) {
+      throw new Error(`Decision ${decisionId} not found`);
+    }
+
+    const ancestors = this.traverse(decisionId, full.edges, 'up');
+    const descendants = this.traverse(decisionId, full.edges, 'down');
+
+    // Sous-graphe : la décision, sa lignée et les ADRs qu'elles référencent
+    const keep = new Set<string>([decisionId, ...ancestors.map(a => a.id), ...descendants.map(d => d.id)]);
+    for (const edge of full.edges) {
+      if (edge.type === 'adr' && keep.has(edge.from)) {
+        keep.add(edge.to);
+      }
+    }
+
+    return {
+      decisionId,
+      ancestors,
+      descendants,
+      graph: {
+        nodes: full.nodes.filter(n => keep.has(n.id)),
+        edges: full.edges.filter(e => keep.has(e.from) && keep.has(e.to)),
+        cycles: full.cycles.filter(cycle => cycle.some(id => keep.has(id))),
+        dangling: full.dangling.filter(e => keep.has(e.to))
+      }
+    };
+  }
+
+  /**
+   * Construction pure (testable sans store)
+   */
+  async buildFromDecisions(decisions: CognitiveDecision[]): Promise<DecisionGraphData> {
+    const byId = new Map(decisions.map(d => [d.id, d]));
+    const nodes: DecisionGraphNode[] = [];
+    const edges: DecisionGraphEdge[] = [];
+    const dangling: DecisionGraphEdge[] = [];
+    const adrNodes = new Map<string, DecisionGraphNode>();
+    const edgeKeys = new Set<string>();
+
+    const addEdge = (edge: DecisionGraphEdge) => {
+      const key = `${edge.from}\u0000${edge.to}\u0000${edge.type}`;
+      if (!edgeKeys.has(key) && edge.from !== edge.to) {
+        edgeKeys.add(key);
+        edges.push(edge);
+      }
+    };
+
+    for (const decision of decisions) {
+      const withStatus = await this.decisionStore.getDecisionWithStatus(decision.id);
+      nodes.push({
+        id: decision.id,
+        kind: 'decision',
+        label: decision.intent_text || decision.intent,
+        timestamp: decision.timestamp,
+        intent: decision.intent,
+        confidence_gate: decision.confidence_gate,
+        status: withStatus?.status || 'valid'
+      });
+
+      for (const previousId of decision.previous_decisions || []) {
+        const edge: DecisionGraphEdge = { from: previousId, to: decision.id, type: 'led_to' };
+        if (byId.has(previousId)) {
+          addEdge(edge);
+        } else {
+          dangling.push(edge);
+        }
+      }
+
+      for (const supersededId of decision.supersedes || []) {
+        const edge: DecisionGraphEdge = { from: supersededId, to: decision.id, type: 'supersedes' };
+        if (byId.has(supersededId)) {
+          addEdge(edge);
+        } else {
+          dangling.push(edge);
+        }
+      }
+
+      for (const adrId of decision.related_adrs || []) {
+        if (!adrNodes.has(adrId)) {
+          adrNodes.set(adrId, { id: adrId, kind: 'adr', label: adrId });
+        }
+        addEdge({ from: decision.id, to: adrId, type: 'adr' });
+      }
+
+      // context_refs = events, ADRs ou fichiers ; seules les références à des décisions sont des arêtes
+      for (const ref of decision.context_refs || []) {
+        if (byId.has(ref) && !(decision.previous_decisions || []).includes(ref)) {
+          addEdge({ from: ref, to: decision.id, type: 'context' });
+        }
+      }
+    }
+
+    return {
+      nodes: [...nodes.sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0)), ...adrNodes.values()],
+      edges,
+      cycles: this.findCycles(nodes.map(n => n.id), edges.filter(e => e.type !== 'adr')),
+      dangling
+    };
+  }
+
+  /**
+   * Parcours en largeur : 'up' remonte vers les causes, 'down' descend vers les dépendants
+   */
+  private traverse(startId: string, edges: DecisionGraphEdge[], direction: 'up' | 'down'): Array<{ id: string; depth: number }> {
+    const adjacency = new Map<string, string[]>();
+    for (const edge of edges) {
+      if (edge.type === 'adr') continue;
+      const [from, to] = direction === 'up' ? [edge.to, edge.from] : [edge.from, edge.to];
+      if (!adjacency.has(from)) adjacency.set(from, []);
+      adjacency.get(from)!.push(to);
+    }
+
+    const result: Array<{ id: string; depth: number }> = [];
+    const visited = new Set<string>([startId]);
+    let frontier = [startId];
+    let depth = 0;
+
+    while (frontier.length > 0) {
+      depth++;
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const neighbour of adjacency.get(id) || []) {
+          if (!visited.has(neighbour)) {
+            visited.add(neighbour);
+            result.push({ id: neighbour, depth });
+            next.push(neighbour);
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    return result;
+  }
+
+  /**
+   * Cycles = composantes fortement connexes de taille > 1 (Tarjan, itératif)
+   */
+  private findCycles(nodeIds: string[], edges: DecisionGraphEdge[]): string[][] {
+    const adjacency = new Map<string, string[]>(nodeIds.map(id => [id, []]));
+    for (const edge of edges) {
+      adjacency.get(edge.from)?.push(edge.to);
+    }
+
+    const index = new Map<string, number>();
+    const lowlink = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const cycles: string[][] = [];
+    let counter = 0;
+
+    for (const root of nodeIds) {
+      if (index.has(root)) continue;
+
+      const work: Array<{ id: string; next: number }> = [{ id: root, next: 0 }];
+      index.set(root, counter);
+      lowlink.set(root, counter++);
+      stack.push(root);
+      onStack.add(root);
+
+      while (work.length > 0) {
+        const frame = work[work.length - 1];
+        const neighbours = adjacency.get(frame.id) || [];
+
+        if (frame.next < neighbours.length) {
+          const neighbour = neighbours[frame.next++];
+          if (!index.has(neighbour)) {
+            index.set(neighbour, counter);
+            lowlink.set(neighbour, counter++);
+            stack.push(neighbour);
+            onStack.add(neighbour);
+            work.push({ id: neighbour, next: 0 });
+          } else if (onStack.has(neighbour)) {
+            lowlink.set(frame.id, Math.min(lowlink.get(frame.id)!, index.get(neighbour)!));
+          }
+          continue;
+        }
+
+        work.pop();
+        if (work.length > 0) {
+          const parent = work[work.length - 1].id;
+          lowlink.set(parent, Math.min(lowlink.get(parent)!, lowlink.get(frame.id)!));
+        }
+
+        if (lowlink.get(frame.id) === index.get(frame.id)) {
+          const component: string[] = [];
+          let member: string;
+          do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            component.push(member);
+          } while (member !== frame.id);
+
+          if (component.length > 1) {
+            cycles.push(component.reverse());
+          }
+        }
+      }
+    }
+
+    return cycles;
+  }
+}
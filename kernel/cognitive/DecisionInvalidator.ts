@@ -1,18 +1,24 @@
 /**
  * DecisionInvalidator - Vérification Mécanique des Conditions d'Invalidation
- * 
+ *
  * Vérifie mécaniquement si les conditions d'invalidation d'une décision sont remplies.
- * 
+ *
+ * Une condition est traduite en EventQuery (types + portée paths/modules/keywords + fenêtre
+ * depuis la décision) et planifiée contre les index MIL. Elle est remplie lorsque le nombre
+ * d'événements correspondants atteint son seuil (min_events, défaut 1).
+ *
  * ⚠️ ZERO-INTELLIGENCE : Vérification purement mécanique, pas d'interprétation sémantique.
- * 
+ *
  * Référence : northstar.md Section 11.6
  */
 
 import { MIL } from '../memory/MIL';
-import { EventType } from '../memory/types';
+import { EventType, EventQueryNode, UnifiedEvent } from '../memory/types';
 import { ILogger } from '../core/ILogger';
-import { DecisionStore, DecisionStatusEvent } from './DecisionStore';
-import { CognitiveDecision } from './DecisionSchema';
+import { DecisionStore, InvalidationEvidence } from './DecisionStore';
+import { CognitiveDecision, InvalidationCondition } from './DecisionSchema';
+
+const MAX_EVIDENCE_EVENTS = 20;
 
 export class DecisionInvalidator {
   constructor(
@@ -23,7 +29,7 @@ export class DecisionInvalidator {
 
   /**
    * Vérifie toutes les conditions d'invalidation pour toutes les décisions
-   * 
+   *
    * ⚠️ MÉCANIQUE UNIQUEMENT : Vérifie si des événements déclencheurs existent dans MIL
    */
   async checkInvalidationConditions(): Promise<void> {
@@ -31,33 +37,33 @@ export class DecisionInvalidator {
     // Pour l'instant, on va itérer sur une plage temporelle large
     const now = Date.now();
     const oneYearAgo = now - (365 * 24 * 60 * 60 * 1000);
-    
+
     const decisions = await this.decisionStore.getByTimeRange(oneYearAgo, now);
-    
+
     for (const decision of decisions) {
-      // Vérifier si la décision a déjà été invalidée
+      // Vérifier si la décision a déjà été invalidée ou remplacée
       const decisionWithStatus = await this.decisionStore.getDecisionWithStatus(decision.id);
-      if (decisionWithStatus?.status === 'invalidated') {
-        continue; // Déjà invalidée, on passe
+      if (decisionWithStatus?.status === 'invalidated' || decisionWithStatus?.status === 'superseded') {
+        continue; // Plus courante, on passe
       }
-      
-      // Vérifier chaque condition d'invalidation
-      for (const condition of decision.invalidation_conditions) {
-        const shouldInvalidate = await this.checkCondition(decision, condition);
-        
-        if (shouldInvalidate) {
-          // Trouver l'événement déclencheur (le plus récent qui correspond)
-          const triggerEvent = await this.findTriggerEvent(condition.trigger_event_types, decision.timestamp);
-          
-          if (triggerEvent) {
-            await this.decisionStore.invalidateDecision(
-              decision.id,
-              triggerEvent.id,
-              `Condition triggered: ${condition.condition}`
-            );
-            
-            this.logger?.info?.(`[DecisionInvalidator] Decision ${decision.id} invalidated due to condition: ${condition.condition}`);
-          }
+
+      // Vérifier chaque condition d'invalidation (la première remplie invalide la décision)
+      for (const condition of decision.invalidation_conditions || []) {
+        const evidence = await this.checkCondition(decision, condition);
+
+        if (evidence) {
+          // Événement déclencheur = celui qui a fait franchir le seuil
+          const triggerEventId = evidence.matched_event_ids[evidence.threshold - 1];
+
+          await this.decisionStore.invalidateDecision(
+            decision.id,
+            triggerEventId,
+            `Condition triggered: ${condition.condition}`,
+            evidence
+          );
+
+          this.logger?.info?.(`[DecisionInvalidator] Decision ${decision.id} invalidated due to condition: ${condition.condition} (${evidence.matched_count} matching events)`);
+          break;
         }
       }
     }
@@ -65,54 +71,84 @@ export class DecisionInvalidator {
 
   /**
    * Vérifie si une condition d'invalidation est remplie
-   * 
-   * ⚠️ MÉCANIQUE : Vérifie uniquement l'existence d'événements déclencheurs
+   *
+   * ⚠️ MÉCANIQUE : Compte les événements postérieurs à la décision qui satisfont la condition
+   *
+   * @returns La preuve (événements correspondants) si le seuil est atteint, sinon null
    */
-  private async checkCondition(
+  async checkCondition(
     decision: CognitiveDecision,
-    condition: { condition: string; trigger_event_types: EventType[]; severity: string }
-  ): Promise<boolean> {
-    // Récupérer les événements depuis la décision jusqu'à maintenant
-    const startTime = decision.timestamp;
-    const endTime = Date.now();
-    
-    // Récupérer les événements dans cette plage temporelle
-    const events = await this.mil.queryTemporal(startTime, endTime, {
-      type: condition.trigger_event_types[0] // Pour l'instant, on prend le premier type
+    condition: InvalidationCondition
+  ): Promise<InvalidationEvidence | null> {
+    const where = this.buildConditionQuery(decision, condition);
+    if (!where) {
+      return null; // Condition sans type ni portée : rien à vérifier
+    }
+
+    const threshold = Math.max(1, Math.floor(condition.min_events || 1));
+    // Sans limite : matched_count compte tous les événements correspondants, seuls les ids sont tronqués
+    const events: UnifiedEvent[] = await this.mil.query({
+      where,
+      orderBy: 'timestamp',
+      order: 'asc'
     });
-    
-    // Vérifier si au moins un événement correspond aux types déclencheurs
-    for (const event of events) {
-      if (condition.trigger_event_types.includes(event.type)) {
-        return true; // Condition remplie
-      }
+
+    if (events.length < threshold) {
+      return null; // Condition non remplie
     }
-    
-    return false; // Condition non remplie
+
+    return {
+      condition: condition.condition,
+      matched_event_ids: events.slice(0, Math.max(threshold, MAX_EVIDENCE_EVENTS)).map(e => e.id),
+      matched_count: events.length,
+      threshold
+    };
   }
 
   /**
-   * Trouve l'événement déclencheur le plus récent
+   * Traduire une condition en EventQuery (fenêtre depuis la décision, types, portée)
    */
-  private async findTriggerEvent(
-    triggerEventTypes: EventType[],
-    sinceTimestamp: number
-  ): Promise<{ id: string; type: EventType; timestamp: number } | null> {
-    const now = Date.now();
-    const events = await this.mil.queryTemporal(sinceTimestamp, now);
-    
-    // Trouver le premier événement qui correspond (le plus récent)
-    for (const event of events.reverse()) { // Inverser pour avoir les plus récents en premier
-      if (triggerEventTypes.includes(event.type)) {
-        return {
-          id: event.id,
-          type: event.type,
-          timestamp: event.timestamp
-        };
+  private buildConditionQuery(decision: CognitiveDecision, condition: InvalidationCondition): EventQueryNode | null {
+    const nodes: EventQueryNode[] = [];
+
+    const types = this.normalizeEventTypes(condition.trigger_event_types || []);
+    if (types.length === 0 && (condition.trigger_event_types || []).length > 0) {
+      return null; // Types tous inconnus : ne pas élargir à tous les types
+    }
+    if (types.length > 0) {
+      nodes.push({ op: 'type', values: types });
+    }
+    if (condition.paths && condition.paths.length > 0) {
+      nodes.push({ op: 'or', nodes: condition.paths.map(pattern => ({ op: 'file' as const, pattern })) });
+    }
+    if (condition.modules && condition.modules.length > 0) {
+      nodes.push({ op: 'module', values: condition.modules });
+    }
+    if (condition.keywords && condition.keywords.length > 0) {
+      nodes.push({ op: 'keyword', values: condition.keywords });
+    }
+
+    if (nodes.length === 0) {
+      return null;
+    }
+
+    return { op: 'and', nodes: [{ op: 'time', start: decision.timestamp }, ...nodes] };
+  }
+
+  /**
+   * Accepter valeurs ('file_delete') et noms d'enum ('FILE_DELETE') ; ignorer les inconnus
+   */
+  private normalizeEventTypes(types: string[]): EventType[] {
+    const values = Object.values(EventType) as string[];
+    const normalized: EventType[] = [];
+    for (const type of types) {
+      const candidate = values.includes(type) ? type : (EventType as Record<string, string>)[type];
+      if (candidate && !normalized.includes(candidate as EventType)) {
+        normalized.push(candidate as EventType);
+      } else if (!candidate) {
+        this.logger?.warning?.(`[DecisionInvalidator] Unknown trigger event type ignored: ${type}`);
       }
     }
-    
-    return null;
+    return normalized;
   }
 }
-
@@ -0,0 +1,243 @@
+/**
+ * DecisionResponseParser - Lecture tolérante des blocs de décisions d'une réponse LLM
+ *
+ * Les LLM ne respectent pas toujours le format demandé : plusieurs blocs, commentaires
+ * recopiés du gabarit, virgules finales, YAML au lieu de JSON. On accepte :
+ *   - un ou plusieurs blocs ```json:decisions / ```json5:decisions / ```yaml:decisions / ```decisions
+ *   - un tableau, un objet { decisions: [...] } ou une décision seule
+ *
+ * Chaque décision est validée séparément (schéma zod) : les erreurs portent un chemin précis
+ * (options_considered[1].weight) et les décisions valides sont acceptées même si d'autres
+ * sont rejetées. Le rapport permet de corriger et renvoyer uniquement les décisions rejetées.
+ */
+
+import { z } from 'zod';
+import * as yaml from 'js-yaml';
+import JSON5 from 'json5';
+import { EventType } from '../memory/types';
+import { CognitiveDecision } from './DecisionSchema';
+
+export type DecisionBlockFormat = 'json' | 'json5' | 'yaml';
+
+export interface DecisionBlock {
+  index: number;                 // 1-based, ordre d'apparition dans la réponse
+  line: number;                  // Ligne (1-based) de la clôture ouvrante dans la réponse
+  format: DecisionBlockFormat;   // Format annoncé (json:decisions → json, ```decisions → json)
+  content: string;
+}
+
+export interface DecisionIssue {
+  path: string;                  // Chemin dans la décision ('' : la décision entière)
+  message: string;
+}
+
+export interface AcceptedDecision {
+  block: number;
+  index: number;                 // Position (0-based) dans le bloc
+  id: string;
+  intent: string;
+  confidence_llm: number;
+  confidence_gate: 'pass' | 'fail';
+}
+
+export interface RejectedDecision {
+  block: number;
+  index: number;
+  intent?: string;
+  issues: DecisionIssue[];
+  source: string;                // Décision brute en JSON, à corriger puis renvoyer
+}
+
+export interface DecisionBlockError {
+  block: number;
+  line: number;                  // Ligne de l'erreur dans la réponse (clôture si inconnue)
+  format: DecisionBlockFormat;
+  message: string;
+}
+
+export interface DecisionExtractionReport {
+  rcepRef: string;
+  extractedAt: string;
+  blocks: number;
+  accepted: AcceptedDecision[];
+  rejected: RejectedDecision[];
+  blockErrors: DecisionBlockError[];
+}
+
+/**
+ * Blocs ```<format>:<label> présents dans la réponse, dans l'ordre (format optionnel : ```<label>)
+ *
+ * Partagé avec les blocs rl4_update (RL4UpdateManager).
+ */
+export function findFencedBlocks(response: string, label: string): DecisionBlock[] {
+  const normalized = response.replace(/\r\n/g, '\n');
+  const pattern = new RegExp(`^[ \\t]*\`\`\`[ \\t]*(?:(json5?|ya?ml):)?${label}[^\\n]*\\n([\\s\\S]*?)^[ \\t]*\`\`\`[ \\t]*$`, 'gm');
+  const blocks: DecisionBlock[] = [];
+  for (const match of normalized.matchAll(pattern)) {
+    const declared = (match[1] || 'json').toLowerCase();
+    blocks.push({
+      index: blocks.length + 1,
+      line: normalized.slice(0, match.index).split('\n').length,
+      format: declared.startsWith('y') ? 'yaml' : declared as DecisionBlockFormat,
+      content: match[2]
+    });
+  }
+  return blocks;
+}
+
+/**
+ * Blocs de décisions présents dans la réponse, dans l'ordre
+ */
+export function findDecisionBlocks(response: string): DecisionBlock[] {
+  return findFencedBlocks(response, 'decisions');
+}
+
+/**
+ * Contenu d'un bloc, ou l'erreur de lecture avec sa ligne dans la réponse
+ *
+ * JSON strict d'abord, puis JSON5 (commentaires, virgules finales, clés sans guillemets) ;
+ * un bloc annoncé JSON qui n'est lisible qu'en YAML est aussi accepté.
+ */
+export function parseFencedBlock(block: DecisionBlock): { value: unknown } | { error: DecisionBlockError } {
+  const failure = (message: string, line?: number) => ({
+    error: { block: block.index, line: block.line + (line ?? 0), format: block.format, message }
+  });
+
+  let parsed: unknown;
+  if (block.format === 'yaml') {
+    try {
+      parsed = yaml.load(block.content);
+    } catch (error: any) {
+      return failure(`Invalid YAML: ${error.reason || error.message}`, error.mark ? error.mark.line + 1 : undefined);
+    }
+  } else {
+    try {
+      parsed = JSON.parse(block.content);
+    } catch {
+      try {
+        parsed = JSON5.parse(block.content);
+      } catch (json5Error: any) {
+        try {
+          parsed = yaml.load(block.content);
+        } catch {
+          parsed = undefined;
+        }
+        if (!parsed || typeof parsed !== 'object') {
+          return failure(`Invalid ${block.format.toUpperCase()}: ${json5Error.message.replace(/^JSON5: /, '')}`, json5Error.lineNumber);
+        }
+      }
+    }
+  }
+  return { value: parsed };
+}
+
+/**
+ * Décisions brutes d'un bloc, ou l'erreur de lecture avec sa ligne dans la réponse
+ */
+export function parseDecisionBlock(block: DecisionBlock): { items: unknown[] } | { error: DecisionBlockError } {
+  const result = parseFencedBlock(block);
+  if ('error' in result) {
+    return result;
+  }
+  const parsed = result.value;
+
+  if (Array.isArray(parsed)) {
+    return { items: parsed };
+  }
+  if (parsed && typeof parsed === 'object') {
+    const decisions = (parsed as { decisions?: unknown }).decisions;
+    return { items: Array.isArray(decisions) ? decisions : [parsed] };
+  }
+  return { error: { block: block.index, line: block.line, format: block.format, message: 'Expected an array of decisions' } };
+}
+
+// ============================================================================
+// Schéma d'une décision proposée par le LLM (champs calculés par le kernel exclus)
+// ============================================================================
+
+// Tolérance : "95", "95%" → 95 ; une chaîne seule là où une liste est attendue → [chaîne]
+const percentage = z.preprocess(
+  value => typeof value === 'string' && /^\s*\d+(\.\d+)?\s*%?\s*$/.test(value) ? parseFloat(value) : value,
+  z.number().min(0).max(100)
+);
+const nonEmpty = z.string().trim().min(1, 'Must not be empty');
+const list = <T extends z.ZodTypeAny>(item: T) => z.preprocess(
+  value => typeof value === 'string' ? [value] : value ?? [],
+  z.array(item)
+);
+
+const eventType = z.string().transform((type, ctx) => {
+  const values = Object.values(EventType) as string[];
+  const candidate = values.includes(type) ? type : (EventType as Record<string, string>)[type];
+  if (!candidate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown event type '${type}'` });
+    return z.NEVER;
+  }
+  return candidate as EventType;
+});
+
+const invalidationCondition = z.object({
+  condition: nonEmpty,
+  trigger_event_types: list(eventType),
+  severity: z.enum(['critical', 'warning', 'info']).default('warning'),
+  paths: list(nonEmpty).optional(),
+  modules: list(nonEmpty).optional(),
+  keywords: list(nonEmpty).optional(),
+  min_events: z.number().int().min(1).optional()
+});
+
+const DecisionProposalSchema = z.object({
+  id: nonEmpty.optional(),
+  intent: nonEmpty,
+  intent_text: z.string().optional(),
+  context_refs: list(nonEmpty),
+  options_considered: list(z.object({
+    option: nonEmpty,
+    rationale: z.string().default(''),
+    weight: z.number().min(0).max(999).default(0)
+  })),
+  chosen_option: z.string().default(''),
+  constraints: list(z.string()),
+  invalidation_conditions: list(invalidationCondition),
+  previous_decisions: list(nonEmpty),
+  supersedes: list(nonEmpty),
+  related_adrs: list(nonEmpty),
+  confidence_llm: percentage,
+  scf_generation_id: z.string().optional()
+});
+
+// Sortie du schéma (z.infer rend tous les champs optionnels hors mode strict)
+export type DecisionProposal = Pick<CognitiveDecision,
+  'intent' | 'context_refs' | 'options_considered' | 'chosen_option' | 'constraints' | 'invalidation_conditions' |
+  'previous_decisions' | 'related_adrs' | 'confidence_llm' | 'scf_generation_id'
+> & {
+  id?: string;
+  intent_text?: string;
+  supersedes: string[];
+};
+
+/**
+ * Valider une décision brute : proposition normalisée, ou liste des erreurs avec leur chemin
+ */
+export function validateDecisionProposal(raw: unknown): { proposal: DecisionProposal } | { issues: DecisionIssue[] } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { issues: [{ path: '', message: 'Expected a decision object' }] };
+  }
+  const result = DecisionProposalSchema.safeParse(raw);
+  if (result.success) {
+    return { proposal: result.data as unknown as DecisionProposal };
+  }
+  return {
+    issues: result.error.issues.map(issue => ({ path: formatIssuePath(issue.path), message: issue.message }))
+  };
+}
+
+/**
+ * ['options_considered', 1, 'weight'] → 'options_considered[1].weight'
+ */
+export function formatIssuePath(segments: Array<string | number>): string {
+  return segments.reduce<string>(
+    (path, segment) => typeof segment === 'number' ? `${path}[${segment}]` : path ? `${path}.${segment}` : segment,
+    ''
+  );
+}
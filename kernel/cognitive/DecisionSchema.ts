@@ -12,6 +12,28 @@
 
 import { EventType } from '../memory/types';
 
+/**
+ * Condition d'invalidation d'une décision
+ * 
+ * Sans portée, n'importe quel événement des types listés invalide la décision.
+ * Avec portée (paths / modules / keywords), seuls les événements qui la respectent comptent ;
+ * tous les critères renseignés doivent être satisfaits (AND), chaque liste est un OR.
+ * 
+ * Exemple : "more than 3 commits touching src/db/**"
+ *   { trigger_event_types: ['git_commit'], paths: ['src/db/**'], min_events: 4 }
+ */
+export interface InvalidationCondition {
+  condition: string;
+  trigger_event_types: EventType[]; // EventType enum values (vide = tous types si portée définie)
+  severity: 'critical' | 'warning' | 'info';
+  
+  // Portée (optionnelle), évaluée contre les index MIL
+  paths?: string[];              // Chemins exacts ou globs (src/db/**)
+  modules?: string[];            // Noms de module (indexed_fields.modules ou segment de chemin)
+  keywords?: string[];           // indexed_fields.keywords
+  min_events?: number;           // Seuil : nombre d'événements correspondants requis (défaut 1)
+}
+
 /**
  * Décision cognitive explicite générée par le LLM
  * 
@@ -38,14 +60,11 @@ export interface CognitiveDecision {
   chosen_option: string;
   constraints: string[];         // Constraints that influenced decision
   
-  invalidation_conditions: Array<{
-    condition: string;
-    trigger_event_types: EventType[]; // EventType enum values
-    severity: 'critical' | 'warning' | 'info';
-  }>;
+  invalidation_conditions: InvalidationCondition[];
   
   // Links
   previous_decisions: string[];  // Decision IDs that led to this
+  supersedes?: string[];          // Decision IDs replaced by this one (→ statut 'superseded')
   related_adrs: string[];         // ADR IDs
   
   // ⚠️ VERROU 2 : Séparation confidence LLM vs gate système
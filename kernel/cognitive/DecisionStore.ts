@@ -20,20 +20,39 @@ import { CognitiveDecision } from './DecisionSchema';
 import { RotationManager } from '../persistence/RotationManager';
 import { MemoryClass } from '../memory/MemoryClass';
 import { MIL } from '../memory/MIL';
+import { TextDocument } from '../memory/TextIndex';
+import { CycleMerkle } from '../rbom/LedgerChain';
 
 /**
- * Événement de statut d'une décision (invalidation, revalidation, confirmation)
+ * Statut courant d'une décision (dérivé des DecisionStatusEvent, jamais stocké)
+ */
+export type DecisionStatus = 'valid' | 'invalidated' | 'revalidated' | 'superseded';
+
+/**
+ * Événement de statut d'une décision (invalidation, revalidation, confirmation, remplacement)
  * 
  * ⚠️ CRITIQUE : Ces événements sont append-only, jamais mutation de la décision originale
  */
 export interface DecisionStatusEvent {
   id: string;
-  type: 'DECISION_INVALIDATED' | 'DECISION_REVALIDATED' | 'DECISION_CONFIRMED';
+  type: 'DECISION_INVALIDATED' | 'DECISION_REVALIDATED' | 'DECISION_CONFIRMED' | 'DECISION_SUPERSEDED';
   decision_id: string;
   cause_event_id?: string;  // Event qui a déclenché l'invalidation
+  superseded_by?: string;   // Décision qui remplace celle-ci (DECISION_SUPERSEDED)
   timestamp: number;
   isoTimestamp: string;
   rationale: string;
+  evidence?: InvalidationEvidence;  // Événements MIL ayant satisfait la condition
+}
+
+/**
+ * Preuve mécanique d'une invalidation : la condition et les événements qui l'ont satisfaite
+ */
+export interface InvalidationEvidence {
+  condition: string;
+  matched_event_ids: string[];   // Triés par timestamp (tronqués à MAX_EVIDENCE_EVENTS)
+  matched_count: number;
+  threshold: number;
 }
 
 export class DecisionStore {
@@ -60,17 +79,22 @@ export class DecisionStore {
       fs.mkdirSync(decisionsDir, { recursive: true });
     }
     
-    // BLOCK strategy for critical data (decisions)
+    // BLOCK strategy for critical data (decisions), hash-chained (voir LedgerChain)
     this.writer = new AppendOnlyWriter(this.decisionsPath, { 
       fsync: false, 
       mkdirRecursive: true,
-      overflowStrategy: OverflowStrategy.BLOCK
+      overflowStrategy: OverflowStrategy.BLOCK,
+      chained: true
     });
     this.statusWriter = new AppendOnlyWriter(this.statusPath, { 
       fsync: false, 
       mkdirRecursive: true,
-      overflowStrategy: OverflowStrategy.BLOCK
+      overflowStrategy: OverflowStrategy.BLOCK,
+      chained: true
     });
+    const cycleMerkle = CycleMerkle.getInstance(workspaceRoot);
+    cycleMerkle.track('decisions', this.decisionsPath);
+    cycleMerkle.track('decision_status', this.statusPath);
   }
 
   async init(): Promise<void> {
@@ -150,6 +174,15 @@ export class DecisionStore {
           }
         }
         
+        // Recherche plein texte : indexer toutes les décisions (pas seulement le cache)
+        if (this.mil) {
+          for (const decision of allDecisions) {
+            if (!this.mil.hasTextDocument(`decision:${decision.id}`)) {
+              this.mil.indexText(this.toTextDocument(decision));
+            }
+          }
+        }
+        
         // NEW: Keep only last MAX_CACHE_SIZE (most recent)
         const sorted = allDecisions
           .sort((a, b) => b.timestamp - a.timestamp)  // Most recent first
@@ -224,6 +257,34 @@ export class DecisionStore {
     
     // Mettre à jour le cache
     this.decisionsCache.set(decision.id, decision);
+    
+    // Recherche plein texte
+    this.mil?.indexText(this.toTextDocument(decision));
+    
+    // Lien explicite "supersedes" : les décisions remplacées reçoivent un événement de statut
+    for (const supersededId of decision.supersedes || []) {
+      if (supersededId === decision.id) continue;
+      if (await this.getById(supersededId)) {
+        await this.supersedeDecision(supersededId, decision.id, `Superseded by ${decision.id}: ${decision.chosen_option}`);
+      } else {
+        console.warn(`[DecisionStore] Superseded decision ${supersededId} not found (referenced by ${decision.id})`);
+      }
+    }
+  }
+
+  /**
+   * Document plein texte d'une décision (intent_text, chosen_option, options, contraintes)
+   */
+  private toTextDocument(decision: CognitiveDecision): TextDocument {
+    const options = (decision.options_considered || []).map(o => `${o.option}: ${o.rationale}`);
+    return {
+      id: `decision:${decision.id}`,
+      kind: 'decision',
+      ref: decision.id,
+      timestamp: decision.timestamp,
+      title: decision.intent_text || decision.intent,
+      text: [decision.chosen_option, ...options, ...(decision.constraints || [])].filter(Boolean).join('\n')
+    };
   }
 
   /**
@@ -234,7 +295,8 @@ export class DecisionStore {
   async invalidateDecision(
     decisionId: string,
     causeEventId: string,
-    rationale: string
+    rationale: string,
+    evidence?: InvalidationEvidence
   ): Promise<void> {
     // 1. Vérifier que la décision existe
     const decision = this.decisionsCache.get(decisionId);
@@ -243,30 +305,61 @@ export class DecisionStore {
     }
     
     // 2. Créer événement d'invalidation (append-only)
-    const statusEvent: DecisionStatusEvent = {
+    await this.appendStatusEvent({
       id: uuidv4(),
       type: 'DECISION_INVALIDATED',
       decision_id: decisionId,
       cause_event_id: causeEventId,
       timestamp: Date.now(),
       isoTimestamp: new Date().toISOString(),
-      rationale
-    };
+      rationale,
+      ...(evidence ? { evidence } : {})
+    });
+    
+    // ⚠️ CRITIQUE : La décision originale reste dans son état original
+    // L'invalidation est un événement séparé
+  }
+
+  /**
+   * Marque une décision comme remplacée par une décision plus récente
+   * 
+   * ⚠️ VERROU 4 : Même principe que l'invalidation (événement append-only)
+   */
+  async supersedeDecision(
+    decisionId: string,
+    supersededById: string,
+    rationale: string
+  ): Promise<void> {
+    if (!this.decisionsCache.has(decisionId)) {
+      throw new Error(`Decision ${decisionId} not found`);
+    }
     
-    // 3. Marquer l'écriture interne
+    await this.appendStatusEvent({
+      id: uuidv4(),
+      type: 'DECISION_SUPERSEDED',
+      decision_id: decisionId,
+      superseded_by: supersededById,
+      timestamp: Date.now(),
+      isoTimestamp: new Date().toISOString(),
+      rationale
+    });
+  }
+
+  /**
+   * Append d'un événement de statut + mise à jour du cache
+   */
+  private async appendStatusEvent(statusEvent: DecisionStatusEvent): Promise<void> {
+    // Marquer l'écriture interne
     WriteTracker.getInstance().markInternalWrite(this.statusPath);
     
-    // 4. Append (jamais mutation de la décision originale)
+    // Append (jamais mutation de la décision originale)
     await this.statusWriter.append(statusEvent);
     await this.statusWriter.flush();
     
-    // 5. Mettre à jour le cache
-    const existing = this.statusCache.get(decisionId) || [];
+    // Mettre à jour le cache
+    const existing = this.statusCache.get(statusEvent.decision_id) || [];
     existing.push(statusEvent);
-    this.statusCache.set(decisionId, existing);
-    
-    // ⚠️ CRITIQUE : La décision originale reste dans son état original
-    // L'invalidation est un événement séparé
+    this.statusCache.set(statusEvent.decision_id, existing);
   }
 
   /**
@@ -300,7 +393,8 @@ export class DecisionStore {
    */
   async getDecisionWithStatus(decisionId: string): Promise<{
     decision: CognitiveDecision;
-    status: 'valid' | 'invalidated' | 'revalidated';
+    status: DecisionStatus;
+    supersededBy?: string;
     statusEvents: DecisionStatusEvent[];
   } | null> {
     const decision = this.decisionsCache.get(decisionId);
@@ -311,18 +405,23 @@ export class DecisionStore {
     const statusEvents = this.statusCache.get(decisionId) || [];
     
     // Déterminer le statut actuel (dérivé depuis les événements)
-    let status: 'valid' | 'invalidated' | 'revalidated' = 'valid';
+    let status: DecisionStatus = 'valid';
+    let supersededBy: string | undefined;
     for (const event of statusEvents) {
       if (event.type === 'DECISION_INVALIDATED') {
         status = 'invalidated';
       } else if (event.type === 'DECISION_REVALIDATED') {
         status = 'revalidated';
+      } else if (event.type === 'DECISION_SUPERSEDED') {
+        status = 'superseded';
+        supersededBy = event.superseded_by;
       }
     }
     
     return {
       decision,
       status,
+      ...(supersededBy ? { supersededBy } : {}),
       statusEvents
     };
   }
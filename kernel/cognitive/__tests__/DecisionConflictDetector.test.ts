@@ -0,0 +1,103 @@
+/**
+ * Tests for DecisionConflictDetector and supersession
+ *
+ * Verifies that contradicting current decisions are flagged (same intent / shared files),
+ * and that an explicit `supersedes` link resolves the conflict with a 'superseded' status.
+ */
+
+import { DecisionConflictDetector } from '../DecisionConflictDetector';
+import { DecisionStore } from '../DecisionStore';
+import { CognitiveDecision } from '../DecisionSchema';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('DecisionConflictDetector - Supersession', () => {
+  let testWorkspaceRoot: string;
+  let decisionStore: DecisionStore;
+  let detector: DecisionConflictDetector;
+  const baseTime = Date.now() - 60000;
+
+  function makeDecision(id: string, offset: number, fields: Partial<CognitiveDecision> = {}): CognitiveDecision {
+    return {
+      id,
+      seq: offset,
+      timestamp: baseTime + offset,
+      isoTimestamp: new Date(baseTime + offset).toISOString(),
+      intent: 'choose_storage',
+      intent_text: `Decision ${id}`,
+      context_refs: [],
+      options_considered: [{ option: 'Option1', rationale: 'Test', weight: 500 }],
+      chosen_option: 'Option1',
+      constraints: [],
+      invalidation_conditions: [],
+      previous_decisions: [],
+      related_adrs: [],
+      confidence_llm: 90,
+      confidence_gate: 'pass',
+      validation_status: 'validated',
+      rcep_ref: 'test-checksum',
+      ...fields
+    };
+  }
+
+  beforeEach(async () => {
+    testWorkspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'rl4-conflict-test-'));
+    decisionStore = new DecisionStore(testWorkspaceRoot);
+    await decisionStore.init();
+    detector = new DecisionConflictDetector(decisionStore);
+  });
+
+  afterEach(async () => {
+    await decisionStore.close();
+    if (fs.existsSync(testWorkspaceRoot)) {
+      fs.rmSync(testWorkspaceRoot, { recursive: true, force: true });
+    }
+  });
+
+  test('should flag same-intent and shared-file decisions choosing different options', async () => {
+    await decisionStore.store(makeDecision('sqlite', 1, { chosen_option: 'SQLite', context_refs: ['evt-1', 'src/db/store.ts'] }));
+    await decisionStore.store(makeDecision('postgres', 2, { chosen_option: 'Postgres' }));
+    await decisionStore.store(makeDecision('cache', 3, { intent: 'add_cache', chosen_option: 'Redis', context_refs: ['./src/db/store.ts'] }));
+    await decisionStore.store(makeDecision('same', 4, { intent: 'add_cache', chosen_option: '  redis ' }));
+    await decisionStore.store(makeDecision('rejected', 5, { chosen_option: 'MongoDB', confidence_gate: 'fail' }));
+
+    const conflicts = await detector.detect();
+    expect(conflicts.map(c => c.decision_ids)).toEqual([
+      ['sqlite', 'cache'],
+      ['sqlite', 'postgres']
+    ]);
+
+    const [fileConflict, intentConflict] = conflicts;
+    expect(fileConflict.reasons).toEqual(['shared_files']);
+    expect(fileConflict.shared_files).toEqual(['src/db/store.ts']);
+    expect(fileConflict.current_id).toBe('cache');
+    expect(intentConflict).toEqual({
+      decision_ids: ['sqlite', 'postgres'],
+      current_id: 'postgres',
+      reasons: ['same_intent'],
+      intent: 'choose_storage',
+      shared_files: [],
+      chosen_options: ['SQLite', 'Postgres']
+    });
+  });
+
+  test('should resolve a conflict through an explicit supersedes link', async () => {
+    await decisionStore.store(makeDecision('sqlite', 1, { chosen_option: 'SQLite' }));
+    await decisionStore.store(makeDecision('postgres', 2, { chosen_option: 'Postgres', supersedes: ['sqlite', 'unknown'] }));
+
+    const status = await decisionStore.getDecisionWithStatus('sqlite');
+    expect(status!.status).toBe('superseded');
+    expect(status!.supersededBy).toBe('postgres');
+    expect(status!.statusEvents[0].type).toBe('DECISION_SUPERSEDED');
+    expect((await decisionStore.getDecisionWithStatus('postgres'))!.status).toBe('valid');
+
+    expect(await detector.detect()).toEqual([]);
+
+    // Le statut survit au rechargement (append-only)
+    await decisionStore.close();
+    decisionStore = new DecisionStore(testWorkspaceRoot);
+    await decisionStore.init();
+    expect((await decisionStore.getDecisionWithStatus('sqlite'))!.status).toBe('superseded');
+  });
+});
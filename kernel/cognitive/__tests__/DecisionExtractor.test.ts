@@ -0,0 +1,82 @@
+/**
+ * Tests for the RCEP reference round-trip
+ *
+ * Verifies that decisions are attached to the snapshot named by the signed [RL4-REF …]
+ * marker copied into the LLM response, and that responses with a missing, altered or
+ * unknown reference are rejected.
+ */
+
+import { DecisionExtractor } from '../DecisionExtractor';
+import { RCEPStore, findRCEPReference, formatRCEPReference } from '../../storage/RCEPStore';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('DecisionExtractor - Signed RCEP references', () => {
+  let root: string;
+  let rcepStore: RCEPStore;
+  let extractor: DecisionExtractor;
+
+  const decisionsBlock = '```json:decisions\n[{ "intent": "refactor_auth", "confidence_llm": 90, "rcep_ref": "ignored" }]\n```';
+
+  const storeSnapshot = async (blob: string): Promise<string> => {
+    const checksum = rcepStore.calculateChecksumPublic(blob);
+    await rcepStore.store(blob, { timestamp: Date.now(), checksum });
+    return checksum;
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'rl4-rcep-ref-test-'));
+    rcepStore = new RCEPStore(root);
+    extractor = new DecisionExtractor({} as any, {} as any, undefined, rcepStore);
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(root)) {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  test('should attach decisions to the snapshot named by the marker in the response', async () => {
+    const older = await storeSnapshot('RCEP/older');
+    const current = await storeSnapshot('RCEP/current');
+    const marker = formatRCEPReference(rcepStore.createReference(current));
+    expect(marker).toMatch(/^\[RL4-REF rcep=[0-9a-f]{64} sig=[0-9a-f]{16}\]$/);
+    expect(findRCEPReference(`${marker} trailing`)).toEqual(rcepStore.createReference(current));
+
+    // Prompt pasted along with the answer: the marker copied by the LLM (last one) wins
+    const prompt = `BEGIN RL4 SNAPSHOT\n${formatRCEPReference(rcepStore.createReference(older))}\nEND RL4 SNAPSHOT`;
+    const response = `${prompt}\n\n\`${marker}\`\n\nHere is my analysis.\n\n${decisionsBlock}`;
+
+    const decisions = await extractor.extractFromResponse(response);
+    expect(decisions).toHaveLength(1);
+    expect(decisions[0]).toMatchObject({ intent: 'refactor_auth', rcep_ref: current, confidence_gate: 'pass' });
+
+    // Same key on reload: references survive a kernel restart
+    const reloaded = new RCEPStore(root);
+    expect(reloaded.verifyReference(rcepStore.createReference(current))).toBe('valid');
+    expect(fs.statSync(path.join(root, '.reasoning_rl4', 'storage', 'rcep_ref.key')).mode & 0o777).toBe(0o600);
+  });
+
+  test('should reject responses whose reference is missing, altered or unknown', async () => {
+    const checksum = await storeSnapshot('RCEP/current');
+    const reference = rcepStore.createReference(checksum);
+
+    await expect(extractor.extractFromResponse(decisionsBlock)).rejects.toThrow('No RL4 reference found');
+
+    const forged = formatRCEPReference({ checksum, signature: reference.signature.replace(/^./, c => (c === '0' ? '1' : '0')) });
+    await expect(extractor.extractFromResponse(`${forged}\n${decisionsBlock}`)).rejects.toThrow('signature mismatch');
+
+    const otherWorkspace = new RCEPStore(path.join(root, 'other-workspace'));
+    const foreign = formatRCEPReference(otherWorkspace.createReference(checksum));
+    await expect(extractor.extractFromResponse(`${foreign}\n${decisionsBlock}`)).rejects.toThrow('signature mismatch');
+
+    const unstored = 'f'.repeat(64);
+    const unknown = formatRCEPReference(rcepStore.createReference(unstored));
+    await expect(extractor.extractFromResponse(`${unknown}\n${decisionsBlock}`)).rejects.toThrow(`Unknown RCEP reference ${unstored}`);
+
+    // Explicit reference (manual flow): still checked against RCEPStore
+    await expect(extractor.extractFromResponse(decisionsBlock, unstored)).rejects.toThrow('Unknown RCEP reference');
+    expect(await extractor.extractFromResponse(decisionsBlock, checksum)).toHaveLength(1);
+  });
+});
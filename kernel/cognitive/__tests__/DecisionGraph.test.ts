@@ -0,0 +1,99 @@
+/**
+ * Tests for DecisionGraph
+ *
+ * Verifies lineage traversal (ancestors / descendants), ADR and context edges,
+ * cycle detection and dangling previous_decisions references.
+ */
+
+import { DecisionGraph } from '../DecisionGraph';
+import { DecisionStore } from '../DecisionStore';
+import { CognitiveDecision } from '../DecisionSchema';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('DecisionGraph - Lineage', () => {
+  let testWorkspaceRoot: string;
+  let decisionStore: DecisionStore;
+  let graph: DecisionGraph;
+  const baseTime = Date.now() - 60000;
+
+  function makeDecision(id: string, offset: number, links: Partial<CognitiveDecision> = {}): CognitiveDecision {
+    return {
+      id,
+      seq: offset,
+      timestamp: baseTime + offset,
+      isoTimestamp: new Date(baseTime + offset).toISOString(),
+      intent: 'test_intent',
+      intent_text: `Decision ${id}`,
+      context_refs: [],
+      options_considered: [{ option: 'Option1', rationale: 'Test', weight: 500 }],
+      chosen_option: 'Option1',
+      constraints: [],
+      invalidation_conditions: [],
+      previous_decisions: [],
+      related_adrs: [],
+      confidence_llm: 90,
+      confidence_gate: 'pass',
+      validation_status: 'validated',
+      rcep_ref: 'test-checksum',
+      ...links
+    };
+  }
+
+  beforeEach(async () => {
+    testWorkspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'rl4-decision-graph-test-'));
+    decisionStore = new DecisionStore(testWorkspaceRoot);
+    await decisionStore.init();
+    graph = new DecisionGraph(decisionStore);
+  });
+
+  afterEach(async () => {
+    await decisionStore.close();
+    if (fs.existsSync(testWorkspaceRoot)) {
+      fs.rmSync(testWorkspaceRoot, { recursive: true, force: true });
+    }
+  });
+
+  test('should answer what led to a decision and what depends on it', async () => {
+    await decisionStore.store(makeDecision('a', 1, { related_adrs: ['adr-001'] }));
+    await decisionStore.store(makeDecision('b', 2, { previous_decisions: ['a'] }));
+    await decisionStore.store(makeDecision('c', 3, { previous_decisions: ['b'], context_refs: ['evt-1', 'a'] }));
+    await decisionStore.store(makeDecision('d', 4, { previous_decisions: ['c'] }));
+    await decisionStore.store(makeDecision('unrelated', 5));
+
+    const lineage = await graph.getLineage('c');
+    expect(lineage.ancestors).toEqual([{ id: 'b', depth: 1 }, { id: 'a', depth: 1 }]);
+    expect(lineage.descendants).toEqual([{ id: 'd', depth: 1 }]);
+
+    const ids = lineage.graph.nodes.map(n => n.id);
+    expect(ids).toEqual(['a', 'b', 'c', 'd', 'adr-001']);
+    expect(lineage.graph.edges).toContainEqual({ from: 'a', to: 'c', type: 'context' });
+    expect(lineage.graph.edges).toContainEqual({ from: 'a', to: 'adr-001', type: 'adr' });
+    expect(lineage.graph.cycles).toEqual([]);
+  });
+
+  test('should report cycles and dangling references', async () => {
+    await decisionStore.store(makeDecision('x', 1, { previous_decisions: ['z'] }));
+    await decisionStore.store(makeDecision('y', 2, { previous_decisions: ['x'] }));
+    await decisionStore.store(makeDecision('z', 3, { previous_decisions: ['y', 'missing'] }));
+
+    const data = await graph.build();
+    expect(data.cycles).toHaveLength(1);
+    expect([...data.cycles[0]].sort()).toEqual(['x', 'y', 'z']);
+    expect(data.dangling).toEqual([{ from: 'missing', to: 'z', type: 'led_to' }]);
+
+    // La traversée termine malgré le cycle
+    const lineage = await graph.getLineage('x');
+    expect(lineage.ancestors.map(a => a.id).sort()).toEqual(['y', 'z']);
+  });
+
+  test('should reflect invalidation status and reject unknown decisions', async () => {
+    await decisionStore.store(makeDecision('old', 1));
+    await decisionStore.invalidateDecision('old', 'evt-9', 'Superseded by new constraints');
+
+    const data = await graph.build();
+    expect(data.nodes.find(n => n.id === 'old')!.status).toBe('invalidated');
+    await expect(graph.getLineage('nope')).rejects.toThrow('Decision nope not found');
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Tests for DecisionInvalidator
+ *
+ * Verifies scoped invalidation conditions (paths, modules, keywords, thresholds)
+ * and that the matching evidence is recorded on the DecisionStatusEvent.
+ */
+
+import { DecisionInvalidator } from '../DecisionInvalidator';
+import { DecisionStore } from '../DecisionStore';
+import { CognitiveDecision, InvalidationCondition } from '../DecisionSchema';
+import { MIL } from '../../memory/MIL';
+import { UnifiedEvent, EventSource, EventType, EventCategory } from '../../memory/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('DecisionInvalidator - Scoped Conditions', () => {
+  let testWorkspaceRoot: string;
+  let mil: MIL;
+  let decisionStore: DecisionStore;
+  let invalidator: DecisionInvalidator;
+  const decisionTime = Date.now() - 60000;
+
+  function makeDecision(id: string, conditions: InvalidationCondition[]): CognitiveDecision {
+    return {
+      id,
+      seq: 1,
+      timestamp: decisionTime,
+      isoTimestamp: new Date(decisionTime).toISOString(),
+      intent: 'test_intent',
+      intent_text: 'Test Intent',
+      context_refs: [],
+      options_considered: [{ option: 'Option1', rationale: 'Test', weight: 500 }],
+      chosen_option: 'Option1',
+      constraints: [],
+      invalidation_conditions: conditions,
+      previous_decisions: [],
+      related_adrs: [],
+      confidence_llm: 90,
+      confidence_gate: 'pass',
+      validation_status: 'validated',
+      rcep_ref: 'test-checksum'
+    };
+  }
+
+  async function addEvent(id: string, offset: number, type: EventType, files: string[], keywords?: string[]): Promise<void> {
+    const event: UnifiedEvent = {
+      id,
+      seq: offset,
+      timestamp: decisionTime + offset,
+      source: type === EventType.GIT_COMMIT ? EventSource.GIT : EventSource.FILE_SYSTEM,
+      type,
+      category: EventCategory.CODE_CHANGE,
+      source_format: 'test',
+      payload: {},
+      indexed_fields: { files, keywords }
+    };
+    (mil as any).temporalIndex.insert(event);
+    (mil as any).spatialIndex.insert(event);
+    (mil as any).typeIndex.insert(event);
+    await (mil as any).eventStore.append(event);
+  }
+
+  beforeEach(async () => {
+    testWorkspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'rl4-invalidator-test-'));
+    mil = new MIL(testWorkspaceRoot);
+    await mil.init();
+    decisionStore = new DecisionStore(testWorkspaceRoot);
+    await decisionStore.init();
+    invalidator = new DecisionInvalidator(decisionStore, mil);
+  });
+
+  afterEach(async () => {
+    await decisionStore.close();
+    await mil.close();
+    if (fs.existsSync(testWorkspaceRoot)) {
+      fs.rmSync(testWorkspaceRoot, { recursive: true, force: true });
+    }
+  });
+
+  test('should ignore events outside the path scope', async () => {
+    await decisionStore.store(makeDecision('dec-auth', [
+      { condition: 'auth module changes', trigger_event_types: [EventType.FILE_MODIFY], severity: 'critical', paths: ['src/auth/**'] }
+    ]));
+    await addEvent('e1', 10, EventType.FILE_MODIFY, ['src/ui/button.ts']);
+
+    await invalidator.checkInvalidationConditions();
+    expect((await decisionStore.getDecisionWithStatus('dec-auth'))!.status).toBe('valid');
+
+    await addEvent('e2', 20, EventType.FILE_MODIFY, ['src/auth/session/token.ts']);
+    await invalidator.checkInvalidationConditions();
+    const status = await decisionStore.getDecisionWithStatus('dec-auth');
+    expect(status!.status).toBe('invalidated');
+    expect(status!.statusEvents[0].cause_event_id).toBe('e2');
+  });
+
+  test('should apply thresholds and record evidence', async () => {
+    await decisionStore.store(makeDecision('dec-db', [
+      { condition: 'more than 3 commits touching src/db', trigger_event_types: [EventType.GIT_COMMIT], severity: 'warning', paths: ['src/db/**'], min_events: 4 }
+    ]));
+    for (let i = 1; i <= 3; i++) {
+      await addEvent(`c${i}`, i * 10, EventType.GIT_COMMIT, [`src/db/table${i}.ts`]);
+    }
+    await addEvent('other', 35, EventType.GIT_COMMIT, ['README.md']);
+
+    await invalidator.checkInvalidationConditions();
+    expect((await decisionStore.getDecisionWithStatus('dec-db'))!.status).toBe('valid');
+
+    await addEvent('c4', 40, EventType.GIT_COMMIT, ['src/db/migrations/004.sql']);
+    await invalidator.checkInvalidationConditions();
+
+    const status = await decisionStore.getDecisionWithStatus('dec-db');
+    expect(status!.status).toBe('invalidated');
+    expect(status!.statusEvents).toHaveLength(1);
+    expect(status!.statusEvents[0].cause_event_id).toBe('c4');
+    expect(status!.statusEvents[0].evidence).toEqual({
+      condition: 'more than 3 commits touching src/db',
+      matched_event_ids: ['c1', 'c2', 'c3', 'c4'],
+      matched_count: 4,
+      threshold: 4
+    });
+  });
+
+  test('should match modules and keywords, and accept enum names as types', async () => {
+    const decision = makeDecision('dec-mod', []);
+    await addEvent('m1', 10, EventType.FILE_MODIFY, ['packages/auth/index.ts'], ['session']);
+    await addEvent('m2', 20, EventType.FILE_MODIFY, ['packages/billing/index.ts'], ['refactor']);
+
+    const byModule = await invalidator.checkCondition(decision, {
+      condition: 'auth touched', trigger_event_types: ['FILE_MODIFY' as EventType], severity: 'info', modules: ['auth']
+    });
+    const byKeyword = await invalidator.checkCondition(decision, {
+      condition: 'refactor mentioned', trigger_event_types: [], severity: 'info', keywords: ['refactor']
+    });
+    const unscoped = await invalidator.checkCondition(decision, {
+      condition: 'any deletion', trigger_event_types: [EventType.FILE_DELETE], severity: 'critical'
+    });
+
+    expect(byModule!.matched_event_ids).toEqual(['m1']);
+    expect(byKeyword!.matched_event_ids).toEqual(['m2']);
+    expect(unscoped).toBeNull();
+  });
+
+  test('should count every matching event while truncating the evidence ids', async () => {
+    const decision = makeDecision('dec-many', []);
+    for (let i = 1; i <= 25; i++) {
+      await addEvent(`f${i}`, i * 10, EventType.FILE_MODIFY, [`src/core/file${i}.ts`]);
+    }
+
+    const evidence = await invalidator.checkCondition(decision, {
+      condition: 'core churn', trigger_event_types: [EventType.FILE_MODIFY], severity: 'warning', paths: ['src/core/**']
+    });
+
+    expect(evidence!.matched_count).toBe(25);
+    expect(evidence!.matched_event_ids).toHaveLength(20);
+    expect(evidence!.matched_event_ids[0]).toBe('f1');
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for tolerant decision extraction
+ *
+ * Verifies that decisions are read from several fenced blocks (JSON, JSON5, YAML), that
+ * each decision is validated on its own with precise error paths, and that the report
+ * lists accepted and rejected decisions so the rejected ones can be fixed and resubmitted.
+ */
+
+import { DecisionExtractor } from '../DecisionExtractor';
+import { findDecisionBlocks, parseDecisionBlock, validateDecisionProposal } from '../DecisionResponseParser';
+import { EventType } from '../../memory/types';
+
+describe('DecisionResponseParser - Multi-format blocks and extraction report', () => {
+  const rcepRef = 'a'.repeat(64);
+  const extractor = new DecisionExtractor({} as any, {} as any);
+
+  test('should accept valid decisions across JSON, JSON5 and YAML blocks and report the rejected ones', async () => {
+    const response = [
+      'Here is my analysis.',
+      '',
+      '```json:decisions',
+      '[',
+      '  { "id": "dec-db", "intent": "choose_database", "confidence_llm": 92, "options_considered": [{ "option": "postgres", "rationale": "relational", "weight": 700 }], "chosen_option": "postgres" },',
+      '  { "id": "dec-bad", "intent": "", "confidence_llm": 120, "options_considered": [{ "option": "x", "weight": 5000 }] }',
+      ']',
+      '```',
+      '',
+      '```json5:decisions',
+      '// Copied from the template',
+      "{ decisions: [{ id: 'dec-cache', intent: 'add_cache', confidence_llm: '95%', context_refs: 'src/cache.ts',",
+      "  invalidation_conditions: [{ condition: 'cache removed', trigger_event_types: ['FILE_DELETE'], severity: 'critical' }] },] }",
+      '```',
+      '',
+      '```yaml:decisions',
+      '- id: dec-tests',
+      '  intent: split_tests',
+      '  confidence_llm: 80',
+      '  invalidation_conditions:',
+      '    - condition: tests fail',
+      '      trigger_event_types: [test_failed, tests_broken]',
+      '- id: dec-db',
+      '  intent: choose_database',
+      '  confidence_llm: 90',
+      '```'
+    ].join('\n');
+
+    expect(findDecisionBlocks(response).map(b => `${b.index}:${b.format}:${b.line}`)).toEqual(['1:json:3', '2:json5:10', '3:yaml:16']);
+
+    const { decisions, report } = await extractor.extractWithReport(response, rcepRef);
+    expect(decisions.map(d => d.id)).toEqual(['dec-db', 'dec-cache']);
+    expect(decisions[1]).toMatchObject({
+      confidence_llm: 95,
+      context_refs: ['src/cache.ts'],
+      invalidation_conditions: [{ condition: 'cache removed', trigger_event_types: [EventType.FILE_DELETE], severity: 'critical' }],
+      rcep_ref: rcepRef
+    });
+
+    expect(report).toMatchObject({ rcepRef, blocks: 3, blockErrors: [] });
+    expect(report.accepted.map(a => `${a.block}:${a.index}:${a.id}`)).toEqual(['1:0:dec-db', '2:0:dec-cache']);
+    expect(report.rejected.map(r => ({ block: r.block, index: r.index, issues: r.issues }))).toEqual([
+      {
+        block: 1, index: 1, issues: [
+          { path: 'intent', message: 'Must not be empty' },
+          { path: 'options_considered[0].weight', message: 'Number must be less than or equal to 999' },
+          { path: 'confidence_llm', message: 'Number must be less than or equal to 100' }
+        ]
+      },
+      { block: 3, index: 0, issues: [{ path: 'invalidation_conditions[0].trigger_event_types[1]', message: "Unknown event type 'tests_broken'" }] },
+      { block: 3, index: 1, issues: [{ path: 'id', message: 'Duplicate id in this response' }] }
+    ]);
+    expect(extractor.getLastReport()).toBe(report);
+
+    // Fixed source resubmitted alone is accepted
+    const fixed = JSON.parse(report.rejected[1].source);
+    fixed.invalidation_conditions[0].trigger_event_types = ['test_failed'];
+    const resubmitted = await extractor.extractWithReport('```json:decisions\n' + JSON.stringify([fixed]) + '\n```', rcepRef);
+    expect(resubmitted.report.accepted.map(a => a.id)).toEqual(['dec-tests']);
+    expect(resubmitted.report.rejected).toEqual([]);
+  });
+
+  test('should report unreadable blocks with their line in the response', async () => {
+    const response = [
+      'Intro',
+      '```json:decisions',
+      '[',
+      '  { "intent": "a", "confidence_llm": 90 }',
+      '  { "intent": "b" }',
+      ']',
+      '```',
+      '```yaml:decisions',
+      '- intent: [unclosed',
+      '```',
+      '```decisions',
+      '42',
+      '```'
+    ].join('\n');
+
+    const { decisions, report } = await extractor.extractWithReport(response, rcepRef);
+    expect(decisions).toEqual([]);
+    expect(report.blockErrors).toEqual([
+      { block: 1, line: 5, format: 'json', message: expect.stringMatching(/^Invalid JSON: invalid character '\{' at 3:3/) },
+      { block: 2, line: expect.any(Number), format: 'yaml', message: expect.stringMatching(/^Invalid YAML: /) },
+      { block: 3, line: 11, format: 'json', message: 'Expected an array of decisions' }
+    ]);
+    expect(report.blockErrors[1].line).toBeGreaterThanOrEqual(9);
+
+    expect(parseDecisionBlock({ index: 1, line: 1, format: 'json', content: '{ "intent": "solo", "confidence_llm": 99 }' })).toEqual({
+      items: [{ intent: 'solo', confidence_llm: 99 }]
+    });
+    expect(validateDecisionProposal('not a decision')).toEqual({ issues: [{ path: '', message: 'Expected a decision object' }] });
+    expect(await extractor.extractFromResponse('No block at all', rcepRef)).toEqual([]);
+  });
+});
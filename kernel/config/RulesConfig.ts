@@ -0,0 +1,38 @@
+/**
+ * RulesConfig - Assistants cibles des règles de gouvernance RL4
+ *
+ * Stocké dans .reasoning_rl4/rules_config.json : { "targets": ["cursor", "agents", "copilot"] }
+ * 'auto' : Cursor, plus chaque assistant détecté dans le workspace (.windsurf/, .continue/,
+ * AGENTS.md, .github/copilot-instructions.md).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { RuleTargetId } from '../api/RuleTargets';
+
+export interface RulesConfig {
+    targets: RuleTargetId[] | 'auto';
+}
+
+const DEFAULT_RULES_CONFIG: RulesConfig = {
+    targets: 'auto'
+};
+
+/**
+ * Load rules configuration from file or return defaults
+ */
+export function loadRulesConfig(workspaceRoot: string): RulesConfig {
+    const configPath = path.join(workspaceRoot, '.reasoning_rl4', 'rules_config.json');
+
+    if (!fs.existsSync(configPath)) {
+        return DEFAULT_RULES_CONFIG;
+    }
+
+    try {
+        const userConfig = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+        return { ...DEFAULT_RULES_CONFIG, ...userConfig };
+    } catch (error) {
+        console.warn(`[RulesConfig] Failed to load config from ${configPath}, using defaults: ${error}`);
+        return DEFAULT_RULES_CONFIG;
+    }
+}
@@ -3,9 +3,10 @@
  * 
  * Centralise toutes les configurations liées au stockage :
  * - AppendOnlyWriter (queue sizes, overflow strategies)
- * - Rotation (file sizes, age limits)
+ * - Rotation (file sizes, age limits, archive tier)
  * - Cache (sizes, eviction policies)
  * - Memory Classes (retention policies)
+ * - Quotas (taille totale de .reasoning_rl4/ et par MemoryClass)
  * 
  * Référence : docs/rl4-memory-contract.md
  */
@@ -14,6 +15,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { MemoryClass, MemoryClassConfig, MEMORY_CLASS_CONFIGS } from '../memory/MemoryClass';
 import { OverflowStrategy } from '../AppendOnlyWriter';
+import { ArchiveCompression } from '../persistence/ArchiveStore';
 
 export interface StorageConfig {
     appendOnlyWriter: {
@@ -23,16 +25,26 @@ export interface StorageConfig {
     rotation: {
         maxFileSizeMB: number;
         maxAgeDays: number;
-        enableArchiving: boolean;
+        enableArchiving: boolean;        // Segments expirés → archive/ (sinon supprimés)
         enableCompression: boolean;
+        compression: ArchiveCompression; // 'gzip' | 'brotli'
+        archiveDir: string;              // Relatif à .reasoning_rl4/
     };
     cache: {
         decisionStoreMaxSize: number;
         milIndexFlushIntervalMs: number;
+        milEventCacheMaxSize: number;      // LRU bound for MIL event cache
+        milEventLocationsMaxSize: number;  // LRU bound for EventStore offsets (misses re-read the segment index files)
     };
     memoryClasses: {
         [key in MemoryClass]: MemoryClassConfig;
     };
+    quotas: {
+        totalMB: number | null;          // Taille totale de .reasoning_rl4/ (null = illimitée)
+        perClassMB: {                    // HOT n'a pas de quota : jamais purgée
+            [key in Exclude<MemoryClass, MemoryClass.HOT>]: number | null;
+        };
+    };
 }
 
 /**
@@ -46,14 +58,26 @@ const DEFAULT_STORAGE_CONFIG: StorageConfig = {
     rotation: {
         maxFileSizeMB: 100,
         maxAgeDays: 90,
-        enableArchiving: false,
-        enableCompression: false
+        enableArchiving: true,
+        enableCompression: true,
+        compression: 'gzip',
+        archiveDir: 'archive'
     },
     cache: {
         decisionStoreMaxSize: 1000,
-        milIndexFlushIntervalMs: 5000
+        milIndexFlushIntervalMs: 5000,
+        milEventCacheMaxSize: 5000,
+        milEventLocationsMaxSize: 200000
     },
-    memoryClasses: MEMORY_CLASS_CONFIGS
+    memoryClasses: MEMORY_CLASS_CONFIGS,
+    quotas: {
+        totalMB: 2048,
+        perClassMB: {
+            [MemoryClass.WARM]: MEMORY_CLASS_CONFIGS[MemoryClass.WARM].maxSizeMB,
+            [MemoryClass.COLD]: MEMORY_CLASS_CONFIGS[MemoryClass.COLD].maxSizeMB,
+            [MemoryClass.ARCHIVED]: null
+        }
+    }
 };
 
 /**
@@ -87,6 +111,14 @@ export function loadStorageConfig(workspaceRoot: string): StorageConfig {
             memoryClasses: {
                 ...DEFAULT_STORAGE_CONFIG.memoryClasses,
                 ...userConfig.memoryClasses
+            },
+            quotas: {
+                ...DEFAULT_STORAGE_CONFIG.quotas,
+                ...userConfig.quotas,
+                perClassMB: {
+                    ...DEFAULT_STORAGE_CONFIG.quotas.perClassMB,
+                    ...userConfig.quotas?.perClassMB
+                }
             }
         };
     } catch (error) {
@@ -0,0 +1,48 @@
+/**
+ * TestReportConfig - Rapports de tests suivis par le kernel (Jest JSON, JUnit XML, TAP)
+ *
+ * Stocké dans .reasoning_rl4/test_reports.json : { "reports": ["reports/junit/*.xml"] }
+ * Chemins relatifs au workspace, globs acceptés. Un rapport est ingéré dans MIL à
+ * chaque réécriture (mtime) ; les rapports présents au démarrage ne sont pas rejoués.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface TestReportConfig {
+    reports: string[];
+}
+
+const DEFAULT_TEST_REPORT_CONFIG: TestReportConfig = {
+    reports: [
+        'jest-results.json',
+        'test-results.json',
+        'junit.xml',
+        'test-results.xml',
+        'test-results/**/*.xml',
+        'reports/**/*.xml',
+        'build/test-results/**/*.xml',
+        'target/surefire-reports/*.xml',
+        'test-results.tap',
+        '*.tap'
+    ]
+};
+
+/**
+ * Load test report configuration from file or return defaults
+ */
+export function loadTestReportConfig(workspaceRoot: string): TestReportConfig {
+    const configPath = path.join(workspaceRoot, '.reasoning_rl4', 'test_reports.json');
+
+    if (!fs.existsSync(configPath)) {
+        return DEFAULT_TEST_REPORT_CONFIG;
+    }
+
+    try {
+        const userConfig = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+        return { ...DEFAULT_TEST_REPORT_CONFIG, ...userConfig };
+    } catch (error) {
+        console.warn(`[TestReportConfig] Failed to load config from ${configPath}, using defaults: ${error}`);
+        return DEFAULT_TEST_REPORT_CONFIG;
+    }
+}
@@ -0,0 +1,55 @@
+/**
+ * TokenizerConfig - Modèle cible par workspace pour le dimensionnement des prompts
+ *
+ * Stocké dans .reasoning_rl4/tokenizer_config.json : { "model": "gpt-4o" }
+ * Le modèle choisit le profil (fenêtre de contexte) et la famille de tokenizer.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface TokenizerConfig {
+    model: string;
+}
+
+const DEFAULT_TOKENIZER_CONFIG: TokenizerConfig = {
+    model: 'default'
+};
+
+/**
+ * Load tokenizer configuration from file or return defaults
+ */
+export function loadTokenizerConfig(workspaceRoot: string): TokenizerConfig {
+    const configPath = path.join(workspaceRoot, '.reasoning_rl4', 'tokenizer_config.json');
+
+    if (!fs.existsSync(configPath)) {
+        return DEFAULT_TOKENIZER_CONFIG;
+    }
+
+    try {
+        const userConfig = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+        return { ...DEFAULT_TOKENIZER_CONFIG, ...userConfig };
+    } catch (error) {
+        console.warn(`[TokenizerConfig] Failed to load config from ${configPath}, using defaults: ${error}`);
+        return DEFAULT_TOKENIZER_CONFIG;
+    }
+}
+
+/**
+ * Save tokenizer configuration to file
+ */
+export function saveTokenizerConfig(workspaceRoot: string, config: TokenizerConfig): void {
+    const configPath = path.join(workspaceRoot, '.reasoning_rl4', 'tokenizer_config.json');
+    const configDir = path.dirname(configPath);
+
+    if (!fs.existsSync(configDir)) {
+        fs.mkdirSync(configDir, { recursive: true });
+    }
+
+    try {
+        fs.writeFileSync(configPath, JSON.stringify(config, null, 2), 'utf-8');
+    } catch (error) {
+        console.error(`[TokenizerConfig] Failed to save config to ${configPath}: ${error}`);
+        throw error;
+    }
+}
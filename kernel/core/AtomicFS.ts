@@ -52,7 +52,7 @@ export class AtomicFS {
     /**
      * Synchronous version of writeAtomic.
      */
-    static writeAtomicSync(filePath: string, content: string): void {
+    static writeAtomicSync(filePath: string, content: string | Buffer): void {
         const dir = path.dirname(filePath);
         const tmpPath = `${filePath}.${Date.now()}.tmp`;
 
@@ -62,7 +62,7 @@ export class AtomicFS {
         try {
             const fd = fs.openSync(tmpPath, 'w');
             try {
-                fs.writeSync(fd, content);
+                fs.writeFileSync(fd, content);  // string | Buffer, écrit en entier
                 fs.fsyncSync(fd);
             } finally {
                 fs.closeSync(fd);
@@ -74,6 +74,7 @@ export interface CycleContextV1JSON {
     modes: ModeState | null;
     metrics: CycleMetrics;
     summary: CycleSummary | null;
+    merkleRoot: string | null;  // Verified Merkle root of the cycle's ledger writes (LedgerVerifier)
 }
 
 export class CycleContextV1 {
@@ -95,6 +96,7 @@ export class CycleContextV1 {
     };
 
     private summary: CycleSummary | null = null;
+    private merkleRoot: string | null = null;
 
     constructor(cycleId: number) {
         this.cycleId = cycleId;
@@ -141,6 +143,18 @@ export class CycleContextV1 {
         this.summary = summary;
     }
 
+    /******************************************************************************************
+     * LEDGER INTEGRITY
+     ******************************************************************************************/
+    setMerkleRoot(root: string) {
+        // Root recomputed by LedgerVerifier from the hash-chained ledgers, never produced here.
+        this.merkleRoot = root;
+    }
+
+    getMerkleRoot(): string | null {
+        return this.merkleRoot;
+    }
+
     /******************************************************************************************
      * SERIALIZATION
      ******************************************************************************************/
@@ -153,6 +167,7 @@ export class CycleContextV1 {
             modes: this.modes,
             metrics: this.metrics,
             summary: this.summary,
+            merkleRoot: this.merkleRoot,
         };
     }
 
@@ -4,6 +4,8 @@
  * Rules:
  * - Command is the strong signal and is NEVER contradicted
  * - If command === "build_time_machine_prompt" → intent.kind = "timemachine" (point)
+ * - build_explain_file_prompt / build_code_review_prompt / build_onboarding_prompt
+ *   → explain_file / code_review / onboarding
  * - Kernel can add refinements (mode, ptrScheme) without contradicting the command
  * - Mode advisory: Kernel suggests but command is authoritative
  */
@@ -45,6 +47,18 @@ export class IntentionResolver {
       kind = 'magic_pr';
       confidence = 1.0;
       advisory = false;
+    } else if (command === 'build_explain_file_prompt') {
+      kind = 'explain_file';
+      confidence = 1.0;
+      advisory = false;
+    } else if (command === 'build_code_review_prompt') {
+      kind = 'code_review';
+      confidence = 1.0;
+      advisory = false;
+    } else if (command === 'build_onboarding_prompt') {
+      kind = 'onboarding';
+      confidence = 1.0;
+      advisory = false;
     } else {
       // Unknown command - default to snapshot with lower confidence
       kind = 'snapshot';
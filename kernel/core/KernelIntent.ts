@@ -13,9 +13,12 @@ export interface KernelIntent {
    * - "snapshot": Standard context snapshot calibration
    * - "timemachine": Historical analysis between two dates
    * - "magic_pr": Commit enrichment and PR generation
-   * - "custom": Reserved for future intentions (debug, audit, explain, replay, etc.)
+   * - "explain_file": History of one file (MIL events, decisions, ADRs, commits)
+   * - "code_review": Uncommitted diff reviewed against accepted ADRs and current decisions
+   * - "onboarding": Project summary and key decisions for a new teammate
+   * - "custom": Reserved for future intentions (debug, audit, replay, etc.)
    */
-  kind: "snapshot" | "timemachine" | "magic_pr" | "custom";
+  kind: "snapshot" | "timemachine" | "magic_pr" | "explain_file" | "code_review" | "onboarding" | "custom";
 
   /**
    * Governance mode affecting data filtering and structure
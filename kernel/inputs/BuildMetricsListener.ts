@@ -30,6 +30,7 @@ interface CaptureEvent {
  * - VS Code tasks API monitoring
  * - Bundle file size tracking
  * - Build success/failure detection
+ * - Test task outcomes (exit code → MIL via the kernel's BuildResultListener)
  * - Duration metrics
  */
 export class BuildMetricsListener {
@@ -38,6 +39,7 @@ export class BuildMetricsListener {
     private appendWriter: AppendOnlyWriter | null = null;
     private logger: ILogger | null = null; // ✅ Use ILogger instead of OutputChannel
     private taskStartTimes: Map<string, number> = new Map();
+    private taskExitCodes: Map<string, number> = new Map();
     private bundleFilePath: string;
     private disposables: vscode.Disposable[] = []; // ✅ NEW: Track disposables
     private bundleMonitorInterval: NodeJS.Timeout | null = null; // ✅ NEW: Track interval
@@ -88,6 +90,15 @@ export class BuildMetricsListener {
             })
         );
         
+        // Exit code (tâches process/shell uniquement) : arrive avant onDidEndTask
+        this.disposables.push(
+            vscode.tasks.onDidEndTaskProcess(e => {
+                if (typeof e.exitCode === 'number') {
+                    this.taskExitCodes.set(e.execution.task.name, e.exitCode);
+                }
+            })
+        );
+        
         this.disposables.push(
             vscode.tasks.onDidEndTask(async e => {
                 await this.handleTaskEnd(e);
@@ -110,20 +121,26 @@ export class BuildMetricsListener {
         }
         
         const duration = Date.now() - startTime;
+        const exitCode = this.taskExitCodes.get(taskName);
         this.taskStartTimes.delete(taskName);
+        this.taskExitCodes.delete(taskName);
         
-        // Detect if it's a build/compile task
+        // Detect if it's a build/compile or test task
+        const isTestTask = /\btest|jest|mocha|vitest|pytest|spec\b/i.test(taskName);
         const isBuildTask = /compile|build|webpack|tsc/i.test(taskName);
         
-        if (!isBuildTask) {
-            return; // Only track build-related tasks
+        if (!isBuildTask && !isTestTask) {
+            return; // Only track build/test-related tasks
         }
         
         const metrics: BuildMetrics = {
             timestamp: new Date().toISOString(),
+            kind: isTestTask ? 'test' : 'build',
+            task_name: taskName,
             trigger: this.detectTrigger(taskName),
             duration_ms: duration,
-            success: true, // VS Code doesn't provide exit code in onDidEndTask
+            success: exitCode === undefined ? true : exitCode === 0, // Sans exit code (tâche custom) : supposée réussie
+            ...(exitCode !== undefined ? { exit_code: exitCode } : {}),
             errors_count: 0, // Would need terminal output parsing
             warnings_count: 0,
             bundle_size_bytes: this.getBundleSize()
@@ -131,7 +148,7 @@ export class BuildMetricsListener {
         
         await this.queueMetrics(metrics);
         
-        this.logger?.system(`🔨 Build completed: ${taskName} (${duration}ms)`);
+        this.logger?.system(`🔨 ${isTestTask ? 'Tests' : 'Build'} completed: ${taskName} (${duration}ms${exitCode !== undefined ? `, exit ${exitCode}` : ''})`);
     }
     
     /**
@@ -306,9 +323,12 @@ export class BuildMetricsListener {
  */
 export interface BuildMetrics {
     timestamp: string;
+    kind?: 'build' | 'test';
+    task_name?: string;
     trigger: 'manual' | 'watch' | 'extension_reload';
     duration_ms: number;
     success: boolean;
+    exit_code?: number;            // Absent : tâche sans processus (CustomExecution)
     errors_count: number;
     warnings_count: number;
     bundle_size_bytes?: number;
@@ -0,0 +1,317 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { MIL } from '../memory/MIL';
+import { EventSource, EventType, UnifiedEvent } from '../memory/types';
+import { TimerRegistry } from '../TimerRegistry';
+import { ILogger } from '../core/ILogger';
+import { isGlobPattern, matchesGlob, toPosixPath } from '../utils/GlobMatcher';
+import { IgnoreEngine } from '../utils/IgnoreEngine';
+import { JsonlTailReader } from '../utils/JsonlTailReader';
+import { loadTestReportConfig, TestReportConfig } from '../config/TestReportConfig';
+import { TestReportSummary, formatTestSummary, isFailingReport, parseTestReport } from './TestReports';
+
+/**
+ * BuildResultListener - Résultats de build et de tests → MIL
+ *
+ * Deux sources, relevées toutes les 10s :
+ *   1. traces/build_metrics.jsonl (BuildMetricsListener, côté extension) : tâches VS Code
+ *      de build / test terminées, avec leur code de sortie
+ *   2. Rapports de tests (TestReportConfig) : Jest JSON, JUnit XML, TAP, ingérés à chaque
+ *      réécriture avec comptes et noms des tests en échec
+ *
+ * Chaque résultat devient un événement BUILD_SUCCEEDED / BUILD_FAILED / TEST_PASSED /
+ * TEST_FAILED : utilisable dans `trigger_event_types` des conditions d'invalidation, et
+ * résumé en historique rouge/vert dans les snapshots.
+ *
+ * Une tâche sans code de sortie (exécution custom) n'est pas un signal : ignorée.
+ *
+ * Les motifs glob sont résolus en respectant IgnoreEngine (.gitignore, .rl4ignore), sauf
+ * pour leur préfixe littéral : les rapports vivent souvent dans un dossier de sortie ignoré
+ * (reports/, coverage/), que l'utilisateur a nommé explicitement.
+ *
+ * ZERO-INTELLIGENCE : Codes de sortie et rapports uniquement, jamais la sortie console.
+ */
+
+export type BuildResultKind = 'build' | 'test';
+
+export interface BuildResult {
+    kind: BuildResultKind;
+    status: 'passed' | 'failed';
+    origin: string;              // "task npm: compile" ou "report test-results/junit.xml"
+    timestamp: string;
+    duration_ms?: number;
+    exit_code?: number;
+    tests?: TestReportSummary;   // Rapport de tests uniquement (fichiers relatifs au workspace)
+}
+
+export const BUILD_RESULT_EVENT_TYPES: EventType[] = [
+    EventType.BUILD_SUCCEEDED,
+    EventType.BUILD_FAILED,
+    EventType.TEST_PASSED,
+    EventType.TEST_FAILED
+];
+
+const POLL_INTERVAL_MS = 10000;
+const REPORT_SETTLE_MS = 1000;               // Rapport en cours d'écriture : attendre qu'il soit stable
+const MAX_REPORT_BYTES = 20 * 1024 * 1024;
+const MAX_GLOB_DEPTH = 6;
+
+export class BuildResultListener {
+    private metrics: JsonlTailReader;
+    private ignoreEngine: IgnoreEngine;
+    private reportMtimes: Map<string, number> = new Map();   // Rapport (relatif) → dernier mtime vu
+    private polling: Promise<BuildResult[]> | null = null;
+
+    constructor(
+        private workspaceRoot: string,
+        private mil?: MIL,
+        private logger?: ILogger,
+        private config: TestReportConfig = loadTestReportConfig(workspaceRoot)
+    ) {
+        this.metrics = new JsonlTailReader(path.join(workspaceRoot, '.reasoning_rl4', 'traces', 'build_metrics.jsonl'));
+        this.ignoreEngine = new IgnoreEngine(workspaceRoot);
+    }
+
+    /**
+     * Ignorer les résultats déjà présents puis relever les nouveaux toutes les 10s
+     */
+    start(timerRegistry?: TimerRegistry): void {
+        this.metrics.seekToEnd();
+        this.reportMtimes.clear();
+        for (const report of this.resolveReports()) {
+            this.reportMtimes.set(report, this.mtime(report));
+        }
+
+        timerRegistry?.registerInterval(
+            'kernel:build-results',
+            () => {
+                this.poll().catch(error => {
+                    this.logger?.warning(`[BuildResultListener] Poll failed: ${error}`);
+                });
+            },
+            POLL_INTERVAL_MS
+        );
+    }
+
+    /**
+     * Résultats apparus depuis le dernier appel, ingérés dans MIL
+     */
+    poll(now: number = Date.now()): Promise<BuildResult[]> {
+        if (!this.polling) {
+            this.polling = this.runPoll(now).finally(() => {
+                this.polling = null;
+            });
+        }
+        return this.polling;
+    }
+
+    private async runPoll(now: number): Promise<BuildResult[]> {
+        const results = [...this.readTaskResults(), ...this.readReportResults(now)];
+        results.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+        for (const result of results) {
+            await this.ingest(result);
+        }
+        return results;
+    }
+
+    private readTaskResults(): BuildResult[] {
+        const results: BuildResult[] = [];
+        for (const record of this.metrics.readRecords()) {
+            const metrics = record?.metadata;
+            if (!metrics || typeof metrics.exit_code !== 'number') {
+                continue;  // Anciennes lignes ou tâche sans code de sortie
+            }
+            results.push({
+                kind: metrics.kind === 'test' ? 'test' : 'build',
+                status: metrics.exit_code === 0 ? 'passed' : 'failed',
+                origin: `task ${metrics.task_name || 'unknown'}`,
+                timestamp: metrics.timestamp,
+                ...(typeof metrics.duration_ms === 'number' ? { duration_ms: metrics.duration_ms } : {}),
+                exit_code: metrics.exit_code
+            });
+        }
+        return results;
+    }
+
+    private readReportResults(now: number): BuildResult[] {
+        const results: BuildResult[] = [];
+        for (const report of this.resolveReports()) {
+            const mtime = this.mtime(report);
+            if (mtime === 0 || mtime === this.reportMtimes.get(report) || now - mtime < REPORT_SETTLE_MS) {
+                continue;
+            }
+            this.reportMtimes.set(report, mtime);
+
+            const fullPath = path.join(this.workspaceRoot, report);
+            let summary: TestReportSummary | null = null;
+            try {
+                if (fs.statSync(fullPath).size <= MAX_REPORT_BYTES) {
+                    summary = parseTestReport(fs.readFileSync(fullPath, 'utf-8'), report);
+                }
+            } catch {
+                // Rapport supprimé entre-temps
+            }
+            if (!summary) {
+                continue;
+            }
+
+            const tests: TestReportSummary = {
+                ...summary,
+                failures: summary.failures.map(failure => failure.file ? { ...failure, file: this.toRelative(failure.file) } : failure),
+                files: summary.files.map(file => this.toRelative(file))
+            };
+            results.push({
+                kind: 'test',
+                status: isFailingReport(tests) ? 'failed' : 'passed',
+                origin: `report ${report}`,
+                timestamp: new Date(mtime).toISOString(),
+                ...(tests.duration_ms !== undefined ? { duration_ms: tests.duration_ms } : {}),
+                tests
+            });
+        }
+        return results;
+    }
+
+    private async ingest(result: BuildResult): Promise<void> {
+        if (!this.mil) {
+            return;
+        }
+        const { tests, ...rest } = result;
+        try {
+            await this.mil.ingest({
+                id: uuidv4(),
+                type: result.kind === 'test' ? 'test_result' : 'build_result',
+                timestamp: result.timestamp,
+                source: 'BuildResultListener',
+                metadata: {
+                    ...rest,
+                    ...(tests || {}),
+                    message: formatBuildResult(result)
+                }
+            }, EventSource.BUILD);
+        } catch (error) {
+            // Silent failure - MIL is optional
+            this.logger?.warning(`[BuildResultListener] MIL ingest failed: ${error}`);
+        }
+    }
+
+    /**
+     * Rapports configurés présents sur disque (chemins relatifs, forme POSIX)
+     */
+    private resolveReports(): string[] {
+        const found = new Set<string>();
+        for (const pattern of this.config.reports) {
+            const normalized = toPosixPath(pattern).replace(/^\.\//, '');
+            if (!isGlobPattern(normalized)) {
+                if (fs.existsSync(path.join(this.workspaceRoot, normalized))) {
+                    found.add(normalized);
+                }
+                continue;
+            }
+
+            // Parcours borné : à partir du préfixe littéral, profondeur du motif (ou MAX_GLOB_DEPTH avec **)
+            const segments = normalized.split('/');
+            const firstGlob = segments.findIndex(segment => isGlobPattern(segment));
+            const base = segments.slice(0, firstGlob).join('/');
+            const depth = normalized.includes('**') ? MAX_GLOB_DEPTH : segments.length - firstGlob;
+            this.walk(base, base, depth, file => {
+                if (matchesGlob(file, normalized)) {
+                    found.add(file);
+                }
+            });
+        }
+        return [...found];
+    }
+
+    /**
+     * Dossiers exclus par IgnoreEngine sautés ; le préfixe littéral `base` et ses parents ne sont pas jugés
+     */
+    private walk(base: string, dir: string, depth: number, visit: (file: string) => void): void {
+        if (depth <= 0) {
+            return;
+        }
+        let entries: fs.Dirent[];
+        try {
+            entries = fs.readdirSync(path.join(this.workspaceRoot, dir), { withFileTypes: true });
+        } catch {
+            return;
+        }
+        for (const entry of entries) {
+            const rel = dir ? `${dir}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                if (!this.ignoreEngine.explain(rel, true, base).ignored) {
+                    this.walk(base, rel, depth - 1, visit);
+                }
+            } else if (entry.isFile()) {
+                visit(rel);
+            }
+        }
+    }
+
+    private toRelative(filePath: string): string {
+        if (!path.isAbsolute(filePath)) {
+            return toPosixPath(filePath);
+        }
+        const rel = path.relative(this.workspaceRoot, filePath);
+        return rel.startsWith('..') ? toPosixPath(filePath) : toPosixPath(rel);
+    }
+
+    private mtime(report: string): number {
+        try {
+            return fs.statSync(path.join(this.workspaceRoot, report)).mtimeMs;
+        } catch {
+            return 0;
+        }
+    }
+}
+
+/**
+ * Ligne lisible : "test failed — 2/40 failed (jest, 3.2s): PaymentService › refunds [report jest-results.json]"
+ */
+export function formatBuildResult(result: Pick<BuildResult, 'kind' | 'status' | 'origin' | 'duration_ms' | 'exit_code' | 'tests'>): string {
+    let details: string;
+    if (result.tests) {
+        details = formatTestSummary(result.tests);
+    } else {
+        const parts = [typeof result.exit_code === 'number' ? `exit ${result.exit_code}` : 'exit ?'];
+        if (typeof result.duration_ms === 'number') {
+            parts.push(`${(result.duration_ms / 1000).toFixed(1)}s`);
+        }
+        details = parts.join(', ');
+    }
+    return `${result.kind} ${result.status} — ${details} [${result.origin}]`;
+}
+
+/**
+ * Historique rouge/vert (plus récent d'abord) et état courant par type (build, test)
+ */
+export function describeRedGreenHistory(events: UnifiedEvent[], limit: number): { state: string[]; history: string[] } {
+    const results = events
+        .filter(event => BUILD_RESULT_EVENT_TYPES.includes(event.type))
+        .sort((a, b) => a.timestamp - b.timestamp);
+
+    const state: string[] = [];
+    for (const kind of ['build', 'test'] as BuildResultKind[]) {
+        const runs = results.filter(event => event.metadata?.kind === kind);
+        if (runs.length === 0) {
+            continue;
+        }
+        const last = runs[runs.length - 1];
+        const lastGreen = [...runs].reverse().find(event => event.metadata?.status === 'passed');
+        if (last.metadata?.status === 'passed') {
+            state.push(`${kind}: 🟢 green (last run ${new Date(last.timestamp).toISOString()})`);
+            continue;
+        }
+        const firstRed = runs.find(event => event.metadata?.status === 'failed' && (!lastGreen || event.timestamp > lastGreen.timestamp))!;
+        const redRuns = runs.filter(event => event.timestamp >= firstRed.timestamp).length;
+        state.push(`${kind}: 🔴 red since ${new Date(firstRed.timestamp).toISOString()} (${redRuns} failing run${redRuns > 1 ? 's' : ''}`
+            + `${lastGreen ? `, last green ${new Date(lastGreen.timestamp).toISOString()}` : ', never green in history'})`);
+    }
+
+    const history = results.slice(-limit).reverse().map(event => {
+        const icon = event.metadata?.status === 'passed' ? '🟢' : '🔴';
+        return `[${new Date(event.timestamp).toISOString()}] ${icon} ${event.metadata?.message || event.type}`;
+    });
+    return { state, history };
+}
@@ -0,0 +1,165 @@
+/**
+ * DiffHunks - Plages de lignes modifiées, lues dans un diff unifié git
+ *
+ * Les commits et rafales de modifications ne retenaient que des noms de fichiers et des
+ * totaux insertions/suppressions. Un diff `-U0` donne, pour chaque fichier, les hunks
+ * exacts (ancienne et nouvelle plage) et, dans l'en-tête @@, la ligne de contexte que
+ * git choisit comme "fonction" englobante : on en tire un nom de symbole quand c'est
+ * trivial (class, function, def, ...), sans jamais parser le code.
+ *
+ * Format attendu (git diff / git diff-tree -p) :
+ *   diff --git a/<old> b/<new>
+ *   --- a/<old> | /dev/null
+ *   +++ b/<new> | /dev/null
+ *   @@ -<oldStart>[,<oldLines>] +<newStart>[,<newLines>] @@ <contexte>
+ *
+ * ZERO-INTELLIGENCE : Structure du diff uniquement, contenu des lignes jamais conservé.
+ */
+
+export type FileDiffStatus = 'added' | 'modified' | 'deleted' | 'renamed';
+
+export interface DiffHunk {
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    symbol?: string;         // Symbole englobant (en-tête @@), si dérivable
+}
+
+export interface FileDiff {
+    path: string;            // Chemin après modification (avant, pour une suppression)
+    oldPath?: string;        // Renommage uniquement
+    status: FileDiffStatus;
+    insertions: number;
+    deletions: number;
+    hunks: DiffHunk[];
+    binary?: boolean;
+    truncated?: boolean;     // Hunks au-delà de MAX_HUNKS_PER_FILE non conservés
+}
+
+export const MAX_DIFF_FILES = 200;
+export const MAX_HUNKS_PER_FILE = 50;
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+const SYMBOL_PATTERNS = [
+    /\b(?:class|interface|enum|function|def|func|fn|struct|trait|impl|module|namespace|type)\s+([A-Za-z_$][\w$]*)/,
+    /\b(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*=\s*(?:async\s*)?(?:function\b|\()/
+];
+
+/**
+ * Parser la sortie de `git diff -U0` / `git diff-tree -p -U0` (les diffs combinés sont ignorés)
+ */
+export function parseUnifiedDiff(diff: string): FileDiff[] {
+    const files: FileDiff[] = [];
+    let current: FileDiff | null = null;
+    let inHunk = false;
+
+    for (const line of diff.split('\n')) {
+        if (line.startsWith('diff --git ')) {
+            if (files.length >= MAX_DIFF_FILES) {
+                current = null;
+                break;
+            }
+            const header = line.match(/^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/);
+            current = {
+                path: header ? header[2] : '',
+                status: 'modified',
+                insertions: 0,
+                deletions: 0,
+                hunks: []
+            };
+            files.push(current);
+            inHunk = false;
+            continue;
+        }
+        if (!current) {
+            continue;
+        }
+
+        if (inHunk) {
+            if (line.startsWith('+')) {
+                current.insertions++;
+                continue;
+            }
+            if (line.startsWith('-')) {
+                current.deletions++;
+                continue;
+            }
+        }
+
+        const hunk = line.match(HUNK_HEADER);
+        if (hunk) {
+            inHunk = true;
+            if (current.hunks.length >= MAX_HUNKS_PER_FILE) {
+                current.truncated = true;
+                continue;
+            }
+            const symbol = extractSymbol(hunk[5]);
+            current.hunks.push({
+                oldStart: parseInt(hunk[1], 10),
+                oldLines: hunk[2] === undefined ? 1 : parseInt(hunk[2], 10),
+                newStart: parseInt(hunk[3], 10),
+                newLines: hunk[4] === undefined ? 1 : parseInt(hunk[4], 10),
+                ...(symbol ? { symbol } : {})
+            });
+            continue;
+        }
+        if (inHunk) {
+            continue;  // "\ No newline at end of file"
+        }
+
+        if (line.startsWith('new file mode')) {
+            current.status = 'added';
+        } else if (line.startsWith('deleted file mode')) {
+            current.status = 'deleted';
+        } else if (line.startsWith('rename from ')) {
+            current.status = 'renamed';
+            current.oldPath = unquote(line.slice('rename from '.length));
+        } else if (line.startsWith('rename to ')) {
+            current.path = unquote(line.slice('rename to '.length));
+        } else if (line.startsWith('--- a/') && current.status === 'deleted') {
+            current.path = unquote(line.slice('--- a/'.length));
+        } else if (line.startsWith('+++ b/')) {
+            current.path = unquote(line.slice('+++ b/'.length));
+        } else if (line.startsWith('Binary files ')) {
+            current.binary = true;
+        }
+    }
+
+    return files.filter(file => file.path);
+}
+
+/**
+ * Nom du symbole englobant à partir du contexte d'un en-tête @@ (undefined si rien d'évident)
+ */
+export function extractSymbol(context: string): string | undefined {
+    for (const pattern of SYMBOL_PATTERNS) {
+        const match = context.match(pattern);
+        if (match) {
+            return match[1];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Plage lisible d'un hunk : "lines 40–90", "line 12" (ancienne plage pour une suppression pure)
+ */
+export function formatHunkRange(hunk: DiffHunk): string {
+    const removed = hunk.newLines === 0;
+    const start = removed ? hunk.oldStart : hunk.newStart;
+    const count = removed ? hunk.oldLines : hunk.newLines;
+    return count <= 1 ? `line ${start}` : `lines ${start}–${start + count - 1}`;
+}
+
+/**
+ * Référence citable par une décision ou un ADR : "lines 40–90 of src/PaymentService.ts (PaymentService)"
+ */
+export function formatHunkReference(filePath: string, hunk: DiffHunk): string {
+    const removed = hunk.newLines === 0 ? ' (removed)' : '';
+    return `${formatHunkRange(hunk)} of ${filePath}${removed}${hunk.symbol ? ` (${hunk.symbol})` : ''}`;
+}
+
+function unquote(value: string): string {
+    return value.replace(/^"(.*)"$/, '$1');
+}
@@ -1,12 +1,22 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as chokidar from 'chokidar';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
 import { v4 as uuidv4 } from 'uuid';
 import { AppendOnlyWriter } from '../AppendOnlyWriter';
 import { CognitiveLogger } from '../core/CognitiveLogger';
 import { WriteTracker } from '../WriteTracker';
 import { MIL } from '../memory/MIL';
 import { EventSource } from '../memory/types';
+import { DiffRecord, DiffStore, toDiffReference } from '../memory/DiffStore';
+import { FileDiff, MAX_DIFF_FILES, parseUnifiedDiff } from './DiffHunks';
+import { IgnoreEngine, IgnoreVerdict, RL4_IGNORE_FILE } from '../utils/IgnoreEngine';
+
+const execFileAsync = promisify(execFile);
+const DIFF_MAX_BUFFER = 8 * 1024 * 1024;
+const DIFF_TIMEOUT_MS = 5000;
+const MAX_ADDED_FILE_BYTES = 1024 * 1024; // Fichier non suivi plus gros : pas de hunk
 
 // TODO: FileChangeSummary n'est pas exporté par CognitiveLogger
 interface FileChangeSummary {
@@ -35,10 +45,11 @@ interface CaptureEvent {
  * Correlates changes with Git commits and identifies refactoring patterns.
  *
  * Features:
- * - Real-time file watching (via chokidar)
+ * - Real-time file watching (via chokidar), filtered by IgnoreEngine (.gitignore, .rl4ignore)
  * - Pattern detection (refactor, feature, fix, test, docs)
  * - Change correlation (related files modified together)
  * - Burst detection (multiple files changed rapidly)
+ * - Per-hunk line ranges vs HEAD stored as COLD memory (DiffStore), referenced by metadata.diff
  */
 export class FileChangeWatcher {
     private workspaceRoot: string;
@@ -50,6 +61,8 @@ export class FileChangeWatcher {
     private cognitiveLogger: CognitiveLogger | null = null;
     private activityNotifier?: () => void;
     private mil?: MIL; // MIL integration (optional for compatibility)
+    private diffStore: DiffStore;
+    private ignoreEngine: IgnoreEngine;
 
     // Aggregation timer (every 30 seconds)
     private aggregationTimer: NodeJS.Timeout | null = null;
@@ -59,13 +72,15 @@ export class FileChangeWatcher {
     // ✅ Fix 2: EPERM error aggregation (prevent log spam)
     private epermErrorCount: number = 0;
     private lastEpermLog: number = 0;
-    private patternsLogged = false; // log des patterns une seule fois
+    private patternsLogged = false; // log des sources de règles une seule fois
 
     constructor(workspaceRoot: string, appendWriter?: AppendOnlyWriter, cognitiveLogger?: CognitiveLogger, mil?: MIL) {
         this.workspaceRoot = workspaceRoot;
         this.appendWriter = appendWriter || null; // Optional append-only writer (RL4 mode)
         this.cognitiveLogger = cognitiveLogger || null;
         this.mil = mil; // MIL integration (optional for compatibility)
+        this.diffStore = new DiffStore(workspaceRoot);
+        this.ignoreEngine = new IgnoreEngine(workspaceRoot);
 
         // Start aggregation timer (every 30 seconds)
         this.startAggregationTimer();
@@ -162,15 +177,15 @@ export class FileChangeWatcher {
             this.cognitiveLogger.system(`[FileChangeWatcher] Starting watch on: ${this.workspaceRoot}`);
         }
 
-        // Diagnostic: log watch root and ignore patterns directly to stdout
-        const ignorePatterns = this.getIgnorePatterns();
+        // Diagnostic: log watch root and ignore sources directly to stdout
+        const ignoreMatcher = this.getIgnoreMatcher();
         console.log(`[FCW] WATCH ROOT = ${this.workspaceRoot}`);
-        console.log(`[FCW] IGNORE PATTERNS = ${ignorePatterns.map((r) => r.toString()).join(', ')}`);
+        console.log(`[FCW] IGNORE SOURCES = ${this.ignoreEngine.sourcesFor().join(', ') || 'defaults only'}`);
 
         // Configure chokidar
         this.watcher = chokidar.watch('.', {
             cwd: this.workspaceRoot,
-            ignored: ignorePatterns,
+            ignored: ignoreMatcher,
             persistent: true,
             ignoreInitial: true,
             awaitWriteFinish: {
@@ -183,6 +198,11 @@ export class FileChangeWatcher {
         // Raw FS event logging (stdout) to validate chokidar scope
         this.watcher.on('all', (event, filePath) => {
             console.log(`[FCW RAW] ${event} -> ${filePath}`);
+            // Règles modifiées : recharger (les chemins déjà exclus ne sont pas re-surveillés avant redémarrage)
+            const name = path.basename(filePath);
+            if (name === '.gitignore' || name === RL4_IGNORE_FILE) {
+                this.ignoreEngine.reload();
+            }
         });
 
         if (this.cognitiveLogger) {
@@ -229,48 +249,31 @@ export class FileChangeWatcher {
     }
 
     /**
-     * Get patterns to ignore
+     * Chokidar ignore matcher backed by the shared IgnoreEngine
      */
-    private getIgnorePatterns(): RegExp[] {
-        const patterns = [
-            /(^|[\/\\])\../,  // Hidden files
-            /node_modules/,
-            /\.git\//,
-            /\.vscode\//,
-            /out\//,
-            /dist\//,
-            /build\//,
-            /\.reasoning\//,
-            /\.reasoning_rl4\//,  // ✅ FIX: Ignore RL4 runtime data to prevent infinite loops
-            /\.cache\//,
-            /coverage\//,
-            /\.map$/,
-            /\.tmp$/,
-            /\.log$/,
-            /\.jsonl$/,  // ✅ FIX: Ignore structured logs to prevent infinite loops
-            /\.lock$/,
-            // ✅ Fix 3: macOS system directories (prevent EPERM errors)
-            /^Library\//,      // macOS Library directory
-            /^Downloads\//,    // Downloads directory
-            /^Pictures\//,      // Pictures directory
-            /^Documents\//,    // Documents directory
-            /^Desktop\//,       // Desktop directory
-            /^Movies\//,        // Movies directory
-            /^Music\//,         // Music directory
-            /^Public\//,        // Public directory
-            /^Applications\//,  // Applications directory
-            /^System\//,        // System directory
-            /^Users\/[^\/]+\/Library\//,  // User Library (more specific)
-            /^\.Trash\//,       // Trash directory
-            /^\.DS_Store$/,     // macOS metadata file
-        ];
-
+    private getIgnoreMatcher(): (filePath: string, stats?: fs.Stats) => boolean {
         if (this.cognitiveLogger && !this.patternsLogged) {
-            this.cognitiveLogger.system(`[FileChangeWatcher] Ignore patterns loaded: ${patterns.length} patterns`);
+            const sources = this.ignoreEngine.sourcesFor();
+            this.cognitiveLogger.system(`[FileChangeWatcher] Ignore rules loaded from: ${sources.length > 0 ? sources.join(', ') : 'defaults only'}`);
             this.patternsLogged = true;
         }
 
-        return patterns;
+        return (filePath, stats) => this.ignoreEngine.isIgnored(filePath, stats?.isDirectory() ?? false);
+    }
+
+    /**
+     * Why a path is (not) ignored by the watcher
+     */
+    public explainIgnore(filePath: string): IgnoreVerdict {
+        return this.ignoreEngine.explain(filePath, this.isDirectory(filePath));
+    }
+
+    private isDirectory(filePath: string): boolean {
+        try {
+            return fs.statSync(path.resolve(this.workspaceRoot, filePath)).isDirectory();
+        } catch {
+            return false;
+        }
     }
 
     /**
@@ -438,6 +441,8 @@ export class FileChangeWatcher {
         if (this.changeBuffer.size === 0) return;
 
         const changes = Array.from(this.changeBuffer.values());
+        // Vider tout de suite : les changements arrivés pendant la capture des hunks forment la rafale suivante
+        this.changeBuffer.clear();
         const pattern = this.detectPattern(changes);
 
         // Silent pattern detection (transparency via aggregated logs every 30s)
@@ -445,6 +450,12 @@ export class FileChangeWatcher {
         // Create capture even
         const event = this.createCaptureEvent(changes, pattern);
 
+        // Hunks (COLD) : l'événement ne porte que la référence
+        const diff = await this.captureHunks(changes, event.id, Date.parse(event.timestamp));
+        if (diff) {
+            event.metadata.diff = toDiffReference(diff);
+        }
+
         // Save to traces
         await this.saveToTraces(event);
         
@@ -456,9 +467,80 @@ export class FileChangeWatcher {
                 // Silent failure - MIL is optional
             }
         }
+    }
 
-        // Clear buffer
-        this.changeBuffer.clear();
+    /**
+     * Capture per-hunk line ranges of a burst into DiffStore
+     *
+     * Ranges are relative to HEAD at burst time (git diff HEAD), so successive bursts on
+     * the same file overlap until the next commit. Untracked new files count as one hunk.
+     */
+    private async captureHunks(changes: FileChange[], eventId: string, timestamp: number): Promise<DiffRecord | null> {
+        if (!fs.existsSync(path.join(this.workspaceRoot, '.git'))) {
+            return null;
+        }
+
+        const gitPaths = changes.slice(0, MAX_DIFF_FILES).map(c => c.path.split(path.sep).join('/'));
+        let files: FileDiff[] = [];
+        try {
+            const { stdout } = await execFileAsync(
+                'git',
+                ['diff', 'HEAD', '-U0', '-M', '--no-color', '--no-ext-diff', '--', ...gitPaths],
+                { cwd: this.workspaceRoot, maxBuffer: DIFF_MAX_BUFFER, timeout: DIFF_TIMEOUT_MS }
+            );
+            files = parseUnifiedDiff(stdout);
+        } catch {
+            // Pas encore de commit (HEAD absente) ou git indisponible : fichiers ajoutés uniquement
+        }
+
+        const seen = new Set(files.map(f => f.path));
+        for (const [i, change] of changes.slice(0, MAX_DIFF_FILES).entries()) {
+            if (change.type !== 'add' || seen.has(gitPaths[i]) || change.size > MAX_ADDED_FILE_BYTES) {
+                continue;
+            }
+            const lines = this.countTextLines(path.join(this.workspaceRoot, change.path));
+            if (lines === null) {
+                continue;
+            }
+            files.push({
+                path: gitPaths[i],
+                status: 'added',
+                insertions: lines,
+                deletions: 0,
+                hunks: lines > 0 ? [{ oldStart: 0, oldLines: 0, newStart: 1, newLines: lines }] : []
+            });
+        }
+
+        try {
+            return this.diffStore.append({
+                event_id: eventId,
+                kind: 'burst',
+                branch: this.mil?.getActiveBranch() ?? null,
+                timestamp,
+                files
+            });
+        } catch (error) {
+            this.cognitiveLogger?.warning(`⚠️ Could not store burst hunks: ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * Count lines of a text file (null if unreadable or binary)
+     */
+    private countTextLines(filePath: string): number | null {
+        try {
+            const content = fs.readFileSync(filePath, 'utf-8');
+            if (content.includes('\0')) {
+                return null;
+            }
+            if (content.length === 0) {
+                return 0;
+            }
+            return content.split('\n').length - (content.endsWith('\n') ? 1 : 0);
+        } catch {
+            return null;
+        }
     }
 
     /**
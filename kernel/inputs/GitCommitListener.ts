@@ -6,6 +6,11 @@ import { AppendOnlyWriter } from '../AppendOnlyWriter';
 import { CognitiveLogger } from '../core/CognitiveLogger';
 import { MIL } from '../memory/MIL';
 import { EventSource } from '../memory/types';
+import { DiffRecord, DiffStore, toDiffReference } from '../memory/DiffStore';
+import { GitReflogTracker, GitTransition, isSha, readActiveBranch } from './GitReflog';
+import { parseUnifiedDiff } from './DiffHunks';
+
+const DIFF_MAX_BUFFER = 8 * 1024 * 1024; // -U0 : lignes modifiées uniquement, mais un commit massif reste possible
 
 // TODO: CommitEvent n'est pas exporté par CognitiveLogger
 interface CommitEvent {
@@ -44,8 +49,11 @@ interface CaptureEvent {
  *
  * Features:
  * - Automatic commit detection (via git hooks or polling)
+ * - Branch switch / merge / rebase / reset / stash detection (reflog transitions)
+ * - Active branch tagging (commit events and every MIL event)
  * - Intent parsing from commit messages
  * - Context capture (files, author, stats)
+ * - Per-hunk line ranges stored as COLD memory (DiffStore), referenced by metadata.diff
  * - Feed into CaptureEngine for cognitive processing
  */
 export class GitCommitListener {
@@ -60,6 +68,9 @@ export class GitCommitListener {
     // private bridge: KernelBridge | null = null; // TODO: KernelBridge n'existe pas encore
     private activityNotifier?: () => void;
     private mil?: MIL; // MIL integration (optional for compatibility)
+    private reflog: GitReflogTracker;
+    private activeBranch: string | null = null;
+    private diffStore: DiffStore;
 
     constructor(
         workspaceRoot: string,
@@ -72,6 +83,8 @@ export class GitCommitListener {
     ) {
         this.workspaceRoot = workspaceRoot;
         this.gitDir = path.join(workspaceRoot, '.git');
+        this.reflog = new GitReflogTracker(this.gitDir);
+        this.diffStore = new DiffStore(workspaceRoot);
         // this.execPool = execPool || new ExecPool({ maxConcurrency: 2, queueLimit: 100, defaultTimeoutMs: 2000, hardKillDelayMs: 5000 }, new TimerRegistry()); // Default pool - TODO: nécessite TimerRegistry
         if (!execPool) {
             throw new Error('ExecPool must be provided to GitCommitListener');
@@ -91,6 +104,29 @@ export class GitCommitListener {
         this.activityNotifier = fn;
     }
 
+    /**
+     * Active branch (null when HEAD is detached)
+     */
+    public getActiveBranch(): string | null {
+        return this.activeBranch;
+    }
+
+    /**
+     * Local branches (for branch filters)
+     */
+    public async listBranches(): Promise<string[]> {
+        if (!this.isGitRepository()) return [];
+        try {
+            const result = await this.execPool.run(
+                'git for-each-ref --format=%(refname:short) refs/heads',
+                { cwd: this.workspaceRoot }
+            );
+            return result.stdout.trim().split('\n').filter(b => b);
+        } catch (error) {
+            return [];
+        }
+    }
+
     /**
      * Check if this is a git repository
      */
@@ -129,6 +165,10 @@ export class GitCommitListener {
             this.lastCommitHash = '';
         }
 
+        // Reflog transitions from now on; tag MIL events with the active branch
+        this.reflog.start();
+        this.refreshActiveBranch();
+
         // Install post-commit hook
         await this.installGitHook();
 
@@ -195,11 +235,7 @@ exit 0
         if (!this.isWatching) return;
 
         try {
-            // Get current HEAD hash
-            const result = await this.execPool.run('git rev-parse HEAD', { cwd: this.workspaceRoot });
-            const currentHash = result.stdout.trim();
-
-            // Check for marker file from hook OR hash change
+            // Check for marker file from hook
             const markerPath = path.join(this.gitDir, '.rl4-commit-marker');
             const markerExists = fs.existsSync(markerPath);
 
@@ -207,10 +243,26 @@ exit 0
                 fs.unlinkSync(markerPath);
             }
 
-            // If marker exists OR hash changed, capture commi
-            if ((markerExists || currentHash !== this.lastCommitHash) && currentHash) {
-                this.lastCommitHash = currentHash;
-                await this.onCommitDetected();
+            if (this.reflog.isAvailable()) {
+                // Reflog: each HEAD move is classified (a checkout is not a new commit), and the
+                // branch follows each checkout in order so commits keep the branch they were made on
+                for (const transition of this.reflog.poll()) {
+                    if (transition.branch !== undefined) {
+                        this.setActiveBranch(transition.branch);
+                    }
+                    await this.onTransition(transition);
+                }
+                this.refreshActiveBranch();
+            } else {
+                this.refreshActiveBranch();
+                // No reflog (core.logAllRefUpdates=false): any HEAD change is taken as a commit
+                const result = await this.execPool.run('git rev-parse HEAD', { cwd: this.workspaceRoot });
+                const currentHash = result.stdout.trim();
+
+                if ((markerExists || currentHash !== this.lastCommitHash) && currentHash) {
+                    this.lastCommitHash = currentHash;
+                    await this.onCommitDetected();
+                }
             }
         } catch (error) {
             // Ignore errors (might be no commits yet)
@@ -222,14 +274,79 @@ exit 0
         }
     }
 
+    /**
+     * Track the active branch (MIL tags every ingested event with it)
+     */
+    private refreshActiveBranch(): void {
+        this.setActiveBranch(readActiveBranch(this.gitDir));
+    }
+
+    private setActiveBranch(branch: string | null): void {
+        if (branch !== this.activeBranch) {
+            this.activeBranch = branch;
+            this.mil?.setActiveBranch(branch);
+        }
+    }
+
+    /**
+     * Handle a reflog transition: commits are captured, other moves become git events
+     */
+    private async onTransition(transition: GitTransition): Promise<void> {
+        // Rewritten history: commits no longer reachable from any ref
+        const orphaned = transition.kind === 'rebase' || transition.kind === 'reset' || transition.amend
+            ? await this.findOrphanedCommits(transition.before)
+            : [];
+
+        if (transition.kind === 'commit') {
+            this.lastCommitHash = transition.after;
+            await this.onCommitDetected(orphaned);
+            return;
+        }
+
+        this.lastCommitHash = transition.after;
+        const event = this.createTransitionEvent(transition, orphaned);
+
+        if (this.activityNotifier) {
+            this.activityNotifier();
+        }
+        this.cognitiveLogger?.log("SYSTEM", `Git ${transition.kind}: ${transition.before.substring(0, 7)} → ${transition.after.substring(0, 7)}`);
+
+        // MIL only: traces/git_commits.jsonl stays a commit log (read by timelines and caches)
+        if (this.mil) {
+            try {
+                await this.mil.ingest(event, EventSource.GIT);
+            } catch (error) {
+                // Silent failure - MIL is optional
+            }
+        }
+    }
+
+    /**
+     * Commits reachable from `before` but from no branch/tag anymore (max 100)
+     */
+    private async findOrphanedCommits(before: string): Promise<string[]> {
+        if (!isSha(before) || /^0+$/.test(before)) return [];
+        try {
+            const result = await this.execPool.run(
+                `git rev-list --max-count=100 ${before} --not --all`,
+                { cwd: this.workspaceRoot }
+            );
+            return result.stdout.trim().split('\n').filter(sha => isSha(sha));
+        } catch (error) {
+            return [];
+        }
+    }
+
     /**
      * Handle commit detection
      * Phase 3: Uses CognitiveLogger.logCommitCapture() for transparency
      * Phase E.3: Routes to KernelBridge
      */
-    private async onCommitDetected(): Promise<void> {
+    private async onCommitDetected(orphaned: string[] = []): Promise<void> {
         try {
             const context = await this.captureContext(this.lastCommitHash);
+            context.branch = this.activeBranch;
+            context.orphanedCommits = orphaned;
 
             // Notify activity
             if (this.activityNotifier) {
@@ -277,6 +394,12 @@ exit 0
             // Create capture even
             const event = this.createCaptureEvent(context);
 
+            // Hunks (COLD) : l'événement ne porte que la référence
+            const diff = await this.captureHunks(context, event.id);
+            if (diff) {
+                event.metadata.diff = toDiffReference(diff);
+            }
+
             // Save to traces
             await this.saveToTraces(event);
             
@@ -362,6 +485,36 @@ exit 0
         return context;
     }
 
+    /**
+     * Capture per-file, per-hunk line ranges of a commit into DiffStore
+     * Merge commits produce no diff-tree output (no -m/-c) and are skipped
+     */
+    private async captureHunks(context: CommitContext, eventId: string): Promise<DiffRecord | null> {
+        if (!isSha(context.hash)) {
+            return null;
+        }
+
+        try {
+            const result = await this.execPool.run(
+                `git diff-tree -p -U0 -M -r --root --no-commit-id --no-color --no-ext-diff ${context.hash}`,
+                { cwd: this.workspaceRoot, maxBuffer: DIFF_MAX_BUFFER }
+            );
+            return this.diffStore.append({
+                event_id: eventId,
+                kind: 'commit',
+                commit: context.hash,
+                branch: context.branch ?? null,
+                timestamp: Date.parse(context.timestamp) || Date.now(),
+                files: parseUnifiedDiff(result.stdout)
+            });
+        } catch (error) {
+            if (this.cognitiveLogger) {
+                this.cognitiveLogger.warning(`Failed to capture commit hunks: ${error}`);
+            }
+            return null;
+        }
+    }
+
     /**
      * Parse intent from commit message
      * Detects: feat, fix, refactor, docs, test, chore, style, perf
@@ -445,6 +598,40 @@ exit 0
                 },
                 intent: context.intent,
                 cognitive_relevance: context.intent.keywords.length > 0 ? 0.8 : 0.5,
+                branch: context.branch ?? null,
+                ...(context.orphanedCommits && context.orphanedCommits.length > 0
+                    ? { orphaned_commits: context.orphanedCommits }
+                    : {}),
+                auto_captured: true,
+                captured_by: 'GitCommitListener'
+            }
+        };
+    }
+
+    /**
+     * Create a CaptureEvent from a reflog transition (git_branch, git_merge, git_rebase, git_reset, git_stash)
+     */
+    private createTransitionEvent(transition: GitTransition, orphaned: string[]): CaptureEvent {
+        const type = transition.kind === 'branch_switch' ? 'git_branch' : `git_${transition.kind}`;
+        return {
+            id: uuidv4(),
+            type,
+            timestamp: new Date(transition.timestamp).toISOString(),
+            source: `git:${transition.after}`,
+            metadata: {
+                transition: {
+                    kind: transition.kind,
+                    before: transition.before,
+                    after: transition.after,
+                    message: transition.message,
+                    from: transition.from,
+                    to: transition.to,
+                    ref: transition.ref,
+                    fast_forward: transition.fastForward,
+                    stash: transition.stash
+                },
+                branch: this.activeBranch,
+                ...(orphaned.length > 0 ? { orphaned_commits: orphaned } : {}),
                 auto_captured: true,
                 captured_by: 'GitCommitListener'
             }
@@ -563,6 +750,8 @@ export interface CommitContext {
     insertions: number;
     deletions: number;
     intent: CommitIntent;
+    branch?: string | null;        // Active branch at capture time (null = detached HEAD)
+    orphanedCommits?: string[];    // Commits rewritten by this one (commit --amend)
 }
 
 export interface CommitIntent {
@@ -0,0 +1,245 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { JsonlTailReader } from '../utils/JsonlTailReader';
+
+/**
+ * GitReflog - Transitions de HEAD lues dans le reflog
+ *
+ * Le polling de `git rev-parse HEAD` ne voit qu'un nouveau SHA : il confond commit,
+ * checkout, merge, rebase et reset. Le reflog (.git/logs/HEAD) décrit chaque
+ * déplacement de HEAD avec son SHA avant/après et la commande qui l'a produit ;
+ * .git/logs/refs/stash décrit la pile de stash.
+ *
+ * Format d'une ligne : <old> <new> <name> <<email>> <unix> <tz>\t<message>
+ *
+ * ZERO-INTELLIGENCE : Classification par message git uniquement.
+ */
+
+export type GitTransitionKind = 'commit' | 'branch_switch' | 'merge' | 'rebase' | 'reset' | 'stash';
+
+export interface ReflogEntry {
+    before: string;
+    after: string;
+    timestamp: number;       // ms
+    message: string;
+}
+
+export interface GitTransition {
+    kind: GitTransitionKind;
+    before: string;          // SHA avant (ZERO_SHA si aucun)
+    after: string;           // SHA après
+    timestamp: number;
+    message: string;         // Message reflog d'origine
+    from?: string;           // branch_switch : branche / SHA quittés
+    to?: string;             // branch_switch : branche / SHA atteints ; reset : révision cible
+    ref?: string;            // merge : branche fusionnée
+    fastForward?: boolean;   // merge sans commit de fusion
+    amend?: boolean;         // commit --amend (le commit précédent est réécrit)
+    stash?: 'push' | 'drop'; // stash : entrée ajoutée, ou retirée (pop et drop ne se distinguent pas)
+    branch?: string | null;  // Branche active après la transition (null = HEAD détachée, absent = inchangée)
+}
+
+export const ZERO_SHA = '0'.repeat(40);
+
+const SHA_PATTERN = /^[0-9a-f]{40}([0-9a-f]{24})?$/;
+
+export function isSha(value: string): boolean {
+    return SHA_PATTERN.test(value);
+}
+
+/**
+ * Parser une ligne de reflog (null si la ligne n'a pas le format attendu)
+ */
+export function parseReflogLine(line: string): ReflogEntry | null {
+    const tab = line.indexOf('\t');
+    const header = tab >= 0 ? line.slice(0, tab) : line;
+    const message = tab >= 0 ? line.slice(tab + 1) : '';
+    const match = header.match(/^([0-9a-f]+) ([0-9a-f]+) .*> (\d+) [+-]\d{4}$/);
+    if (!match || !isSha(match[1]) || !isSha(match[2])) {
+        return null;
+    }
+    return {
+        before: match[1],
+        after: match[2],
+        timestamp: parseInt(match[3], 10) * 1000,
+        message
+    };
+}
+
+/**
+ * Branche courante d'après .git/HEAD (null si HEAD détachée ou illisible)
+ */
+export function readActiveBranch(gitDir: string): string | null {
+    try {
+        const head = fs.readFileSync(path.join(gitDir, 'HEAD'), 'utf-8').trim();
+        const match = head.match(/^ref: refs\/heads\/(.+)$/);
+        return match ? match[1] : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Branche locale existante (ref libre ou packed-refs)
+ */
+export function isLocalBranch(gitDir: string, name: string): boolean {
+    if (fs.existsSync(path.join(gitDir, 'refs', 'heads', name))) {
+        return true;
+    }
+    try {
+        return fs.readFileSync(path.join(gitDir, 'packed-refs'), 'utf-8')
+            .split('\n')
+            .some(line => line.endsWith(` refs/heads/${name}`));
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * GitReflogTracker - Lit les nouvelles entrées du reflog depuis le dernier appel
+ *
+ * Les étapes d'un rebase (start, pick, ..., finish) sont regroupées en une seule
+ * transition, du SHA d'avant le start au SHA du finish.
+ * Chaque transition porte la branche atteinte (checkout, fin de rebase) pour que les
+ * événements suivants soient attribués dans l'ordre du reflog, pas à la branche finale.
+ */
+export class GitReflogTracker {
+    private gitDir: string;
+    private headLogPath: string;
+    private stashLogPath: string;
+    private headLog: JsonlTailReader;
+    private stashCount: number = 0;
+    private rebaseBefore: string | null = null;
+
+    constructor(gitDir: string) {
+        this.gitDir = gitDir;
+        this.headLogPath = path.join(gitDir, 'logs', 'HEAD');
+        this.stashLogPath = path.join(gitDir, 'logs', 'refs', 'stash');
+        this.headLog = new JsonlTailReader(this.headLogPath);
+    }
+
+    /**
+     * Reflog disponible (core.logAllRefUpdates désactivé → pas de .git/logs/HEAD)
+     */
+    isAvailable(): boolean {
+        return fs.existsSync(this.headLogPath);
+    }
+
+    /**
+     * Ignorer l'historique existant : seules les transitions futures sont rapportées
+     */
+    start(): void {
+        this.headLog.seekToEnd();
+        this.stashCount = this.readLines(this.stashLogPath).length;
+        this.rebaseBefore = null;
+    }
+
+    /**
+     * Transitions apparues depuis le dernier appel, dans l'ordre du reflog
+     */
+    poll(): GitTransition[] {
+        const transitions: GitTransition[] = [];
+        for (const entry of this.readNewHeadEntries()) {
+            const transition = this.classify(entry);
+            if (transition) {
+                transitions.push(transition);
+            }
+        }
+        transitions.push(...this.pollStash());
+        return transitions;
+    }
+
+    private classify(entry: ReflogEntry): GitTransition | null {
+        const { message } = entry;
+        const base = { before: entry.before, after: entry.after, timestamp: entry.timestamp, message };
+
+        // Rebase (y compris pull --rebase) : regroupé du start au finish
+        const rebase = message.match(/^(?:rebase|pull --rebase)(?: -[a-z]+)*(?: \((\w+)\)| (finished))?:/);
+        if (rebase) {
+            // Anciennes versions : "rebase finished: ..." pour la fin, "rebase: ..." pour les étapes
+            const step = rebase[1] || (rebase[2] ? 'finish' : 'pick');
+            if (step === 'start') {
+                this.rebaseBefore = entry.before;
+                return null;
+            }
+            if (step === 'finish') {
+                const before = this.rebaseBefore ?? entry.before;
+                this.rebaseBefore = null;
+                const returning = message.match(/returning to refs\/heads\/(.+)$/);
+                return { ...base, kind: 'rebase', before, ...(returning ? { branch: returning[1] } : {}) };
+            }
+            if (step === 'abort') {
+                this.rebaseBefore = null;  // HEAD revient à son point de départ : rien de réécrit
+            }
+            return null;
+        }
+
+        const commit = message.match(/^commit(?: \((initial|amend|merge)\))?: /);
+        if (commit) {
+            if (commit[1] === 'merge') {
+                return { ...base, kind: 'merge', fastForward: false };
+            }
+            return { ...base, kind: 'commit', amend: commit[1] === 'amend' };
+        }
+        if (/^(cherry-pick|revert)\b/.test(message)) {
+            return { ...base, kind: 'commit' };
+        }
+
+        const checkout = message.match(/^checkout: moving from (.+) to (.+)$/);
+        if (checkout) {
+            if (checkout[1] === checkout[2] && entry.before === entry.after) return null;
+            const branch = isLocalBranch(this.gitDir, checkout[2]) ? checkout[2] : null;
+            return { ...base, kind: 'branch_switch', from: checkout[1], to: checkout[2], branch };
+        }
+
+        const merge = message.match(/^(?:merge (.+?)|pull(?: [^:]*)?): (.*)$/);
+        if (merge) {
+            return { ...base, kind: 'merge', ref: merge[1], fastForward: /fast-forward/i.test(merge[2]) };
+        }
+
+        const reset = message.match(/^reset: moving to (.+)$/);
+        if (reset) {
+            // git stash / reset --hard HEAD : HEAD ne bouge pas
+            if (entry.before === entry.after) return null;
+            return { ...base, kind: 'reset', to: reset[1] };
+        }
+
+        return null;
+    }
+
+    private pollStash(): GitTransition[] {
+        const lines = this.readLines(this.stashLogPath);
+        const previous = this.stashCount;
+        this.stashCount = lines.length;
+
+        if (lines.length > previous) {
+            return lines.slice(previous).map(line => parseReflogLine(line))
+                .filter((entry): entry is ReflogEntry => entry !== null)
+                .map(entry => ({ ...entry, kind: 'stash' as const, stash: 'push' as const }));
+        }
+        if (lines.length < previous) {
+            return [{
+                kind: 'stash',
+                stash: 'drop',
+                before: ZERO_SHA,
+                after: ZERO_SHA,
+                timestamp: Date.now(),
+                message: `stash: ${previous - lines.length} entr${previous - lines.length > 1 ? 'ies' : 'y'} removed`
+            }];
+        }
+        return [];
+    }
+
+    private readNewHeadEntries(): ReflogEntry[] {
+        // Reflog expiré / réécrit : le lecteur repart de la fin
+        return this.headLog.readLines().map(line => parseReflogLine(line)).filter((entry): entry is ReflogEntry => entry !== null);
+    }
+
+    private readLines(filePath: string): string[] {
+        try {
+            return fs.readFileSync(filePath, 'utf-8').split('\n').filter(line => line.trim());
+        } catch {
+            return [];
+        }
+    }
+}
@@ -0,0 +1,199 @@
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { MIL } from '../memory/MIL';
+import { EventSource } from '../memory/types';
+import { TimerRegistry } from '../TimerRegistry';
+import { ILogger } from '../core/ILogger';
+import { JsonlTailReader } from '../utils/JsonlTailReader';
+
+/**
+ * TerminalCommandListener - Exécutions terminal (terminal-events.jsonl) → MIL
+ *
+ * `rl4.trackCommand` / `rl4.trackCommandEnd` (côté extension) écrivent des lignes
+ * command_start / command_end. Le kernel suit le fichier par offset, apparie chaque
+ * start à son end (runId, sinon même commande + taskId, la plus ancienne ouverte) et
+ * ingère une seule exécution par commande : commande, cwd, durée, code de sortie, tâche.
+ *
+ * Un start sans end au-delà de UNFINISHED_AFTER_MS est ingéré comme 'unfinished' ;
+ * un end sans start (historique ignoré au démarrage) l'est sans durée.
+ *
+ * ZERO-INTELLIGENCE : Appariement structurel uniquement, la sortie n'est jamais lue.
+ */
+
+export type TerminalRunStatus = 'succeeded' | 'failed' | 'unfinished' | 'unknown';
+
+export interface TerminalRun {
+    run_id: string;
+    command: string;
+    cwd?: string;                // Relatif au workspace ('.' pour la racine)
+    task_id?: string;
+    terminal: string;
+    started_at?: string;         // Absent : start antérieur au démarrage du kernel
+    ended_at?: string;
+    duration_ms?: number;
+    exit_code: number | null;
+    status: TerminalRunStatus;
+}
+
+interface TerminalRecord {
+    timestamp: string;
+    type: 'command_start' | 'command_end';
+    command: string;
+    taskId?: string;
+    cwd?: string;
+    runId?: string;
+    exitCode?: number;
+    terminal?: string;
+}
+
+const POLL_INTERVAL_MS = 5000;
+const UNFINISHED_AFTER_MS = 6 * 60 * 60 * 1000;
+
+export class TerminalCommandListener {
+    private events: JsonlTailReader;
+    private pending: TerminalRecord[] = [];   // Starts en attente de leur end, ordre de lancement
+    private polling: Promise<TerminalRun[]> | null = null;
+
+    constructor(
+        private workspaceRoot: string,
+        private mil?: MIL,
+        private logger?: ILogger
+    ) {
+        this.events = new JsonlTailReader(path.join(workspaceRoot, '.reasoning_rl4', 'terminal-events.jsonl'));
+    }
+
+    /**
+     * Ignorer l'historique existant puis relever les nouvelles exécutions toutes les 5s
+     */
+    start(timerRegistry?: TimerRegistry): void {
+        this.events.seekToEnd();
+        this.pending = [];
+
+        timerRegistry?.registerInterval(
+            'kernel:terminal-events',
+            () => {
+                this.poll().catch(error => {
+                    this.logger?.warning(`[TerminalCommandListener] Poll failed: ${error}`);
+                });
+            },
+            POLL_INTERVAL_MS
+        );
+    }
+
+    /**
+     * Exécutions terminées (ou abandonnées) depuis le dernier appel, ingérées dans MIL
+     */
+    poll(now: number = Date.now()): Promise<TerminalRun[]> {
+        if (!this.polling) {
+            this.polling = this.runPoll(now).finally(() => {
+                this.polling = null;
+            });
+        }
+        return this.polling;
+    }
+
+    private async runPoll(now: number): Promise<TerminalRun[]> {
+        const runs: TerminalRun[] = [];
+        for (const record of this.readNewRecords()) {
+            if (record.type === 'command_start') {
+                this.pending.push(record);
+                continue;
+            }
+            const index = this.findStart(record);
+            const start = index >= 0 ? this.pending.splice(index, 1)[0] : null;
+            runs.push(this.toRun(start, record));
+        }
+
+        // Starts sans end : la commande a été interrompue, ou son end n'a jamais été tracé
+        const stale = this.pending.filter(start => now - Date.parse(start.timestamp) > UNFINISHED_AFTER_MS);
+        if (stale.length > 0) {
+            this.pending = this.pending.filter(start => !stale.includes(start));
+            runs.push(...stale.map(start => this.toRun(start, null)));
+        }
+
+        for (const run of runs) {
+            await this.ingest(run);
+        }
+        return runs;
+    }
+
+    private findStart(end: TerminalRecord): number {
+        if (end.runId) {
+            const byRunId = this.pending.findIndex(start => start.runId === end.runId);
+            if (byRunId >= 0) {
+                return byRunId;
+            }
+        }
+        return this.pending.findIndex(start =>
+            start.command === end.command && (start.taskId || '') === (end.taskId || '') && (!start.runId || !end.runId)
+        );
+    }
+
+    private toRun(start: TerminalRecord | null, end: TerminalRecord | null): TerminalRun {
+        const source = (start || end) as TerminalRecord;
+        const startedAt = start ? Date.parse(start.timestamp) : NaN;
+        const endedAt = end ? Date.parse(end.timestamp) : NaN;
+        const exitCode = typeof end?.exitCode === 'number' ? end.exitCode : null;
+
+        return {
+            run_id: source.runId || end?.runId || uuidv4(),
+            command: source.command,
+            ...(start?.cwd ? { cwd: path.relative(this.workspaceRoot, start.cwd) || '.' } : {}),
+            ...(source.taskId ? { task_id: source.taskId } : {}),
+            terminal: source.terminal || 'RL4',
+            ...(start ? { started_at: start.timestamp } : {}),
+            ...(end ? { ended_at: end.timestamp } : {}),
+            ...(!isNaN(startedAt) && !isNaN(endedAt) ? { duration_ms: Math.max(0, endedAt - startedAt) } : {}),
+            exit_code: exitCode,
+            status: !end ? 'unfinished' : exitCode === null ? 'unknown' : exitCode === 0 ? 'succeeded' : 'failed'
+        };
+    }
+
+    private async ingest(run: TerminalRun): Promise<void> {
+        if (!this.mil) {
+            return;
+        }
+        try {
+            await this.mil.ingest({
+                id: uuidv4(),
+                type: 'terminal_command',
+                timestamp: run.ended_at || run.started_at,
+                source: `terminal:${run.terminal}`,
+                metadata: {
+                    ...run,
+                    message: formatTerminalRun(run)
+                }
+            }, EventSource.TERMINAL);
+        } catch (error) {
+            // Silent failure - MIL is optional
+            this.logger?.warning(`[TerminalCommandListener] MIL ingest failed: ${error}`);
+        }
+    }
+
+    private readNewRecords(): TerminalRecord[] {
+        return this.events.readRecords<TerminalRecord>()
+            .filter(record => (record?.type === 'command_start' || record?.type === 'command_end') && typeof record.command === 'string');
+    }
+}
+
+/**
+ * Ligne lisible d'une exécution : "$ npm test (exit 1, 12.3s, cwd packages/api, task task-123)"
+ */
+export function formatTerminalRun(run: Partial<TerminalRun>): string {
+    const details: string[] = [];
+    if (run.status === 'unfinished') {
+        details.push('no exit recorded');
+    } else {
+        details.push(typeof run.exit_code === 'number' ? `exit ${run.exit_code}` : 'exit ?');
+    }
+    if (typeof run.duration_ms === 'number') {
+        details.push(run.duration_ms < 1000 ? `${run.duration_ms}ms` : `${(run.duration_ms / 1000).toFixed(1)}s`);
+    }
+    if (run.cwd && run.cwd !== '.') {
+        details.push(`cwd ${run.cwd}`);
+    }
+    if (run.task_id) {
+        details.push(`task ${run.task_id}`);
+    }
+    return `$ ${run.command} (${details.join(', ')})`;
+}
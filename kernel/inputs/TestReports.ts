@@ -0,0 +1,259 @@
+/**
+ * TestReports - Résumé des rapports de tests courants (Jest JSON, JUnit XML, TAP)
+ *
+ * Un rapport donne ce qu'un code de sortie ne dit pas : combien de tests ont tourné,
+ * lesquels échouent, dans quels fichiers. On n'en garde que les comptes, les noms des
+ * tests en échec (bornés) et les fichiers de test ; les messages d'erreur et stack
+ * traces ne sont jamais conservés.
+ *
+ * Formats reconnus :
+ *   - Jest `--json` (numTotalTests, testResults[].assertionResults[])
+ *   - JUnit XML (<testsuites>/<testsuite>/<testcase>, <failure>/<error>/<skipped>)
+ *   - TAP (ok / not ok, directives # SKIP / # TODO, "# duration_ms" de node --test)
+ *
+ * ZERO-INTELLIGENCE : Lecture structurelle uniquement.
+ */
+
+export type TestReportFormat = 'jest' | 'junit' | 'tap';
+
+export interface TestFailure {
+    name: string;
+    file?: string;           // Fichier de test, tel qu'écrit dans le rapport
+}
+
+export interface TestReportSummary {
+    format: TestReportFormat;
+    total: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+    duration_ms?: number;
+    failures: TestFailure[];     // Au plus MAX_REPORTED_FAILURES (y compris suites qui n'ont pas pu tourner)
+    files: string[];             // Fichiers de test couverts (au plus MAX_REPORTED_FILES)
+}
+
+export const MAX_REPORTED_FAILURES = 20;
+export const MAX_REPORTED_FILES = 50;
+
+/**
+ * Détecter le format (extension puis contenu) et résumer ; null si le rapport est illisible
+ */
+export function parseTestReport(content: string, fileName: string): TestReportSummary | null {
+    const trimmed = content.trim();
+    if (!trimmed) {
+        return null;
+    }
+    try {
+        if (/\.json$/i.test(fileName) || trimmed.startsWith('{')) {
+            return parseJestReport(JSON.parse(trimmed));
+        }
+        if (/\.xml$/i.test(fileName) || trimmed.startsWith('<')) {
+            return parseJUnitReport(trimmed);
+        }
+        if (/\.tap$/i.test(fileName) || /^(?:TAP version \d+|(?:not )?ok\b|1\.\.\d+)/m.test(trimmed)) {
+            return parseTapReport(trimmed);
+        }
+    } catch {
+        // Rapport en cours d'écriture ou corrompu
+    }
+    return null;
+}
+
+/**
+ * Jest `--json --outputFile` (aussi produit par Vitest `--reporter=json`)
+ */
+export function parseJestReport(report: any): TestReportSummary | null {
+    if (!report || typeof report !== 'object' || (typeof report.numTotalTests !== 'number' && !Array.isArray(report.testResults))) {
+        return null;
+    }
+
+    const failures: TestFailure[] = [];
+    const files: string[] = [];
+    let total = 0, passed = 0, failed = 0, skipped = 0;
+    let start = Infinity, end = 0;
+
+    for (const suite of report.testResults || []) {
+        if (typeof suite?.name === 'string') {
+            files.push(suite.name);
+        }
+        if (typeof suite?.startTime === 'number') start = Math.min(start, suite.startTime);
+        if (typeof suite?.endTime === 'number') end = Math.max(end, suite.endTime);
+
+        const assertions: any[] = suite?.assertionResults || [];
+        for (const assertion of assertions) {
+            total++;
+            if (assertion.status === 'passed') {
+                passed++;
+            } else if (assertion.status === 'failed') {
+                failed++;
+                failures.push({
+                    name: String(assertion.fullName || [...(assertion.ancestorTitles || []), assertion.title].join(' › ')),
+                    ...(typeof suite.name === 'string' ? { file: suite.name } : {})
+                });
+            } else {
+                skipped++;
+            }
+        }
+        // Suite qui échoue avant d'exécuter un test (erreur de compilation, import manquant)
+        if (assertions.length === 0 && suite?.status === 'failed') {
+            failures.push({ name: 'Test suite failed to run', ...(typeof suite.name === 'string' ? { file: suite.name } : {}) });
+        }
+    }
+
+    if (typeof report.numTotalTests === 'number') {
+        total = report.numTotalTests;
+        passed = report.numPassedTests ?? passed;
+        failed = report.numFailedTests ?? failed;
+        skipped = (report.numPendingTests ?? 0) + (report.numTodoTests ?? 0);
+    }
+
+    return summarize('jest', { total, passed, failed, skipped }, failures, files,
+        end > 0 && start !== Infinity ? end - start : undefined);
+}
+
+/**
+ * JUnit XML (surefire, pytest --junitxml, jest-junit, go-junit-report, ...)
+ */
+export function parseJUnitReport(xml: string): TestReportSummary | null {
+    if (!/<testsuites?\b|<testcase\b/.test(xml)) {
+        return null;
+    }
+
+    const failures: TestFailure[] = [];
+    const files: string[] = [];
+    let total = 0, passed = 0, failed = 0, skipped = 0;
+
+    const testcase = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+    let match: RegExpExecArray | null;
+    while ((match = testcase.exec(xml)) !== null) {
+        const attrs = parseAttributes(match[1]);
+        const body = match[2] || '';
+        total++;
+        if (/<(?:failure|error)\b/.test(body)) {
+            failed++;
+            const name = attrs.classname ? `${attrs.classname} › ${attrs.name || ''}` : (attrs.name || 'unnamed test');
+            failures.push({ name, ...(attrs.file ? { file: attrs.file } : {}) });
+        } else if (/<skipped\b/.test(body)) {
+            skipped++;
+        } else {
+            passed++;
+        }
+        if (attrs.file) {
+            files.push(attrs.file);
+        }
+    }
+
+    // Durée : <testsuites time>, sinon somme des <testsuite time>
+    let seconds: number | undefined;
+    const root = xml.match(/<testsuites\b([^>]*)>/);
+    const rootTime = root ? parseFloat(parseAttributes(root[1]).time) : NaN;
+    if (!isNaN(rootTime)) {
+        seconds = rootTime;
+    } else {
+        const suite = /<testsuite\b([^>]*)>/g;
+        while ((match = suite.exec(xml)) !== null) {
+            const attrs = parseAttributes(match[1]);
+            const time = parseFloat(attrs.time);
+            if (!isNaN(time)) {
+                seconds = (seconds || 0) + time;
+            }
+            if (attrs.file) {
+                files.push(attrs.file);
+            }
+        }
+    }
+
+    return summarize('junit', { total, passed, failed, skipped }, failures, files,
+        seconds !== undefined ? Math.round(seconds * 1000) : undefined);
+}
+
+/**
+ * TAP 12/13/14 (les sous-tests indentés sont ignorés : seul le niveau racine compte)
+ */
+export function parseTapReport(tap: string): TestReportSummary | null {
+    const failures: TestFailure[] = [];
+    let total = 0, passed = 0, failed = 0, skipped = 0;
+    let durationMs: number | undefined;
+
+    for (const line of tap.split('\n')) {
+        const result = line.match(/^(not )?ok\b(?:\s+\d+)?(?:\s*-)?\s*([^#]*?)\s*(?:#\s*(\w+).*)?$/);
+        if (result) {
+            total++;
+            const directive = (result[3] || '').toUpperCase();
+            if (directive === 'SKIP' || directive === 'TODO') {
+                skipped++;  // Un TODO en échec n'est pas un échec (spec TAP)
+            } else if (result[1]) {
+                failed++;
+                failures.push({ name: result[2] || `test ${total}` });
+            } else {
+                passed++;
+            }
+            continue;
+        }
+        const duration = line.match(/^# duration_ms ([\d.]+)/);
+        if (duration) {
+            durationMs = Math.round(parseFloat(duration[1]));
+        }
+    }
+
+    if (total === 0) {
+        return null;
+    }
+    return summarize('tap', { total, passed, failed, skipped }, failures, [], durationMs);
+}
+
+/**
+ * Rouge : un test a échoué, ou une suite n'a pas pu tourner
+ */
+export function isFailingReport(summary: Pick<TestReportSummary, 'failed' | 'failures'>): boolean {
+    return summary.failed > 0 || summary.failures.length > 0;
+}
+
+/**
+ * Ligne lisible : "12/340 failed (jest, 41.2s): PaymentService › refunds twice, ..."
+ */
+export function formatTestSummary(summary: Pick<TestReportSummary, 'total' | 'failed' | 'skipped' | 'format' | 'duration_ms' | 'failures'>): string {
+    const counts = isFailingReport(summary)
+        ? `${summary.failed}/${summary.total} failed`
+        : `${summary.total - summary.skipped}/${summary.total} passed`;
+    const details = [summary.format, ...(typeof summary.duration_ms === 'number' ? [`${(summary.duration_ms / 1000).toFixed(1)}s`] : [])];
+    const names = summary.failures.slice(0, 3).map(failure => failure.name);
+    const more = summary.failed > names.length && names.length > 0 ? `, +${summary.failed - names.length} more` : '';
+    return `${counts} (${details.join(', ')})${names.length > 0 ? `: ${names.join(', ')}${more}` : ''}`;
+}
+
+function summarize(
+    format: TestReportFormat,
+    counts: { total: number; passed: number; failed: number; skipped: number },
+    failures: TestFailure[],
+    files: string[],
+    durationMs?: number
+): TestReportSummary {
+    return {
+        format,
+        ...counts,
+        ...(durationMs !== undefined ? { duration_ms: durationMs } : {}),
+        failures: failures.slice(0, MAX_REPORTED_FAILURES),
+        files: [...new Set(files)].slice(0, MAX_REPORTED_FILES)
+    };
+}
+
+function parseAttributes(source: string): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    const attribute = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    let match: RegExpExecArray | null;
+    while ((match = attribute.exec(source)) !== null) {
+        attrs[match[1]] = decodeEntities(match[2] ?? match[3] ?? '');
+    }
+    return attrs;
+}
+
+function decodeEntities(value: string): string {
+    return value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+        .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,137 @@
+/**
+ * Tests for build and test results as MIL memory
+ *
+ * Verifies that Jest JSON, JUnit XML and TAP reports are summarized (counts, failing
+ * test names, files), and that task exit codes and rewritten reports land in MIL as
+ * build/test events usable by invalidation conditions and the red/green history.
+ */
+
+import { formatTestSummary, parseTestReport } from '../TestReports';
+import { BuildResultListener, BUILD_RESULT_EVENT_TYPES, describeRedGreenHistory } from '../BuildResultListener';
+import { DecisionInvalidator } from '../../cognitive/DecisionInvalidator';
+import { MIL } from '../../memory/MIL';
+import { EventType } from '../../memory/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('BuildResultListener - Red/green build and test memory', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'rl4-build-results-test-'));
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(root)) {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  test('should summarize Jest JSON, JUnit XML and TAP reports', () => {
+    const jest = parseTestReport(JSON.stringify({
+      numTotalTests: 3, numPassedTests: 1, numFailedTests: 1, numPendingTests: 1,
+      testResults: [
+        {
+          name: '/repo/src/payments/refund.test.ts', status: 'failed', startTime: 1000, endTime: 4200,
+          assertionResults: [
+            { fullName: 'Refund refunds once', status: 'passed' },
+            { ancestorTitles: ['Refund'], title: 'refunds twice', status: 'failed' },
+            { fullName: 'Refund partial', status: 'pending' }
+          ]
+        },
+        { name: '/repo/src/broken.test.ts', status: 'failed', assertionResults: [] }
+      ]
+    }), 'jest-results.json');
+    expect(jest).toMatchObject({ format: 'jest', total: 3, passed: 1, failed: 1, skipped: 1, duration_ms: 3200 });
+    expect(jest!.failures).toEqual([
+      { name: 'Refund › refunds twice', file: '/repo/src/payments/refund.test.ts' },
+      { name: 'Test suite failed to run', file: '/repo/src/broken.test.ts' }
+    ]);
+    expect(formatTestSummary(jest!)).toBe('1/3 failed (jest, 3.2s): Refund › refunds twice, Test suite failed to run');
+
+    const junit = parseTestReport(`<?xml version="1.0"?>
+      <testsuites time="2.5">
+        <testsuite name="api" tests="3">
+          <testcase classname="api.Users" name="creates &amp; lists" file="tests/test_users.py" time="0.1"/>
+          <testcase classname="api.Users" name="deletes" file="tests/test_users.py"><failure message="boom">trace</failure></testcase>
+          <testcase classname="api.Orders" name="ships"><skipped/></testcase>
+        </testsuite>
+      </testsuites>`, 'junit.xml');
+    expect(junit).toMatchObject({
+      format: 'junit', total: 3, passed: 1, failed: 1, skipped: 1, duration_ms: 2500,
+      failures: [{ name: 'api.Users › deletes', file: 'tests/test_users.py' }],
+      files: ['tests/test_users.py']
+    });
+
+    const tap = parseTestReport('TAP version 13\n1..4\nok 1 - parses\nnot ok 2 - formats dates\n  ---\n  ...\nok 3 - slow # SKIP no network\nnot ok 4 - later # TODO\n# duration_ms 812.4\n', 'results.tap');
+    expect(tap).toMatchObject({ format: 'tap', total: 4, passed: 1, failed: 1, skipped: 2, duration_ms: 812, failures: [{ name: 'formats dates' }] });
+
+    expect(parseTestReport('{"numTotalTests": 1, "testResults": [', 'jest-results.json')).toBeNull();  // Still being written
+    expect(formatTestSummary({ format: 'tap', total: 3, failed: 0, skipped: 1, failures: [] })).toBe('2/3 passed (tap)');
+  });
+
+  test('should ingest task exit codes and rewritten reports as build/test events', async () => {
+    const tracesDir = path.join(root, '.reasoning_rl4', 'traces');
+    fs.mkdirSync(tracesDir, { recursive: true });
+    const metricsPath = path.join(tracesDir, 'build_metrics.jsonl');
+    const reportPath = path.join(root, 'test-results', 'unit', 'junit.xml');
+    fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+    fs.writeFileSync(reportPath, '<testsuite><testcase name="old"/></testsuite>');  // Present before start: not replayed
+    // Report folder ignored by git but named by the pattern: still read; .rl4ignore'd subfolder: skipped
+    fs.writeFileSync(path.join(root, '.gitignore'), 'test-results/\n');
+    fs.writeFileSync(path.join(root, '.rl4ignore'), 'test-results/legacy/\n');
+    const legacyReport = path.join(root, 'test-results', 'legacy', 'junit.xml');
+    fs.mkdirSync(path.dirname(legacyReport), { recursive: true });
+
+    const mil = new MIL(root);
+    await mil.init();
+    const listener = new BuildResultListener(root, mil);
+    listener.start();
+
+    const metric = (timestamp: string, fields: Record<string, any>): void => {
+      fs.appendFileSync(metricsPath, JSON.stringify({ type: 'build_metrics', metadata: { timestamp, trigger: 'manual', duration_ms: 4200, ...fields } }) + '\n');
+    };
+    metric('2025-01-01T10:00:00.000Z', { kind: 'build', task_name: 'npm: compile', exit_code: 0, success: true });
+    metric('2025-01-01T10:01:00.000Z', { kind: 'test', task_name: 'npm: test', success: true });  // No exit code: not a signal
+    fs.writeFileSync(reportPath, `<testsuite time="1.5">
+      <testcase classname="Payments" name="charges" file="${path.join(root, 'src', 'payments', 'charge.test.ts')}"><failure/></testcase>
+      <testcase classname="Payments" name="refunds" file="${path.join(root, 'src', 'payments', 'refund.test.ts')}"/>
+    </testsuite>`);
+    const reportTime = new Date('2025-01-01T10:02:00.000Z');
+    fs.utimesSync(reportPath, reportTime, reportTime);
+    fs.writeFileSync(legacyReport, '<testsuite><testcase name="legacy"><failure/></testcase></testsuite>');
+    fs.utimesSync(legacyReport, reportTime, reportTime);
+
+    const results = await listener.poll();
+    expect(results.map(r => `${r.kind}:${r.status}:${r.origin}`)).toEqual([
+      'build:passed:task npm: compile',
+      'test:failed:report test-results/unit/junit.xml'
+    ]);
+    expect(await listener.poll()).toEqual([]);  // Same mtime: already ingested
+
+    const events = await mil.query({ where: { op: 'type', values: BUILD_RESULT_EVENT_TYPES }, orderBy: 'timestamp', order: 'asc' });
+    expect(events.map(e => e.type)).toEqual([EventType.BUILD_SUCCEEDED, EventType.TEST_FAILED]);
+    expect(events[1]).toMatchObject({
+      indexed_fields: { files: ['src/payments/charge.test.ts', 'src/payments/refund.test.ts'], keywords: ['payments', 'charges'] },
+      metadata: { failed: 1, total: 2, message: 'test failed — 1/2 failed (junit, 1.5s): Payments › charges [report test-results/unit/junit.xml]' }
+    });
+    expect(mil.searchHistory('charges').map(hit => hit.ref)).toContain(events[1].id);
+
+    // Usable as an invalidation trigger, scoped by test file
+    const invalidator = new DecisionInvalidator({} as any, mil);
+    const decision = { timestamp: Date.parse('2025-01-01T09:00:00.000Z') } as any;
+    const evidence = await invalidator.checkCondition(decision, {
+      condition: 'payment tests fail', trigger_event_types: ['test_failed' as EventType], paths: ['src/payments/**'], severity: 'critical'
+    });
+    expect(evidence?.matched_event_ids).toEqual([events[1].id]);
+
+    const redGreen = describeRedGreenHistory(events, 10);
+    await mil.close();
+    expect(redGreen.state).toEqual([
+      'build: 🟢 green (last run 2025-01-01T10:00:00.000Z)',
+      'test: 🔴 red since 2025-01-01T10:02:00.000Z (1 failing run, never green in history)'
+    ]);
+    expect(redGreen.history[0]).toBe('[2025-01-01T10:02:00.000Z] 🔴 test failed — 1/2 failed (junit, 1.5s): Payments › charges [report test-results/unit/junit.xml]');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for per-hunk diff capture
+ *
+ * Verifies that `git diff-tree -p -U0` output is reduced to per-file line ranges with
+ * enclosing symbols, and that DiffStore keeps them as COLD memory retrievable by time
+ * range and by the event that references them.
+ */
+
+import { formatHunkReference, parseUnifiedDiff } from '../DiffHunks';
+import { DiffStore, describeChangedRegions, toDiffReference } from '../../memory/DiffStore';
+import { StorageAccountant } from '../../storage/StorageAccountant';
+import { MemoryClass } from '../../memory/MemoryClass';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('DiffHunks - Per-hunk line ranges', () => {
+  let repo: string;
+
+  const git = (...args: string[]): string =>
+    execFileSync('git', args, { cwd: repo, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] });
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'rl4-hunks-test-'));
+    git('init', '-q');
+    git('config', 'user.email', 'test@rl4.dev');
+    git('config', 'user.name', 'RL4 Test');
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(repo)) {
+      fs.rmSync(repo, { recursive: true, force: true });
+    }
+  });
+
+  test('should parse a commit into per-file hunks with enclosing symbols', () => {
+    const body = Array.from({ length: 30 }, (_, i) => `    const step${i} = ${i};`).join('\n');
+    fs.writeFileSync(path.join(repo, 'PaymentService.ts'), `export class PaymentService {\n${body}\n}\n`);
+    fs.writeFileSync(path.join(repo, 'legacy.ts'), 'export const legacy = 1;\n');
+    fs.writeFileSync(path.join(repo, 'old-name.md'), 'line\n'.repeat(20));
+    git('add', '.');
+    git('commit', '-q', '-m', 'init');
+
+    const lines = fs.readFileSync(path.join(repo, 'PaymentService.ts'), 'utf-8').split('\n');
+    lines.splice(20, 3, '    const charged = true;');
+    fs.writeFileSync(path.join(repo, 'PaymentService.ts'), lines.join('\n'));
+    fs.writeFileSync(path.join(repo, 'refund.ts'), 'a\nb\nc\n');
+    git('rm', '-q', 'legacy.ts');
+    git('mv', 'old-name.md', 'new-name.md');
+    git('add', '.');
+    git('commit', '-q', '-m', 'change');
+
+    const files = parseUnifiedDiff(git('diff-tree', '-p', '-U0', '-M', '-r', '--root', '--no-commit-id', '--no-color', 'HEAD'));
+    const byPath = new Map(files.map(f => [f.path, f]));
+
+    expect(byPath.get('PaymentService.ts')).toMatchObject({
+      status: 'modified',
+      insertions: 1,
+      deletions: 3,
+      hunks: [{ oldStart: 21, oldLines: 3, newStart: 21, newLines: 1, symbol: 'PaymentService' }]
+    });
+    expect(byPath.get('refund.ts')).toMatchObject({ status: 'added', insertions: 3, hunks: [{ newStart: 1, newLines: 3 }] });
+    expect(byPath.get('legacy.ts')).toMatchObject({ status: 'deleted', deletions: 1, hunks: [{ oldStart: 1, newLines: 0 }] });
+    expect(byPath.get('new-name.md')).toMatchObject({ status: 'renamed', oldPath: 'old-name.md', hunks: [] });
+
+    expect(formatHunkReference('PaymentService.ts', byPath.get('PaymentService.ts')!.hunks[0])).toBe('line 21 of PaymentService.ts (PaymentService)');
+    expect(formatHunkReference('legacy.ts', byPath.get('legacy.ts')!.hunks[0])).toBe('line 1 of legacy.ts (removed)');
+    expect(formatHunkReference('x.ts', { oldStart: 1, oldLines: 0, newStart: 40, newLines: 51 })).toBe('lines 40–90 of x.ts');
+  });
+
+  test('should store hunks as COLD memory, readable by range and by event', () => {
+    const store = new DiffStore(repo);
+    const hunk = { oldStart: 40, oldLines: 10, newStart: 40, newLines: 51, symbol: 'charge' };
+    const commit = store.append({
+      event_id: 'evt-commit', kind: 'commit', commit: 'a'.repeat(40), branch: 'main', timestamp: 1000,
+      files: [{ path: 'src/PaymentService.ts', status: 'modified', insertions: 51, deletions: 10, hunks: [hunk] }]
+    })!;
+    store.append({
+      event_id: 'evt-burst', kind: 'burst', branch: 'main', timestamp: 2000,
+      files: [{ path: 'assets/logo.png', status: 'modified', insertions: 0, deletions: 0, hunks: [], binary: true }]
+    });
+    expect(store.append({ event_id: 'evt-empty', kind: 'burst', timestamp: 3000, files: [] })).toBeNull();
+
+    expect(toDiffReference(commit)).toEqual({ id: commit.id, files: 1, hunks: 1 });
+    expect(store.readRange(0, 5000).map(r => r.event_id)).toEqual(['evt-commit', 'evt-burst']);
+    expect(store.findByEvents(['evt-burst'], 0, 5000).map(r => r.kind)).toEqual(['burst']);
+    expect(describeChangedRegions(store.readRange(0, 5000), 10)).toEqual([
+      'edit modified assets/logo.png (binary)',
+      'aaaaaaa lines 40–90 of src/PaymentService.ts (charge)'
+    ]);
+
+    const diffs = new StorageAccountant(repo).measure().subtrees.find(s => s.path === 'diffs');
+    expect(diffs).toMatchObject({ memoryClass: MemoryClass.COLD, files: 1 });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Tests for reflog-based git awareness
+ *
+ * Verifies that HEAD moves are classified from the reflog (commit, branch switch,
+ * merge, rebase, reset, stash) with their before/after SHAs and the branch they reach, and that MIL tags
+ * ingested events with the active branch so queries can filter by branch.
+ */
+
+import { GitReflogTracker, readActiveBranch } from '../GitReflog';
+import { MIL } from '../../memory/MIL';
+import { EventSource, EventType } from '../../memory/types';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('GitReflog - Branch, merge, rebase, reset and stash transitions', () => {
+  let repo: string;
+
+  const git = (...args: string[]): string =>
+    execFileSync('git', args, { cwd: repo, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+
+  const commit = (file: string, message: string): string => {
+    fs.writeFileSync(path.join(repo, file), message);
+    git('add', file);
+    git('commit', '-q', '-m', message);
+    return git('rev-parse', 'HEAD');
+  };
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'rl4-reflog-test-'));
+    git('init', '-q');
+    git('config', 'user.email', 'test@rl4.dev');
+    git('config', 'user.name', 'RL4 Test');
+    git('checkout', '-q', '-b', 'main');
+    commit('a.txt', 'one');
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(repo)) {
+      fs.rmSync(repo, { recursive: true, force: true });
+    }
+  });
+
+  test('should classify reflog transitions with before/after SHAs', () => {
+    const tracker = new GitReflogTracker(path.join(repo, '.git'));
+    tracker.start();
+    const base = git('rev-parse', 'HEAD');
+
+    git('checkout', '-q', '-b', 'feature');
+    const featureTip = commit('b.txt', 'two');
+    git('checkout', '-q', 'main');
+    commit('c.txt', 'three');
+    git('merge', '-q', '--no-edit', 'feature');
+    git('checkout', '-q', 'feature');
+    const beforeRebase = commit('d.txt', 'four');
+    git('rebase', '-q', 'main');
+    const afterRebase = git('rev-parse', 'HEAD');
+    git('reset', '-q', '--hard', 'HEAD~1');
+    fs.writeFileSync(path.join(repo, 'a.txt'), 'dirty');
+    git('stash', '-q');
+
+    const transitions = tracker.poll();
+    expect(transitions.map(t => t.kind)).toEqual([
+      'branch_switch', 'commit', 'branch_switch', 'commit', 'merge', 'branch_switch', 'commit', 'rebase', 'reset', 'stash'
+    ]);
+    expect(transitions[0]).toMatchObject({ from: 'main', to: 'feature', before: base, after: base, branch: 'feature' });
+    expect(transitions.map(t => t.branch)).toEqual([
+      'feature', undefined, 'main', undefined, undefined, 'feature', undefined, 'feature', undefined, undefined
+    ]); // Commits are attributed to the branch reached by the preceding checkout
+    expect(transitions[1].after).toBe(featureTip);
+    expect(transitions[4]).toMatchObject({ ref: 'feature', fastForward: false });
+    expect(transitions[7]).toMatchObject({ before: beforeRebase, after: afterRebase }); // start → finish, picks folded
+    expect(transitions[8]).toMatchObject({ before: afterRebase, to: 'HEAD~1' });
+    expect(transitions[9].stash).toBe('push');
+    expect(readActiveBranch(path.join(repo, '.git'))).toBe('feature');
+
+    git('stash', 'drop', '-q');
+    expect(tracker.poll()).toMatchObject([{ kind: 'stash', stash: 'drop' }]);
+    expect(tracker.poll()).toEqual([]);
+  });
+
+  test('should tag MIL events with the active branch and filter by branch', async () => {
+    const mil = new MIL(repo);
+    await mil.init();
+
+    mil.setActiveBranch('main');
+    await mil.ingest({ type: 'file_change', timestamp: 1000, metadata: { changes: [{ path: 'a.ts', type: 'modify' }] } }, EventSource.FILE_SYSTEM);
+    mil.setActiveBranch('feature');
+    await mil.ingest({ type: 'file_change', timestamp: 2000, metadata: { changes: [{ path: 'b.ts', type: 'modify' }] } }, EventSource.FILE_SYSTEM);
+    await mil.ingest({ type: 'git_branch', timestamp: 3000, metadata: { branch: 'main', transition: { kind: 'branch_switch' } } }, EventSource.GIT);
+    const beforeReset = await mil.getOrphanedCommits();
+    await mil.ingest({ type: 'git_reset', timestamp: 4000, metadata: { orphaned_commits: ['abc'] } }, EventSource.GIT);
+
+    const onFeature = await mil.queryTemporal(0, 5000, { branch: 'feature' });
+    const query = await mil.query('branch:main');
+    const orphaned = await mil.getOrphanedCommits();
+    const cached = await mil.getOrphanedCommits();
+    await mil.close();
+
+    expect(beforeReset.size).toBe(0);
+    expect(cached).toBe(orphaned); // Cached until the next history rewrite is ingested
+
+    expect(onFeature.map(e => e.type)).toEqual([EventType.FILE_MODIFY, EventType.GIT_RESET]);
+    expect(query.map(e => e.type).sort()).toEqual([EventType.FILE_MODIFY, EventType.GIT_BRANCH].sort()); // Own branch wins
+    expect([...orphaned]).toEqual(['abc']);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for terminal command ingestion
+ *
+ * Verifies that command_start / command_end records from terminal-events.jsonl are
+ * paired (by runId, else by command + task), that unfinished and orphaned runs are
+ * still reported, and that paired runs land in MIL as indexed terminal events.
+ */
+
+import { TerminalCommandListener, formatTerminalRun } from '../TerminalCommandListener';
+import { MIL } from '../../memory/MIL';
+import { EventSource, EventType } from '../../memory/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('TerminalCommandListener - Paired terminal runs', () => {
+  let root: string;
+  let eventsPath: string;
+
+  const record = (entry: Record<string, any>): void => {
+    fs.appendFileSync(eventsPath, JSON.stringify({ terminal: 'RL4', ...entry }) + '\n');
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'rl4-terminal-test-'));
+    eventsPath = path.join(root, '.reasoning_rl4', 'terminal-events.jsonl');
+    fs.mkdirSync(path.dirname(eventsPath), { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(root)) {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  test('should pair start/end records and report unfinished or orphaned runs', async () => {
+    record({ timestamp: '2025-01-01T09:00:00.000Z', type: 'command_start', command: 'npm run old' });
+
+    const listener = new TerminalCommandListener(root);
+    listener.start();  // History before start is skipped
+
+    record({ timestamp: '2025-01-01T10:00:00.000Z', type: 'command_start', command: 'npm test', taskId: 'task-1', cwd: path.join(root, 'packages', 'api'), runId: 'run-a' });
+    record({ timestamp: '2025-01-01T10:00:01.000Z', type: 'command_start', command: 'npm run build' });
+    record({ timestamp: '2025-01-01T10:00:02.000Z', type: 'command_start', command: 'npm run watch', runId: 'run-w' });
+    fs.appendFileSync(eventsPath, '{"timestamp":"2025-01-01T10:00:03.000Z","type":"command_');  // Line still being written
+
+    expect(await listener.poll(Date.parse('2025-01-01T10:00:05.000Z'))).toEqual([]);
+
+    fs.appendFileSync(eventsPath, 'end","command":"npm test","exitCode":1,"taskId":"task-1","runId":"run-a","terminal":"RL4"}\n');
+    record({ timestamp: '2025-01-01T10:00:04.500Z', type: 'command_end', command: 'npm run build', exitCode: 0 });
+    record({ timestamp: '2025-01-01T10:00:05.000Z', type: 'command_end', command: 'npm run old', exitCode: 0 });
+
+    const runs = await listener.poll(Date.parse('2025-01-01T10:00:06.000Z'));
+    expect(runs).toEqual([
+      expect.objectContaining({ run_id: 'run-a', command: 'npm test', cwd: path.join('packages', 'api'), task_id: 'task-1', duration_ms: 3000, exit_code: 1, status: 'failed' }),
+      expect.objectContaining({ command: 'npm run build', duration_ms: 3500, exit_code: 0, status: 'succeeded' }),
+      expect.objectContaining({ command: 'npm run old', exit_code: 0, status: 'succeeded' })
+    ]);
+    expect(runs[2]).not.toHaveProperty('started_at');                  // Its start predates the listener
+    expect(runs.map(run => formatTerminalRun(run))).toEqual([
+      `$ npm test (exit 1, 3.0s, cwd ${path.join('packages', 'api')}, task task-1)`,
+      '$ npm run build (exit 0, 3.5s)',
+      '$ npm run old (exit 0)'
+    ]);
+
+    // The watch process never ends: reported once it is clearly abandoned
+    const unfinished = await listener.poll(Date.parse('2025-01-01T17:00:00.000Z'));
+    expect(unfinished).toEqual([expect.objectContaining({ run_id: 'run-w', status: 'unfinished', exit_code: null })]);
+    expect(formatTerminalRun(unfinished[0])).toBe('$ npm run watch (no exit recorded)');
+  });
+
+  test('should ingest paired runs into MIL as indexed terminal events', async () => {
+    const mil = new MIL(root);
+    await mil.init();
+    const listener = new TerminalCommandListener(root, mil);
+    listener.start();
+
+    record({ timestamp: '2025-01-01T10:00:00.000Z', type: 'command_start', command: 'npx jest payments', cwd: path.join(root, 'services'), runId: 'run-1' });
+    record({ timestamp: '2025-01-01T10:00:12.300Z', type: 'command_end', command: 'npx jest payments', exitCode: 1, runId: 'run-1' });
+    await listener.poll();
+
+    const events = await mil.query('source:terminal');
+    const hits = mil.searchHistory('payments');
+    await mil.close();
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: EventType.TERMINAL_COMMAND,
+      source: EventSource.TERMINAL,
+      timestamp: Date.parse('2025-01-01T10:00:12.300Z'),
+      indexed_fields: { keywords: ['jest', 'payments'], directories: ['services'] },
+      metadata: { command: 'npx jest payments', exit_code: 1, duration_ms: 12300, message: '$ npx jest payments (exit 1, 12.3s, cwd services)' }
+    });
+    expect(hits.map(hit => hit.ref)).toContain(events[0].id);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * DiffStore - Hunks des commits et rafales de modifications (MemoryClass.COLD)
+ *
+ * Chaque commit (GitCommitListener) et chaque rafale (FileChangeWatcher) peut produire
+ * un DiffRecord : fichiers, plages de lignes modifiées et symboles englobants. Les
+ * événements MIL ne portent qu'une référence ({ id, files, hunks }) ; le détail vit ici,
+ * purgeable sans perte de reconstruction (COLD).
+ *
+ * Layout disque :
+ *   diffs/hunks-YYYY-MM-DD.jsonl → un DiffRecord par ligne (append-only, un fichier par jour UTC)
+ *
+ * ZERO-INTELLIGENCE : Structure uniquement, pas d'inférence.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { WriteTracker } from '../WriteTracker';
+import { FileDiff, formatHunkReference } from '../inputs/DiffHunks';
+import { MemoryClass } from './MemoryClass';
+
+export const DIFF_MEMORY_CLASS = MemoryClass.COLD;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FILE_PATTERN = /^hunks-(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+export interface DiffRecord {
+    id: string;
+    event_id: string;            // Événement MIL / trace porteur de la référence
+    kind: 'commit' | 'burst';
+    commit?: string;             // Hash du commit (kind = commit)
+    branch?: string | null;
+    timestamp: number;           // ms
+    files: FileDiff[];
+}
+
+/**
+ * Référence portée par l'événement (metadata.diff)
+ */
+export interface DiffReference {
+    id: string;
+    files: number;
+    hunks: number;
+}
+
+export class DiffStore {
+    private diffsDir: string;
+
+    constructor(workspaceRoot: string) {
+        this.diffsDir = path.join(workspaceRoot, '.reasoning_rl4', 'diffs');
+    }
+
+    /**
+     * Enregistrer les hunks d'un commit ou d'une rafale (null si aucun fichier, ou mode passif)
+     */
+    append(input: Omit<DiffRecord, 'id'>): DiffRecord | null {
+        if ((global as any).__RL4_PASSIVE__ || input.files.length === 0) {
+            return null;
+        }
+
+        const record: DiffRecord = { id: uuidv4(), ...input };
+        const filePath = this.fileFor(record.timestamp);
+        fs.mkdirSync(this.diffsDir, { recursive: true });
+        WriteTracker.getInstance().markInternalWrite(filePath);
+        fs.appendFileSync(filePath, JSON.stringify(record) + '\n', 'utf-8');
+        return record;
+    }
+
+    /**
+     * DiffRecords dont le timestamp tombe dans [startMs, endMs], triés par timestamp
+     */
+    readRange(startMs: number, endMs: number): DiffRecord[] {
+        if (!fs.existsSync(this.diffsDir)) {
+            return [];
+        }
+        const firstDay = dayOf(startMs - DAY_MS);   // Marge : un record est rangé selon son propre timestamp
+        const lastDay = dayOf(endMs + DAY_MS);
+
+        const records: DiffRecord[] = [];
+        for (const name of fs.readdirSync(this.diffsDir).sort()) {
+            const match = name.match(FILE_PATTERN);
+            if (!match || match[1] < firstDay || match[1] > lastDay) {
+                continue;
+            }
+            for (const record of this.readFile(path.join(this.diffsDir, name))) {
+                if (record.timestamp >= startMs && record.timestamp <= endMs) {
+                    records.push(record);
+                }
+            }
+        }
+        return records.sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    /**
+     * DiffRecords rattachés à des événements donnés, dans une fenêtre temporelle
+     */
+    findByEvents(eventIds: string[], startMs: number, endMs: number): DiffRecord[] {
+        const ids = new Set(eventIds);
+        return this.readRange(startMs, endMs).filter(record => ids.has(record.event_id));
+    }
+
+    private fileFor(timestamp: number): string {
+        return path.join(this.diffsDir, `hunks-${dayOf(timestamp)}.jsonl`);
+    }
+
+    private readFile(filePath: string): DiffRecord[] {
+        const records: DiffRecord[] = [];
+        try {
+            for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+                if (!line.trim()) continue;
+                try {
+                    records.push(JSON.parse(line));
+                } catch {
+                    // Ligne tronquée (crash pendant l'append) : ignorée
+                }
+            }
+        } catch {
+            // Fichier purgé entre readdir et lecture
+        }
+        return records;
+    }
+}
+
+/**
+ * Référence compacte pour metadata.diff
+ */
+export function toDiffReference(record: DiffRecord): DiffReference {
+    return {
+        id: record.id,
+        files: record.files.length,
+        hunks: record.files.reduce((sum, file) => sum + file.hunks.length, 0)
+    };
+}
+
+/**
+ * Lignes "régions modifiées" pour les prompts, les plus récentes d'abord
+ * ex: "abc1234 lines 40–90 of src/PaymentService.ts (PaymentService)"
+ */
+export function describeChangedRegions(records: DiffRecord[], limit: number): string[] {
+    const lines: string[] = [];
+    for (const record of [...records].reverse()) {
+        const origin = record.kind === 'commit' && record.commit ? record.commit.slice(0, 7) : 'edit';
+        for (const file of record.files) {
+            if (file.hunks.length === 0) {
+                lines.push(`${origin} ${file.status} ${file.path}${file.binary ? ' (binary)' : ''}`);
+            }
+            for (const hunk of file.hunks) {
+                lines.push(`${origin} ${formatHunkReference(file.path, hunk)}`);
+            }
+            if (lines.length >= limit) {
+                return lines.slice(0, limit);
+            }
+        }
+    }
+    return lines;
+}
+
+function dayOf(timestamp: number): string {
+    return new Date(timestamp).toISOString().split('T')[0];
+}
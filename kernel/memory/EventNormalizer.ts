@@ -27,6 +27,7 @@ export class EventNormalizer {
         const type = this.mapType(rawEvent, source);
         const category = this.mapCategory(rawEvent, source);
         const indexedFields = this.extractIndexedFields(rawEvent, source);
+        const branch = rawEvent.metadata?.branch;
         
         return {
             id: rawEvent.id || uuidv4(),
@@ -38,6 +39,7 @@ export class EventNormalizer {
             source_format: rawEvent.type || 'unknown',
             payload: rawEvent,
             indexed_fields: indexedFields,
+            ...(typeof branch === 'string' ? { branch } : {}),
             metadata: rawEvent.metadata || {}
         };
     }
@@ -63,6 +65,9 @@ export class EventNormalizer {
             if (rawType === 'git_commit') return EventType.GIT_COMMIT;
             if (rawType === 'git_branch') return EventType.GIT_BRANCH;
             if (rawType === 'git_merge') return EventType.GIT_MERGE;
+            if (rawType === 'git_rebase') return EventType.GIT_REBASE;
+            if (rawType === 'git_reset') return EventType.GIT_RESET;
+            if (rawType === 'git_stash') return EventType.GIT_STASH;
         }
         
         if (source === EventSource.IDE) {
@@ -81,6 +86,16 @@ export class EventNormalizer {
             if (rawType === 'chat_response' || rawType === 'response') return EventType.CHAT_RESPONSE;
         }
         
+        if (source === EventSource.TERMINAL) {
+            if (rawType === 'terminal_command') return EventType.TERMINAL_COMMAND;
+        }
+        
+        if (source === EventSource.BUILD) {
+            const failed = rawEvent.metadata?.status === 'failed';
+            if (rawType === 'build_result') return failed ? EventType.BUILD_FAILED : EventType.BUILD_SUCCEEDED;
+            if (rawType === 'test_result') return failed ? EventType.TEST_FAILED : EventType.TEST_PASSED;
+        }
+        
         return EventType.SYSTEM_ERROR;
     }
     
@@ -126,6 +141,14 @@ export class EventNormalizer {
             }
         }
         
+        if (source === EventSource.BUILD) {
+            // Fichiers de test du rapport (relatifs au workspace)
+            const files = (rawEvent.metadata?.files || []) as string[];
+            if (files.length > 0) {
+                fields.files = [...new Set(files)];
+            }
+        }
+        
         if (source === EventSource.IDE) {
             const snapshot = rawEvent.metadata;
             const files: string[] = [];
@@ -138,7 +161,12 @@ export class EventNormalizer {
         }
         
         // Extract keywords from messages (LIMITES STRICTES)
-        const message = rawEvent.metadata?.message || rawEvent.message || '';
+        // Terminal : la commande elle-même (le message formaté y ajoute "exit", durée, ...)
+        // Build : noms des tests en échec (le message formaté y ajoute comptes et origine)
+        const failures = source === EventSource.BUILD ? (rawEvent.metadata?.failures || []) as any[] : [];
+        const message = (source === EventSource.TERMINAL ? rawEvent.metadata?.command : null)
+            || (failures.length > 0 ? failures.map(f => f.name).join(' ') : null)
+            || rawEvent.metadata?.message || rawEvent.message || '';
         if (message && typeof message === 'string') {
             const stopWords = new Set([
                 'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'her',
@@ -159,6 +187,14 @@ export class EventNormalizer {
             }
         }
         
+        // Terminal : répertoire d'exécution
+        if (source === EventSource.TERMINAL) {
+            const cwd = rawEvent.metadata?.cwd;
+            if (typeof cwd === 'string' && cwd) {
+                fields.directories = [cwd];
+            }
+        }
+        
         // Extract modules/directories from file paths
         if (fields.files) {
             const modules = new Set<string>();
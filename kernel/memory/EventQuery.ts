@@ -0,0 +1,510 @@
+/**
+ * EventQuery - Langage de requête composé pour les événements MIL
+ *
+ * Trois briques :
+ * - parseEventQuery()   : syntaxe texte (webview, KernelAPI.query) → EventQuery
+ * - planEventQuery()    : AST → fenêtre temporelle + ensemble candidat (TypeIndex, SpatialIndex, TemporalIndex)
+ * - matchesEventQuery() : prédicat complet, appliqué aux seuls événements candidats
+ *
+ * Syntaxe texte :
+ *   type:file_modify,git_commit  source:git  category:code_change
+ *   file:src/**\/*.ts  dir:kernel/memory  module:auth  keyword:rotation,index  branch:main
+ *   since:7d  until:2025-01-31  time:2025-01-01..2025-01-31
+ *   AND / OR / NOT (ou préfixe '-'), parenthèses, valeurs entre guillemets
+ *   order:asc|desc  orderby:timestamp|seq  limit:50   (directives, niveau racine)
+ *
+ * Un mot sans champ est un keyword. Deux termes juxtaposés = AND.
+ * Priorité : NOT > AND > OR.
+ *
+ * ZERO-INTELLIGENCE : Filtrage structurel uniquement.
+ */
+
+import { UnifiedEvent, EventQuery, EventQueryNode, EventType, EventSource, EventCategory } from './types';
+import { TemporalIndex } from './TemporalIndex';
+import { SpatialIndex } from './SpatialIndex';
+import { TypeIndex } from './TypeIndex';
+import { isGlobPattern, matchesGlob, toPosixPath } from '../utils/GlobMatcher';
+
+export class EventQuerySyntaxError extends Error {
+    constructor(message: string, public readonly position: number) {
+        super(`${message} (at ${position})`);
+        this.name = 'EventQuerySyntaxError';
+    }
+}
+
+interface Token {
+    kind: 'lparen' | 'rparen' | 'word';
+    field?: string;
+    value: string;
+    quoted: boolean;
+    negated: boolean;
+    position: number;
+}
+
+const DIRECTIVES = new Set(['limit', 'order', 'orderby', 'sort']);
+
+const RELATIVE_UNITS_MS: Record<string, number> = {
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parser la syntaxe texte en EventQuery
+ */
+export function parseEventQuery(input: string, now: number = Date.now()): EventQuery {
+    const query: EventQuery = {};
+    const tokens: Token[] = [];
+    let depth = 0;
+
+    // Les directives (limit/order) sont extraites au niveau racine, le reste forme l'expression
+    for (const token of tokenize(input)) {
+        if (token.kind === 'lparen') depth++;
+        if (token.kind === 'rparen') depth--;
+        if (token.kind === 'word' && token.field && DIRECTIVES.has(token.field)) {
+            if (depth !== 0 || token.negated) {
+                throw new EventQuerySyntaxError(`Directive '${token.field}' must appear at top level`, token.position);
+            }
+            applyDirective(query, token);
+            continue;
+        }
+        tokens.push(token);
+    }
+
+    if (tokens.length > 0) {
+        const parser = new Parser(tokens, now);
+        query.where = parser.parse();
+    }
+
+    return query;
+}
+
+/**
+ * Valider une requête structurée reçue par IPC (la syntaxe texte est déjà validée par le parser)
+ */
+export function normalizeEventQuery(query: EventQuery | string): EventQuery {
+    if (typeof query === 'string') {
+        return parseEventQuery(query);
+    }
+    if (!query || typeof query !== 'object') {
+        throw new EventQuerySyntaxError('Query must be a string or an object', 0);
+    }
+    if (query.limit !== undefined && (!Number.isInteger(query.limit) || query.limit <= 0)) {
+        throw new EventQuerySyntaxError(`Invalid limit: ${query.limit}`, 0);
+    }
+    if (query.order !== undefined && query.order !== 'asc' && query.order !== 'desc') {
+        throw new EventQuerySyntaxError(`Invalid order: ${query.order}`, 0);
+    }
+    if (query.orderBy !== undefined && query.orderBy !== 'timestamp' && query.orderBy !== 'seq') {
+        throw new EventQuerySyntaxError(`Invalid orderBy: ${query.orderBy}`, 0);
+    }
+    return query;
+}
+
+/**
+ * Évaluer le prédicat complet sur un événement
+ */
+export function matchesEventQuery(event: UnifiedEvent, node?: EventQueryNode): boolean {
+    if (!node) {
+        return true;
+    }
+
+    switch (node.op) {
+        case 'and':
+            return node.nodes.every(child => matchesEventQuery(event, child));
+        case 'or':
+            return node.nodes.some(child => matchesEventQuery(event, child));
+        case 'not':
+            return !matchesEventQuery(event, node.node);
+        case 'type':
+            return node.values.includes(event.type);
+        case 'source':
+            return node.values.includes(event.source);
+        case 'category':
+            return node.values.includes(event.category);
+        case 'file': {
+            const files = event.indexed_fields?.files || [];
+            return files.some(f => matchesFilePattern(f, node.pattern));
+        }
+        case 'dir': {
+            const files = event.indexed_fields?.files || [];
+            return files.some(f => isUnderDirectory(f, node.prefix));
+        }
+        case 'module': {
+            const modules = event.indexed_fields?.modules || [];
+            const files = event.indexed_fields?.files || [];
+            return node.values.some(m => modules.includes(m) || files.some(f => hasPathSegment(f, m)));
+        }
+        case 'keyword': {
+            const keywords = event.indexed_fields?.keywords || [];
+            return node.values.some(k => keywords.includes(k.toLowerCase()));
+        }
+        case 'branch':
+            return event.branch !== undefined && node.values.includes(event.branch);
+        case 'time':
+            return (node.start === undefined || event.timestamp >= node.start)
+                && (node.end === undefined || event.timestamp <= node.end);
+    }
+}
+
+/**
+ * Plan d'exécution : fenêtre temporelle + IDs candidats issus des index
+ */
+export interface EventQueryPlan {
+    start: number;
+    end: number;
+    candidates: Set<string> | null;  // null = aucun index applicable, parcours temporel
+}
+
+export interface EventQueryIndexes {
+    temporal: TemporalIndex;
+    spatial: SpatialIndex;
+    type: TypeIndex;
+}
+
+/**
+ * Planifier une requête contre les index MIL
+ *
+ * Les bornes temporelles de la conjonction racine deviennent la fenêtre de parcours ;
+ * type/file/dir/module sont résolus par index, AND = intersection, OR = union.
+ * NOT, keyword, branch, source et category ne sont pas indexés (filtres résiduels).
+ */
+export function planEventQuery(where: EventQueryNode | undefined, indexes: EventQueryIndexes): EventQueryPlan {
+    const plan: EventQueryPlan = { start: -Infinity, end: Infinity, candidates: null };
+    if (!where) {
+        return plan;
+    }
+
+    const conjuncts = where.op === 'and' ? flattenAnd(where) : [where];
+    const indexed: EventQueryNode[] = [];
+    for (const node of conjuncts) {
+        if (node.op === 'time') {
+            if (node.start !== undefined) plan.start = Math.max(plan.start, node.start);
+            if (node.end !== undefined) plan.end = Math.min(plan.end, node.end);
+        } else {
+            indexed.push(node);
+        }
+    }
+
+    plan.candidates = intersect(indexed.map(node => resolveCandidates(node, indexes)));
+    return plan;
+}
+
+function flattenAnd(node: EventQueryNode): EventQueryNode[] {
+    return node.op === 'and' ? node.nodes.flatMap(flattenAnd) : [node];
+}
+
+function resolveCandidates(node: EventQueryNode, indexes: EventQueryIndexes): Set<string> | null {
+    switch (node.op) {
+        case 'type':
+            return new Set(node.values.flatMap(type => indexes.type.getByType(type)));
+        case 'file':
+            if (isGlobPattern(node.pattern)) {
+                return new Set(indexes.spatial.getByFilePredicate(f => matchesFilePattern(f, node.pattern)));
+            }
+            return new Set(indexes.spatial.getByFile(toPosixPath(node.pattern)));
+        case 'dir':
+            return new Set(indexes.spatial.getByFilePredicate(f => isUnderDirectory(f, node.prefix)));
+        case 'module':
+            // indexed_fields.modules est dérivé des chemins (node_modules/<pkg>) : un segment de chemin suffit
+            return new Set(indexes.spatial.getByFilePredicate(f => node.values.some(m => hasPathSegment(f, m))));
+        case 'time':
+            return new Set(indexes.temporal.rangeQuery(node.start ?? -Infinity, node.end ?? Infinity));
+        case 'and':
+            return intersect(node.nodes.map(child => resolveCandidates(child, indexes)));
+        case 'or': {
+            const union = new Set<string>();
+            for (const child of node.nodes) {
+                const ids = resolveCandidates(child, indexes);
+                if (ids === null) {
+                    return null;  // Une branche non indexée rend l'union non bornée
+                }
+                ids.forEach(id => union.add(id));
+            }
+            return union;
+        }
+        default:
+            return null;
+    }
+}
+
+function intersect(sets: Array<Set<string> | null>): Set<string> | null {
+    const bounded = sets.filter((s): s is Set<string> => s !== null).sort((a, b) => a.size - b.size);
+    if (bounded.length === 0) {
+        return null;
+    }
+    const [smallest, ...others] = bounded;
+    const result = new Set<string>();
+    for (const id of smallest) {
+        if (others.every(s => s.has(id))) {
+            result.add(id);
+        }
+    }
+    return result;
+}
+
+function matchesFilePattern(filePath: string, pattern: string): boolean {
+    return isGlobPattern(pattern) ? matchesGlob(filePath, pattern) : toPosixPath(filePath) === toPosixPath(pattern);
+}
+
+function hasPathSegment(filePath: string, segment: string): boolean {
+    return toPosixPath(filePath).split('/').slice(0, -1).includes(segment);
+}
+
+function isUnderDirectory(filePath: string, prefix: string): boolean {
+    const dir = toPosixPath(prefix).replace(/\/+$/, '');
+    const file = toPosixPath(filePath);
+    return dir === '' || file === dir || file.startsWith(dir + '/');
+}
+
+/**
+ * Découper l'entrée en tokens (parenthèses, mots, champ:valeur)
+ */
+function tokenize(input: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < input.length) {
+        const char = input[i];
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+        if (char === '(' || char === ')') {
+            tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', value: char, quoted: false, negated: false, position: i });
+            i++;
+            continue;
+        }
+
+        const position = i;
+        let negated = false;
+        if (char === '-' && i + 1 < input.length && !/[\s()]/.test(input[i + 1])) {
+            negated = true;
+            i++;
+        }
+
+        let field: string | undefined;
+        let value = '';
+        let quoted = false;
+        while (i < input.length && !/[\s()]/.test(input[i])) {
+            const c = input[i];
+            if (c === '"' || c === "'") {
+                const close = input.indexOf(c, i + 1);
+                if (close === -1) {
+                    throw new EventQuerySyntaxError('Unterminated quoted value', i);
+                }
+                value += input.slice(i + 1, close);
+                quoted = true;
+                i = close + 1;
+            } else if (c === ':' && field === undefined && !quoted && /^[a-z_]+$/i.test(value)) {
+                field = value.toLowerCase();
+                value = '';
+                i++;
+            } else {
+                value += c;
+                i++;
+            }
+        }
+
+        tokens.push({ kind: 'word', field, value, quoted, negated, position });
+    }
+
+    return tokens;
+}
+
+function applyDirective(query: EventQuery, token: Token): void {
+    const value = token.value.toLowerCase();
+    switch (token.field) {
+        case 'limit': {
+            const limit = Number(value);
+            if (!Number.isInteger(limit) || limit <= 0) {
+                throw new EventQuerySyntaxError(`Invalid limit '${token.value}'`, token.position);
+            }
+            query.limit = limit;
+            return;
+        }
+        case 'order':
+            if (value !== 'asc' && value !== 'desc') {
+                throw new EventQuerySyntaxError(`Invalid order '${token.value}' (expected asc or desc)`, token.position);
+            }
+            query.order = value;
+            return;
+        default:
+            if (value !== 'timestamp' && value !== 'seq') {
+                throw new EventQuerySyntaxError(`Invalid orderby '${token.value}' (expected timestamp or seq)`, token.position);
+            }
+            query.orderBy = value;
+    }
+}
+
+/**
+ * Descente récursive : or := and (OR and)* ; and := unary (AND? unary)* ; unary := NOT unary | primary
+ */
+class Parser {
+    private pos = 0;
+
+    constructor(private tokens: Token[], private now: number) {}
+
+    parse(): EventQueryNode {
+        const node = this.parseOr();
+        if (this.pos < this.tokens.length) {
+            const token = this.tokens[this.pos];
+            throw new EventQuerySyntaxError(`Unexpected '${token.value}'`, token.position);
+        }
+        return node;
+    }
+
+    private parseOr(): EventQueryNode {
+        const nodes = [this.parseAnd()];
+        while (this.isKeyword('OR')) {
+            this.pos++;
+            nodes.push(this.parseAnd());
+        }
+        return nodes.length === 1 ? nodes[0] : { op: 'or', nodes };
+    }
+
+    private parseAnd(): EventQueryNode {
+        const nodes = [this.parseUnary()];
+        while (this.pos < this.tokens.length) {
+            if (this.isKeyword('AND')) {
+                this.pos++;
+            } else if (this.isKeyword('OR') || this.tokens[this.pos].kind === 'rparen') {
+                break;
+            }
+            nodes.push(this.parseUnary());
+        }
+        return nodes.length === 1 ? nodes[0] : { op: 'and', nodes };
+    }
+
+    private parseUnary(): EventQueryNode {
+        if (this.isKeyword('NOT')) {
+            this.pos++;
+            return { op: 'not', node: this.parseUnary() };
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): EventQueryNode {
+        const token = this.tokens[this.pos];
+        if (!token) {
+            const last = this.tokens[this.tokens.length - 1];
+            throw new EventQuerySyntaxError('Unexpected end of query', last ? last.position + last.value.length : 0);
+        }
+
+        if (token.kind === 'lparen') {
+            this.pos++;
+            const node = this.parseOr();
+            if (this.tokens[this.pos]?.kind !== 'rparen') {
+                throw new EventQuerySyntaxError('Missing closing parenthesis', token.position);
+            }
+            this.pos++;
+            return node;
+        }
+        if (token.kind === 'rparen') {
+            throw new EventQuerySyntaxError("Unexpected ')'", token.position);
+        }
+
+        this.pos++;
+        const node = this.parseTerm(token);
+        return token.negated ? { op: 'not', node } : node;
+    }
+
+    private parseTerm(token: Token): EventQueryNode {
+        if (token.field === undefined) {
+            return { op: 'keyword', values: [token.value] };
+        }
+        if (token.value === '') {
+            throw new EventQuerySyntaxError(`Missing value for '${token.field}'`, token.position);
+        }
+
+        switch (token.field) {
+            case 'type':
+                return { op: 'type', values: this.parseEnum(token, Object.values(EventType)) };
+            case 'source':
+                return { op: 'source', values: this.parseEnum(token, Object.values(EventSource)) };
+            case 'category':
+                return { op: 'category', values: this.parseEnum(token, Object.values(EventCategory)) };
+            case 'file':
+            case 'path':
+                return { op: 'file', pattern: token.value };
+            case 'dir':
+                return { op: 'dir', prefix: token.value };
+            case 'module':
+                return { op: 'module', values: this.splitValues(token) };
+            case 'keyword':
+            case 'kw':
+                return { op: 'keyword', values: this.splitValues(token) };
+            case 'branch':
+                return { op: 'branch', values: this.splitValues(token) };
+            case 'since':
+            case 'after':
+                return { op: 'time', start: this.parseTime(token.value, token) };
+            case 'until':
+            case 'before':
+                return { op: 'time', end: this.parseTime(token.value, token) };
+            case 'time': {
+                const [start, end] = token.value.split('..');
+                if (end === undefined) {
+                    throw new EventQuerySyntaxError(`Expected 'time:<start>..<end>'`, token.position);
+                }
+                return {
+                    op: 'time',
+                    start: start ? this.parseTime(start, token) : undefined,
+                    end: end ? this.parseTime(end, token) : undefined
+                };
+            }
+            default:
+                throw new EventQuerySyntaxError(`Unknown field '${token.field}'`, token.position);
+        }
+    }
+
+    private parseEnum<T extends string>(token: Token, allowed: T[]): T[] {
+        const values = this.splitValues(token).map(v => v.toLowerCase());
+        for (const value of values) {
+            if (!allowed.includes(value as T)) {
+                throw new EventQuerySyntaxError(
+                    `Unknown ${token.field} '${value}' (expected one of: ${allowed.join(', ')})`,
+                    token.position
+                );
+            }
+        }
+        return values as T[];
+    }
+
+    private splitValues(token: Token): string[] {
+        const values = token.value.split(',').map(v => v.trim()).filter(v => v.length > 0);
+        if (values.length === 0) {
+            throw new EventQuerySyntaxError(`Missing value for '${token.field}'`, token.position);
+        }
+        return values;
+    }
+
+    /**
+     * Temps : relatif (30m, 24h, 7d, 2w), epoch ms ou date ISO
+     */
+    private parseTime(value: string, token: Token): number {
+        const relative = value.match(/^(\d+)([mhdw])$/i);
+        if (relative) {
+            return this.now - Number(relative[1]) * RELATIVE_UNITS_MS[relative[2].toLowerCase()];
+        }
+        if (/^\d+$/.test(value)) {
+            return Number(value);
+        }
+        const parsed = Date.parse(value);
+        if (isNaN(parsed)) {
+            throw new EventQuerySyntaxError(`Invalid time '${value}'`, token.position);
+        }
+        return parsed;
+    }
+
+    private isKeyword(keyword: 'AND' | 'OR' | 'NOT'): boolean {
+        const token = this.tokens[this.pos];
+        return token !== undefined
+            && token.kind === 'word'
+            && token.field === undefined
+            && !token.quoted
+            && !token.negated
+            && token.value.toUpperCase() === keyword;
+    }
+}
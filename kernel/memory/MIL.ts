@@ -16,15 +16,22 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { UnifiedEvent, EventSource, EventType, EventFilter, LLMContext } from './types';
+import { UnifiedEvent, EventSource, EventType, EventFilter, EventQuery, LLMContext } from './types';
 import { EventNormalizer } from './EventNormalizer';
 import { TemporalIndex } from './TemporalIndex';
 import { SpatialIndex } from './SpatialIndex';
 import { TypeIndex } from './TypeIndex';
-import { AppendOnlyWriter, OverflowStrategy } from '../AppendOnlyWriter';
+import { TextIndex, TextDocument, TextSearchOptions, TextSearchHit, eventToTextDocument } from './TextIndex';
+import { EventStore, EventStoreStats } from './EventStore';
+import { normalizeEventQuery, planEventQuery, matchesEventQuery } from './EventQuery';
 import { GlobalClock } from '../GlobalClock';
 import { RotationManager } from '../persistence/RotationManager';
+import { ArchiveStore } from '../persistence/ArchiveStore';
 import { MemoryClass } from './MemoryClass';
+import { LRUCache } from '../utils/LRUCache';
+import { loadStorageConfig } from '../config/StorageConfig';
+
+const QUERY_BATCH_SIZE = 256;
 
 export class MIL {
     private workspaceRoot: string;
@@ -32,13 +39,20 @@ export class MIL {
     private temporalIndex: TemporalIndex;
     private spatialIndex: SpatialIndex;
     private typeIndex: TypeIndex;
-    private eventsWriter: AppendOnlyWriter;
+    private textIndex: TextIndex;
+    private eventStore: EventStore;  // events.jsonl segmenté + index d'offsets
     private eventsPath: string;
     private seqStatePath: string;
     private clock: GlobalClock;
-    private eventCache: Map<string, UnifiedEvent> = new Map(); // Cache en mémoire pour accès rapide
+    private eventCache: LRUCache<string, UnifiedEvent>; // Cache borné (LRU) pour accès rapide
     private rotationManager?: RotationManager;
+    private archiveStore: ArchiveStore;  // Segments expirés compressés (archive/)
+    private activeBranch: string | null = null;  // Branche git courante (GitCommitListener)
     private rotationTimer?: NodeJS.Timeout;
+    private backfillPromise?: Promise<void>;
+    private closing: boolean = false;
+    private revision: number = 0;  // Incrémenté à chaque ingest (invalidation des caches lecteurs)
+    private orphanedCommits?: Set<string>;  // Cache de getOrphanedCommits (invalidé par les réécritures ingérées)
     
     constructor(workspaceRoot: string) {
         this.workspaceRoot = workspaceRoot;
@@ -51,16 +65,15 @@ export class MIL {
         }
         
         this.eventsPath = path.join(memoryDir, 'events.jsonl');
-        // BLOCK strategy for critical data (events)
-        this.eventsWriter = new AppendOnlyWriter(this.eventsPath, { 
-          fsync: false, 
-          mkdirRecursive: true,
-          overflowStrategy: OverflowStrategy.BLOCK
-        });
+        const storageConfig = loadStorageConfig(workspaceRoot);
+        this.eventStore = new EventStore(memoryDir, storageConfig.cache.milEventLocationsMaxSize);
+        this.eventCache = new LRUCache(storageConfig.cache.milEventCacheMaxSize);
+        this.archiveStore = new ArchiveStore(workspaceRoot, storageConfig.rotation.archiveDir);
         
         this.temporalIndex = new TemporalIndex(workspaceRoot);
         this.spatialIndex = new SpatialIndex(workspaceRoot);
         this.typeIndex = new TypeIndex(workspaceRoot);
+        this.textIndex = new TextIndex(workspaceRoot);
         
         this.seqStatePath = path.join(memoryDir, 'seq_state.json');
     }
@@ -69,17 +82,28 @@ export class MIL {
      * Initialiser MIL (créer dossiers, charger indices, restaurer seq)
      */
     async init(): Promise<void> {
-        await this.eventsWriter.init();
-        this.initializeSeq();
+        await this.eventStore.init();
+        await this.initializeSeq();
+        
+        // Rattrapage plein texte des événements antérieurs à TextIndex (en arrière-plan, une fois)
+        if (!this.textIndex.isEventsBackfilled()) {
+            this.backfillPromise = this.backfillTextIndex().catch(error => {
+                console.error(`[MIL] Text index backfill failed: ${error}`);
+            });
+        }
         
         // NEW: Initialize rotation manager
+        // Segments expirés compressés dans archive/ (relus par queryTemporal) au lieu d'être supprimés
+        const rotation = loadStorageConfig(this.workspaceRoot).rotation;
         this.rotationManager = new RotationManager(
             this.workspaceRoot,
             {
-                maxFileSizeMB: 100,
-                maxAgeDays: 90,
-                enableArchiving: false,
-                enableCompression: false,
+                maxFileSizeMB: rotation.maxFileSizeMB,
+                maxAgeDays: rotation.maxAgeDays,
+                enableArchiving: rotation.enableArchiving,
+                enableCompression: rotation.enableCompression,
+                compression: rotation.compression,
+                archiveDir: rotation.archiveDir,
                 memoryClass: MemoryClass.WARM  // WARM car events.jsonl peut être purgé
             },
             this  // Pass MIL for event indexing
@@ -104,7 +128,32 @@ export class MIL {
             if (result.errors.length > 0) {
                 console.warn(`[MIL] Rotation errors: ${result.errors.join(', ')}`);
             }
+            
+            // L'index d'offsets du segment actif devient celui du segment roté
+            if (result.rotated.length > 0) {
+                await this.eventStore.sealActiveSegment(result.rotated[0]);
+            }
+            if (result.deleted.length > 0 || result.archived.length > 0) {
+                await this.eventStore.pruneSegments();
+            }
+            return;
+        }
+        
+        // Sans rotation, les segments rotés vieillissent quand même
+        const expired = await this.rotationManager.expireRotated(this.eventsPath);
+        if (expired.errors.length > 0) {
+            console.warn(`[MIL] Archiving errors: ${expired.errors.join(', ')}`);
         }
+        if (expired.deleted.length > 0 || expired.archived.length > 0) {
+            await this.eventStore.pruneSegments();
+        }
+    }
+    
+    /**
+     * Oublier les segments rotés retirés de memory/ hors rotation (purge de quota)
+     */
+    async pruneSegments(): Promise<number> {
+        return this.eventStore.pruneSegments();
     }
     
     /**
@@ -119,9 +168,9 @@ export class MIL {
     /**
      * CORRIGER: Initialiser seq depuis persistance ou dériver depuis events.jsonl
      */
-    private initializeSeq(): void {
+    private async initializeSeq(): Promise<void> {
         // Option 1: Dériver depuis events.jsonl (plus fiable)
-        const lastSeq = this.getLastSeqFromEvents();
+        const lastSeq = await this.getLastSeqFromEvents();
         if (lastSeq > 0) {
             this.clock.reset(lastSeq);
             return;
@@ -146,23 +195,14 @@ export class MIL {
     }
     
     /**
-     * Dériver seq depuis ordre d'append dans events.jsonl
+     * Dériver seq depuis le dernier événement indexé (lecture positionnelle, pas de rescan)
      */
-    private getLastSeqFromEvents(): number {
-        if (!fs.existsSync(this.eventsPath)) {
-            return 0;
-        }
-        
+    private async getLastSeqFromEvents(): Promise<number> {
         try {
-            const content = fs.readFileSync(this.eventsPath, 'utf-8');
-            const lines = content.trim().split('\n').filter(Boolean);
-            if (lines.length === 0) {
+            const lastEvent = await this.eventStore.readLast();
+            if (!lastEvent) {
                 return 0;
             }
-            
-            // Lire dernière ligne
-            const lastLine = lines[lines.length - 1];
-            const lastEvent = JSON.parse(lastLine);
             return (lastEvent.seq || 0) + 1;
         } catch (e) {
             return 0;
@@ -195,31 +235,86 @@ export class MIL {
         // Normaliser
         const normalized = this.normalizer.normalize(rawEvent, source);
         
+        // Branche active (sauf si l'événement porte déjà la sienne)
+        if (normalized.branch === undefined && this.activeBranch) {
+            normalized.branch = this.activeBranch;
+        }
+        
         // Indexer
         this.temporalIndex.insert(normalized);
         this.spatialIndex.insert(normalized);
         this.typeIndex.insert(normalized);
+        const textDoc = eventToTextDocument(normalized);
+        if (textDoc) {
+            this.textIndex.add(textDoc);
+        }
         
         // Persister
-        await this.eventsWriter.append(normalized);
+        await this.eventStore.append(normalized);
         
         // Cache en mémoire
         this.eventCache.set(normalized.id, normalized);
+        this.revision++;
+        if (normalized.type === EventType.GIT_REBASE || normalized.type === EventType.GIT_RESET
+            || normalized.metadata?.orphaned_commits) {
+            this.orphanedCommits = undefined;
+        }
         
         return normalized;
     }
     
+    /**
+     * Révision de la mémoire : change à chaque événement ingéré
+     */
+    getRevision(): number {
+        return this.revision;
+    }
+    
+    /**
+     * Branche git courante, appliquée aux événements ingérés ensuite (null = HEAD détachée)
+     */
+    setActiveBranch(branch: string | null): void {
+        this.activeBranch = branch;
+    }
+    
+    getActiveBranch(): string | null {
+        return this.activeBranch;
+    }
+    
+    /**
+     * Commits réécrits (rebase, reset, commit --amend) : SHA devenus inaccessibles
+     * 
+     * Les GIT_COMMIT correspondants restent dans MIL (append-only) ; les lecteurs les écartent.
+     * Résultat en cache jusqu'à l'ingestion d'un rebase, d'un reset ou d'un commit --amend.
+     */
+    async getOrphanedCommits(): Promise<Set<string>> {
+        if (this.orphanedCommits) {
+            return this.orphanedCommits;
+        }
+        const orphaned = new Set<string>();
+        for (const type of [EventType.GIT_REBASE, EventType.GIT_RESET, EventType.GIT_COMMIT]) {
+            for (const event of await this.queryByType(type)) {
+                for (const sha of event.metadata?.orphaned_commits || []) {
+                    orphaned.add(sha);
+                }
+            }
+        }
+        this.orphanedCommits = orphaned;
+        return orphaned;
+    }
+    
     /**
      * Construire contexte pour LLM (MVP : seulement pour UnifiedPromptBuilder)
      */
-    async buildContextForLLM(anchorEventId?: string, windowMs: number = 3600000): Promise<LLMContext> {
+    async buildContextForLLM(anchorEventId?: string, windowMs: number = 3600000, filters?: EventFilter): Promise<LLMContext> {
         const now = Date.now();
-        const start = anchorEventId ? this.getEventTimestamp(anchorEventId) - windowMs / 2 : now - windowMs;
-        const end = anchorEventId ? this.getEventTimestamp(anchorEventId) + windowMs / 2 : now;
+        const anchorTimestamp = anchorEventId ? await this.getEventTimestamp(anchorEventId) : now;
+        const start = anchorEventId ? anchorTimestamp - windowMs / 2 : now - windowMs;
+        const end = anchorEventId ? anchorTimestamp + windowMs / 2 : now;
         
         // Récupérer événements dans fenêtre temporelle
         const eventIds = this.temporalIndex.rangeQuery(start, end);
-        const events = await this.loadEvents(eventIds);
+        const events = this.applyFilters(await this.loadEvents(eventIds), filters);
         
         // Extraire contexte spatial
         const spatialContext = this.extractSpatialContext(events);
@@ -250,21 +345,31 @@ export class MIL {
         const eventIds = this.temporalIndex.rangeQuery(start, end);
         let events = await this.loadEvents(eventIds);
         
-        // Appliquer filtres
-        if (filters) {
-            events = events.filter(event => {
-                if (filters.type && event.type !== filters.type) return false;
-                if (filters.category && event.category !== filters.category) return false;
-                if (filters.source && event.source !== filters.source) return false;
-                if (filters.files && filters.files.length > 0) {
-                    const eventFiles = event.indexed_fields?.files || [];
-                    if (!filters.files.some(f => eventFiles.includes(f))) return false;
-                }
-                return true;
-            });
+        // Plage qui atteint des segments archivés : compléter depuis l'archive (décompression à la demande)
+        const archived = this.loadArchivedEvents(start, end, new Set(events.map(e => e.id)));
+        if (archived.length > 0) {
+            events = events.concat(archived);
+            events.sort((a, b) => (a.timestamp - b.timestamp) || (a.seq - b.seq));
         }
         
-        return events;
+        return this.applyFilters(events, filters);
+    }
+    
+    private applyFilters(events: UnifiedEvent[], filters?: EventFilter): UnifiedEvent[] {
+        if (!filters) {
+            return events;
+        }
+        return events.filter(event => {
+            if (filters.type && event.type !== filters.type) return false;
+            if (filters.category && event.category !== filters.category) return false;
+            if (filters.source && event.source !== filters.source) return false;
+            if (filters.branch && event.branch !== filters.branch) return false;
+            if (filters.files && filters.files.length > 0) {
+                const eventFiles = event.indexed_fields?.files || [];
+                if (!filters.files.some(f => eventFiles.includes(f))) return false;
+            }
+            return true;
+        });
     }
     
     /**
@@ -283,8 +388,118 @@ export class MIL {
         return this.loadEvents(eventIds);
     }
     
+    /**
+     * Requête composée (AND/OR/NOT, globs, préfixes, keywords, fenêtre, tri, limite)
+     * 
+     * Accepte un EventQuery ou la syntaxe texte (voir EventQuery.ts).
+     * Les candidats viennent des index ; seuls eux sont chargés puis filtrés.
+     */
+    async query(query: EventQuery | string): Promise<UnifiedEvent[]> {
+        const parsed = normalizeEventQuery(query);
+        const plan = planEventQuery(parsed.where, {
+            temporal: this.temporalIndex,
+            spatial: this.spatialIndex,
+            type: this.typeIndex
+        });
+        const descending = parsed.order === 'desc';
+        const limit = parsed.limit ?? Infinity;
+        
+        // Tri par seq, ou ensemble candidat plus petit que la fenêtre : charger les candidats puis trier
+        const entries = this.temporalIndex.rangeEntries(plan.start, plan.end);
+        if (parsed.orderBy === 'seq' || (plan.candidates && plan.candidates.size < entries.length)) {
+            const ids = plan.candidates
+                ? Array.from(plan.candidates)
+                : entries.map(([, id]) => id);
+            const matched: UnifiedEvent[] = [];
+            for (let i = 0; i < ids.length; i += QUERY_BATCH_SIZE) {
+                const batch = await this.loadEvents(ids.slice(i, i + QUERY_BATCH_SIZE));
+                for (const event of batch) {
+                    if (event.timestamp >= plan.start && event.timestamp <= plan.end && matchesEventQuery(event, parsed.where)) {
+                        matched.push(event);
+                    }
+                }
+            }
+            matched.sort(parsed.orderBy === 'seq'
+                ? (a, b) => a.seq - b.seq
+                : (a, b) => (a.timestamp - b.timestamp) || (a.seq - b.seq));
+            if (descending) {
+                matched.reverse();
+            }
+            return matched.slice(0, limit);
+        }
+        
+        // Parcours ordonné de la fenêtre temporelle, arrêt dès que la limite est atteinte
+        const results: UnifiedEvent[] = [];
+        let cursor = 0;
+        while (cursor < entries.length && results.length < limit) {
+            const batchIds: string[] = [];
+            while (cursor < entries.length && batchIds.length < QUERY_BATCH_SIZE) {
+                const [, id] = entries[descending ? entries.length - 1 - cursor : cursor];
+                cursor++;
+                if (!plan.candidates || plan.candidates.has(id)) {
+                    batchIds.push(id);
+                }
+            }
+            
+            const batch = await this.loadEvents(batchIds);
+            if (descending) {
+                batch.reverse();
+            }
+            for (const event of batch) {
+                if (results.length >= limit) break;
+                if (matchesEventQuery(event, parsed.where)) {
+                    results.push(event);
+                }
+            }
+        }
+        
+        return results;
+    }
+    
+    /**
+     * Indexer un document plein texte hors événements (décisions, ADRs)
+     */
+    indexText(doc: TextDocument): void {
+        this.textIndex.add(doc);
+    }
+    
+    hasTextDocument(docId: string, hash?: string): boolean {
+        return this.textIndex.has(docId, hash);
+    }
+    
+    /**
+     * Recherche plein texte (BM25) sur commits, chats, ADRs et décisions
+     */
+    searchHistory(query: string, options?: TextSearchOptions): TextSearchHit[] {
+        return this.textIndex.search(query, options);
+    }
+    
+    /**
+     * Indexer en texte les événements déjà présents dans le store (lecture par lots via l'index temporel)
+     */
+    private async backfillTextIndex(): Promise<void> {
+        const entries = this.temporalIndex.rangeEntries(-Infinity, Infinity);
+        for (let i = 0; i < entries.length && !this.closing; i += QUERY_BATCH_SIZE) {
+            const ids = entries.slice(i, i + QUERY_BATCH_SIZE).map(([, id]) => id);
+            // Lecture directe (pas de passage par le cache LRU)
+            const events = await this.eventStore.read(ids);
+            for (const event of events.values()) {
+                const textDoc = eventToTextDocument(event);
+                if (textDoc && !this.textIndex.has(textDoc.id)) {
+                    this.textIndex.add(textDoc);
+                }
+            }
+        }
+        
+        if (!this.closing) {
+            this.textIndex.markEventsBackfilled();
+        }
+    }
+    
     /**
      * Charger événements depuis cache ou fichier
+     * 
+     * Les IDs absents du cache sont lus par offset dans EventStore (seek, pas de rescan)
      */
     private async loadEvents(eventIds: string[]): Promise<UnifiedEvent[]> {
         const events: UnifiedEvent[] = [];
@@ -300,30 +515,42 @@ export class MIL {
             }
         }
         
-        // Charger manquants depuis fichier
-        if (missingIds.length > 0 && fs.existsSync(this.eventsPath)) {
+        // Charger manquants depuis le store
+        if (missingIds.length > 0) {
             try {
-                const content = fs.readFileSync(this.eventsPath, 'utf-8');
-                const lines = content.trim().split('\n').filter(Boolean);
-                
-                for (const line of lines) {
-                    const event = JSON.parse(line) as UnifiedEvent;
-                    if (missingIds.includes(event.id)) {
-                        events.push(event);
-                        this.eventCache.set(event.id, event);
-                    }
+                const loaded = await this.eventStore.read(missingIds);
+                for (const event of loaded.values()) {
+                    events.push(event);
+                    this.eventCache.set(event.id, event);
                 }
             } catch (e) {
-                // Ignore parse errors
+                // Ignore read errors
             }
         }
         
-        // Trier par timestamp
-        events.sort((a, b) => a.timestamp - b.timestamp);
+        // Trier par timestamp (seq en cas d'égalité)
+        events.sort((a, b) => (a.timestamp - b.timestamp) || (a.seq - b.seq));
         
         return events;
     }
     
+    /**
+     * Événements des segments archivés dans [start, end] absents du store actif
+     */
+    private loadArchivedEvents(start: number, end: number, known: Set<string>): UnifiedEvent[] {
+        const events: UnifiedEvent[] = [];
+        try {
+            for (const record of this.archiveStore.readRange(start, end, 'MIL')) {
+                if (!record || typeof record.id !== 'string' || known.has(record.id)) continue;
+                known.add(record.id);
+                events.push({ ...record, timestamp: typeof record.timestamp === 'number' ? record.timestamp : Date.parse(record.timestamp) });
+            }
+        } catch (e) {
+            console.warn(`[MIL] Failed to read archived segments: ${e}`);
+        }
+        return events;
+    }
+    
     /**
      * Extraire contexte spatial depuis événements
      */
@@ -386,31 +613,22 @@ export class MIL {
     /**
      * Obtenir timestamp d'un événement
      */
-    private getEventTimestamp(eventId: string): number {
+    private async getEventTimestamp(eventId: string): Promise<number> {
         const cached = this.eventCache.get(eventId);
         if (cached) {
             return cached.timestamp;
         }
         
-        // Charger depuis fichier si nécessaire
-        if (fs.existsSync(this.eventsPath)) {
-            try {
-                const content = fs.readFileSync(this.eventsPath, 'utf-8');
-                const lines = content.trim().split('\n').filter(Boolean);
-                
-                for (const line of lines) {
-                    const event = JSON.parse(line) as UnifiedEvent;
-                    if (event.id === eventId) {
-                        this.eventCache.set(eventId, event);
-                        return event.timestamp;
-                    }
-                }
-            } catch (e) {
-                // Ignore
-            }
-        }
-        
-        return Date.now();
+        // Charger depuis le store si nécessaire
+        const [event] = await this.loadEvents([eventId]);
+        return event ? event.timestamp : Date.now();
+    }
+    
+    /**
+     * Statistiques du store (segments, événements indexés, octets lus)
+     */
+    getEventStoreStats(): EventStoreStats {
+        return this.eventStore.getStats();
     }
     
     /**
@@ -423,12 +641,15 @@ export class MIL {
             this.rotationTimer = undefined;
         }
         
+        this.closing = true;
+        await this.backfillPromise;
+        
         this.persistSeq();
         await this.temporalIndex.close();
         await this.spatialIndex.close();
         await this.typeIndex.close();
-        await this.eventsWriter.flush();
-        await this.eventsWriter.close();
+        await this.textIndex.close();
+        await this.eventStore.close();
     }
 }
 
@@ -49,6 +49,19 @@ export class SpatialIndex {
         return eventIds ? Array.from(eventIds) : [];
     }
     
+    /**
+     * Récupérer événements des fichiers satisfaisant un prédicat (glob, préfixe de dossier)
+     */
+    getByFilePredicate(predicate: (filePath: string) => boolean): string[] {
+        const eventIds = new Set<string>();
+        for (const [filePath, ids] of this.index.entries()) {
+            if (predicate(filePath)) {
+                ids.forEach(id => eventIds.add(id));
+            }
+        }
+        return Array.from(eventIds);
+    }
+    
     /**
      * Flush périodique
      * NEW: Asynchronous
@@ -59,6 +59,21 @@ export class TemporalIndex {
         return eventIds;
     }
     
+    /**
+     * Entrées [timestamp, event_id] triées dans la fenêtre (parcours ordonné pour EventQuery)
+     */
+    rangeEntries(start: number, end: number): Array<[number, string]> {
+        this.ensureSorted();
+        
+        const entries: Array<[number, string]> = [];
+        for (let i = this.binarySearchStart(start); i < this.index.length; i++) {
+            if (this.index[i][0] > end) break;
+            entries.push(this.index[i]);
+        }
+        
+        return entries;
+    }
+    
     /**
      * CORRIGER: Trier index si nécessaire
      */
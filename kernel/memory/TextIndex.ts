@@ -0,0 +1,433 @@
+/**
+ * TextIndex - Index plein texte (index inversé, racinisation légère, classement BM25)
+ *
+ * Couvre les messages de commit, les chats capturés (CursorChatListener),
+ * le corps des ADRs et les décisions (intent_text, chosen_option).
+ *
+ * Flush périodique pour éviter IO killer (même pattern que SpatialIndex/TypeIndex)
+ *
+ * ZERO-INTELLIGENCE : Correspondance lexicale uniquement, pas d'interprétation.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { UnifiedEvent, EventType } from './types';
+
+export type TextDocumentKind = 'event' | 'decision' | 'adr';
+
+export interface TextDocument {
+    id: string;                    // Identifiant global (event:<id>, decision:<id>, adr:<id>)
+    kind: TextDocumentKind;
+    ref: string;                   // ID de l'objet source (event_id, decision_id, adr_id)
+    timestamp: number;
+    title: string;
+    text: string;
+}
+
+export interface TextSearchOptions {
+    limit?: number;
+    kinds?: TextDocumentKind[];
+    start?: number;
+    end?: number;
+}
+
+export interface TextSearchHit {
+    id: string;
+    kind: TextDocumentKind;
+    ref: string;
+    timestamp: number;
+    title: string;
+    excerpt: string;
+    score: number;
+    matched_terms: string[];
+}
+
+interface DocumentEntry {
+    kind: TextDocumentKind;
+    ref: string;
+    timestamp: number;
+    title: string;
+    excerpt: string;
+    length: number;                // Nombre de tokens (normalisation BM25)
+    terms: string[];               // Termes distincts (suppression des postings)
+    hash?: string;                 // Empreinte du contenu indexé (voir textDocumentHash)
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const EXCERPT_LENGTH = 240;
+const DEFAULT_SEARCH_LIMIT = 20;
+
+const STOP_WORDS = new Set([
+    // English
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'did', 'do', 'for', 'from', 'had',
+    'has', 'have', 'how', 'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'so', 'that',
+    'the', 'their', 'then', 'there', 'these', 'this', 'to', 'was', 'we', 'were', 'what', 'when',
+    'where', 'which', 'who', 'why', 'will', 'with', 'you', 'about',
+    // Français
+    'au', 'aux', 'ce', 'ces', 'dans', 'de', 'des', 'du', 'en', 'est', 'et', 'il', 'la', 'le',
+    'les', 'leur', 'mais', 'ou', 'par', 'pas', 'pour', 'que', 'qui', 'sur', 'un', 'une'
+]);
+
+/**
+ * Découper un texte en termes normalisés (minuscules, sans accents, racinisés)
+ */
+export function tokenizeText(text: string): string[] {
+    return text
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(word => word.length >= 2 && word.length <= 40 && !STOP_WORDS.has(word))
+        .map(stemWord);
+}
+
+/**
+ * Racinisation légère (suffixes anglais courants, sous-ensemble de Porter étape 1)
+ *
+ * retries → retry, policies → policy, retrying → retry, invalidate(d) → invalidat
+ */
+export function stemWord(word: string): string {
+    if (word.length <= 3 || /^\d+$/.test(word)) {
+        return word;
+    }
+
+    let stem = word;
+    if (stem.endsWith('sses')) {
+        stem = stem.slice(0, -2);
+    } else if (stem.endsWith('ies') && stem.length > 4) {
+        stem = stem.slice(0, -3) + 'y';
+    } else if (stem.endsWith('s') && !/(ss|us|is)$/.test(stem)) {
+        stem = stem.slice(0, -1);
+    }
+
+    for (const suffix of ['ing', 'ed']) {
+        const base = stem.slice(0, -suffix.length);
+        if (stem.endsWith(suffix) && base.length >= 3 && /[aeiouy]/.test(base)) {
+            // Dédoubler la consonne finale (running → run), sauf l/s/z
+            stem = /([^aeioulsz])\1$/.test(base) ? base.slice(0, -1) : base;
+            break;
+        }
+    }
+
+    if (stem.endsWith('ly') && stem.length > 5) {
+        stem = stem.slice(0, -2);
+    }
+
+    // 'e' final muet : invalidate / invalidated → invalidat
+    if (stem.endsWith('e') && stem.length > 4) {
+        stem = stem.slice(0, -1);
+    }
+
+    return stem;
+}
+
+/**
+ * Texte indexable d'un événement MIL (commit, chat, message générique)
+ */
+/**
+ * Empreinte du contenu d'un document (titre + texte) : change quand le document doit être réindexé
+ */
+export function textDocumentHash(doc: TextDocument): string {
+    return crypto.createHash('sha256').update(`${doc.title}\n${doc.text}`).digest('hex').slice(0, 16);
+}
+
+export function eventToTextDocument(event: UnifiedEvent): TextDocument | null {
+    const metadata = event.payload?.metadata || {};
+    const parts: string[] = [];
+    let title = '';
+
+    if (event.type === EventType.GIT_COMMIT && metadata.commit?.message) {
+        parts.push(String(metadata.commit.message));
+        title = String(metadata.commit.message).split('\n')[0];
+    }
+
+    if (event.type === EventType.TERMINAL_COMMAND && typeof metadata.command === 'string') {
+        parts.push(metadata.command);
+        title = String(metadata.message || `$ ${metadata.command}`);
+    }
+
+    if ((event.type === EventType.TEST_FAILED || event.type === EventType.BUILD_FAILED) && Array.isArray(metadata.failures)) {
+        // Tests en échec retrouvables par nom ("quand refunds a-t-il commencé à échouer ?")
+        parts.push(...metadata.failures.map((f: any) => String(f?.name || '')).filter(Boolean));
+        if (typeof metadata.message === 'string') {
+            parts.push(metadata.message);
+            title = metadata.message;
+        }
+    }
+
+    if (Array.isArray(metadata.messages)) {
+        for (const message of metadata.messages) {
+            if (typeof message?.content === 'string') {
+                parts.push(message.content);
+            }
+        }
+        title = title || String(metadata.messages[0]?.content || '').split('\n')[0];
+    }
+
+    const message = metadata.message || event.payload?.message;
+    if (parts.length === 0 && typeof message === 'string') {
+        parts.push(message);
+        title = message.split('\n')[0];
+    }
+
+    if (parts.length === 0) {
+        return null;
+    }
+
+    return {
+        id: `event:${event.id}`,
+        kind: 'event',
+        ref: event.id,
+        timestamp: event.timestamp,
+        title: title.slice(0, 120) || event.type,
+        text: parts.join('\n')
+    };
+}
+
+export class TextIndex {
+    private postings: Map<string, Map<string, number>> = new Map(); // term → (doc_id → tf)
+    private documents: Map<string, DocumentEntry> = new Map();
+    private totalLength: number = 0;
+    private eventsBackfilled: boolean = false;
+    private indexPath: string;
+    private flushTimer: NodeJS.Timeout | null = null;
+    private dirty: boolean = false;
+    private flushInProgress: boolean = false;
+
+    constructor(workspaceRoot: string) {
+        const memoryDir = path.join(workspaceRoot, '.reasoning_rl4', 'memory', 'indices');
+        if (!fs.existsSync(memoryDir)) {
+            fs.mkdirSync(memoryDir, { recursive: true });
+        }
+        this.indexPath = path.join(memoryDir, 'text_index.json');
+        this.load();
+        this.startFlushTimer();
+    }
+
+    /**
+     * Indexer (ou réindexer) un document
+     */
+    add(doc: TextDocument): void {
+        if (this.documents.has(doc.id)) {
+            this.remove(doc.id);
+        }
+
+        const tokens = tokenizeText(`${doc.title}\n${doc.text}`);
+        if (tokens.length === 0) {
+            return;
+        }
+
+        const frequencies = new Map<string, number>();
+        for (const token of tokens) {
+            frequencies.set(token, (frequencies.get(token) || 0) + 1);
+        }
+        for (const [term, tf] of frequencies) {
+            if (!this.postings.has(term)) {
+                this.postings.set(term, new Map());
+            }
+            this.postings.get(term)!.set(doc.id, tf);
+        }
+
+        this.documents.set(doc.id, {
+            kind: doc.kind,
+            ref: doc.ref,
+            timestamp: doc.timestamp,
+            title: doc.title,
+            excerpt: doc.text.replace(/\s+/g, ' ').trim().slice(0, EXCERPT_LENGTH),
+            length: tokens.length,
+            terms: Array.from(frequencies.keys()),
+            hash: textDocumentHash(doc)
+        });
+        this.totalLength += tokens.length;
+        this.dirty = true;
+    }
+
+    /**
+     * Retirer un document de l'index
+     */
+    remove(docId: string): boolean {
+        const entry = this.documents.get(docId);
+        if (!entry) {
+            return false;
+        }
+
+        for (const term of entry.terms) {
+            const docs = this.postings.get(term);
+            if (docs) {
+                docs.delete(docId);
+                if (docs.size === 0) {
+                    this.postings.delete(term);
+                }
+            }
+        }
+        this.documents.delete(docId);
+        this.totalLength -= entry.length;
+        this.dirty = true;
+        return true;
+    }
+
+    /**
+     * Document indexé ; avec `hash`, seulement si son contenu indexé a cette empreinte
+     */
+    has(docId: string, hash?: string): boolean {
+        const entry = this.documents.get(docId);
+        return entry !== undefined && (hash === undefined || entry.hash === hash);
+    }
+
+    get size(): number {
+        return this.documents.size;
+    }
+
+    /**
+     * Recherche classée BM25 (OR des termes, score = somme des contributions)
+     */
+    search(query: string, options: TextSearchOptions = {}): TextSearchHit[] {
+        const terms = Array.from(new Set(tokenizeText(query)));
+        const total = this.documents.size;
+        if (terms.length === 0 || total === 0) {
+            return [];
+        }
+
+        const averageLength = this.totalLength / total;
+        const scores = new Map<string, { score: number; matched: string[] }>();
+
+        for (const term of terms) {
+            const docs = this.postings.get(term);
+            if (!docs) continue;
+
+            const idf = Math.log(1 + (total - docs.size + 0.5) / (docs.size + 0.5));
+            for (const [docId, tf] of docs) {
+                const entry = this.documents.get(docId)!;
+                if (options.kinds && !options.kinds.includes(entry.kind)) continue;
+                if (options.start !== undefined && entry.timestamp < options.start) continue;
+                if (options.end !== undefined && entry.timestamp > options.end) continue;
+
+                const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * entry.length / averageLength);
+                const current = scores.get(docId) || { score: 0, matched: [] };
+                current.score += idf * (tf * (BM25_K1 + 1)) / norm;
+                current.matched.push(term);
+                scores.set(docId, current);
+            }
+        }
+
+        return Array.from(scores.entries())
+            .map(([docId, { score, matched }]) => {
+                const entry = this.documents.get(docId)!;
+                return {
+                    id: docId,
+                    kind: entry.kind,
+                    ref: entry.ref,
+                    timestamp: entry.timestamp,
+                    title: entry.title,
+                    excerpt: entry.excerpt,
+                    score: Math.round(score * 1000) / 1000,
+                    matched_terms: matched
+                };
+            })
+            .sort((a, b) => (b.score - a.score) || (b.timestamp - a.timestamp))
+            .slice(0, options.limit ?? DEFAULT_SEARCH_LIMIT);
+    }
+
+    /**
+     * Rattrapage des événements antérieurs à l'index (une seule fois par workspace)
+     */
+    isEventsBackfilled(): boolean {
+        return this.eventsBackfilled;
+    }
+
+    markEventsBackfilled(): void {
+        this.eventsBackfilled = true;
+        this.dirty = true;
+    }
+
+    /**
+     * Flush périodique
+     */
+    private startFlushTimer(): void {
+        this.flushTimer = setInterval(async () => {
+            if (this.dirty && !this.flushInProgress) {
+                await this.save();
+            }
+        }, 5000); // 5 secondes
+    }
+
+    /**
+     * Flush manuel
+     */
+    async flush(): Promise<void> {
+        if (this.dirty && !this.flushInProgress) {
+            await this.save();
+        }
+    }
+
+    private load(): void {
+        if (!fs.existsSync(this.indexPath)) {
+            return;
+        }
+
+        try {
+            const data = JSON.parse(fs.readFileSync(this.indexPath, 'utf-8'));
+            if (data?.version !== 1) {
+                return;
+            }
+            for (const [docId, entry] of Object.entries(data.documents || {})) {
+                const doc = entry as DocumentEntry;
+                this.documents.set(docId, doc);
+                this.totalLength += doc.length;
+            }
+            for (const [term, docs] of Object.entries(data.postings || {})) {
+                this.postings.set(term, new Map(Object.entries(docs as Record<string, number>)));
+            }
+            this.eventsBackfilled = data.eventsBackfilled === true;
+        } catch (e) {
+            // Ignore corruption, start fresh
+            this.postings = new Map();
+            this.documents = new Map();
+            this.totalLength = 0;
+            this.eventsBackfilled = false;
+        }
+    }
+
+    private async save(): Promise<void> {
+        if (this.flushInProgress) return;
+
+        this.flushInProgress = true;
+
+        try {
+            const dir = path.dirname(this.indexPath);
+            if (!fs.existsSync(dir)) {
+                await fs.promises.mkdir(dir, { recursive: true });
+            }
+
+            // Convertir Maps en objets pour JSON
+            const postings: Record<string, Record<string, number>> = {};
+            for (const [term, docs] of this.postings.entries()) {
+                postings[term] = Object.fromEntries(docs);
+            }
+            const data = {
+                version: 1,
+                eventsBackfilled: this.eventsBackfilled,
+                documents: Object.fromEntries(this.documents),
+                postings
+            };
+
+            this.dirty = false;
+            await fs.promises.writeFile(this.indexPath, JSON.stringify(data), 'utf-8');
+        } catch (error) {
+            this.dirty = true;
+            console.error(`[TextIndex] Failed to save: ${error}`);
+        } finally {
+            this.flushInProgress = false;
+        }
+    }
+
+    async close(): Promise<void> {
+        if (this.flushTimer) {
+            clearInterval(this.flushTimer);
+            this.flushTimer = null;
+        }
+        await this.flush();
+    }
+}
@@ -0,0 +1,149 @@
+/**
+ * Tests for EventQuery (compound MIL queries)
+ *
+ * Verifies the string syntax, index-based planning and MIL.query execution
+ * (AND/OR/NOT, globs, directory prefixes, keywords, time windows, order, limit).
+ */
+
+import { parseEventQuery, planEventQuery, EventQuerySyntaxError } from '../EventQuery';
+import { MIL } from '../MIL';
+import { UnifiedEvent, EventSource, EventType, EventCategory } from '../types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+function makeEvent(id: string, timestamp: number, type: EventType, files: string[], keywords?: string[]): UnifiedEvent {
+  return {
+    id,
+    seq: timestamp,
+    timestamp,
+    source: type === EventType.GIT_COMMIT ? EventSource.GIT : EventSource.FILE_SYSTEM,
+    type,
+    category: EventCategory.CODE_CHANGE,
+    source_format: 'test',
+    payload: {},
+    indexed_fields: { files, keywords }
+  };
+}
+
+describe('EventQuery - Parser', () => {
+  const now = Date.parse('2025-02-01T00:00:00Z');
+
+  test('should parse fields, implicit AND and directives', () => {
+    const query = parseEventQuery('type:file_modify,git_commit dir:kernel/memory limit:10 order:desc', now);
+
+    expect(query.limit).toBe(10);
+    expect(query.order).toBe('desc');
+    expect(query.where).toEqual({
+      op: 'and',
+      nodes: [
+        { op: 'type', values: ['file_modify', 'git_commit'] },
+        { op: 'dir', prefix: 'kernel/memory' }
+      ]
+    });
+  });
+
+  test('should apply NOT > AND > OR precedence', () => {
+    const query = parseEventQuery('file:"src/a b.ts" OR NOT type:git_commit AND rotation', now);
+
+    expect(query.where).toEqual({
+      op: 'or',
+      nodes: [
+        { op: 'file', pattern: 'src/a b.ts' },
+        {
+          op: 'and',
+          nodes: [
+            { op: 'not', node: { op: 'type', values: ['git_commit'] } },
+            { op: 'keyword', values: ['rotation'] }
+          ]
+        }
+      ]
+    });
+  });
+
+  test('should parse relative and absolute time bounds', () => {
+    const query = parseEventQuery('since:7d until:2025-01-31T12:00:00Z', now);
+
+    expect(query.where).toEqual({
+      op: 'and',
+      nodes: [
+        { op: 'time', start: now - 7 * 24 * 60 * 60 * 1000 },
+        { op: 'time', end: Date.parse('2025-01-31T12:00:00Z') }
+      ]
+    });
+  });
+
+  test('should reject invalid queries', () => {
+    expect(() => parseEventQuery('type:not_a_type')).toThrow(EventQuerySyntaxError);
+    expect(() => parseEventQuery('(type:git_commit')).toThrow('Missing closing parenthesis');
+    expect(() => parseEventQuery('colour:red')).toThrow("Unknown field 'colour'");
+    expect(() => parseEventQuery('(limit:5)')).toThrow('top level');
+    expect(() => parseEventQuery('type:git_commit AND')).toThrow('Unexpected end of query');
+  });
+});
+
+describe('EventQuery - MIL execution', () => {
+  let testWorkspaceRoot: string;
+  let mil: MIL;
+
+  beforeEach(async () => {
+    testWorkspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'rl4-eventquery-test-'));
+    mil = new MIL(testWorkspaceRoot);
+    await mil.init();
+
+    // Index events directly (same path as ingest, without normalization)
+    const events = [
+      makeEvent('e1', 1000, EventType.FILE_MODIFY, ['kernel/memory/MIL.ts']),
+      makeEvent('e2', 2000, EventType.FILE_MODIFY, ['kernel/memory/types.ts']),
+      makeEvent('e3', 3000, EventType.FILE_CREATE, ['webview/App.tsx']),
+      makeEvent('e4', 4000, EventType.GIT_COMMIT, ['kernel/memory/MIL.ts', 'README.md'], ['rotation', 'index']),
+      makeEvent('e5', 5000, EventType.FILE_MODIFY, ['kernel/memoryless.ts'])
+    ];
+    for (const event of events) {
+      (mil as any).temporalIndex.insert(event);
+      (mil as any).spatialIndex.insert(event);
+      (mil as any).typeIndex.insert(event);
+      await (mil as any).eventStore.append(event);
+    }
+  });
+
+  afterEach(async () => {
+    await mil.close();
+    if (fs.existsSync(testWorkspaceRoot)) {
+      fs.rmSync(testWorkspaceRoot, { recursive: true, force: true });
+    }
+  });
+
+  const ids = (events: UnifiedEvent[]) => events.map(e => e.id);
+
+  test('should combine type, glob and directory prefix', async () => {
+    expect(ids(await mil.query('type:file_modify dir:kernel/memory'))).toEqual(['e1', 'e2']);
+    expect(ids(await mil.query('file:kernel/**/*.ts AND NOT type:git_commit'))).toEqual(['e1', 'e2', 'e5']);
+    expect(ids(await mil.query('file:*.md OR type:file_create'))).toEqual(['e3', 'e4']);
+  });
+
+  test('should filter keywords and time windows', async () => {
+    expect(ids(await mil.query('keyword:rotation'))).toEqual(['e4']);
+    expect(ids(await mil.query('time:1500..4500 NOT dir:webview'))).toEqual(['e2', 'e4']);
+  });
+
+  test('should order and limit results', async () => {
+    expect(ids(await mil.query('dir:kernel order:desc limit:2'))).toEqual(['e5', 'e4']);
+    expect(ids(await mil.query({ where: { op: 'type', values: [EventType.FILE_MODIFY] }, orderBy: 'seq', limit: 1 }))).toEqual(['e1']);
+  });
+
+  test('should plan against indexes instead of loading the whole window', () => {
+    const indexes = {
+      temporal: (mil as any).temporalIndex,
+      spatial: (mil as any).spatialIndex,
+      type: (mil as any).typeIndex
+    };
+    const plan = planEventQuery(parseEventQuery('type:git_commit since:1500').where, indexes);
+
+    expect(plan.start).toBe(1500);
+    expect(plan.end).toBe(Infinity);
+    expect(Array.from(plan.candidates!)).toEqual(['e4']);
+    // Unindexed predicates leave the candidate set open
+    expect(planEventQuery(parseEventQuery('keyword:rotation').where, indexes).candidates).toBeNull();
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Tests for EventStore (offset-indexed events.jsonl)
+ *
+ * Verifies that events are read by seek (not whole-file rescans), that rotated
+ * segments keep a sealed index, that in-memory locations stay bounded (evicted ones are
+ * found again in the index files), and that lookups stay fast on a 1M-event log.
+ */
+
+import { EventStore } from '../EventStore';
+import { MIL } from '../MIL';
+import { LRUCache } from '../../utils/LRUCache';
+import { UnifiedEvent, EventSource, EventType, EventCategory } from '../types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+function makeEvent(i: number, timestamp: number): UnifiedEvent {
+  return {
+    id: `evt-${i}`,
+    seq: i,
+    timestamp,
+    source: EventSource.FILE_SYSTEM,
+    type: EventType.FILE_MODIFY,
+    category: EventCategory.CODE_CHANGE,
+    source_format: 'file_change',
+    payload: { file: `src/file-${i % 100}.ts` },
+    indexed_fields: { files: [`src/file-${i % 100}.ts`] }
+  };
+}
+
+describe('EventStore - Offset Index', () => {
+  let testWorkspaceRoot: string;
+  let memoryDir: string;
+
+  beforeEach(() => {
+    testWorkspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'rl4-eventstore-test-'));
+    memoryDir = path.join(testWorkspaceRoot, '.reasoning_rl4', 'memory');
+    fs.mkdirSync(memoryDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testWorkspaceRoot)) {
+      fs.rmSync(testWorkspaceRoot, { recursive: true, force: true });
+    }
+  });
+
+  test('should read appended events by offset after reopen', async () => {
+    const store = new EventStore(memoryDir);
+    await store.init();
+    for (let i = 0; i < 50; i++) {
+      await store.append(makeEvent(i, 1000 + i));
+    }
+    await store.close();
+
+    const reopened = new EventStore(memoryDir);
+    await reopened.init();
+    const events = await reopened.read(['evt-3', 'evt-42', 'missing']);
+    const last = await reopened.readLast();
+    await reopened.close();
+
+    expect(events.size).toBe(2);
+    expect(events.get('evt-42')!.timestamp).toBe(1042);
+    expect(last!.id).toBe('evt-49');
+    // Only the requested lines were read, never the whole file
+    expect(reopened.getStats().bytesRead).toBeLessThan(fs.statSync(path.join(memoryDir, 'events.jsonl')).size);
+  });
+
+  test('should index legacy events.jsonl written without an index', async () => {
+    const lines = [0, 1, 2].map(i => JSON.stringify({ ...makeEvent(i, 0), timestamp: new Date(5000 + i).toISOString() }));
+    fs.writeFileSync(path.join(memoryDir, 'events.jsonl'), lines.join('\n') + '\n');
+
+    const store = new EventStore(memoryDir);
+    await store.init();
+    const events = await store.read(['evt-1']);
+    await store.close();
+
+    // ISO timestamps from the old AppendOnlyWriter format are normalized to ms
+    expect(events.get('evt-1')!.timestamp).toBe(5001);
+  });
+
+  test('should seal the active index when the segment is rotated', async () => {
+    const store = new EventStore(memoryDir);
+    await store.init();
+    for (let i = 0; i < 10; i++) {
+      await store.append(makeEvent(i, 1000 + i));
+    }
+
+    // Same copy + truncate sequence as RotationManager.rotateFile
+    const activePath = path.join(memoryDir, 'events.jsonl');
+    const rotatedPath = path.join(memoryDir, 'events.2025-01-01T00-00-00-000Z.jsonl');
+    fs.copyFileSync(activePath, rotatedPath);
+    fs.truncateSync(activePath, 0);
+    await store.append(makeEvent(10, 2000));
+    expect(await store.sealActiveSegment(rotatedPath)).toBe(true);
+
+    const events = await store.read(['evt-2', 'evt-10']);
+    const segments = store.getSegments();
+    await store.close();
+
+    expect(events.get('evt-2')!.timestamp).toBe(1002);
+    expect(events.get('evt-10')!.timestamp).toBe(2000);
+    expect(segments.find(s => s.sealed)!.name).toBe(path.basename(rotatedPath));
+    expect(segments.find(s => s.sealed)!.count).toBe(10);
+  });
+
+  test('should bound in-memory locations and resolve evicted ids from the index files', async () => {
+    const store = new EventStore(memoryDir, 10);
+    await store.init();
+    for (let i = 0; i < 30; i++) {
+      await store.append(makeEvent(i, 1000 + i));
+    }
+    const flushing = store.flush();
+    await store.append(makeEvent(30, 1030)); // Pending while the previous batch is being flushed
+    const beforeClose = await store.read(['evt-0', 'evt-30']);
+    await flushing;
+    await store.close();
+
+    const reopened = new EventStore(memoryDir, 10);
+    await reopened.init();
+    const events = await reopened.read(['evt-1', 'evt-15', 'evt-29', 'missing']);
+    const stats = reopened.getStats();
+    await reopened.close();
+
+    expect([...beforeClose.keys()].sort()).toEqual(['evt-0', 'evt-30']);
+    expect([...events.keys()].sort()).toEqual(['evt-1', 'evt-15', 'evt-29']);
+    expect(stats.indexedEvents).toBe(31);
+    expect(stats.cachedLocations).toBe(10);
+  });
+
+  test('MIL event cache should stay bounded', async () => {
+    const mil = new MIL(testWorkspaceRoot);
+    await mil.init();
+    const now = Date.now();
+    for (let i = 0; i < 20; i++) {
+      await mil.ingest({ ...makeEvent(i, now - 1000 + i), type: 'file_change' }, EventSource.FILE_SYSTEM);
+    }
+    (mil as any).eventCache = new LRUCache(5);
+
+    const events = await mil.queryTemporal(now - 2000, now);
+    const cacheSize = (mil as any).eventCache.size;
+    await mil.close();
+
+    expect(events.length).toBe(20);
+    expect(cacheSize).toBe(5);
+  });
+
+  test('benchmark: random lookups on a synthetic 1M-event log', async () => {
+    const total = 1_000_000;
+    const activePath = path.join(memoryDir, 'events.jsonl');
+    const fd = fs.openSync(activePath, 'w');
+    const batch: string[] = [];
+    for (let i = 0; i < total; i++) {
+      batch.push(`{"id":"evt-${i}","seq":${i},"timestamp":${1700000000000 + i},"type":"file_modify","source":"file_system","category":"code_change","source_format":"file_change","payload":{}}`);
+      if (batch.length === 10000) {
+        fs.writeSync(fd, batch.join('\n') + '\n');
+        batch.length = 0;
+      }
+    }
+    fs.closeSync(fd);
+    const fileSize = fs.statSync(activePath).size;
+
+    // First boot: streaming scan builds and persists the index
+    const store = new EventStore(memoryDir);
+    await store.init();
+    expect(store.getStats().indexedEvents).toBe(total);
+    await store.close();
+
+    // Second boot: index loaded from disk, lookups are positional reads
+    const reopened = new EventStore(memoryDir);
+    await reopened.init();
+    const ids: string[] = [];
+    for (let i = 0; i < 1000; i++) {
+      ids.push(`evt-${(i * 7919) % total}`);
+    }
+
+    const started = Date.now();
+    const events = await reopened.read(ids);
+    const elapsedMs = Date.now() - started;
+    const stats = reopened.getStats();
+    await reopened.close();
+
+    expect(events.size).toBe(ids.length);
+    expect(events.get('evt-7919')!.seq).toBe(7919);
+    expect(stats.bytesRead).toBeLessThan(fileSize / 50);
+    expect(elapsedMs).toBeLessThan(2000);
+  }, 300000);
+});
@@ -0,0 +1,138 @@
+/**
+ * Tests for TextIndex (full-text search over captured history)
+ *
+ * Verifies tokenization/stemming, BM25 ranking, persistence, and that commits,
+ * chats and decisions reach the index through MIL and DecisionStore, and that a document
+ * whose content changed is no longer reported as indexed.
+ */
+
+import { TextIndex, textDocumentHash, tokenizeText } from '../TextIndex';
+import { MIL } from '../MIL';
+import { EventSource } from '../types';
+import { DecisionStore } from '../../cognitive/DecisionStore';
+import { CognitiveDecision } from '../../cognitive/DecisionSchema';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('TextIndex - Full-text search', () => {
+  let testWorkspaceRoot: string;
+
+  beforeEach(() => {
+    testWorkspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'rl4-textindex-test-'));
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testWorkspaceRoot)) {
+      fs.rmSync(testWorkspaceRoot, { recursive: true, force: true });
+    }
+  });
+
+  test('should stem and drop stop words', () => {
+    expect(tokenizeText('When did we talk about the retry policies?')).toEqual(['talk', 'retry', 'policy']);
+    expect(tokenizeText('Retrying invalidated décisions')).toEqual(['retry', 'invalidat', 'decision']);
+  });
+
+  test('should rank by BM25 and persist across reopen', async () => {
+    const index = new TextIndex(testWorkspaceRoot);
+    index.add({ id: 'event:1', kind: 'event', ref: '1', timestamp: 1000, title: 'Add retry policy', text: 'Exponential retry policy for IPC queries, retry up to 3 times' });
+    index.add({ id: 'event:2', kind: 'event', ref: '2', timestamp: 2000, title: 'Fix timeline', text: 'Timeline rendering, mentions retry once' });
+    index.add({ id: 'adr:adr-001', kind: 'adr', ref: 'adr-001', timestamp: 3000, title: 'Storage layout', text: 'Append-only JSONL ledgers' });
+    await index.close();
+
+    const reopened = new TextIndex(testWorkspaceRoot);
+    const hits = reopened.search('when did we talk about the retry policy');
+    const adrHits = reopened.search('ledger', { kinds: ['adr'] });
+    const windowed = reopened.search('retry', { start: 1500 });
+    await reopened.close();
+
+    expect(hits.map(h => h.id)).toEqual(['event:1', 'event:2']);
+    expect(hits[0].matched_terms).toEqual(expect.arrayContaining(['retry', 'policy']));
+    expect(adrHits.map(h => h.ref)).toEqual(['adr-001']);
+    expect(windowed.map(h => h.id)).toEqual(['event:2']);
+  });
+
+  test('should report a document as stale once its content changes', async () => {
+    const adr = { id: 'adr:adr-002', kind: 'adr' as const, ref: 'adr-002', timestamp: 1000, title: 'Cache policy', text: 'LRU eviction' };
+    const edited = { ...adr, text: 'LRU eviction bounded by bytes' };
+    const index = new TextIndex(testWorkspaceRoot);
+    index.add(adr);
+    await index.close();
+
+    const reopened = new TextIndex(testWorkspaceRoot);
+    expect(reopened.has(adr.id, textDocumentHash(adr))).toBe(true);
+    expect(reopened.has(adr.id, textDocumentHash(edited))).toBe(false);
+    reopened.add(edited);
+    const hits = reopened.search('bytes');
+    await reopened.close();
+
+    expect(hits.map(h => h.id)).toEqual(['adr:adr-002']);
+  });
+
+  test('should index commits and chats through MIL and backfill older events', async () => {
+    const mil = new MIL(testWorkspaceRoot);
+    await mil.init();
+    await mil.ingest({
+      id: 'commit-1',
+      type: 'git_commit',
+      timestamp: Date.now(),
+      metadata: { commit: { hash: 'abc', message: 'Switch kernel IPC to a retry policy with backoff', files_changed: [] } }
+    }, EventSource.GIT);
+    await mil.ingest({
+      id: 'chat-1',
+      type: 'chat_message',
+      timestamp: Date.now(),
+      metadata: { messages: [{ role: 'user', content: 'Should the snapshot include rotated segments?' }] }
+    }, EventSource.CURSOR_CHAT);
+    await mil.close();
+
+    // Simulate an index built before these events existed
+    fs.rmSync(path.join(testWorkspaceRoot, '.reasoning_rl4', 'memory', 'indices', 'text_index.json'));
+
+    const reopened = new MIL(testWorkspaceRoot);
+    await reopened.init();
+    await (reopened as any).backfillPromise;
+    const commitHits = reopened.searchHistory('backoff');
+    const chatHits = reopened.searchHistory('rotated segment');
+    await reopened.close();
+
+    expect(commitHits.map(h => h.ref)).toEqual(['commit-1']);
+    expect(commitHits[0].title).toBe('Switch kernel IPC to a retry policy with backoff');
+    expect(chatHits.map(h => h.ref)).toEqual(['chat-1']);
+  });
+
+  test('should index decision intent_text and chosen_option via DecisionStore', async () => {
+    const mil = new MIL(testWorkspaceRoot);
+    await mil.init();
+    const decisionStore = new DecisionStore(testWorkspaceRoot, mil);
+    await decisionStore.init();
+
+    const decision: CognitiveDecision = {
+      id: 'dec-1',
+      seq: 1,
+      timestamp: Date.now(),
+      isoTimestamp: new Date().toISOString(),
+      intent: 'kernel_ipc',
+      intent_text: 'Choose the IPC retry strategy',
+      context_refs: [],
+      options_considered: [{ option: 'Exponential backoff', rationale: 'Avoids thundering herd', weight: 800 }],
+      chosen_option: 'Exponential backoff',
+      constraints: [],
+      invalidation_conditions: [],
+      previous_decisions: [],
+      related_adrs: [],
+      confidence_llm: 90,
+      confidence_gate: 'pass',
+      validation_status: 'validated',
+      rcep_ref: 'test-checksum'
+    };
+    await decisionStore.store(decision);
+
+    const hits = mil.searchHistory('exponential', { kinds: ['decision'] });
+    await decisionStore.close();
+    await mil.close();
+
+    expect(hits.map(h => h.ref)).toEqual(['dec-1']);
+    expect(hits[0].title).toBe('Choose the IPC retry strategy');
+  });
+});
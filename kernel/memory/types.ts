@@ -13,6 +13,8 @@ export enum EventSource {
     GIT = 'git',
     IDE = 'ide',
     CURSOR_CHAT = 'cursor_chat',
+    TERMINAL = 'terminal',
+    BUILD = 'build',
     SYSTEM = 'system'
 }
 
@@ -30,6 +32,9 @@ export enum EventType {
     GIT_COMMIT = 'git_commit',
     GIT_BRANCH = 'git_branch',
     GIT_MERGE = 'git_merge',
+    GIT_REBASE = 'git_rebase',
+    GIT_RESET = 'git_reset',
+    GIT_STASH = 'git_stash',
     
     // IDE events
     IDE_EDIT = 'ide_edit',
@@ -42,6 +47,15 @@ export enum EventType {
     CHAT_QUERY = 'chat_query',
     CHAT_RESPONSE = 'chat_response',
     
+    // Terminal events
+    TERMINAL_COMMAND = 'terminal_command',  // Start/end appariés : commande, cwd, durée, code de sortie
+    
+    // Build / test results (tâches VS Code, rapports Jest / JUnit / TAP)
+    BUILD_SUCCEEDED = 'build_succeeded',
+    BUILD_FAILED = 'build_failed',
+    TEST_PASSED = 'test_passed',
+    TEST_FAILED = 'test_failed',
+    
     // System events
     SYSTEM_START = 'system_start',
     SYSTEM_STOP = 'system_stop',
@@ -78,6 +92,9 @@ export interface UnifiedEvent {
     source_format: string;         // Original event type from source
     payload: any;                  // Original event data (normalized but preserved)
     
+    // Git context
+    branch?: string;               // Active branch at ingestion (absent: no repo or detached HEAD)
+    
     // Indexed fields (for fast queries)
     indexed_fields?: {
         files?: string[];          // File paths affected
@@ -128,5 +145,33 @@ export interface EventFilter {
     category?: EventCategory;
     source?: EventSource;
     files?: string[];
+    branch?: string;
 }
 
+
+/**
+ * Compound event query (AST)
+ *
+ * Built programmatically or parsed from the string syntax (see EventQuery.ts).
+ * Planned against TemporalIndex / SpatialIndex / TypeIndex before loading events.
+ */
+export type EventQueryNode =
+    | { op: 'and'; nodes: EventQueryNode[] }
+    | { op: 'or'; nodes: EventQueryNode[] }
+    | { op: 'not'; node: EventQueryNode }
+    | { op: 'type'; values: EventType[] }
+    | { op: 'source'; values: EventSource[] }
+    | { op: 'category'; values: EventCategory[] }
+    | { op: 'file'; pattern: string }          // Exact path or glob (src/**/*.ts)
+    | { op: 'dir'; prefix: string }            // Directory prefix (src/kernel)
+    | { op: 'module'; values: string[] }       // indexed_fields.modules or a path segment (auth)
+    | { op: 'keyword'; values: string[] }      // Any of indexed_fields.keywords
+    | { op: 'branch'; values: string[] }       // Active branch at ingestion
+    | { op: 'time'; start?: number; end?: number };
+
+export interface EventQuery {
+    where?: EventQueryNode;
+    orderBy?: 'timestamp' | 'seq';
+    order?: 'asc' | 'desc';
+    limit?: number;
+}
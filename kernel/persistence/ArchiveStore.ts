@@ -0,0 +1,250 @@
+/**
+ * ArchiveStore - Tier d'archivage compressé des segments rotés
+ *
+ * Les segments rotés (events.<timestamp>.jsonl, ...) qui dépassent l'âge de leur
+ * MemoryClass ne sont plus supprimés : ils sont compressés (gzip ou brotli) dans
+ * .reasoning_rl4/archive/ et décrits par un manifest, puis relus à la demande
+ * quand une requête temporelle atteint leur plage.
+ *
+ * Layout disque :
+ *   archive/manifest.json                  → segments archivés et leur couverture
+ *   archive/<segment>.jsonl.gz | .jsonl.br → contenu compressé (lecture seule)
+ *
+ * ZERO-INTELLIGENCE : Structure uniquement, pas d'inférence.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { AtomicFS } from '../core/AtomicFS';
+import { WriteTracker } from '../WriteTracker';
+import { LRUCache } from '../utils/LRUCache';
+
+export type ArchiveCompression = 'gzip' | 'brotli' | 'none';
+
+const MANIFEST_VERSION = 1;
+const SEGMENT_CACHE_SIZE = 4;                       // Segments décompressés gardés en mémoire
+const SEGMENT_CACHE_MAX_BYTES = 32 * 1024 * 1024;   // ... dans la limite de leur taille décompressée
+
+const COMPRESSION_EXTENSIONS: Record<ArchiveCompression, string> = {
+    gzip: '.gz',
+    brotli: '.br',
+    none: ''
+};
+
+export interface ArchivedSegment {
+    file: string;                   // Basename dans archive/
+    source: string;                 // Chemin d'origine, relatif à .reasoning_rl4/ (ex: memory/events.2025-01-01T...jsonl)
+    component: string;              // "MIL", "Traces", ...
+    compression: ArchiveCompression;
+    bytes: number;                  // Taille décompressée
+    compressedBytes: number;
+    lines: number;
+    from_timestamp: number | null;
+    to_timestamp: number | null;
+    archivedAt: number;
+}
+
+export interface ArchiveManifest {
+    version: number;
+    segments: ArchivedSegment[];
+}
+
+export class ArchiveStore {
+    private rl4Dir: string;
+    private archiveDir: string;
+    private manifestPath: string;
+    private segmentCache: LRUCache<string, { bytes: number; records: any[] }>;
+
+    constructor(workspaceRoot: string, archiveDir: string = 'archive', cacheMaxBytes: number = SEGMENT_CACHE_MAX_BYTES) {
+        this.segmentCache = new LRUCache(SEGMENT_CACHE_SIZE, cacheMaxBytes, entry => entry.bytes);
+        this.rl4Dir = path.join(workspaceRoot, '.reasoning_rl4');
+        this.archiveDir = path.join(this.rl4Dir, archiveDir);
+        this.manifestPath = path.join(this.archiveDir, 'manifest.json');
+    }
+
+    /**
+     * Compresser un segment roté dans l'archive, l'ajouter au manifest, puis supprimer l'original
+     *
+     * Le manifest est écrit avant la suppression : un crash entre les deux laisse un doublon
+     * (segment encore présent), jamais une perte.
+     */
+    archiveSegment(filePath: string, component: string, compression: ArchiveCompression): ArchivedSegment {
+        const content = fs.readFileSync(filePath);
+        const file = path.basename(filePath) + COMPRESSION_EXTENSIONS[compression];
+        const compressed = compress(content, compression);
+
+        fs.mkdirSync(this.archiveDir, { recursive: true });
+        const archivePath = path.join(this.archiveDir, file);
+        WriteTracker.getInstance().markInternalWrite(archivePath);
+        AtomicFS.writeAtomicSync(archivePath, compressed);
+
+        const range = timestampRange(content.toString('utf-8'));
+        const segment: ArchivedSegment = {
+            file,
+            source: path.relative(this.rl4Dir, filePath),
+            component,
+            compression,
+            bytes: content.length,
+            compressedBytes: compressed.length,
+            lines: range.lines,
+            from_timestamp: range.from,
+            to_timestamp: range.to,
+            archivedAt: Date.now()
+        };
+
+        const manifest = this.loadManifest();
+        manifest.segments = manifest.segments.filter(s => s.file !== file);
+        manifest.segments.push(segment);
+        this.saveManifest(manifest);
+
+        fs.unlinkSync(filePath);
+        return segment;
+    }
+
+    /**
+     * Segments archivés (optionnellement ceux d'un composant) qui recouvrent [start, end]
+     */
+    findSegments(start: number, end: number, component?: string): ArchivedSegment[] {
+        return this.loadManifest().segments.filter(segment => {
+            if (component && segment.component !== component) return false;
+            if (segment.from_timestamp === null || segment.to_timestamp === null) return true;
+            return segment.from_timestamp <= end && segment.to_timestamp >= start;
+        });
+    }
+
+    /**
+     * Lire les lignes JSON d'un segment archivé (décompressé, mis en cache dans la limite
+     * de cacheMaxBytes : un segment plus gros est relu à chaque requête)
+     */
+    readSegment(segment: ArchivedSegment): any[] {
+        const cached = this.segmentCache.get(segment.file);
+        if (cached) {
+            return cached.records;
+        }
+
+        const archivePath = path.join(this.archiveDir, segment.file);
+        if (!fs.existsSync(archivePath)) {
+            return [];
+        }
+        const decompressed = decompress(fs.readFileSync(archivePath), segment.compression);
+        const content = decompressed.toString('utf-8');
+        const records: any[] = [];
+        for (const line of content.split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                records.push(JSON.parse(line));
+            } catch (e) {
+                // Ligne corrompue : ignorée (le reste du segment reste lisible)
+            }
+        }
+        this.segmentCache.set(segment.file, { bytes: decompressed.length, records });
+        return records;
+    }
+
+    /**
+     * Enregistrements archivés dont le timestamp tombe dans [start, end]
+     */
+    readRange(start: number, end: number, component?: string): any[] {
+        const records: any[] = [];
+        for (const segment of this.findSegments(start, end, component)) {
+            for (const record of this.readSegment(segment)) {
+                const timestamp = toMillis(record.timestamp);
+                if (timestamp >= start && timestamp <= end) {
+                    records.push(record);
+                }
+            }
+        }
+        return records;
+    }
+
+    /**
+     * Supprimer un segment archivé (quota) : retiré du manifest avant la suppression du fichier
+     */
+    removeSegment(file: string): void {
+        const manifest = this.loadManifest();
+        manifest.segments = manifest.segments.filter(s => s.file !== file);
+        this.saveManifest(manifest);
+        this.segmentCache.delete(file);
+
+        const archivePath = path.join(this.archiveDir, file);
+        if (fs.existsSync(archivePath)) {
+            fs.unlinkSync(archivePath);
+        }
+    }
+
+    getSegments(): ArchivedSegment[] {
+        return this.loadManifest().segments;
+    }
+
+    loadManifest(): ArchiveManifest {
+        if (!fs.existsSync(this.manifestPath)) {
+            return { version: MANIFEST_VERSION, segments: [] };
+        }
+        try {
+            const data = JSON.parse(fs.readFileSync(this.manifestPath, 'utf-8'));
+            return { version: MANIFEST_VERSION, segments: Array.isArray(data?.segments) ? data.segments : [] };
+        } catch (e) {
+            console.warn(`[ArchiveStore] Corrupted manifest ${this.manifestPath}: ${e}`);
+            return { version: MANIFEST_VERSION, segments: [] };
+        }
+    }
+
+    private saveManifest(manifest: ArchiveManifest): void {
+        WriteTracker.getInstance().markInternalWrite(this.manifestPath);
+        AtomicFS.writeAtomicSync(this.manifestPath, JSON.stringify(manifest, null, 2));
+    }
+}
+
+function compress(content: Buffer, compression: ArchiveCompression): Buffer {
+    switch (compression) {
+        case 'gzip':
+            return zlib.gzipSync(content);
+        case 'brotli':
+            return zlib.brotliCompressSync(content);
+        default:
+            return content;
+    }
+}
+
+function decompress(content: Buffer, compression: ArchiveCompression): Buffer {
+    switch (compression) {
+        case 'gzip':
+            return zlib.gunzipSync(content);
+        case 'brotli':
+            return zlib.brotliDecompressSync(content);
+        default:
+            return content;
+    }
+}
+
+/**
+ * Plage de timestamps d'un segment JSONL (ms numérique ou ISO)
+ */
+function timestampRange(content: string): { from: number | null; to: number | null; lines: number } {
+    let from: number | null = null;
+    let to: number | null = null;
+    let lines = 0;
+    for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+        lines++;
+        try {
+            const timestamp = toMillis(JSON.parse(line).timestamp);
+            if (Number.isFinite(timestamp)) {
+                from = from === null ? timestamp : Math.min(from, timestamp);
+                to = to === null ? timestamp : Math.max(to, timestamp);
+            }
+        } catch (e) {
+            // Ligne corrompue : ne compte pas dans la plage
+        }
+    }
+    return { from, to, lines };
+}
+
+function toMillis(timestamp: any): number {
+    if (typeof timestamp === 'number') {
+        return timestamp;
+    }
+    const parsed = Date.parse(timestamp);
+    return isNaN(parsed) ? NaN : parsed;
+}
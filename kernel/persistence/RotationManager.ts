@@ -15,6 +15,8 @@ import { MemoryClass, MEMORY_CLASS_CONFIGS } from '../memory/MemoryClass';
 import { createMemoryRetentionEvent, MemoryRetentionEventPayload } from '../memory/MemoryRetentionEvent';
 import { MIL } from '../memory/MIL';
 import { EventSource } from '../memory/types';
+import { ArchiveStore, ArchiveCompression } from './ArchiveStore';
+import { isChainedLedger } from '../rbom/LedgerVerifier';
 
 export interface RotationConfig {
     maxFileSizeMB: number;
@@ -22,12 +24,14 @@ export interface RotationConfig {
     enableArchiving: boolean;
     enableCompression: boolean;
     archiveDir?: string;
+    compression?: ArchiveCompression;  // Algorithme si enableCompression (défaut : gzip)
     memoryClass: MemoryClass;  // Memory class for this file
 }
 
 export interface RotationResult {
     rotated: string[];
     deleted: string[];
+    archived: string[];      // Segments rotés compressés dans archive/ (retirés de leur dossier d'origine)
     spaceSaved: number;
     retentionEvents: any[];  // UnifiedEvent[]
     errors: string[];
@@ -55,8 +59,11 @@ export class RotationManager {
 
     /**
      * Vérifie si un fichier doit être rotaté
+     *
+     * overQuota : la classe du fichier dépasse son quota (StorageAccountant), la rotation
+     * est alors due quelle que soit la taille ou l'âge du fichier.
      */
-    shouldRotate(filePath: string): ShouldRotateResult {
+    shouldRotate(filePath: string, overQuota: boolean = false): ShouldRotateResult {
         if (!fs.existsSync(filePath)) {
             return { shouldRotate: false };
         }
@@ -71,6 +78,11 @@ export class RotationManager {
         const fileAgeDays = (Date.now() - stats.mtime.getTime()) / (1000 * 60 * 60 * 24);
         const config = MEMORY_CLASS_CONFIGS[this.config.memoryClass];
 
+        // Check quota (un fichier vide ne libère rien)
+        if (overQuota && stats.size > 0) {
+            return { shouldRotate: true, reason: 'quota' };
+        }
+
         // Check size
         if (fileSizeMB > this.config.maxFileSizeMB) {
             return { shouldRotate: true, reason: 'maxFileSize' };
@@ -89,10 +101,11 @@ export class RotationManager {
      * 
      * ⚠️ CRITIQUE : Produit un MEMORY_RETENTION_EVENT avant rotation
      */
-    async rotateFile(filePath: string): Promise<RotationResult> {
+    async rotateFile(filePath: string, reason?: ShouldRotateResult['reason']): Promise<RotationResult> {
         const result: RotationResult = {
             rotated: [],
             deleted: [],
+            archived: [],
             spaceSaved: 0,
             retentionEvents: [],
             errors: []
@@ -108,6 +121,12 @@ export class RotationManager {
             return result;
         }
 
+        // ⚠️ INVARIANT : ledgers chaînés jamais rotés (LedgerVerifier les parcourt depuis GENESIS_HASH)
+        if (isChainedLedger(path.join(this.workspaceRoot, '.reasoning_rl4'), filePath)) {
+            result.errors.push(`Cannot rotate chained ledger: ${filePath}`);
+            return result;
+        }
+
         try {
             const stats = fs.statSync(filePath);
             const fileSize = stats.size;
@@ -119,7 +138,7 @@ export class RotationManager {
             const retentionEvent = createMemoryRetentionEvent({
                 component: this.getComponentFromPath(filePath),
                 file: filePath,
-                reason: this.shouldRotate(filePath).reason || 'maxAgeDays',
+                reason: reason || this.shouldRotate(filePath).reason || 'maxAgeDays',
                 range_affected: {
                     from_timestamp: range.from_timestamp,
                     to_timestamp: range.to_timestamp,
@@ -154,11 +173,7 @@ export class RotationManager {
             result.spaceSaved += fileSize; // Space saved by rotation (original file truncated)
 
             // Archive or delete old rotated files if needed
-            if (this.config.enableArchiving) {
-                await this.archiveOldRotatedFiles(dir, basename, ext, result);
-            } else {
-                await this.deleteOldRotatedFiles(dir, basename, ext, result);
-            }
+            await this.expireRotatedFiles(dir, basename, ext, result);
 
         } catch (error: any) {
             result.errors.push(`Failed to rotate ${filePath}: ${error.message}`);
@@ -167,6 +182,128 @@ export class RotationManager {
         return result;
     }
 
+    /**
+     * Archiver (ou supprimer) les segments rotés d'un fichier qui ont dépassé l'âge de leur classe
+     *
+     * Appelé à chaque rotation, et périodiquement : un segment vieillit même sans nouvelle rotation.
+     */
+    async expireRotated(filePath: string): Promise<RotationResult> {
+        const result: RotationResult = {
+            rotated: [],
+            deleted: [],
+            archived: [],
+            spaceSaved: 0,
+            retentionEvents: [],
+            errors: []
+        };
+
+        // ⚠️ INVARIANT : HOT data jamais purgée
+        if (this.config.memoryClass === MemoryClass.HOT || !fs.existsSync(path.dirname(filePath))) {
+            return result;
+        }
+
+        const ext = path.extname(filePath);
+        try {
+            await this.expireRotatedFiles(path.dirname(filePath), path.basename(filePath, ext), ext, result);
+        } catch (error: any) {
+            result.errors.push(`Failed to expire rotated files of ${filePath}: ${error.message}`);
+        }
+        return result;
+    }
+
+    /**
+     * Libérer un fichier inactif pour respecter un quota (segment roté, snapshot, archive...)
+     *
+     * WARM/COLD JSONL → archive/ si l'archivage est actif, sinon supprimé ;
+     * ARCHIVED → supprimé et retiré du manifest.
+     *
+     * ⚠️ CRITIQUE : Produit un MEMORY_RETENTION_EVENT (reason 'quota') avant la purge
+     */
+    async reclaimFile(filePath: string): Promise<RotationResult> {
+        const result: RotationResult = {
+            rotated: [],
+            deleted: [],
+            archived: [],
+            spaceSaved: 0,
+            retentionEvents: [],
+            errors: []
+        };
+
+        if (!fs.existsSync(filePath)) {
+            return result;
+        }
+
+        // ⚠️ INVARIANT : HOT data jamais purgée
+        if (this.config.memoryClass === MemoryClass.HOT) {
+            result.errors.push(`Cannot reclaim HOT data: ${filePath}`);
+            return result;
+        }
+
+        try {
+            const stats = fs.statSync(filePath);
+            const archive = new ArchiveStore(this.workspaceRoot, this.config.archiveDir || 'archive');
+            const archived = this.config.memoryClass === MemoryClass.ARCHIVED
+                ? archive.getSegments().find(s => s.file === path.basename(filePath))
+                : undefined;
+
+            // Segment archivé : plage lue dans le manifest (le contenu est compressé)
+            const range = archived
+                ? {
+                    from_timestamp: archived.from_timestamp ?? stats.mtime.getTime(),
+                    to_timestamp: archived.to_timestamp ?? stats.mtime.getTime()
+                }
+                : await this.extractFileRange(filePath);
+
+            const retentionEvent = createMemoryRetentionEvent({
+                component: archived ? archived.component : this.getComponentFromPath(filePath),
+                file: filePath,
+                reason: 'quota',
+                range_affected: range,
+                memory_class: this.config.memoryClass,
+                rebuild_impact: this.getRebuildImpact()
+            });
+
+            if (this.mil) {
+                await this.mil.ingest(retentionEvent, EventSource.SYSTEM);
+            }
+            result.retentionEvents.push(retentionEvent);
+
+            if (this.config.memoryClass === MemoryClass.ARCHIVED) {
+                archive.removeSegment(path.basename(filePath));
+                result.deleted.push(filePath);
+                result.spaceSaved += stats.size;
+            } else if (this.config.enableArchiving && filePath.endsWith('.jsonl')) {
+                const compression: ArchiveCompression = this.config.enableCompression
+                    ? (this.config.compression || 'gzip')
+                    : 'none';
+                const segment = archive.archiveSegment(filePath, this.getComponentFromPath(filePath), compression);
+                result.archived.push(filePath);
+                result.spaceSaved += stats.size - segment.compressedBytes;
+            } else {
+                fs.unlinkSync(filePath);
+                result.deleted.push(filePath);
+                result.spaceSaved += stats.size;
+            }
+        } catch (error: any) {
+            result.errors.push(`Failed to reclaim ${filePath}: ${error.message}`);
+        }
+
+        return result;
+    }
+
+    private async expireRotatedFiles(
+        dir: string,
+        basename: string,
+        ext: string,
+        result: RotationResult
+    ): Promise<void> {
+        if (this.config.enableArchiving) {
+            await this.archiveOldRotatedFiles(dir, basename, ext, result);
+        } else {
+            await this.deleteOldRotatedFiles(dir, basename, ext, result);
+        }
+    }
+
     /**
      * Extract timestamp/seq range from JSONL file
      */
@@ -190,16 +327,12 @@ export class RotationManager {
 
             // Parse first line
             const firstLine = JSON.parse(lines[0]);
-            const from_timestamp = firstLine.timestamp || firstLine.isoTimestamp ? 
-                Date.parse(firstLine.isoTimestamp || firstLine.timestamp) : 
-                Date.now();
+            const from_timestamp = this.parseLineTimestamp(firstLine);
             const from_seq = firstLine.seq;
 
             // Parse last line
             const lastLine = JSON.parse(lines[lines.length - 1]);
-            const to_timestamp = lastLine.timestamp || lastLine.isoTimestamp ? 
-                Date.parse(lastLine.isoTimestamp || lastLine.timestamp) : 
-                Date.now();
+            const to_timestamp = this.parseLineTimestamp(lastLine);
             const to_seq = lastLine.seq;
 
             return {
@@ -218,6 +351,18 @@ export class RotationManager {
         }
     }
 
+    /**
+     * Timestamp d'une ligne JSONL (ms numérique ou ISO)
+     */
+    private parseLineTimestamp(line: any): number {
+        if (typeof line.timestamp === 'number') {
+            return line.timestamp;
+        }
+        const raw = line.isoTimestamp || line.timestamp;
+        const parsed = raw ? Date.parse(raw) : NaN;
+        return isNaN(parsed) ? Date.now() : parsed;
+    }
+
     /**
      * Get component name from file path
      */
@@ -242,6 +387,9 @@ export class RotationManager {
 
     /**
      * Archive old rotated files
+     *
+     * Compressés (gzip/brotli) dans archive/ et inscrits au manifest d'ArchiveStore,
+     * qui les relit quand une requête temporelle atteint leur plage.
      */
     private async archiveOldRotatedFiles(
         dir: string,
@@ -249,12 +397,10 @@ export class RotationManager {
         ext: string,
         result: RotationResult
     ): Promise<void> {
-        if (!this.config.archiveDir) return;
-
-        const archiveDir = path.join(this.workspaceRoot, '.reasoning_rl4', this.config.archiveDir);
-        if (!fs.existsSync(archiveDir)) {
-            fs.mkdirSync(archiveDir, { recursive: true });
-        }
+        const archive = new ArchiveStore(this.workspaceRoot, this.config.archiveDir || 'archive');
+        const compression: ArchiveCompression = this.config.enableCompression
+            ? (this.config.compression || 'gzip')
+            : 'none';
 
         const files = fs.readdirSync(dir);
         const rotatedFiles = files.filter(f => 
@@ -272,10 +418,9 @@ export class RotationManager {
             const ageDays = (Date.now() - stats.mtime.getTime()) / (1000 * 60 * 60 * 24);
 
             if (ageDays > cutoffDays) {
-                const archivePath = path.join(archiveDir, file);
-                fs.renameSync(filePath, archivePath);
-                result.deleted.push(filePath);
-                result.spaceSaved += stats.size;
+                const segment = archive.archiveSegment(filePath, this.getComponentFromPath(filePath), compression);
+                result.archived.push(filePath);
+                result.spaceSaved += stats.size - segment.compressedBytes;
             }
         }
     }
@@ -320,6 +465,7 @@ export class RotationManager {
         const result: RotationResult = {
             rotated: [],
             deleted: [],
+            archived: [],
             spaceSaved: 0,
             retentionEvents: [],
             errors: []
@@ -345,6 +491,7 @@ export class RotationManager {
                 const fileResult = await this.rotateFile(filePath);
                 result.rotated.push(...fileResult.rotated);
                 result.deleted.push(...fileResult.deleted);
+                result.archived.push(...fileResult.archived);
                 result.spaceSaved += fileResult.spaceSaved;
                 result.retentionEvents.push(...fileResult.retentionEvents);
                 result.errors.push(...fileResult.errors);
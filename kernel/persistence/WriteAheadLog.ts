@@ -1,19 +1,35 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import * as crypto from 'crypto';
 import { GlobalClock } from '../GlobalClock';
 import { WriteTracker } from '../WriteTracker';
+import { AtomicFS } from '../core/AtomicFS';
 
 export interface WalEntry {
     seq: number;
-    type: 'update_file';
-    file: string;
+    type: 'update_file' | 'append_line';
+    file: string;           // Relative to .reasoning_rl4/
     content: string;
     timestamp: number;
 }
 
+export interface WalRecoveryResult {
+    entriesScanned: number;
+    reapplied: string[];        // Files rewritten from the WAL (write lost in a crash)
+    alreadyApplied: number;
+    skipped: number;            // append_line entries (ledgers own their recovery)
+    corruptedLines: number;     // Torn / unparsable lines (crash during the WAL append itself)
+}
+
+export interface WalCheckpoint extends WalRecoveryResult {
+    recoveredAt: string;
+}
+
 export class WriteAheadLog {
-    private static instance: WriteAheadLog;
+    private static instances: Map<string, WriteAheadLog> = new Map();
+    private rl4Dir: string;
     private logPath: string;
+    private checkpointPath: string;
     private writeTracker = WriteTracker.getInstance();
 
     private constructor(workspaceRoot: string) {
@@ -21,29 +37,35 @@ export class WriteAheadLog {
         if (!fs.existsSync(rl4Dir)) {
             fs.mkdirSync(rl4Dir, { recursive: true });
         }
+        this.rl4Dir = rl4Dir;
         this.logPath = path.join(rl4Dir, 'wal.jsonl');
+        this.checkpointPath = path.join(rl4Dir, 'wal_checkpoint.json');
     }
 
     public static getInstance(workspaceRoot: string): WriteAheadLog {
-        if (!WriteAheadLog.instance) {
-            WriteAheadLog.instance = new WriteAheadLog(workspaceRoot);
+        const key = path.resolve(workspaceRoot);
+        let instance = WriteAheadLog.instances.get(key);
+        if (!instance) {
+            instance = new WriteAheadLog(workspaceRoot);
+            WriteAheadLog.instances.set(key, instance);
         }
-        return WriteAheadLog.instance;
+        return instance;
     }
-    
+
     /**
      * Log an operation synchronously (WAL)
+     * @param type - 'update_file' (content replaces the whole file) or 'append_line' (journal only)
      */
-    public logSync(file: string, content: string): number {
+    public logSync(file: string, content: string, type: WalEntry['type'] = 'update_file'): number {
         const seq = GlobalClock.getInstance().nextSeq();
         const entry: WalEntry = {
             seq,
-            type: 'update_file',
+            type,
             file,
             content,
             timestamp: Date.now()
         };
-        
+
         // Append + Sync
         const fd = fs.openSync(this.logPath, 'a');
         try {
@@ -53,8 +75,82 @@ export class WriteAheadLog {
         } finally {
             fs.closeSync(fd);
         }
-        
+
         return seq;
     }
+
+    /**
+     * Boot-time recovery: re-apply update_file entries whose write was lost, then checkpoint and truncate the log
+     *
+     * An entry is unapplied when the target content hash differs from the logged content
+     * and the target was not modified after the entry (missing, or older mtime) — a later
+     * edit of the file is never overwritten. Only the last entry per file is considered.
+     */
+    public recover(): WalRecoveryResult {
+        const result: WalRecoveryResult = {
+            entriesScanned: 0,
+            reapplied: [],
+            alreadyApplied: 0,
+            skipped: 0,
+            corruptedLines: 0
+        };
+
+        if (!fs.existsSync(this.logPath)) {
+            return result;
+        }
+
+        // Log order (not seq: GlobalClock restarts with the process), last entry per file wins
+        const latestByFile = new Map<string, WalEntry>();
+        const lines = fs.readFileSync(this.logPath, 'utf-8').split('\n').filter(line => line.trim());
+        for (const line of lines) {
+            let entry: WalEntry;
+            try {
+                entry = JSON.parse(line);
+            } catch {
+                result.corruptedLines++;
+                continue;
+            }
+            result.entriesScanned++;
+            // Legacy cycles entries were logged as update_file: ledgers (.jsonl) are never rewritten whole
+            if (entry.type !== 'update_file' || entry.file.endsWith('.jsonl')) {
+                result.skipped++;
+                continue;
+            }
+            latestByFile.set(entry.file, entry);
+        }
+
+        for (const entry of latestByFile.values()) {
+            const targetPath = path.join(this.rl4Dir, entry.file);
+            if (!this.isUnapplied(targetPath, entry)) {
+                result.alreadyApplied++;
+                continue;
+            }
+            this.writeTracker.markInternalWrite(targetPath);
+            AtomicFS.writeAtomicSync(targetPath, entry.content);
+            result.reapplied.push(entry.file);
+        }
+
+        // Checkpoint first: if we crash before the truncation, the next pass finds everything applied
+        const checkpoint: WalCheckpoint = { recoveredAt: new Date().toISOString(), ...result };
+        AtomicFS.writeAtomicSync(this.checkpointPath, JSON.stringify(checkpoint, null, 2));
+        this.writeTracker.markInternalWrite(this.logPath);
+        AtomicFS.writeAtomicSync(this.logPath, '');
+
+        return result;
+    }
+
+    private isUnapplied(targetPath: string, entry: WalEntry): boolean {
+        if (!fs.existsSync(targetPath)) {
+            return true;
+        }
+        const current = fs.readFileSync(targetPath);
+        if (hashContent(current) === hashContent(Buffer.from(entry.content, 'utf-8'))) {
+            return false;
+        }
+        return fs.statSync(targetPath).mtimeMs < entry.timestamp;
+    }
 }
 
+function hashContent(content: Buffer): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
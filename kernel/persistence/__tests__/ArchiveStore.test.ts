@@ -0,0 +1,112 @@
+/**
+ * Tests for the compressed archive tier
+ *
+ * Verifies that rotated segments past their MemoryClass age are compressed into
+ * archive/ with a manifest instead of being deleted, and that MIL temporal queries
+ * read them back transparently, with decompressed segments cached within a byte budget.
+ */
+
+import { ArchiveStore } from '../ArchiveStore';
+import { MIL } from '../../memory/MIL';
+import { EventSource, EventType, EventCategory } from '../../memory/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function eventLine(i: number, timestamp: number): string {
+  return JSON.stringify({
+    id: `old-${i}`,
+    seq: i,
+    timestamp,
+    source: EventSource.FILE_SYSTEM,
+    type: EventType.FILE_MODIFY,
+    category: EventCategory.CODE_CHANGE,
+    source_format: 'file_change',
+    payload: { file: `src/file-${i}.ts` }
+  });
+}
+
+describe('ArchiveStore - Compressed archive tier', () => {
+  let testWorkspaceRoot: string;
+  let memoryDir: string;
+
+  beforeEach(() => {
+    testWorkspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'rl4-archive-test-'));
+    memoryDir = path.join(testWorkspaceRoot, '.reasoning_rl4', 'memory');
+    fs.mkdirSync(memoryDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testWorkspaceRoot)) {
+      fs.rmSync(testWorkspaceRoot, { recursive: true, force: true });
+    }
+  });
+
+  test('should archive expired MIL segments and serve them to temporal queries', async () => {
+    // Segment rotated last quarter: older than WARM.maxAgeDays (90)
+    const start = Date.now() - 100 * DAY_MS;
+    const segmentPath = path.join(memoryDir, 'events.2025-01-01T00-00-00-000Z.jsonl');
+    fs.writeFileSync(segmentPath, [0, 1, 2].map(i => eventLine(i, start + i * 1000)).join('\n') + '\n');
+    const old = new Date(start);
+    fs.utimesSync(segmentPath, old, old);
+
+    const mil = new MIL(testWorkspaceRoot);
+    await mil.init();
+    const events = await mil.queryTemporal(start - 1000, start + 10000);
+    const empty = await mil.queryTemporal(start + 20000, start + 30000);
+    await mil.close();
+
+    expect(fs.existsSync(segmentPath)).toBe(false);
+    const manifest = JSON.parse(fs.readFileSync(path.join(testWorkspaceRoot, '.reasoning_rl4', 'archive', 'manifest.json'), 'utf-8'));
+    expect(manifest.segments).toHaveLength(1);
+    expect(manifest.segments[0]).toMatchObject({
+      file: 'events.2025-01-01T00-00-00-000Z.jsonl.gz',
+      source: path.join('memory', 'events.2025-01-01T00-00-00-000Z.jsonl'),
+      component: 'MIL',
+      compression: 'gzip',
+      lines: 3,
+      from_timestamp: start,
+      to_timestamp: start + 2000
+    });
+
+    expect(events.map(e => e.id)).toEqual(['old-0', 'old-1', 'old-2']);
+    expect(empty).toEqual([]);
+  });
+
+  test('should round-trip brotli segments and select them by range', () => {
+    const segmentPath = path.join(memoryDir, 'events.2025-02-01T00-00-00-000Z.jsonl');
+    fs.writeFileSync(segmentPath, [eventLine(0, 5000), '{"torn', JSON.stringify({ id: 'old-1', timestamp: new Date(6000).toISOString() })].join('\n') + '\n');
+
+    const archive = new ArchiveStore(testWorkspaceRoot);
+    const segment = archive.archiveSegment(segmentPath, 'MIL', 'brotli');
+
+    expect(segment.file).toBe('events.2025-02-01T00-00-00-000Z.jsonl.br');
+    expect(segment.from_timestamp).toBe(5000);
+    expect(segment.to_timestamp).toBe(6000); // ISO timestamps (legacy AppendOnlyWriter lines) count too
+    expect(archive.findSegments(7000, 8000)).toEqual([]);
+    expect(archive.findSegments(5500, 8000, 'Traces')).toEqual([]);
+    expect(archive.readRange(5500, 8000, 'MIL').map(r => r.id)).toEqual(['old-1']);
+  });
+
+  test('should keep decompressed segments cached within the byte budget', () => {
+    const archive = new ArchiveStore(testWorkspaceRoot, 'archive', 600);
+    const segments = ['03', '04'].map((month, m) => {
+      const segmentPath = path.join(memoryDir, `events.2025-${month}-01T00-00-00-000Z.jsonl`);
+      fs.writeFileSync(segmentPath, [0, 1].map(i => eventLine(m * 10 + i, 1000 + i)).join('\n') + '\n');
+      return archive.archiveSegment(segmentPath, 'MIL', 'gzip');
+    });
+    const cache = (archive as any).segmentCache;
+
+    archive.readSegment(segments[0]);
+    expect(cache.weight).toBe(segments[0].bytes);
+    archive.readSegment(segments[1]); // Both together exceed the budget: the oldest is evicted
+    expect(cache.has(segments[0].file)).toBe(false);
+    expect(cache.weight).toBe(segments[1].bytes);
+
+    const big = new ArchiveStore(testWorkspaceRoot, 'archive', segments[0].bytes - 1);
+    expect(big.readSegment(segments[0]).map(r => r.id)).toEqual(['old-0', 'old-1']);
+    expect((big as any).segmentCache.size).toBe(0);
+  });
+});
@@ -158,6 +158,7 @@ export class KernelBridge extends EventEmitter {
             env: { 
                 ...process.env, 
                 RL4_PROCESS: 'kernel', // ✅ Fix 5: Flag pour identifier le child process (hard block dans CognitiveLogger)
+                RL4_EXTENSION_PATH: this.extensionPath, // Ressources livrées avec l'extension (vocabulaires BPE)
                 NODE_ENV: 'production',
                 ELECTRON_RUN_AS_NODE: '1',
                 VSCODE_IPC_HOOK: undefined 
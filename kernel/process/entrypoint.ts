@@ -18,12 +18,19 @@ import { AppendOnlyWriter } from '../AppendOnlyWriter';
 import { CognitiveLogger } from '../core/CognitiveLogger';
 import { FileChangeWatcher } from '../inputs/FileChangeWatcher';
 import { GitCommitListener } from '../inputs/GitCommitListener';
+import { TerminalCommandListener } from '../inputs/TerminalCommandListener';
+import { BuildResultListener } from '../inputs/BuildResultListener';
 import { CognitiveScheduler } from '../CognitiveScheduler';
 import { ExecPool } from '../ExecPool';
 import { HealthMonitor } from '../HealthMonitor';
 import { GovernanceModeManager } from '../api/GovernanceModeManager';
 import { UnifiedPromptBuilder } from '../api/UnifiedPromptBuilder';
 import { PlanTasksContextParser } from '../api/PlanTasksContextParser';
+import { RL4UpdateManager } from '../api/RL4UpdateManager';
+import { FileHistoryCollector } from '../api/FileHistoryCollector';
+import { ExplainFilePromptBuilder } from '../api/ExplainFilePromptBuilder';
+import { CodeReviewPromptBuilder } from '../api/CodeReviewPromptBuilder';
+import { OnboardingPromptBuilder } from '../api/OnboardingPromptBuilder';
 import { detectWorkspaceState } from '../onboarding/OnboardingDetector';
 import { DeltaCalculator } from '../api/DeltaCalculator';
 import { SessionCaptureManager } from '../api/SessionCaptureManager';
@@ -35,20 +42,31 @@ import { IntentionResolver } from '../core/IntentionResolver';
 import { SnapshotRotation } from '../indexer/SnapshotRotation';
 import { RL4CacheIndexer } from '../indexer/CacheIndex';
 import { RBOMLedger } from '../rbom/RBOMLedger';
+import { verifyLedgers, writeLedgerState, describeBrokenLink } from '../rbom/LedgerVerifier';
 import { WriteAheadLog } from '../persistence/WriteAheadLog';
 import { GroundTruthSystem } from '../ground_truth/GroundTruthSystem';
 import { CrossFileConsistencyValidator } from '../validation/CrossFileConsistencyValidator';
 import { ActivityReconstructor } from '../api/ActivityReconstructor';
 import { TimelineAggregator } from '../indexer/TimelineAggregator';
 import { MIL } from '../memory/MIL';
+import { textDocumentHash } from '../memory/TextIndex';
 import { CursorChatListener } from '../inputs/CursorChatListener';
 import { DecisionStore } from '../cognitive/DecisionStore';
 import { DecisionExtractor } from '../cognitive/DecisionExtractor';
 import { DecisionInvalidator } from '../cognitive/DecisionInvalidator';
+import { DecisionGraph } from '../cognitive/DecisionGraph';
+import { DecisionConflictDetector } from '../cognitive/DecisionConflictDetector';
 import { RCEPStore } from '../storage/RCEPStore';
+import { StorageAccountant } from '../storage/StorageAccountant';
 import { SCFCompressor } from '../scf/SCFCompressor';
 import { ReplayEngine } from '../replay/ReplayEngine';
+import { ReplayStore } from '../replay/ReplayStore';
 import { PromptCodecRL4 } from '../rl4/PromptCodecRL4';
+import { ADRParser } from '../api/ADRParser';
+import { MODEL_PROFILES, describeTokenizer } from '../api/TokenBudget';
+import { loadTokenizerConfig, saveTokenizerConfig } from '../config/TokenizerConfig';
+import { setTokenizerSearchPaths } from '../tokenizer/TokenizerRegistry';
+import { describeIgnoreVerdict } from '../utils/IgnoreEngine';
 
 // Global kernel components (accessible to IPC handlers)
 let kernelComponents: {
@@ -61,6 +79,8 @@ let kernelComponents: {
     execPool: ExecPool;
     fsWatcher: FileChangeWatcher;
     gitListener: GitCommitListener;
+    terminalListener: TerminalCommandListener;
+    buildResultListener: BuildResultListener;
     scheduler: CognitiveScheduler;
     healthMonitor: HealthMonitor | null;
     rbomLedger?: RBOMLedger;
@@ -79,6 +99,10 @@ let kernelComponents: {
     phaseDetector: PhaseDetector;
     systemStatusProvider: SystemStatusProvider;
     timeMachinePromptBuilder: TimeMachinePromptBuilder;
+    fileHistoryCollector?: FileHistoryCollector;
+    explainFilePromptBuilder?: ExplainFilePromptBuilder;
+    codeReviewPromptBuilder?: CodeReviewPromptBuilder;
+    onboardingPromptBuilder?: OnboardingPromptBuilder;
     intentionResolver: IntentionResolver;
     mil?: MIL;
     decisionStore?: DecisionStore;
@@ -87,6 +111,10 @@ let kernelComponents: {
     replayEngine?: ReplayEngine;
     decisionInvalidator?: DecisionInvalidator;
     decisionExtractor?: DecisionExtractor;
+    decisionGraph?: DecisionGraph;
+    decisionConflictDetector?: DecisionConflictDetector;
+    rl4UpdateManager?: RL4UpdateManager;
+    storageAccountant?: StorageAccountant;
 } | null = null;
 
 /**
@@ -202,6 +230,8 @@ async function handleQuery(msg: any): Promise<void> {
                     throw new Error(`Invalid mode: ${mode}`);
                 }
 
+                const budgetOptions = { tokenBudget: payload.tokenBudget, model: payload.model, branch: payload.branch || undefined };
+
                 // Resolve intention (Phase 0)
                 const intentionResolver = (kernelComponents as any).intentionResolver;
                 let result;
@@ -214,10 +244,10 @@ async function handleQuery(msg: any): Promise<void> {
                     });
                     kernelComponents.logger?.info?.(`[Kernel] Resolved intent: kind=${intent.kind}, mode=${intent.mode}, confidence=${intent.source.confidence}`);
                     // Pass intent to builder (backward-compat: builder accepts it but may ignore it)
-                    result = await promptBuilder.generate(mode, payload.cycleContext, intent);
+                    result = await promptBuilder.generate(mode, payload.cycleContext, intent, budgetOptions);
                 } else {
                     // Fallback if resolver not initialized (backward-compat)
-                    result = await promptBuilder.generate(mode, payload.cycleContext);
+                    result = await promptBuilder.generate(mode, payload.cycleContext, undefined, budgetOptions);
                 }
                 data = {
                     prompt: result.prompt,
@@ -226,6 +256,42 @@ async function handleQuery(msg: any): Promise<void> {
                 break;
             }
 
+            case 'get_git_branches': {
+                const gitListener = kernelComponents.gitListener;
+                data = {
+                    current: gitListener.getActiveBranch(),
+                    branches: await gitListener.listBranches()
+                };
+                break;
+            }
+
+            case 'explain_ignore': {
+                // "Pourquoi ce fichier est-il ignoré ?" selon les règles chargées par le watcher
+                const { path: filePath } = payload || {};
+                if (!filePath || typeof filePath !== 'string') {
+                    throw new Error('Missing path');
+                }
+                const verdict = kernelComponents.fsWatcher.explainIgnore(filePath);
+                data = { ...verdict, description: describeIgnoreVerdict(verdict) };
+                break;
+            }
+
+            case 'get_tokenizer': {
+                // Modèle cible du workspace et tokenizer utilisé pour dimensionner les prompts
+                data = describeTokenizer(loadTokenizerConfig(kernelComponents.workspaceRoot).model);
+                break;
+            }
+
+            case 'set_tokenizer_model': {
+                const { model } = payload || {};
+                if (!model || !MODEL_PROFILES[model]) {
+                    throw new Error(`Unknown model profile: ${model}`);
+                }
+                saveTokenizerConfig(kernelComponents.workspaceRoot, { model });
+                data = describeTokenizer(model);
+                break;
+            }
+
             case 'get_auto_tasks_count': {
                 const count = await (kernelComponents as any).planTasksContextParser.getActiveTaskCount();
                 data = { count };
@@ -351,12 +417,49 @@ async function handleQuery(msg: any): Promise<void> {
                 }
                 const result = await (kernelComponents as any).timeMachinePromptBuilder.build({
                     startIso: payload.startIso,
-                    endIso: payload.endIso
+                    endIso: payload.endIso,
+                    branch: payload.branch || undefined
                 });
                 data = result;
                 break;
             }
 
+            case 'build_explain_file_prompt':
+            case 'build_code_review_prompt':
+            case 'build_onboarding_prompt': {
+                // Intents explain_file / code_review / onboarding : un builder par intent
+                const intentionResolver = (kernelComponents as any).intentionResolver;
+                if (intentionResolver) {
+                    const intent = intentionResolver.resolve({
+                        command: query_type,
+                        mode: payload?.mode,
+                        projectState: payload?.projectState
+                    });
+                    kernelComponents.logger?.info?.(`[Kernel] Resolved intent: kind=${intent.kind}, mode=${intent.mode}, confidence=${intent.source.confidence}`);
+                }
+                const builder = query_type === 'build_explain_file_prompt' ? (kernelComponents as any).explainFilePromptBuilder
+                    : query_type === 'build_code_review_prompt' ? (kernelComponents as any).codeReviewPromptBuilder
+                    : (kernelComponents as any).onboardingPromptBuilder;
+                if (!builder) {
+                    throw new Error(`No prompt builder for ${query_type}`);
+                }
+                data = await builder.build(payload || {});
+                break;
+            }
+
+            case 'get_file_history': {
+                // Vue RL4 File History : événements, décisions, ADRs et commits d'un fichier
+                const collector = (kernelComponents as any).fileHistoryCollector;
+                if (!collector) {
+                    throw new Error('FileHistoryCollector not initialized');
+                }
+                if (!payload?.file) {
+                    throw new Error('get_file_history requires a file');
+                }
+                data = await collector.collect(payload.file, { refresh: payload.refresh === true });
+                break;
+            }
+
             case 'get_repo_delta': {
                 const delta = await (kernelComponents as any).deltaCalculator.calculateRepoDelta();
                 data = delta;
@@ -420,15 +523,18 @@ async function handleQuery(msg: any): Promise<void> {
                     throw new Error('DecisionExtractor or DecisionStore not initialized');
                 }
                 
-                const { response, rcepRef } = payload;
-                if (!response || !rcepRef) {
-                    throw new Error('Missing response or rcepRef');
+                const { response } = payload;
+                if (!response) {
+                    throw new Error('Missing response');
                 }
                 
-                // Extraire les décisions depuis la réponse LLM
-                const decisions = await decisionExtractor.extractFromResponse(response, rcepRef);
+                // Référence RCEP : explicite, sinon marqueur signé recopié dans la réponse
+                const rcepRef = decisionExtractor.resolveRCEPRef(response, payload.rcepRef);
                 
-                // Stocker chaque décision
+                // Extraire les décisions depuis la réponse LLM (acceptation partielle + rapport)
+                const { decisions, report } = await decisionExtractor.extractWithReport(response, rcepRef);
+                
+                // Stocker chaque décision (un échec de stockage passe la décision en rejetée)
                 let storedCount = 0;
                 for (const decision of decisions) {
                     try {
@@ -436,16 +542,62 @@ async function handleQuery(msg: any): Promise<void> {
                         storedCount++;
                     } catch (error: any) {
                         kernelComponents.logger?.error?.(`Failed to store decision ${decision.id}: ${error.message}`);
+                        const accepted = report.accepted.find(a => a.id === decision.id);
+                        report.accepted = report.accepted.filter(a => a !== accepted);
+                        report.rejected.push({
+                            block: accepted?.block ?? 0,
+                            index: accepted?.index ?? 0,
+                            intent: decision.intent,
+                            issues: [{ path: '', message: `Storage failed: ${error.message}` }],
+                            source: JSON.stringify(decision, null, 2)
+                        });
                     }
                 }
                 
+                // Blocs rl4_update : aperçus en attente d'approbation (gate sur les décisions rl4_update)
+                const rl4UpdateManager = (kernelComponents as any).rl4UpdateManager;
+                const updates = rl4UpdateManager ? await rl4UpdateManager.propose(response, decisions) : [];
+                
                 data = {
                     decisions: decisions.map(d => ({ id: d.id, intent: d.intent, confidence_llm: d.confidence_llm, confidence_gate: d.confidence_gate })),
-                    count: storedCount
+                    count: storedCount,
+                    rcepRef,
+                    report,
+                    updates
                 };
                 break;
             }
 
+            case 'get_rl4_updates': {
+                const rl4UpdateManager = (kernelComponents as any).rl4UpdateManager;
+                data = { updates: rl4UpdateManager ? rl4UpdateManager.list() : [] };
+                break;
+            }
+
+            case 'apply_rl4_update':
+            case 'discard_rl4_update': {
+                // Write-back approuvé (WAL + AtomicFS + ledger) ou écarté
+                const rl4UpdateManager = (kernelComponents as any).rl4UpdateManager;
+                if (!rl4UpdateManager) {
+                    throw new Error('RL4UpdateManager not initialized');
+                }
+                if (!payload?.id) {
+                    throw new Error('Missing update id');
+                }
+                const update = query_type === 'apply_rl4_update'
+                    ? await rl4UpdateManager.apply(payload.id)
+                    : await rl4UpdateManager.discard(payload.id);
+                data = { update };
+                break;
+            }
+
+            case 'get_decision_extraction_report': {
+                // Dernier rapport d'extraction (webview : corriger et renvoyer les décisions rejetées)
+                const decisionExtractor = (kernelComponents as any).decisionExtractor;
+                data = { report: decisionExtractor ? decisionExtractor.getLastReport() : null };
+                break;
+            }
+
             case 'get_decisions': {
                 // ⚠️ PHASE 10 : Récupérer les décisions par time range
                 const decisionStore = (kernelComponents as any).decisionStore;
@@ -510,12 +662,156 @@ async function handleQuery(msg: any): Promise<void> {
                         confidence_gate: d.confidence_gate,
                         timestamp: d.timestamp
                     })),
+                    rcepBlobCount: replayResult.rcepBlobCount,
                     hash: replayResult.hash,
                     timestamp: replayResult.timestamp
                 };
                 break;
             }
 
+            case 'replay_diff': {
+                // Diff structuré de deux trajectoires (fenêtres ou replays enregistrés par hash)
+                const replayEngine = (kernelComponents as any).replayEngine;
+
+                if (!replayEngine) {
+                    throw new Error('ReplayEngine not initialized');
+                }
+
+                const { a, b } = payload || {};
+                for (const target of [a, b]) {
+                    const isWindow = target && typeof target.startTime === 'number' && typeof target.endTime === 'number';
+                    const isRecorded = target && typeof target.hash === 'string';
+                    if (!isWindow && !isRecorded) {
+                        throw new Error('Each side must be {startTime, endTime} or {hash}');
+                    }
+                }
+
+                const comparison = await replayEngine.compare(a, b);
+                data = {
+                    ...comparison,
+                    recorded: replayEngine.getRecordedReplays()
+                };
+                break;
+            }
+
+            case 'query_events': {
+                // Requête composée MIL (EventQuery structuré ou syntaxe texte)
+                const mil = (kernelComponents as any).mil;
+
+                if (!mil) {
+                    throw new Error('MIL not initialized');
+                }
+
+                const { query } = payload;
+                if (typeof query !== 'string' && (typeof query !== 'object' || query === null)) {
+                    throw new Error('Missing or invalid query');
+                }
+
+                const events = await mil.query(query);
+
+                data = {
+                    events: events.map((e: any) => ({
+                        id: e.id,
+                        seq: e.seq,
+                        timestamp: e.timestamp,
+                        type: e.type,
+                        source: e.source,
+                        category: e.category,
+                        files: e.indexed_fields?.files || [],
+                        keywords: e.indexed_fields?.keywords || []
+                    })),
+                    count: events.length
+                };
+                break;
+            }
+
+            case 'get_decision_graph': {
+                // Graphe de lignée : complet (fenêtre temporelle) ou centré sur une décision
+                const decisionGraph = (kernelComponents as any).decisionGraph;
+
+                if (!decisionGraph) {
+                    throw new Error('DecisionGraph not initialized');
+                }
+
+                const { decisionId, startTime, endTime } = payload || {};
+
+                if (decisionId) {
+                    if (typeof decisionId !== 'string') {
+                        throw new Error('Invalid decisionId');
+                    }
+                    const lineage = await decisionGraph.getLineage(decisionId);
+                    data = {
+                        ...lineage.graph,
+                        decisionId,
+                        ancestors: lineage.ancestors,
+                        descendants: lineage.descendants
+                    };
+                } else {
+                    const graph = await decisionGraph.build(
+                        typeof startTime === 'number' ? startTime : 0,
+                        typeof endTime === 'number' ? endTime : Date.now()
+                    );
+                    data = graph;
+                }
+                break;
+            }
+
+            case 'get_decision_conflicts': {
+                // Décisions courantes contradictoires (même intent ou mêmes fichiers, options différentes)
+                const decisionConflictDetector = (kernelComponents as any).decisionConflictDetector;
+
+                if (!decisionConflictDetector) {
+                    throw new Error('DecisionConflictDetector not initialized');
+                }
+
+                const { startTime, endTime } = payload || {};
+                const conflicts = await decisionConflictDetector.detect(
+                    typeof startTime === 'number' ? startTime : 0,
+                    typeof endTime === 'number' ? endTime : Date.now()
+                );
+
+                data = {
+                    conflicts,
+                    count: conflicts.length
+                };
+                break;
+            }
+
+            case 'search_history': {
+                // Recherche plein texte (BM25) : commits, chats, ADRs, décisions
+                const mil = (kernelComponents as any).mil;
+
+                if (!mil) {
+                    throw new Error('MIL not initialized');
+                }
+
+                const { query, limit, kinds, startTime, endTime } = payload;
+                if (typeof query !== 'string' || !query.trim()) {
+                    throw new Error('Missing or invalid query');
+                }
+
+                // ADRs ajoutés ou modifiés depuis le boot (ledger écrit par l'extension)
+                const adrDocs = await new ADRParser(kernelComponents.workspaceRoot).getTextDocuments();
+                for (const doc of adrDocs) {
+                    if (!mil.hasTextDocument(doc.id, textDocumentHash(doc))) {
+                        mil.indexText(doc);
+                    }
+                }
+
+                const hits = mil.searchHistory(query, {
+                    limit: typeof limit === 'number' ? limit : undefined,
+                    kinds: Array.isArray(kinds) ? kinds : undefined,
+                    start: typeof startTime === 'number' ? startTime : undefined,
+                    end: typeof endTime === 'number' ? endTime : undefined
+                });
+
+                data = {
+                    hits,
+                    count: hits.length
+                };
+                break;
+            }
+
             case 'rebuild_cache': {
                 const cacheIndexer = (kernelComponents as any).cacheIndexer;
                 if (!cacheIndexer) {
@@ -529,6 +825,24 @@ async function handleQuery(msg: any): Promise<void> {
                 break;
             }
 
+            case 'get_storage_report': {
+                const storageAccountant = (kernelComponents as any).storageAccountant;
+                if (!storageAccountant) {
+                    throw new Error('StorageAccountant not initialized');
+                }
+                data = storageAccountant.measure();
+                break;
+            }
+
+            case 'reclaim_storage': {
+                const storageAccountant = (kernelComponents as any).storageAccountant;
+                if (!storageAccountant) {
+                    throw new Error('StorageAccountant not initialized');
+                }
+                data = await storageAccountant.reclaimAll();
+                break;
+            }
+
             default:
                 throw new Error(`Unknown query type: ${query_type}`);
         }
@@ -577,6 +891,15 @@ async function main() {
         process.exit(1);
     }
 
+    // Vocabulaires BPE : workspace d'abord, puis ceux livrés avec l'extension.
+    // Le bundle webpack garde le __dirname réel (out/kernel/process) : on part de la racine de l'extension.
+    const extensionPath = process.env.RL4_EXTENSION_PATH || path.join(__dirname, '..', '..', '..');
+    setTokenizerSearchPaths([
+        path.join(workspaceRoot, '.reasoning_rl4', 'tokenizers'),
+        path.join(extensionPath, 'out', 'kernel', 'tokenizer', 'vocab'),    // Copiés par compile:extension
+        path.join(extensionPath, 'kernel', 'tokenizer', 'vocab')            // Arbre source (développement)
+    ]);
+
     console.log(`[${new Date().toISOString()}] 🧠 RL4 Kernel starting in: ${workspaceRoot}`);
 
     // Ensure .reasoning_rl4 directory exists
@@ -620,7 +943,7 @@ async function main() {
     console.log(`[DIAG] [${Date.now()}] Init start: cyclesWriter`);
     const cyclesWriter = new AppendOnlyWriter(
         path.join(ledgerDir, 'cycles.jsonl'),
-        { fsync: false, mkdirRecursive: true }
+        { fsync: false, mkdirRecursive: true, chained: true }
     );
     await cyclesWriter.init();
     console.log(`[DIAG] [${Date.now()}] Init done: cyclesWriter`);
@@ -687,6 +1010,16 @@ async function main() {
     await gitListener.startWatching();
     console.log(`[DIAG] [${Date.now()}] GitCommitListener started`);
 
+    // Terminal : exécutions tracées par rl4.trackCommand / trackCommandEnd → MIL
+    const terminalListener = new TerminalCommandListener(workspaceRoot, mil, logger);
+    terminalListener.start(timerRegistry);
+    console.log(`[DIAG] [${Date.now()}] TerminalCommandListener started`);
+
+    // Build / tests : tâches VS Code (build_metrics.jsonl) et rapports Jest / JUnit / TAP → MIL
+    const buildResultListener = new BuildResultListener(workspaceRoot, mil, logger);
+    buildResultListener.start(timerRegistry);
+    console.log(`[DIAG] [${Date.now()}] BuildResultListener started`);
+
     console.log(`[DIAG] [${Date.now()}] Init start: HealthMonitor`);
     const healthMonitor = new HealthMonitor(workspaceRoot, timerRegistry);
     healthMonitor.start(timerRegistry);
@@ -697,7 +1030,26 @@ async function main() {
     await rbomLedger.init();
     console.log(`[DIAG] [${Date.now()}] Init start: WriteAheadLog`);
     const wal = WriteAheadLog.getInstance(workspaceRoot);
+    // Recovery : ré-appliquer les écritures perdues entre l'append WAL et AtomicFS (crash)
+    try {
+        const recovery = wal.recover();
+        if (recovery.reapplied.length > 0 || recovery.corruptedLines > 0) {
+            logger.warning(`[WAL] Recovered ${recovery.reapplied.length} lost write(s) (${recovery.reapplied.join(', ') || 'none'}), ${recovery.corruptedLines} corrupted line(s) dropped`);
+        }
+    } catch (error) {
+        logger.error(`[WAL] Recovery failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
     console.log(`[DIAG] [${Date.now()}] Init done: WriteAheadLog`);
+    // Vérification des chaînes de hash des ledgers : alimente ledger/state.json (merkleRoot du snapshot, Time Machine)
+    try {
+        const ledgerReport = verifyLedgers(workspaceRoot);
+        writeLedgerState(workspaceRoot, ledgerReport);
+        if (ledgerReport.firstBroken) {
+            logger.warning(`[Ledger] Hash chain broken at ${describeBrokenLink(ledgerReport.firstBroken)}`);
+        }
+    } catch (error) {
+        logger.error(`[Ledger] Verification failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
     console.log(`[DIAG] [${Date.now()}] Init start: SnapshotRotation`);
     const snapshotRotation = new SnapshotRotation(workspaceRoot);
     console.log(`[DIAG] [${Date.now()}] Init done: SnapshotRotation`);
@@ -801,21 +1153,43 @@ async function main() {
 
     // ⚠️ PHASE 11 : Initialize DecisionStore, RCEPStore, SCFCompressor, ReplayEngine, DecisionInvalidator, DecisionExtractor
     console.log(`[DIAG] [${Date.now()}] Init start: DecisionStore`);
-    const decisionStore = new DecisionStore(workspaceRoot);
+    const decisionStore = new DecisionStore(workspaceRoot, mil);  // MIL : index plein texte des décisions
     await decisionStore.init();
     console.log(`[DIAG] [${Date.now()}] Init done: DecisionStore`);
 
+    // Recherche plein texte : corps des ADRs (fichiers + ledger)
+    try {
+        for (const doc of await new ADRParser(workspaceRoot).getTextDocuments()) {
+            mil.indexText(doc);
+        }
+    } catch (error) {
+        logger.warning(`ADR full-text indexing failed: ${error}`);
+    }
+
     console.log(`[DIAG] [${Date.now()}] Init start: RCEPStore`);
     const rcepStore = new RCEPStore(workspaceRoot);
     console.log(`[DIAG] [${Date.now()}] Init done: RCEPStore`);
 
+    // Quotas de .reasoning_rl4/ (purge horaire, HOT jamais touchée)
+    console.log(`[DIAG] [${Date.now()}] Init start: StorageAccountant`);
+    const storageAccountant = new StorageAccountant(workspaceRoot, mil);
+    storageAccountant.start(timerRegistry);
+    storageAccountant.enforceQuotas().then(result => {
+        if (result.errors.length > 0) {
+            logger.warning(`Storage quota enforcement errors: ${result.errors.join(', ')}`);
+        }
+    }).catch(error => {
+        logger.warning(`Storage quota enforcement failed: ${error}`);
+    });
+    console.log(`[DIAG] [${Date.now()}] Init done: StorageAccountant`);
+
     console.log(`[DIAG] [${Date.now()}] Init start: SCFCompressor`);
     const scfCompressor = new SCFCompressor(mil, decisionStore, logger);
     console.log(`[DIAG] [${Date.now()}] Init done: SCFCompressor`);
 
     console.log(`[DIAG] [${Date.now()}] Init start: ReplayEngine`);
     const rcepDecoder = new PromptCodecRL4();
-    const replayEngine = new ReplayEngine(mil, decisionStore, rcepStore, scfCompressor, rcepDecoder, logger);
+    const replayEngine = new ReplayEngine(mil, decisionStore, rcepStore, scfCompressor, rcepDecoder, logger, new ReplayStore(workspaceRoot));
     console.log(`[DIAG] [${Date.now()}] Init done: ReplayEngine`);
 
     console.log(`[DIAG] [${Date.now()}] Init start: DecisionInvalidator`);
@@ -823,9 +1197,13 @@ async function main() {
     console.log(`[DIAG] [${Date.now()}] Init done: DecisionInvalidator`);
 
     console.log(`[DIAG] [${Date.now()}] Init start: DecisionExtractor`);
-    const decisionExtractor = new DecisionExtractor(decisionStore, mil, logger);
+    const decisionExtractor = new DecisionExtractor(decisionStore, mil, logger, rcepStore);
     console.log(`[DIAG] [${Date.now()}] Init done: DecisionExtractor`);
 
+    const decisionGraph = new DecisionGraph(decisionStore);
+    const decisionConflictDetector = new DecisionConflictDetector(decisionStore);
+    const rl4UpdateManager = new RL4UpdateManager(rl4Path, planParser, decisionStore, rbomLedger, logger);
+
     // Update UnifiedPromptBuilder with new components
     console.log(`[DIAG] [${Date.now()}] Updating UnifiedPromptBuilder with DecisionStore, RCEPStore, SCFCompressor`);
     const promptBuilder = new UnifiedPromptBuilder(rl4Path, logger, mil, decisionStore, rcepStore, scfCompressor);
@@ -834,6 +1212,11 @@ async function main() {
     const timeMachinePromptBuilder = new TimeMachinePromptBuilder(workspaceRoot, logger, mil, decisionStore, rcepStore, scfCompressor, replayEngine);
     console.log(`[DIAG] [${Date.now()}] Init done: TimeMachinePromptBuilder`);
 
+    const fileHistoryCollector = new FileHistoryCollector(workspaceRoot, mil, decisionStore, logger);
+    const explainFilePromptBuilder = new ExplainFilePromptBuilder(workspaceRoot, fileHistoryCollector, logger);
+    const codeReviewPromptBuilder = new CodeReviewPromptBuilder(workspaceRoot, fileHistoryCollector, logger);
+    const onboardingPromptBuilder = new OnboardingPromptBuilder(workspaceRoot, planParser, decisionStore, logger);
+
     console.log(`[DIAG] [${Date.now()}] Init start: IntentionResolver`);
     const intentionResolver = new IntentionResolver();
     console.log(`[DIAG] [${Date.now()}] Init done: IntentionResolver`);
@@ -861,6 +1244,8 @@ async function main() {
         execPool,
         fsWatcher,
         gitListener,
+        terminalListener,
+        buildResultListener,
         scheduler,
         healthMonitor,
         rbomLedger,
@@ -884,6 +1269,10 @@ async function main() {
         phaseDetector,
         systemStatusProvider,
         timeMachinePromptBuilder,
+        fileHistoryCollector,
+        explainFilePromptBuilder,
+        codeReviewPromptBuilder,
+        onboardingPromptBuilder,
         intentionResolver,
         mil,
         decisionStore,
@@ -891,7 +1280,11 @@ async function main() {
         scfCompressor,
         replayEngine,
         decisionInvalidator,
-        decisionExtractor
+        decisionExtractor,
+        decisionGraph,
+        decisionConflictDetector,
+        rl4UpdateManager,
+        storageAccountant
     } as any;
 
     // Setup IPC message handler (for fork-based communication)
@@ -0,0 +1,263 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+
+/**
+ * LedgerChain – hash chain + per-cycle Merkle root
+ * ------------------------------------------------
+ * Turns the "append-only by convention" JSONL ledgers into tamper-evident ones:
+ *  - every chained entry carries `prevHash` (hash of the previous entry) and `hash`
+ *    (sha256 of the entry serialized without its `hash` field)
+ *  - every cycle entry seals the chained writes of the cycle in a Merkle root,
+ *    anchored on each ledger's head hash and leaf count
+ *
+ * Legacy (unchained) lines before the first chained entry are linked by the hash of
+ * their raw text, so existing workspaces start a chain without rewriting history.
+ *
+ * A ledger can be appended to by several processes (kernel, extension ADR watchers):
+ * each chained append re-reads the on-disk head under a lock file (withLedgerLock),
+ * and cycle seals read the entries back from the file, whoever wrote them.
+ *
+ * ❗ Zero intelligence.
+ * ❗ Deterministic (same ledger → same hashes, same roots).
+ */
+
+export const GENESIS_HASH = "0".repeat(64);
+
+const LOCK_RETRY_MS = 10;
+const LOCK_STALE_MS = 10000;   // Lock left by a process killed mid-append
+
+export interface ChainedFields {
+    prevHash: string;
+    hash: string;
+}
+
+/**
+ * Leaves sealed for one ledger in one cycle: the last `count` entries ending at `head`
+ */
+export interface LedgerSeal {
+    head: string;
+    count: number;
+}
+
+export interface CycleSeal {
+    merkleRoot: string;
+    ledgers: Record<string, LedgerSeal>;   // Ledger name → sealed range (only ledgers written during the cycle)
+}
+
+export function sha256(data: string): string {
+    return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Hash of a chained entry (every field except `hash`, in serialization order)
+ */
+export function hashLedgerEntry(entry: Record<string, any>): string {
+    const { hash: _hash, ...content } = entry;
+    return sha256(JSON.stringify(content));
+}
+
+/**
+ * Link hash of a ledger line: its `hash` when chained, the hash of the raw line otherwise
+ */
+export function linkHashOf(line: string): string {
+    try {
+        const parsed = JSON.parse(line);
+        if (parsed && typeof parsed.hash === "string") {
+            return parsed.hash;
+        }
+    } catch {
+        // Unparsable legacy line: linked by its raw text
+    }
+    return sha256(line);
+}
+
+/**
+ * Head of a ledger file (GENESIS_HASH when missing or empty)
+ *
+ * Reads only the tail of the file: ledgers grow for the whole life of the workspace.
+ */
+export function readLedgerHead(filePath: string): string {
+    if (!fs.existsSync(filePath)) {
+        return GENESIS_HASH;
+    }
+    const size = fs.statSync(filePath).size;
+    if (size === 0) {
+        return GENESIS_HASH;
+    }
+    const fd = fs.openSync(filePath, "r");
+    try {
+        let chunkSize = Math.min(size, 64 * 1024);
+        while (true) {
+            const buffer = Buffer.alloc(chunkSize);
+            fs.readSync(fd, buffer, 0, chunkSize, size - chunkSize);
+            const lines = buffer.toString("utf-8").split("\n").filter(line => line.trim());
+            // The first line of a partial chunk may be cut: only trust it when the chunk is the whole file
+            if (lines.length > 1 || chunkSize === size) {
+                return lines.length > 0 ? linkHashOf(lines[lines.length - 1]) : GENESIS_HASH;
+            }
+            chunkSize = Math.min(size, chunkSize * 2);
+        }
+    } finally {
+        fs.closeSync(fd);
+    }
+}
+
+/**
+ * Hashes of the chained entries written after `sinceHash`, in file order
+ *
+ * Reads the tail of the file back until `sinceHash`; the whole file when it is not found
+ * (GENESIS_HASH, unknown head). A last line still being written (no newline) is left out.
+ */
+export function readChainedHashesSince(filePath: string, sinceHash: string): string[] {
+    if (!fs.existsSync(filePath)) {
+        return [];
+    }
+    const size = fs.statSync(filePath).size;
+    if (size === 0) {
+        return [];
+    }
+    const fd = fs.openSync(filePath, "r");
+    try {
+        let chunkSize = Math.min(size, 64 * 1024);
+        while (true) {
+            const buffer = Buffer.alloc(chunkSize);
+            fs.readSync(fd, buffer, 0, chunkSize, size - chunkSize);
+            const text = buffer.toString("utf-8");
+            const lines = text.slice(0, text.lastIndexOf("\n") + 1).split("\n");
+            if (chunkSize < size) {
+                lines.shift();  // May be cut
+            }
+
+            const links: Array<{ hash: string; chained: boolean }> = [];
+            for (const line of lines) {
+                if (!line.trim()) continue;
+                const hash = linkHashOf(line);
+                links.push({ hash, chained: hash !== sha256(line) });
+            }
+            const start = links.map(link => link.hash).lastIndexOf(sinceHash);
+            if (start >= 0 || chunkSize === size) {
+                return links.slice(start + 1).filter(link => link.chained).map(link => link.hash);
+            }
+            chunkSize = Math.min(size, chunkSize * 2);
+        }
+    } finally {
+        fs.closeSync(fd);
+    }
+}
+
+/**
+ * Run `task` holding the ledger's lock file (<ledger>.lock), shared by every process
+ */
+export async function withLedgerLock<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+    const lockPath = `${filePath}.lock`;
+    while (true) {
+        try {
+            const fd = fs.openSync(lockPath, "wx");
+            fs.writeSync(fd, String(process.pid));
+            fs.closeSync(fd);
+            break;
+        } catch (err: any) {
+            if (err.code !== "EEXIST") {
+                throw err;
+            }
+        }
+        try {
+            if (Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS) {
+                fs.unlinkSync(lockPath);
+                continue;
+            }
+        } catch {
+            continue;  // Released meanwhile
+        }
+        await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+
+    try {
+        return await task();
+    } finally {
+        try {
+            fs.unlinkSync(lockPath);
+        } catch {
+            // Already removed (taken over as stale)
+        }
+    }
+}
+
+/**
+ * Merkle root over leaf hashes (odd node promoted by pairing with itself, empty → GENESIS_HASH)
+ */
+export function computeMerkleRoot(leaves: string[]): string {
+    if (leaves.length === 0) {
+        return GENESIS_HASH;
+    }
+    let level = leaves;
+    while (level.length > 1) {
+        const next: string[] = [];
+        for (let i = 0; i < level.length; i += 2) {
+            const right = i + 1 < level.length ? level[i + 1] : level[i];
+            next.push(sha256(level[i] + right));
+        }
+        level = next;
+    }
+    return level[0];
+}
+
+/**
+ * Merkle root of a cycle: leaves of every sealed ledger, ledgers in name order, entries in file order
+ */
+export function cycleMerkleRoot(leavesByLedger: Record<string, string[]>): string {
+    const leaves: string[] = [];
+    for (const ledger of Object.keys(leavesByLedger).sort()) {
+        leaves.push(...leavesByLedger[ledger]);
+    }
+    return computeMerkleRoot(leaves);
+}
+
+/**
+ * CycleMerkle – seals the chained writes of the running cycle (one instance per workspace)
+ *
+ * Ledgers are tracked from their head when first registered; each seal reads back the
+ * entries appended since the previous seal, including those written by another process.
+ */
+export class CycleMerkle {
+    private static instances: Map<string, CycleMerkle> = new Map();
+    private tracked: Map<string, { filePath: string; sealedHead: string }> = new Map();
+
+    private constructor() {}
+
+    public static getInstance(workspaceRoot: string): CycleMerkle {
+        const key = path.resolve(workspaceRoot);
+        let instance = CycleMerkle.instances.get(key);
+        if (!instance) {
+            instance = new CycleMerkle();
+            CycleMerkle.instances.set(key, instance);
+        }
+        return instance;
+    }
+
+    /**
+     * Seal a ledger from the next cycle on (entries already in the file stay out of the seals)
+     */
+    track(ledger: string, filePath: string): void {
+        if (!this.tracked.has(ledger)) {
+            this.tracked.set(ledger, { filePath, sealedHead: readLedgerHead(filePath) });
+        }
+    }
+
+    /**
+     * Seal the current cycle: Merkle root of the entries appended since the last seal
+     */
+    seal(): CycleSeal {
+        const leavesByLedger: Record<string, string[]> = {};
+        const ledgers: Record<string, LedgerSeal> = {};
+        for (const [ledger, state] of this.tracked) {
+            const leaves = readChainedHashesSince(state.filePath, state.sealedHead);
+            if (leaves.length === 0) continue;
+            leavesByLedger[ledger] = leaves;
+            ledgers[ledger] = { head: leaves[leaves.length - 1], count: leaves.length };
+            state.sealedHead = leaves[leaves.length - 1];
+        }
+        return { merkleRoot: cycleMerkleRoot(leavesByLedger), ledgers };
+    }
+}
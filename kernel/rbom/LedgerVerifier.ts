@@ -0,0 +1,255 @@
+import * as fs from "fs";
+import * as path from "path";
+import { AtomicFS } from "../core/AtomicFS";
+import { WriteTracker } from "../WriteTracker";
+import { GENESIS_HASH, LedgerSeal, cycleMerkleRoot, hashLedgerEntry, sha256 } from "./LedgerChain";
+
+/**
+ * LedgerVerifier – walks every chained ledger and the cycle Merkle seals
+ * ----------------------------------------------------------------------
+ * Reports the first broken link (edited, removed, inserted or truncated entry) and
+ * records the verified state in .reasoning_rl4/ledger/state.json, which feeds the
+ * snapshot metadata (merkleRoot) and the Time Machine ledgerState section.
+ */
+
+/**
+ * Chained ledgers, relative to .reasoning_rl4/ (name = key used in the cycle seals)
+ *
+ * Never rotated: each chain is walked from GENESIS_HASH in its single file. They are HOT
+ * data (StorageAccountant never reclaims ledger/ or cognitive/), and RotationManager
+ * refuses to rotate them whatever its MemoryClass (see isChainedLedger).
+ */
+export const CHAINED_LEDGERS: Record<string, string> = {
+    "rbom": "ledger/rbom.jsonl",
+    "cycles": "ledger/cycles.jsonl",
+    "decisions": "cognitive/decisions.jsonl",
+    "decision_status": "cognitive/decision_status.jsonl",
+};
+
+/**
+ * Whether filePath is one of the chained ledgers of rl4Dir
+ */
+export function isChainedLedger(rl4Dir: string, filePath: string): boolean {
+    const relative = path.relative(rl4Dir, path.resolve(filePath)).split(path.sep).join("/");
+    return Object.values(CHAINED_LEDGERS).includes(relative);
+}
+
+export type BrokenLinkReason =
+    | "unparsable_line"       // Torn or edited line that is no longer JSON
+    | "hash_mismatch"         // Entry content changed after it was written
+    | "prev_hash_mismatch"    // Entry removed, inserted or reordered before this one
+    | "unchained_entry"       // Entry without hash after the chain started
+    | "seal_head_missing"     // Sealed entries missing from the ledger (truncation)
+    | "merkle_root_mismatch"; // Sealed entries no longer match the cycle root
+
+export interface BrokenLink {
+    ledger: string;
+    line: number;             // 1-based line in the ledger
+    sealedLedger?: string;    // Seal errors (ledger "cycles"): ledger whose sealed entries fail
+    reason: BrokenLinkReason;
+    expected?: string;
+    actual?: string;
+}
+
+export interface LedgerCheck {
+    ledger: string;
+    file: string;
+    entries: number;
+    chained: number;          // Entries carrying prevHash/hash (the rest is legacy)
+    head: string;
+    ok: boolean;
+}
+
+export interface LedgerVerificationReport {
+    verifiedAt: string;
+    ok: boolean;
+    ledgers: LedgerCheck[];
+    cyclesSealed: number;     // Cycle entries whose Merkle root was recomputed
+    lastCycleId?: number;
+    lastCycleMerkleRoot?: string;
+    firstBroken?: BrokenLink;
+}
+
+/**
+ * Content of ledger/state.json (read by UnifiedPromptBuilder and TimeMachinePromptBuilder)
+ */
+export interface LedgerState {
+    safeMode: boolean;
+    corruptionReason: string | null;
+    lastCycleId?: number;
+    lastCycleMerkleRoot?: string;
+    firstBroken?: BrokenLink;
+    updated: string;
+}
+
+interface WalkedLedger {
+    check: LedgerCheck;
+    hashes: string[];         // Chained entry hashes, file order
+    entries: any[];           // Parsed chained entries, file order
+    lines: number[];          // 1-based line of each chained entry
+    broken?: BrokenLink;
+}
+
+/**
+ * Walk one ledger from GENESIS_HASH (a single file: chained ledgers are never rotated)
+ */
+function walkLedger(ledger: string, rl4Dir: string): WalkedLedger {
+    const file = CHAINED_LEDGERS[ledger];
+    const walked: WalkedLedger = {
+        check: { ledger, file, entries: 0, chained: 0, head: GENESIS_HASH, ok: true },
+        hashes: [],
+        entries: [],
+        lines: []
+    };
+    const filePath = path.join(rl4Dir, file);
+    if (!fs.existsSync(filePath)) {
+        return walked;
+    }
+
+    const lines = fs.readFileSync(filePath, "utf-8").split("\n");
+    let expectedPrev = GENESIS_HASH;
+    for (let i = 0; i < lines.length && !walked.broken; i++) {
+        const line = lines[i];
+        if (!line.trim()) continue;
+        walked.check.entries++;
+
+        let entry: any;
+        try {
+            entry = JSON.parse(line);
+        } catch {
+            entry = null;
+        }
+        if (!entry || typeof entry.hash !== "string") {
+            if (walked.check.chained > 0) {
+                walked.broken = { ledger, line: i + 1, reason: entry ? "unchained_entry" : "unparsable_line" };
+                break;
+            }
+            // Legacy prefix: linked by the raw line
+            expectedPrev = sha256(line);
+            continue;
+        }
+
+        if (entry.prevHash !== expectedPrev) {
+            walked.broken = { ledger, line: i + 1, reason: "prev_hash_mismatch", expected: expectedPrev, actual: entry.prevHash };
+            break;
+        }
+        const recomputed = hashLedgerEntry(entry);
+        if (recomputed !== entry.hash) {
+            walked.broken = { ledger, line: i + 1, reason: "hash_mismatch", expected: recomputed, actual: entry.hash };
+            break;
+        }
+        walked.check.chained++;
+        walked.hashes.push(entry.hash);
+        walked.entries.push(entry);
+        walked.lines.push(i + 1);
+        expectedPrev = entry.hash;
+    }
+
+    walked.check.head = expectedPrev;
+    walked.check.ok = !walked.broken;
+    return walked;
+}
+
+/**
+ * Verify every chained ledger, then recompute each cycle's Merkle root from its seals
+ */
+export function verifyLedgers(workspaceRoot: string): LedgerVerificationReport {
+    const rl4Dir = path.join(workspaceRoot, ".reasoning_rl4");
+    const walked: Record<string, WalkedLedger> = {};
+    for (const ledger of Object.keys(CHAINED_LEDGERS)) {
+        walked[ledger] = walkLedger(ledger, rl4Dir);
+    }
+
+    const report: LedgerVerificationReport = {
+        verifiedAt: new Date().toISOString(),
+        ok: true,
+        ledgers: Object.values(walked).map(w => w.check),
+        cyclesSealed: 0
+    };
+    let firstBroken = Object.values(walked).find(w => w.broken)?.broken;
+
+    // Seals: the last `count` entries of each ledger ending at `head` must hash to the cycle root
+    const cycles = walked["cycles"];
+    const positions: Record<string, Map<string, number>> = {};
+    for (const ledger of Object.keys(walked)) {
+        positions[ledger] = new Map(walked[ledger].hashes.map((hash, index) => [hash, index]));
+    }
+    for (let i = 0; i < cycles.entries.length; i++) {
+        const cycle = cycles.entries[i];
+        if (typeof cycle.merkleRoot !== "string") continue;
+
+        const seals: Record<string, LedgerSeal> = cycle.ledgers || {};
+        const leavesByLedger: Record<string, string[]> = {};
+        let sealError: BrokenLink | undefined;
+        for (const [ledger, seal] of Object.entries(seals)) {
+            const index = positions[ledger]?.get(seal.head);
+            if (index === undefined || index + 1 < seal.count) {
+                sealError = { ledger: "cycles", line: cycles.lines[i], sealedLedger: ledger, reason: "seal_head_missing", expected: seal.head };
+                break;
+            }
+            leavesByLedger[ledger] = walked[ledger].hashes.slice(index + 1 - seal.count, index + 1);
+        }
+        if (!sealError) {
+            const recomputed = cycleMerkleRoot(leavesByLedger);
+            if (recomputed !== cycle.merkleRoot) {
+                sealError = { ledger: "cycles", line: cycles.lines[i], reason: "merkle_root_mismatch", expected: recomputed, actual: cycle.merkleRoot };
+            }
+        }
+        if (sealError) {
+            firstBroken = firstBroken ?? sealError;
+            break;
+        }
+
+        report.cyclesSealed++;
+        report.lastCycleId = cycle.cycleId;
+        report.lastCycleMerkleRoot = cycle.merkleRoot;
+    }
+
+    if (firstBroken) {
+        report.ok = false;
+        report.firstBroken = firstBroken;
+    }
+    return report;
+}
+
+/**
+ * Human-readable description of a broken link (state.json corruptionReason, command output)
+ */
+export function describeBrokenLink(link: BrokenLink): string {
+    const sealed = link.sealedLedger ? ` (${CHAINED_LEDGERS[link.sealedLedger] ?? link.sealedLedger})` : "";
+    return `${CHAINED_LEDGERS[link.ledger] ?? link.ledger}:${link.line} ${link.reason}${sealed}`;
+}
+
+/**
+ * Record a verification in ledger/state.json
+ */
+export function writeLedgerState(workspaceRoot: string, report: LedgerVerificationReport): LedgerState {
+    const state: LedgerState = {
+        safeMode: !report.ok,
+        corruptionReason: report.firstBroken ? describeBrokenLink(report.firstBroken) : null,
+        lastCycleId: report.lastCycleId,
+        lastCycleMerkleRoot: report.lastCycleMerkleRoot,
+        firstBroken: report.firstBroken,
+        updated: report.verifiedAt
+    };
+    const statePath = path.join(workspaceRoot, ".reasoning_rl4", "ledger", "state.json");
+    fs.mkdirSync(path.dirname(statePath), { recursive: true });
+    WriteTracker.getInstance().markInternalWrite(statePath);
+    AtomicFS.writeAtomicSync(statePath, JSON.stringify(state, null, 2));
+    return state;
+}
+
+/**
+ * Last recorded verification (null when the ledgers were never verified)
+ */
+export function loadLedgerState(workspaceRoot: string): LedgerState | null {
+    const statePath = path.join(workspaceRoot, ".reasoning_rl4", "ledger", "state.json");
+    if (!fs.existsSync(statePath)) {
+        return null;
+    }
+    try {
+        return JSON.parse(fs.readFileSync(statePath, "utf-8"));
+    } catch {
+        return null;
+    }
+}
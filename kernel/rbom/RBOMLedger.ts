@@ -1,6 +1,7 @@
 import * as fs from "fs";
 import * as path from "path";
 import { AppendOnlyWriter } from "../AppendOnlyWriter";
+import { CycleMerkle } from "./LedgerChain";
 
 /**
  * RBOMLedger – RL6 Stable Edition
@@ -19,6 +20,7 @@ import { AppendOnlyWriter } from "../AppendOnlyWriter";
  * ❗ Durable append-only operations.
  * ❗ JSONL-based.
  * ❗ Resistant to corruption.
+ * ❗ Hash-chained (prevHash/hash, see LedgerChain) — writes sealed in the cycle Merkle root.
  */
 
 export interface RBOMEntry {
@@ -26,6 +28,8 @@ export interface RBOMEntry {
     type: string;             // e.g., "session_start", "commit", "file_change", "snapshot", …
     timestamp: string;        // ISO 8601
     payload: any;             // arbitrary structured data
+    prevHash?: string;        // Set by the chained writer (absent on legacy entries)
+    hash?: string;
 }
 
 export class RBOMLedger {
@@ -44,7 +48,9 @@ export class RBOMLedger {
             fsync: false,
             mkdirRecursive: true,
             maxRetries: 5,
+            chained: true,
         });
+        CycleMerkle.getInstance(workspaceRoot).track("rbom", this.ledgerPath);
     }
 
     /**
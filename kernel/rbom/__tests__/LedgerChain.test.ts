@@ -0,0 +1,151 @@
+/**
+ * Tests for the hash-chained ledgers
+ *
+ * Verifies that chained writers link every entry to the previous one (legacy lines
+ * included), that cycle seals recompute to the recorded Merkle root, and that the
+ * verifier reports the first broken link after an edit or a removal. Chained ledgers
+ * are never rotated, since the verifier walks each one from genesis in a single file.
+ * Two writers on the same ledger (kernel + extension ADR watchers) keep one chain.
+ */
+
+import { RBOMLedger } from '../RBOMLedger';
+import { CycleMerkle, GENESIS_HASH } from '../LedgerChain';
+import { verifyLedgers, writeLedgerState } from '../LedgerVerifier';
+import { AppendOnlyWriter } from '../../AppendOnlyWriter';
+import { RotationManager } from '../../persistence/RotationManager';
+import { MemoryClass } from '../../memory/MemoryClass';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('LedgerChain - Hash chain and cycle Merkle root', () => {
+  let testWorkspaceRoot: string;
+  let ledgerDir: string;
+
+  // Two cycles: rbom entries sealed by chained cycle entries (as CognitiveScheduler does)
+  async function writeCycles(): Promise<string[]> {
+    const rbom = new RBOMLedger(testWorkspaceRoot);
+    const cycles = new AppendOnlyWriter(path.join(ledgerDir, 'cycles.jsonl'), { chained: true });
+    await rbom.init();
+    await cycles.init();
+
+    const roots: string[] = [];
+    for (let cycleId = 1; cycleId <= 2; cycleId++) {
+      await rbom.append('file_change', { file: `src/file${cycleId}.ts` });
+      await rbom.append('commit', { sha: `abc${cycleId}` });
+      const seal = CycleMerkle.getInstance(testWorkspaceRoot).seal();
+      await cycles.append({ cycleId, merkleRoot: seal.merkleRoot, ledgers: seal.ledgers });
+      roots.push(seal.merkleRoot);
+    }
+
+    await rbom.close();
+    await cycles.close();
+    return roots;
+  }
+
+  beforeEach(() => {
+    testWorkspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'rl4-ledger-test-'));
+    ledgerDir = path.join(testWorkspaceRoot, '.reasoning_rl4', 'ledger');
+    fs.mkdirSync(ledgerDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testWorkspaceRoot)) {
+      fs.rmSync(testWorkspaceRoot, { recursive: true, force: true });
+    }
+  });
+
+  test('should chain entries after legacy lines and verify cycle roots', async () => {
+    fs.writeFileSync(path.join(ledgerDir, 'rbom.jsonl'), '{"id":"legacy","type":"session_start"}\n');
+    const roots = await writeCycles();
+
+    const entries = fs.readFileSync(path.join(ledgerDir, 'rbom.jsonl'), 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+    expect(entries[1].prevHash).not.toBe(GENESIS_HASH); // Linked to the legacy line
+    expect(entries[2].prevHash).toBe(entries[1].hash);
+
+    const report = verifyLedgers(testWorkspaceRoot);
+    expect(report.ok).toBe(true);
+    expect(report.cyclesSealed).toBe(2);
+    expect(report.lastCycleId).toBe(2);
+    expect(report.lastCycleMerkleRoot).toBe(roots[1]);
+    expect(report.ledgers.find(l => l.ledger === 'rbom')).toMatchObject({ entries: 5, chained: 4, ok: true });
+
+    const state = writeLedgerState(testWorkspaceRoot, report);
+    expect(state).toMatchObject({ safeMode: false, corruptionReason: null, lastCycleMerkleRoot: roots[1] });
+  });
+
+  test('should report the first broken link after an edit or a removal', async () => {
+    await writeCycles();
+    const rbomPath = path.join(ledgerDir, 'rbom.jsonl');
+    const original = fs.readFileSync(rbomPath, 'utf-8');
+    const lines = original.trim().split('\n');
+
+    // Edited payload: the entry no longer matches its hash
+    fs.writeFileSync(rbomPath, original.replace('src/file2.ts', 'src/other.ts'));
+    let report = verifyLedgers(testWorkspaceRoot);
+    expect(report.ok).toBe(false);
+    expect(report.firstBroken).toMatchObject({ ledger: 'rbom', line: 3, reason: 'hash_mismatch' });
+    expect(report.lastCycleId).toBe(1);
+
+    // Removed entry: the next one points to a missing predecessor
+    fs.writeFileSync(rbomPath, [lines[0], ...lines.slice(2)].join('\n') + '\n');
+    report = verifyLedgers(testWorkspaceRoot);
+    expect(report.firstBroken).toMatchObject({ ledger: 'rbom', line: 2, reason: 'prev_hash_mismatch' });
+
+    // Truncated tail: chain intact, but the last cycle seal points past the end
+    fs.writeFileSync(rbomPath, lines.slice(0, 3).join('\n') + '\n');
+    report = verifyLedgers(testWorkspaceRoot);
+    expect(report.firstBroken).toMatchObject({ ledger: 'cycles', line: 2, sealedLedger: 'rbom', reason: 'seal_head_missing' });
+    expect(writeLedgerState(testWorkspaceRoot, report)).toMatchObject({
+      safeMode: true,
+      corruptionReason: 'ledger/cycles.jsonl:2 seal_head_missing (ledger/rbom.jsonl)'
+    });
+  });
+
+  test('should keep one chain and seal every entry with two writers on the same ledger', async () => {
+    const kernelLedger = new RBOMLedger(testWorkspaceRoot);
+    const extensionLedger = new RBOMLedger(testWorkspaceRoot);  // Own writer, as in the ADR watchers
+    const cycles = new AppendOnlyWriter(path.join(ledgerDir, 'cycles.jsonl'), { chained: true });
+    await kernelLedger.init();
+    await extensionLedger.init();
+
+    await kernelLedger.append('file_change', { file: 'src/a.ts' });
+    await extensionLedger.append('adr_added', { adrId: 'adr-001' });
+    await kernelLedger.append('commit', { sha: 'abc1' });
+    await Promise.all([
+      kernelLedger.append('file_change', { file: 'src/b.ts' }),
+      extensionLedger.append('adr_added', { adrId: 'adr-002' }),
+      kernelLedger.append('commit', { sha: 'abc2' })
+    ]);
+    const seal = CycleMerkle.getInstance(testWorkspaceRoot).seal();
+    await cycles.append({ cycleId: 1, merkleRoot: seal.merkleRoot, ledgers: seal.ledgers });
+    await kernelLedger.close();
+    await extensionLedger.close();
+    await cycles.close();
+
+    expect(seal.ledgers.rbom.count).toBe(6);
+    expect(fs.readdirSync(ledgerDir).sort()).toEqual(['cycles.jsonl', 'rbom.jsonl']);  // Lock released
+    const report = verifyLedgers(testWorkspaceRoot);
+    expect(report.ok).toBe(true);
+    expect(report.cyclesSealed).toBe(1);
+    expect(report.ledgers.find(l => l.ledger === 'rbom')).toMatchObject({ entries: 6, chained: 6, ok: true });
+  });
+
+  test('should refuse to rotate a chained ledger whatever the memory class', async () => {
+    await writeCycles();
+    const manager = new RotationManager(testWorkspaceRoot, {
+      maxFileSizeMB: 0,
+      maxAgeDays: 0,
+      enableArchiving: false,
+      enableCompression: false,
+      memoryClass: MemoryClass.WARM
+    });
+
+    const result = await manager.rotateFile(path.join(ledgerDir, 'rbom.jsonl'), 'quota');
+
+    expect(result.rotated).toEqual([]);
+    expect(result.errors).toEqual([`Cannot rotate chained ledger: ${path.join(ledgerDir, 'rbom.jsonl')}`]);
+    expect(fs.readdirSync(ledgerDir).sort()).toEqual(['cycles.jsonl', 'rbom.jsonl']);
+    expect(verifyLedgers(testWorkspaceRoot).ok).toBe(true);
+  });
+});
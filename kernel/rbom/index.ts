@@ -5,8 +5,10 @@
  */
 
 import { RBOMLedger, RBOMEntry } from './RBOMLedger';
+import { verifyLedgers, writeLedgerState, loadLedgerState, describeBrokenLink, LedgerVerificationReport, LedgerState } from './LedgerVerifier';
 
 export { RBOMLedger, RBOMEntry };
+export { verifyLedgers, writeLedgerState, loadLedgerState, describeBrokenLink, LedgerVerificationReport, LedgerState };
 
 // Global ledger instance for backward compatibility
 let globalLedger: RBOMLedger | null = null;
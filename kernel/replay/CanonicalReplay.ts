@@ -11,6 +11,7 @@
 import { UnifiedEvent, EventType } from '../memory/types';
 import { CognitiveDecision } from '../cognitive/DecisionSchema';
 import { SCFDocument } from '../scf/SCFTypes';
+import { PromptContext } from '../context/types/PromptContext';
 
 export interface CanonicalReplay {
   events: Array<{
@@ -29,6 +30,17 @@ export interface CanonicalReplay {
     refs: string[];
     params: Record<string, any>;  // Sérialisation stable
   }>;  // Opérateurs SCF triés strictement
+  rcep?: {
+    layers: string[];
+    topics: string[];
+    timeline: string[];  // ptr, dans l'ordre de la timeline fusionnée
+    decisions: Array<{
+      id: number;
+      type: string;
+      weight: number;
+      inputs: string[];  // ptr (indépendants de la numérotation)
+    }>;
+  };  // PromptContext fusionné (présent si des blobs RCEP couvrent la fenêtre)
 }
 
 export class CanonicalReplayBuilder {
@@ -40,7 +52,8 @@ export class CanonicalReplayBuilder {
   static toCanonical(
     events: UnifiedEvent[],
     decisions: CognitiveDecision[],
-    scf: SCFDocument
+    scf: SCFDocument,
+    context?: PromptContext
   ): CanonicalReplay {
     // Tri strict des events par seq
     const canonicalEvents = events
@@ -83,7 +96,28 @@ export class CanonicalReplayBuilder {
     return {
       events: canonicalEvents,
       decisions: canonicalDecisions,
-      scf_ops: canonicalOps
+      scf_ops: canonicalOps,
+      ...(context ? { rcep: this.canonicalContext(context) } : {})
+    };
+  }
+
+  /**
+   * Forme canonique du PromptContext fusionné (noms et ptr, pas d'IDs locaux)
+   */
+  private static canonicalContext(context: PromptContext): NonNullable<CanonicalReplay['rcep']> {
+    const ptrById = new Map(context.timeline.map(e => [e.id, e.ptr]));
+    return {
+      layers: context.layers.map(l => l.name).sort(),
+      topics: context.topics.map(t => t.name).sort(),
+      timeline: context.timeline.map(e => e.ptr),
+      decisions: context.decisions
+        .map(d => ({
+          id: d.id,
+          type: d.type,
+          weight: d.weight,
+          inputs: d.inputs.map(i => ptrById.get(i) || '').filter(Boolean).sort()
+        }))
+        .sort((a, b) => a.id - b.id)
     };
   }
 
@@ -0,0 +1,155 @@
+/**
+ * ContextMerger - Fusion Déterministe de Plusieurs PromptContext (blobs RCEP)
+ *
+ * Un replay sur une fenêtre couvre plusieurs snapshots : chaque blob RCEP décodé est
+ * fusionné pour que le résultat reflète toute la fenêtre, pas seulement le dernier blob.
+ *
+ * Règles :
+ * - Blobs ordonnés par seq (metadata.encodingTime), puis par contenu canonique (ex-aequo)
+ * - Layers / topics : union par nom, le blob le plus récent fixe weight / parent
+ * - Timeline : dédupliquée par ptr, triée par (time, ptr), IDs renumérotés
+ * - Decisions : les id sont des compteurs locaux à chaque blob (UnifiedPromptBuilder) ;
+ *   identifiées par leur contenu (type, weight, ptr des inputs), dédupliquées puis renumérotées
+ * - Insights : dédupliqués par (type, ptr liés), le plus récent l'emporte
+ *
+ * ⚠️ VERROU 3 RENFORCÉ : Le résultat ne dépend pas de l'ordre d'entrée des blobs,
+ * condition nécessaire pour un hash CanonicalReplay stable.
+ */
+
+import { PromptContext, Layer, Topic, TimelineEvent, Decision, Insight } from '../context/types/PromptContext';
+
+/**
+ * Fusionne plusieurs PromptContext en un seul (indépendant de l'ordre d'entrée)
+ */
+export function mergePromptContexts(contexts: PromptContext[]): PromptContext {
+  if (contexts.length === 0) {
+    throw new Error('[ContextMerger] Nothing to merge');
+  }
+
+  // 1. Ordre canonique : seq du blob, puis contenu sérialisé pour départager
+  const ordered = contexts
+    .map(ctx => ({ ctx, key: JSON.stringify(ctx) }))
+    .sort((a, b) => (a.ctx.metadata.encodingTime - b.ctx.metadata.encodingTime) || compare(a.key, b.key))
+    .map(entry => entry.ctx);
+
+  // 2. Timeline : dédupliquée par ptr (première occurrence conservée, type du plus récent)
+  const eventsByPtr = new Map<string, Omit<TimelineEvent, 'id'>>();
+  for (const ctx of ordered) {
+    for (const event of ctx.timeline) {
+      const existing = eventsByPtr.get(event.ptr);
+      eventsByPtr.set(event.ptr, {
+        time: existing ? Math.min(existing.time, event.time) : event.time,
+        type: event.type,
+        ptr: event.ptr
+      });
+    }
+  }
+  const timeline: TimelineEvent[] = [...eventsByPtr.values()]
+    .sort((a, b) => (a.time - b.time) || compare(a.ptr, b.ptr))
+    .map((event, id) => ({ id, ...event }));
+  const timelineIdByPtr = new Map(timeline.map(e => [e.ptr, e.id]));
+
+  // IDs locaux d'un blob → IDs de la timeline fusionnée
+  const remapTimelineRefs = (ctx: PromptContext, refs: number[]): number[] => {
+    const ptrById = new Map(ctx.timeline.map(e => [e.id, e.ptr]));
+    const remapped = refs
+      .map(ref => ptrById.get(ref))
+      .filter((ptr): ptr is string => ptr !== undefined && timelineIdByPtr.has(ptr))
+      .map(ptr => timelineIdByPtr.get(ptr)!);
+    return [...new Set(remapped)].sort((a, b) => a - b);
+  };
+
+  // 3. Layers : union par nom, parent exprimé par nom puis renuméroté
+  const layersByName = new Map<string, { weight: number; parentName: string | null }>();
+  for (const ctx of ordered) {
+    const nameById = new Map(ctx.layers.map(l => [l.id, l.name]));
+    for (const layer of ctx.layers) {
+      const parentName = layer.parent === 'ROOT' ? null : nameById.get(layer.parent) ?? null;
+      layersByName.set(layer.name, { weight: layer.weight, parentName });
+    }
+  }
+  const layerNames = [...layersByName.keys()];
+  const layerIdByName = new Map(layerNames.map((name, id) => [name, id]));
+  const layers: Layer[] = layerNames.map((name, id) => {
+    const { weight, parentName } = layersByName.get(name)!;
+    const parentId = parentName !== null ? layerIdByName.get(parentName) : undefined;
+    return { id, name, weight, parent: parentId !== undefined && parentId !== id ? parentId : 'ROOT' };
+  });
+
+  // 4. Topics : union par nom, refs (layers) remappées par nom
+  const topicsByName = new Map<string, { weight: number; refs: Set<number> }>();
+  for (const ctx of ordered) {
+    const layerNameById = new Map(ctx.layers.map(l => [l.id, l.name]));
+    for (const topic of ctx.topics) {
+      const refs = topic.refs
+        .map(ref => layerNameById.get(ref))
+        .filter((name): name is string => name !== undefined)
+        .map(name => layerIdByName.get(name)!);
+      const existing = topicsByName.get(topic.name);
+      topicsByName.set(topic.name, {
+        weight: topic.weight,
+        refs: new Set([...(existing?.refs || []), ...refs])
+      });
+    }
+  }
+  const topics: Topic[] = [...topicsByName.entries()].map(([name, topic], id) => ({
+    id,
+    name,
+    weight: topic.weight,
+    refs: [...topic.refs].sort((a, b) => a - b)
+  }));
+
+  // 5. Decisions : dédupliquées par contenu (inputs remappés via ptr) ; deux décisions
+  //    identiques dans un même blob restent distinctes (rang d'occurrence dans la clé)
+  const decisionsByKey = new Map<string, Omit<Decision, 'id'>>();
+  for (const ctx of ordered) {
+    const occurrences = new Map<string, number>();
+    for (const decision of ctx.decisions) {
+      const inputs = remapTimelineRefs(ctx, decision.inputs);
+      const content = `${decision.type}:${decision.weight}:${inputs.join(',')}`;
+      const occurrence = occurrences.get(content) || 0;
+      occurrences.set(content, occurrence + 1);
+      decisionsByKey.set(`${content}#${occurrence}`, { type: decision.type, weight: decision.weight, inputs });
+    }
+  }
+  const decisions: Decision[] = [...decisionsByKey.entries()]
+    .sort(([keyA, a], [keyB, b]) => compareRefs(a.inputs, b.inputs) || compare(keyA, keyB))
+    .map(([, decision], id) => ({ id, ...decision }));
+
+  // 6. Insights : dédupliqués par (type, ptr liés)
+  const insightsByKey = new Map<string, Omit<Insight, 'id'>>();
+  for (const ctx of ordered) {
+    for (const insight of ctx.insights) {
+      const links = remapTimelineRefs(ctx, insight.links);
+      insightsByKey.set(`${insight.type}:${links.join(',')}`, { type: insight.type, salience: insight.salience, links });
+    }
+  }
+  const insights: Insight[] = [...insightsByKey.entries()]
+    .sort(([a], [b]) => compare(a, b))
+    .map(([, insight], id) => ({ id, ...insight }));
+
+  // 7. Metadata / résumé : blob le plus récent
+  const latest = ordered[ordered.length - 1];
+  const withSummary = [...ordered].reverse().find(ctx => ctx.humanSummary);
+
+  return {
+    metadata: { ...latest.metadata },
+    layers,
+    topics,
+    timeline,
+    decisions,
+    insights,
+    ...(withSummary?.humanSummary ? { humanSummary: { ...withSummary.humanSummary } } : {})
+  };
+}
+
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareRefs(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
@@ -0,0 +1,87 @@
+/**
+ * ReplayDiff - Diff Structuré entre Deux CanonicalReplay
+ *
+ * Explique pourquoi deux hashes de replay diffèrent :
+ * - events ajoutés / retirés (par id)
+ * - décisions ajoutées / retirées, et décisions dont confidence_gate a changé
+ * - opérateurs SCF ajoutés / retirés (par forme canonique)
+ * - timeline RCEP fusionnée : ptr ajoutés / retirés
+ *
+ * ⚠️ ZERO-INTELLIGENCE : Comparaison ensembliste des formes canoniques, aucune interprétation.
+ */
+
+import { CanonicalReplay, CanonicalReplayBuilder } from './CanonicalReplay';
+
+type CanonicalEvent = CanonicalReplay['events'][number];
+type CanonicalDecision = CanonicalReplay['decisions'][number];
+type CanonicalOperator = CanonicalReplay['scf_ops'][number];
+
+export interface ReplayDiff {
+  identical: boolean;
+  events: {
+    added: CanonicalEvent[];
+    removed: CanonicalEvent[];
+  };
+  decisions: {
+    added: CanonicalDecision[];
+    removed: CanonicalDecision[];
+    gate_changed: Array<{
+      id: string;
+      intent: string;
+      from: 'pass' | 'fail';
+      to: 'pass' | 'fail';
+    }>;
+  };
+  scf_ops: {
+    added: CanonicalOperator[];
+    removed: CanonicalOperator[];
+  };
+  rcep_timeline: {
+    added: string[];
+    removed: string[];
+  };
+}
+
+/**
+ * Diff de a (référence) vers b : "added" = présent dans b seulement
+ */
+export function diffReplays(a: CanonicalReplay, b: CanonicalReplay): ReplayDiff {
+  const events = diffBy(a.events, b.events, e => e.id);
+  const decisions = diffBy(a.decisions, b.decisions, d => d.id);
+  const opKey = (op: CanonicalOperator) => CanonicalReplayBuilder.toCanonicalJSON({ events: [], decisions: [], scf_ops: [op] });
+  const scfOps = diffBy(a.scf_ops, b.scf_ops, opKey);
+  const timeline = diffBy(a.rcep?.timeline || [], b.rcep?.timeline || [], ptr => ptr);
+
+  const decisionsA = new Map(a.decisions.map(d => [d.id, d]));
+  const gateChanged: ReplayDiff['decisions']['gate_changed'] = [];
+  for (const decision of b.decisions) {
+    const before = decisionsA.get(decision.id);
+    if (before && before.confidence_gate !== decision.confidence_gate) {
+      gateChanged.push({ id: decision.id, intent: decision.intent, from: before.confidence_gate, to: decision.confidence_gate });
+    }
+  }
+
+  const diff: ReplayDiff = {
+    identical: false,
+    events,
+    decisions: { ...decisions, gate_changed: gateChanged },
+    scf_ops: scfOps,
+    rcep_timeline: timeline
+  };
+  diff.identical = [events, decisions, scfOps, timeline].every(d => d.added.length === 0 && d.removed.length === 0)
+    && gateChanged.length === 0;
+
+  return diff;
+}
+
+/**
+ * Différence ensembliste par clé, ordre d'origine conservé
+ */
+function diffBy<T>(a: T[], b: T[], key: (item: T) => string): { added: T[]; removed: T[] } {
+  const keysA = new Set(a.map(key));
+  const keysB = new Set(b.map(key));
+  return {
+    added: b.filter(item => !keysA.has(key(item))),
+    removed: a.filter(item => !keysB.has(key(item)))
+  };
+}
@@ -18,16 +18,41 @@ import { PromptCodecRL4 } from '../rl4/PromptCodecRL4';
 import { PromptContext } from '../context/types/PromptContext';
 import { ILogger } from '../core/ILogger';
 import { ReplayResult } from './ReplayResult';
-import { CanonicalReplayBuilder } from './CanonicalReplay';
+import { CanonicalReplay, CanonicalReplayBuilder } from './CanonicalReplay';
+import { mergePromptContexts } from './ContextMerger';
+import { diffReplays, ReplayDiff } from './ReplayDiff';
+import { ReplayStore } from './ReplayStore';
+
+/**
+ * Côté d'une comparaison : une fenêtre rejouée maintenant, ou un replay déjà enregistré (par hash)
+ */
+export type ReplayTarget =
+  | { startTime: number; endTime: number; anchorEventId?: string }
+  | { hash: string };
+
+export interface RecordedReplay {
+  hash: string;
+  startTime: number;
+  endTime: number;
+  timestamp: number;
+  canonical: CanonicalReplay;
+}
+
+const MAX_RECORDED_REPLAYS = 20;
 
 export class ReplayEngine {
+  // Derniers replays (par hash) pour comparer deux passes sur la même période ;
+  // replayStore les conserve sur disque (COLD) pour les comparer après un redémarrage
+  private recorded: Map<string, RecordedReplay> = new Map();
+
   constructor(
     private mil: MIL,
     private decisionStore: DecisionStore,
     private rcepStore: RCEPStore,
     private scfCompressor: SCFCompressor,
     private rcepDecoder: PromptCodecRL4,
-    private logger?: ILogger
+    private logger?: ILogger,
+    private replayStore?: ReplayStore
   ) {}
 
   /**
@@ -43,75 +68,146 @@ export class ReplayEngine {
     // 1. Load RCEP blobs (source de vérité)
     const rcepBlobs = await this.rcepStore.getByTimeRange(startTime, endTime);
     
-    // 2. Reconstruct events from MIL
+    // 2. Reconstruct events from MIL (segments archivés inclus si la fenêtre les atteint)
     const events = await this.mil.queryTemporal(startTime, endTime);
     
     // 3. Reconstruct decisions
     const decisions = await this.decisionStore.getByTimeRange(startTime, endTime);
     
     // 4. ⚠️ CRITIQUE : Reconstruct SCF from RCEP (régénération)
-    //    - Decode RCEP → PromptContext
-    //    - Compress PromptContext → SCF (régénération)
+    //    - Decode chaque blob RCEP → PromptContext
+    //    - Merge déterministe de tous les blobs de la fenêtre
+    //    - Compress PromptContext fusionné → SCF (régénération)
     let scf;
-    if (rcepBlobs.length > 0) {
-      // Décoder le premier blob RCEP (ou merger plusieurs blobs)
-      // Pour l'instant, on prend le dernier blob
-      const lastBlob = rcepBlobs[rcepBlobs.length - 1];
-      
+    let mergedContext: PromptContext | undefined;
+    const contexts = this.decodeRCEPBlobs(rcepBlobs);
+    if (contexts.length > 0) {
       try {
-        // Décoder RCEP → PromptContext
-        const promptContext = await this.decodeRCEPToContext(lastBlob);
+        const promptContext = mergePromptContexts(contexts);
+        mergedContext = promptContext;
         
         // Compresser PromptContext → SCF (régénération)
         scf = await this.scfCompressor.compress(promptContext, anchorEventId);
       } catch (error) {
         this.logger?.error?.(`[ReplayEngine] Failed to reconstruct SCF from RCEP: ${error}`);
         // Fallback : créer un SCF minimal
+        mergedContext = undefined;
         scf = await this.createMinimalSCF(events, decisions, anchorEventId);
       }
     } else {
-      // Pas de RCEP disponible, créer un SCF minimal
+      // Pas de RCEP décodable, créer un SCF minimal
       scf = await this.createMinimalSCF(events, decisions, anchorEventId);
     }
     
     // 5. Calculate replay hash (deterministic via CanonicalReplay)
-    const hash = this.calculateReplayHash(events, decisions, scf);
+    const canonical = CanonicalReplayBuilder.toCanonical(events, decisions, scf, mergedContext);
+    const hash = this.calculateReplayHash(canonical);
+    const timestamp = Date.now();
+    
+    this.record({ hash, startTime, endTime, timestamp, canonical });
     
     return {
       events,
       decisions,
       scf,  // ← SCF régénéré, jamais relu
+      context: mergedContext,
+      rcepBlobCount: contexts.length,
+      canonical,
       hash,
-      timestamp: Date.now()
+      timestamp
+    };
+  }
+
+  /**
+   * Compare deux trajectoires (fenêtres rejouées ou replays enregistrés)
+   * 
+   * Explique pourquoi deux hashes diffèrent : diff structuré des CanonicalReplay
+   */
+  async compare(a: ReplayTarget, b: ReplayTarget): Promise<{
+    a: Omit<RecordedReplay, 'canonical'>;
+    b: Omit<RecordedReplay, 'canonical'>;
+    diff: ReplayDiff;
+  }> {
+    const left = await this.resolveTarget(a);
+    const right = await this.resolveTarget(b);
+    const { canonical: _a, ...summaryA } = left;
+    const { canonical: _b, ...summaryB } = right;
+    
+    return {
+      a: summaryA,
+      b: summaryB,
+      diff: diffReplays(left.canonical, right.canonical)
     };
   }
 
   /**
-   * Décode un blob RCEP en PromptContext
+   * Replays enregistrés (plus récent d'abord), sans la forme canonique
    */
-  private async decodeRCEPToContext(rcepBlob: string): Promise<PromptContext> {
+  getRecordedReplays(): Array<Omit<RecordedReplay, 'canonical'>> {
+    const summaries = new Map<string, Omit<RecordedReplay, 'canonical'>>();
+    for (const summary of this.replayStore?.list() ?? []) {
+      summaries.set(summary.hash, summary);
+    }
+    for (const { canonical: _canonical, ...summary } of this.recorded.values()) {
+      summaries.set(summary.hash, summary);
+    }
+    return [...summaries.values()].sort((x, y) => y.timestamp - x.timestamp);
+  }
+
+  private async resolveTarget(target: ReplayTarget): Promise<RecordedReplay> {
+    if ('hash' in target) {
+      const recorded = this.recorded.get(target.hash) ?? this.replayStore?.load(target.hash);
+      if (!recorded) {
+        throw new Error(this.replayStore
+          ? `Replay ${target.hash} not recorded (or purged): replay its window again`
+          : `Replay ${target.hash} not recorded (replays are kept in memory, last ${MAX_RECORDED_REPLAYS})`);
+      }
+      return recorded;
+    }
+    
+    const result = await this.replay(target.startTime, target.endTime, target.anchorEventId);
+    return this.recorded.get(result.hash)!;
+  }
+
+  /**
+   * Enregistrer un replay (LRU borné, ré-insertion = plus récent ; persisté si replayStore)
+   */
+  private record(replay: RecordedReplay): void {
     try {
-      return this.rcepDecoder.decode(rcepBlob);
+      this.replayStore?.save(replay);
     } catch (error) {
-      this.logger?.error?.(`[ReplayEngine] Failed to decode RCEP blob: ${error}`);
-      // Fallback to minimal context
-      return {
-        metadata: {
-          sessionId: 'replay',
-          llmModel: 'unknown',
-          contextWindow: 8000,
-          encodingTime: Date.now(),
-          ptrScheme: 'mil-his-v1'
-        },
-        layers: [],
-        topics: [],
-        timeline: [],
-        decisions: [],
-        insights: []
-      };
+      this.logger?.warning?.(`[ReplayEngine] Failed to persist replay ${replay.hash}: ${error}`);
+    }
+    this.recorded.delete(replay.hash);
+    this.recorded.set(replay.hash, replay);
+    if (this.recorded.size > MAX_RECORDED_REPLAYS) {
+      const oldest = this.recorded.keys().next().value;
+      if (oldest) {
+        this.recorded.delete(oldest);
+      }
     }
   }
 
+  /**
+   * Décode les blobs RCEP en PromptContext (les blobs illisibles sont ignorés)
+   */
+  private decodeRCEPBlobs(rcepBlobs: string[]): PromptContext[] {
+    const contexts: PromptContext[] = [];
+    for (const blob of rcepBlobs) {
+      try {
+        contexts.push(this.rcepDecoder.decode(blob));
+      } catch (error) {
+        this.logger?.error?.(`[ReplayEngine] Failed to decode RCEP blob: ${error}`);
+      }
+    }
+    
+    if (rcepBlobs.length > 0 && contexts.length < rcepBlobs.length) {
+      this.logger?.warning?.(`[ReplayEngine] ${rcepBlobs.length - contexts.length}/${rcepBlobs.length} RCEP blobs skipped (undecodable)`);
+    }
+    
+    return contexts;
+  }
+
   /**
    * Crée un SCF minimal depuis events et decisions
    */
@@ -154,14 +250,7 @@ export class ReplayEngine {
    * 
    * Garantit : même cognition logique → même hash, cognition différente → hash différent
    */
-  private calculateReplayHash(
-    events: any[],
-    decisions: any[],
-    scf: any
-  ): string {
-    // Construire CanonicalReplay
-    const canonical = CanonicalReplayBuilder.toCanonical(events, decisions, scf);
-    
+  private calculateReplayHash(canonical: CanonicalReplay): string {
     // Sérialisation JSON canonique (clés triées, format stable)
     const canonicalJSON = CanonicalReplayBuilder.toCanonicalJSON(canonical);
     
@@ -11,11 +11,16 @@
 import { UnifiedEvent } from '../memory/types';
 import { CognitiveDecision } from '../cognitive/DecisionSchema';
 import { SCFDocument } from '../scf/SCFTypes';
+import { PromptContext } from '../context/types/PromptContext';
+import { CanonicalReplay } from './CanonicalReplay';
 
 export interface ReplayResult {
   events: UnifiedEvent[];
   decisions: CognitiveDecision[];
   scf: SCFDocument;  // ⚠️ VERROU 3 : toujours régénéré, jamais relu
+  context?: PromptContext;  // Fusion de tous les blobs RCEP de la fenêtre (absent si aucun)
+  rcepBlobCount: number;    // Nombre de blobs RCEP fusionnés
+  canonical: CanonicalReplay;  // Forme canonique hashée (base de diffReplays)
   hash: string;      // Hash déterministe (juridiquement défendable)
   timestamp: number;
 }
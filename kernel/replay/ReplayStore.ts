@@ -0,0 +1,97 @@
+/**
+ * ReplayStore - Replays canoniques enregistrés (MemoryClass.COLD)
+ *
+ * Chaque replay est conservé sous sa forme canonique pour que replay_diff puisse comparer
+ * deux hashes après un redémarrage du kernel. Borné aux MAX_STORED_REPLAYS plus récents,
+ * purgeable sans perte : un replay se régénère depuis RCEP (source de vérité).
+ *
+ * Layout disque :
+ *   replays/<hash>.json → un RecordedReplay par fichier
+ *
+ * ZERO-INTELLIGENCE : Structure uniquement, pas d'inférence.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { WriteTracker } from '../WriteTracker';
+import { MemoryClass } from '../memory/MemoryClass';
+import type { RecordedReplay } from './ReplayEngine';
+
+export const REPLAY_MEMORY_CLASS = MemoryClass.COLD;
+
+export const MAX_STORED_REPLAYS = 50;
+
+const FILE_PATTERN = /^([0-9a-f]{64})\.json$/;
+
+export class ReplayStore {
+  private replaysDir: string;
+
+  constructor(workspaceRoot: string) {
+    this.replaysDir = path.join(workspaceRoot, '.reasoning_rl4', 'replays');
+  }
+
+  /**
+   * Enregistrer un replay (ré-écriture = plus récent), puis retirer les plus anciens
+   */
+  save(replay: RecordedReplay): void {
+    if ((global as any).__RL4_PASSIVE__) {
+      return;
+    }
+
+    const filePath = path.join(this.replaysDir, `${replay.hash}.json`);
+    fs.mkdirSync(this.replaysDir, { recursive: true });
+    WriteTracker.getInstance().markInternalWrite(filePath);
+    fs.writeFileSync(filePath, JSON.stringify(replay), 'utf-8');
+    this.prune();
+  }
+
+  /**
+   * Replay enregistré par hash (null si absent, purgé ou illisible)
+   */
+  load(hash: string): RecordedReplay | null {
+    if (!/^[0-9a-f]{64}$/.test(hash)) {
+      return null;
+    }
+    try {
+      return JSON.parse(fs.readFileSync(path.join(this.replaysDir, `${hash}.json`), 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Replays enregistrés, sans la forme canonique
+   */
+  list(): Array<Omit<RecordedReplay, 'canonical'>> {
+    const summaries: Array<Omit<RecordedReplay, 'canonical'>> = [];
+    for (const { hash } of this.files()) {
+      const replay = this.load(hash);
+      if (replay) {
+        const { canonical: _canonical, ...summary } = replay;
+        summaries.push(summary);
+      }
+    }
+    return summaries;
+  }
+
+  private prune(): void {
+    const files = this.files().sort((x, y) => y.mtimeMs - x.mtimeMs);
+    for (const { hash } of files.slice(MAX_STORED_REPLAYS)) {
+      fs.rmSync(path.join(this.replaysDir, `${hash}.json`), { force: true });
+    }
+  }
+
+  private files(): Array<{ hash: string; mtimeMs: number }> {
+    if (!fs.existsSync(this.replaysDir)) {
+      return [];
+    }
+    const files: Array<{ hash: string; mtimeMs: number }> = [];
+    for (const name of fs.readdirSync(this.replaysDir)) {
+      const match = FILE_PATTERN.exec(name);
+      if (match) {
+        files.push({ hash: match[1], mtimeMs: fs.statSync(path.join(this.replaysDir, name)).mtimeMs });
+      }
+    }
+    return files;
+  }
+}
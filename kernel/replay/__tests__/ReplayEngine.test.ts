@@ -1,10 +1,14 @@
 /**
  * Tests for ReplayEngine
  * 
- * Verifies deterministic replay hash: same input → same hash.
+ * Verifies deterministic replay hash: same input → same hash,
+ * order-independent merging of every RCEP blob in the window,
+ * structured diffs between two canonical replays, and recorded replays
+ * compared across a kernel restart (ReplayStore, bounded).
  */
 
 import { ReplayEngine } from '../ReplayEngine';
+import { MAX_STORED_REPLAYS, ReplayStore } from '../ReplayStore';
 import { MIL } from '../../memory/MIL';
 import { DecisionStore } from '../../cognitive/DecisionStore';
 import { RCEPStore } from '../../storage/RCEPStore';
@@ -12,6 +16,10 @@ import { SCFCompressor } from '../../scf/SCFCompressor';
 import { PromptCodecRL4 } from '../../rl4/PromptCodecRL4';
 import { UnifiedEvent, EventSource, EventType } from '../../memory/types';
 import { CognitiveDecision } from '../../cognitive/DecisionSchema';
+import { mergePromptContexts } from '../ContextMerger';
+import { diffReplays } from '../ReplayDiff';
+import { CanonicalReplayBuilder } from '../CanonicalReplay';
+import { PromptContext, Decision } from '../../context/types/PromptContext';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -136,6 +144,176 @@ describe('ReplayEngine - Deterministic Hash', () => {
 
     // Hashes should be different
     expect(result1.hash).not.toBe(result2.hash);
+
+    // The recorded replays explain the difference
+    const comparison = await replayEngine.compare({ hash: result1.hash }, { hash: result2.hash });
+    expect(comparison.diff.events.added.map(e => e.id)).toEqual(['evt-2']);
+    expect(comparison.diff.events.removed).toEqual([]);
+    await expect(replayEngine.compare({ hash: 'unknown' }, { hash: result2.hash })).rejects.toThrow('not recorded');
+  });
+
+  test('should compare a replay recorded before a kernel restart', async () => {
+    const startTime = Date.now() - 3600000;
+    const endTime = Date.now();
+    const engine = new ReplayEngine(mil, decisionStore, rcepStore, scfCompressor, rcepDecoder, undefined, new ReplayStore(testWorkspaceRoot));
+    const before = await engine.replay(startTime, endTime);
+
+    await mil.ingest({
+      id: 'evt-2',
+      seq: 2,
+      timestamp: startTime + 1000,
+      source: EventSource.FILE_SYSTEM,
+      type: EventType.FILE_MODIFY,
+      category: 'code_change' as any,
+      source_format: 'file_change',
+      payload: { file: 'test2.ts' }
+    }, EventSource.FILE_SYSTEM);
+
+    // New engine, empty memory: the recorded replay is read back from replays/
+    const restarted = new ReplayEngine(mil, decisionStore, rcepStore, scfCompressor, rcepDecoder, undefined, new ReplayStore(testWorkspaceRoot));
+    const comparison = await restarted.compare({ hash: before.hash }, { startTime, endTime });
+    expect(comparison.a).toEqual({ hash: before.hash, startTime, endTime, timestamp: before.timestamp });
+    expect(comparison.diff.events.added.map(e => e.id)).toEqual(['evt-2']);
+    expect(restarted.getRecordedReplays().map(r => r.hash)).toEqual([comparison.b.hash, before.hash]);
+    await expect(restarted.compare({ hash: 'f'.repeat(64) }, { hash: before.hash })).rejects.toThrow('not recorded');
+  });
+
+  test('should keep only the most recent stored replays', () => {
+    const store = new ReplayStore(testWorkspaceRoot);
+    const replaysDir = path.join(testWorkspaceRoot, '.reasoning_rl4', 'replays');
+    const count = MAX_STORED_REPLAYS + 2;
+    for (let i = 0; i < count; i++) {
+      const hash = i.toString(16).padStart(64, '0');
+      store.save({ hash, startTime: 0, endTime: 1, timestamp: i, canonical: {} as any });
+      const mtime = new Date(Date.now() - (count - i) * 1000);
+      fs.utimesSync(path.join(replaysDir, `${hash}.json`), mtime, mtime);
+    }
+
+    expect(store.list()).toHaveLength(MAX_STORED_REPLAYS);
+    expect(store.load('0'.padStart(64, '0'))).toBeNull();
+    expect(store.load((count - 1).toString(16).padStart(64, '0'))).toMatchObject({ timestamp: count - 1 });
+  });
+});
+
+describe('ReplayEngine - Multi-blob merge', () => {
+  const startTime = Date.now() - 3600000;
+  const endTime = Date.now();
+
+  function makeContext(encodingTime: number, ptrs: string[], decisions: Decision[], layers: string[]): PromptContext {
+    return {
+      metadata: { sessionId: `s-${encodingTime}`, llmModel: 'test', contextWindow: 8000, encodingTime, ptrScheme: 'mil-his-v1' },
+      layers: layers.map((name, id) => ({ id, name, weight: 500 + id, parent: id === 0 ? 'ROOT' : 0 })),
+      topics: [{ id: 0, name: `topic_${layers[layers.length - 1]}`, weight: 700, refs: [layers.length - 1] }],
+      timeline: ptrs.map((ptr, id) => ({ id, time: startTime + Number(ptr.split('-')[1]) * 1000, type: 'query' as const, ptr })),
+      decisions,
+      insights: []
+    };
+  }
+
+  // Trois snapshots de la semaine : timelines qui se chevauchent. Les id de décision sont locaux
+  // à chaque blob : l'id 0 du premier et du dernier blob désigne deux décisions différentes,
+  // et la décision "accept" du premier blob est reprise par le dernier sous un autre id
+  const contexts = [
+    makeContext(startTime + 1000, ['evt-1', 'evt-2'], [{ id: 0, type: 'accept', weight: 800, inputs: [1] }], ['core']),
+    makeContext(startTime + 2000, ['evt-2', 'evt-3'], [{ id: 1, type: 'defer', weight: 300, inputs: [0, 1] }], ['core', 'code_state']),
+    makeContext(startTime + 3000, ['evt-4', 'evt-1', 'evt-2'], [
+      { id: 0, type: 'modify', weight: 900, inputs: [1] },
+      { id: 1, type: 'accept', weight: 800, inputs: [2] }
+    ], ['core', 'decision_history'])
+  ];
+
+  test('should merge all blobs of the window deterministically', () => {
+    const merged = mergePromptContexts(contexts);
+
+    expect(merged.timeline.map(e => e.ptr)).toEqual(['evt-1', 'evt-2', 'evt-3', 'evt-4']);
+    expect(merged.timeline.map(e => e.id)).toEqual([0, 1, 2, 3]);
+    expect(merged.layers.map(l => l.name)).toEqual(['core', 'code_state', 'decision_history']);
+    expect(merged.topics.map(t => t.name)).toEqual(['topic_core', 'topic_code_state', 'topic_decision_history']);
+    // Aucune collision d'id entre blobs, doublon "accept" fusionné, inputs remappés via ptr puis renumérotés
+    expect(merged.decisions).toEqual([
+      { id: 0, type: 'modify', weight: 900, inputs: [0] },
+      { id: 1, type: 'accept', weight: 800, inputs: [1] },
+      { id: 2, type: 'defer', weight: 300, inputs: [1, 2] }
+    ]);
+    expect(merged.metadata.encodingTime).toBe(startTime + 3000);
+  });
+
+  test('should be independent of blob order (merge and replay hash)', async () => {
+    const permutations = [[0, 1, 2], [2, 1, 0], [1, 2, 0]];
+    const merged = permutations.map(order => mergePromptContexts(order.map(i => contexts[i])));
+    for (const result of merged) {
+      expect(result).toEqual(merged[0]);
+    }
+
+    // Replay : blobs stockés dans des ordres différents (décodeur JSON, le codec RCEP n'est pas en jeu ici)
+    const hashes: string[] = [];
+    for (const order of permutations) {
+      const root = fs.mkdtempSync(path.join(os.tmpdir(), 'rl4-replay-merge-test-'));
+      const mil = new MIL(root);
+      await mil.init();
+      const decisionStore = new DecisionStore(root);
+      await decisionStore.init();
+      const rcepStore = new RCEPStore(root);
+      for (const i of order) {
+        await rcepStore.store(JSON.stringify(contexts[i]), { timestamp: startTime + 10000 + i, checksum: '' });
+      }
+      const jsonDecoder = { decode: (blob: string) => JSON.parse(blob) } as unknown as PromptCodecRL4;
+      const engine = new ReplayEngine(mil, decisionStore, rcepStore, new SCFCompressor(mil, decisionStore), jsonDecoder);
+
+      const result = await engine.replay(startTime, endTime);
+      expect(result.rcepBlobCount).toBe(3);
+      expect(result.context!.timeline).toHaveLength(4);
+      hashes.push(result.hash);
+
+      await mil.close();
+      await decisionStore.close();
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+
+    expect(new Set(hashes).size).toBe(1);
+
+    // Un blob de moins → la fusion ne couvre plus toute la fenêtre
+    const partial = mergePromptContexts(contexts.slice(0, 2));
+    expect(partial.timeline.map(e => e.ptr)).not.toContain('evt-4');
   });
 });
 
+describe('ReplayEngine - Replay diff', () => {
+  const scf = (ops: any[]) => ({ version: 'scf-v1', anchor: { timestamp: 0, window_ms: 0 }, refs: {}, operators: ops, constraints: {} }) as any;
+  const event = (id: string, seq: number): UnifiedEvent => ({
+    id,
+    seq,
+    timestamp: 1000 + seq,
+    source: EventSource.FILE_SYSTEM,
+    type: EventType.FILE_MODIFY,
+    category: 'code_change' as any,
+    source_format: 'test',
+    payload: {}
+  });
+  const decision = (id: string, gate: 'pass' | 'fail') => ({ id, seq: 1, intent: 'test_intent', confidence_gate: gate }) as CognitiveDecision;
+
+  test('should explain why two canonical replays differ', () => {
+    const a = CanonicalReplayBuilder.toCanonical(
+      [event('e1', 1), event('e2', 2)],
+      [decision('d1', 'pass'), decision('d2', 'pass')],
+      scf([{ op: 'FOCUS', refs: ['e1'] }, { op: 'LINK', from: 'e1', to: 'e2' }])
+    );
+    const b = CanonicalReplayBuilder.toCanonical(
+      [event('e2', 2), event('e3', 3)],
+      [decision('d1', 'fail'), decision('d3', 'pass')],
+      scf([{ op: 'FOCUS', refs: ['e1'] }, { op: 'LINK', from: 'e2', to: 'e3' }])
+    );
+
+    const diff = diffReplays(a, b);
+    expect(diff.identical).toBe(false);
+    expect(diff.events.added.map(e => e.id)).toEqual(['e3']);
+    expect(diff.events.removed.map(e => e.id)).toEqual(['e1']);
+    expect(diff.decisions.added.map(d => d.id)).toEqual(['d3']);
+    expect(diff.decisions.removed.map(d => d.id)).toEqual(['d2']);
+    expect(diff.decisions.gate_changed).toEqual([{ id: 'd1', intent: 'test_intent', from: 'pass', to: 'fail' }]);
+    expect(diff.scf_ops.added).toEqual([{ op: 'LINK', refs: ['e2', 'e3'], params: {} }]);
+    expect(diff.scf_ops.removed).toEqual([{ op: 'LINK', refs: ['e1', 'e2'], params: {} }]);
+
+    expect(diffReplays(a, a).identical).toBe(true);
+  });
+});
@@ -18,6 +18,8 @@ import { DecisionStore } from '../cognitive/DecisionStore';
 import { ILogger } from '../core/ILogger';
 import { SCFDocument, SCFOperator, MechanicalSignal, SCFReferences } from './SCFTypes';
 
+const DEFAULT_MAX_TOKENS = 8000; // Contrainte par défaut (sans budget cible)
+
 export class SCFCompressor {
   constructor(
     private mil: MIL,
@@ -27,8 +29,9 @@ export class SCFCompressor {
 
   /**
    * Compresse un PromptContext en SCFDocument
+   * @param maxTokens - Budget de tokens cible du prompt (défaut : 8000)
    */
-  async compress(rcepContext: PromptContext, anchorEventId?: string): Promise<SCFDocument> {
+  async compress(rcepContext: PromptContext, anchorEventId?: string, maxTokens?: number): Promise<SCFDocument> {
     // Construire les références
     const refs = await this.buildReferences(rcepContext);
     
@@ -54,7 +57,7 @@ export class SCFCompressor {
       refs,
       operators: [...kernelOperators, ...candidateOperators],
       constraints: {
-        max_tokens: 8000, // Contrainte par défaut
+        max_tokens: maxTokens ?? DEFAULT_MAX_TOKENS,
         focus_areas: this.extractFocusAreas(rcepContext),
         forbidden_inferences: [] // À définir selon le contexte
       }
@@ -7,6 +7,8 @@
  * ⚠️ RCEP est la seule source de vérité (Loi 2)
  * - Stockage basé sur checksum (déduplication)
  * - Index temporel pour requêtes par plage de temps
+ * - Référence signée (HMAC, clé propre au workspace) embarquée dans les prompts :
+ *   la réponse LLM qui la recopie est rattachée à son blob sans saisie du checksum
  * 
  * Référence : northstar.md Section 11.9
  */
@@ -26,14 +28,44 @@ export interface RCEPMetadata {
   checksum: string;
 }
 
+export interface RCEPReference {
+  checksum: string;
+  signature: string;
+}
+
+export type RCEPReferenceStatus = 'valid' | 'bad_signature' | 'unknown';
+
+/**
+ * Marqueur de référence : [RL4-REF rcep=<sha256> sig=<hmac tronqué>]
+ */
+const REFERENCE_PATTERN = /\[RL4-REF rcep=([0-9a-f]{64}) sig=([0-9a-f]{16})\]/g;
+
+export function formatRCEPReference(reference: RCEPReference): string {
+  return `[RL4-REF rcep=${reference.checksum} sig=${reference.signature}]`;
+}
+
+/**
+ * Dernier marqueur présent dans un texte (null si absent)
+ *
+ * Le dernier l'emporte : si le prompt est recollé avec la réponse, c'est celui recopié par le LLM.
+ */
+export function findRCEPReference(text: string): RCEPReference | null {
+  const matches = [...text.matchAll(REFERENCE_PATTERN)];
+  const last = matches[matches.length - 1];
+  return last ? { checksum: last[1], signature: last[2] } : null;
+}
+
 export class RCEPStore {
   private storageDir: string;
   private indexPath: string;
+  private keyPath: string;
+  private signingKey: string | null = null;
   private index: Map<number, RCEPIndexEntry[]> = new Map(); // timestamp → entries
 
   constructor(workspaceRoot: string) {
     this.storageDir = path.join(workspaceRoot, '.reasoning_rl4', 'storage', 'rcep');
     this.indexPath = path.join(workspaceRoot, '.reasoning_rl4', 'storage', 'rcep_index.json');
+    this.keyPath = path.join(workspaceRoot, '.reasoning_rl4', 'storage', 'rcep_ref.key');
     
     // Créer le répertoire de stockage
     if (!fs.existsSync(this.storageDir)) {
@@ -182,5 +214,54 @@ export class RCEPStore {
   calculateChecksumPublic(blob: string): string {
     return this.calculateChecksum(blob);
   }
-}
 
+  /**
+   * Vérifie qu'un blob RCEP est stocké
+   */
+  has(checksum: string): boolean {
+    return /^[0-9a-f]{64}$/.test(checksum) && fs.existsSync(path.join(this.storageDir, `${checksum}.rcep`));
+  }
+
+  /**
+   * Référence signée d'un blob, à embarquer dans le prompt
+   */
+  createReference(checksum: string): RCEPReference {
+    return { checksum, signature: this.sign(checksum) };
+  }
+
+  /**
+   * Vérifie une référence recopiée par le LLM : signature de ce workspace, puis blob existant
+   */
+  verifyReference(reference: RCEPReference): RCEPReferenceStatus {
+    const expected = Buffer.from(this.sign(reference.checksum), 'hex');
+    const actual = Buffer.from(reference.signature, 'hex');
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+      return 'bad_signature';
+    }
+    return this.has(reference.checksum) ? 'valid' : 'unknown';
+  }
+
+  private sign(checksum: string): string {
+    return crypto.createHmac('sha256', this.getSigningKey()).update(checksum).digest('hex').substring(0, 16);
+  }
+
+  /**
+   * Clé HMAC du workspace (créée au premier usage, jamais exportée dans les prompts)
+   */
+  private getSigningKey(): string {
+    if (this.signingKey) {
+      return this.signingKey;
+    }
+    try {
+      this.signingKey = fs.readFileSync(this.keyPath, 'utf-8').trim();
+    } catch {
+      this.signingKey = '';
+    }
+    if (!this.signingKey) {
+      this.signingKey = crypto.randomBytes(32).toString('hex');
+      fs.mkdirSync(path.dirname(this.keyPath), { recursive: true });
+      fs.writeFileSync(this.keyPath, this.signingKey, { encoding: 'utf-8', mode: 0o600 });
+    }
+    return this.signingKey;
+  }
+}
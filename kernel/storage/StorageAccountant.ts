@@ -0,0 +1,409 @@
+/**
+ * StorageAccountant - Comptabilité et quotas de .reasoning_rl4/
+ *
+ * Mesure chaque sous-arbre (traces, RCEP, snapshots, timelines, diagnostics, archive...),
+ * rattache chacun à une MemoryClass, et fait respecter les quotas de StorageConfig :
+ * - quota par classe (WARM, COLD, ARCHIVED)
+ * - quota total de .reasoning_rl4/
+ *
+ * La purge passe par RotationManager (MEMORY_RETENTION_EVENT reason 'quota'),
+ * fichiers inactifs les plus anciens d'abord.
+ *
+ * ⚠️ INVARIANT : HOT data jamais purgée (ledger, cognitive, adrs, governance, RCEP)
+ * ⚠️ INVARIANT : Fichiers actifs jamais supprimés (events.jsonl, index, cache)
+ *
+ * Référence : docs/rl4-memory-contract.md
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { MemoryClass } from '../memory/MemoryClass';
+import { MIL } from '../memory/MIL';
+import { RotationManager, RotationResult } from '../persistence/RotationManager';
+import { loadStorageConfig, StorageConfig } from '../config/StorageConfig';
+import { TimerRegistry } from '../TimerRegistry';
+
+const MB = 1024 * 1024;
+const STALE_AFTER_MS = 24 * 60 * 60 * 1000;   // 'stale' : fichier non modifié depuis 24h
+const ENFORCE_INTERVAL_MS = 3600000;          // 1 hour
+
+// Segment roté par RotationManager : <basename>.<ISO sans ':' ni '.'><ext>
+const ROTATED_SEGMENT = /\.\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z\.[a-z]+$/;
+
+/**
+ * Ce qui peut être libéré dans un sous-arbre
+ * - never   : rien (source de vérité, fichiers actifs, cache reconstruit en continu)
+ * - rotated : segments rotés uniquement
+ * - stale   : tout fichier non modifié depuis STALE_AFTER_MS
+ * - all     : tout fichier (hors manifest)
+ */
+export type ReclaimPolicy = 'never' | 'rotated' | 'stale' | 'all';
+
+export interface StorageSubtree {
+    path: string;              // Relatif à .reasoning_rl4/ (le préfixe le plus long l'emporte)
+    memoryClass: MemoryClass;
+    reclaim: ReclaimPolicy;
+}
+
+export const STORAGE_SUBTREES: StorageSubtree[] = [
+    { path: 'ledger', memoryClass: MemoryClass.HOT, reclaim: 'never' },
+    { path: 'cognitive', memoryClass: MemoryClass.HOT, reclaim: 'never' },
+    { path: 'adrs', memoryClass: MemoryClass.HOT, reclaim: 'never' },
+    { path: 'governance', memoryClass: MemoryClass.HOT, reclaim: 'never' },
+    { path: 'storage', memoryClass: MemoryClass.HOT, reclaim: 'never' },        // RCEP : seule source de vérité
+    { path: 'memory', memoryClass: MemoryClass.WARM, reclaim: 'rotated' },
+    { path: 'traces', memoryClass: MemoryClass.WARM, reclaim: 'rotated' },
+    { path: 'timelines', memoryClass: MemoryClass.WARM, reclaim: 'stale' },
+    { path: 'cache', memoryClass: MemoryClass.WARM, reclaim: 'never' },
+    { path: 'snapshots', memoryClass: MemoryClass.COLD, reclaim: 'stale' },
+    { path: 'diffs', memoryClass: MemoryClass.COLD, reclaim: 'stale' },         // Hunks : un fichier par jour
+    { path: 'replays', memoryClass: MemoryClass.COLD, reclaim: 'stale' },       // Replays canoniques (replay_diff)
+    { path: 'diagnostics', memoryClass: MemoryClass.COLD, reclaim: 'rotated' },
+    { path: 'diagnostics/history-prompts', memoryClass: MemoryClass.COLD, reclaim: 'stale' },
+    { path: 'diagnostics/live-activation', memoryClass: MemoryClass.COLD, reclaim: 'stale' }
+];
+
+export interface SubtreeUsage {
+    path: string;
+    memoryClass: MemoryClass;
+    bytes: number;
+    files: number;
+    reclaimableBytes: number;   // Libérable par reclaimAll() (WARM / COLD) ou par quota (ARCHIVED)
+}
+
+export interface ClassUsage {
+    memoryClass: MemoryClass;
+    bytes: number;
+    files: number;
+    quotaBytes: number | null;
+    overQuota: boolean;
+}
+
+export interface StorageReport {
+    measuredAt: string;
+    totalBytes: number;
+    totalQuotaBytes: number | null;
+    overQuota: boolean;
+    subtrees: SubtreeUsage[];   // Triés par taille décroissante
+    classes: ClassUsage[];      // HOT, WARM, COLD, ARCHIVED
+}
+
+export interface ReclaimResult {
+    reclaimedBytes: number;
+    rotated: string[];          // Chemins relatifs à .reasoning_rl4/
+    archived: string[];
+    deleted: string[];
+    errors: string[];
+    report: StorageReport;      // Mesure après purge
+}
+
+interface MeasuredFile {
+    path: string;               // Absolu
+    subtree: StorageSubtree;
+    bytes: number;
+    mtimeMs: number;
+    reclaimable: boolean;
+}
+
+export class StorageAccountant {
+    private rl4Dir: string;
+    private subtrees: StorageSubtree[];
+    private enforcing: Promise<ReclaimResult> | null = null;
+
+    constructor(
+        private workspaceRoot: string,
+        private mil?: MIL,  // Pour indexer les événements de rétention
+        private config: StorageConfig = loadStorageConfig(workspaceRoot)
+    ) {
+        this.rl4Dir = path.join(workspaceRoot, '.reasoning_rl4');
+        this.subtrees = [
+            ...STORAGE_SUBTREES,
+            { path: this.config.rotation.archiveDir, memoryClass: MemoryClass.ARCHIVED, reclaim: 'all' }
+        ];
+    }
+
+    /**
+     * Faire respecter les quotas toutes les heures
+     */
+    start(timerRegistry: TimerRegistry): void {
+        timerRegistry.registerInterval(
+            'kernel:storage-quota',
+            () => {
+                this.enforceQuotas().catch(error => {
+                    console.error(`[StorageAccountant] Quota enforcement failed: ${error}`);
+                });
+            },
+            ENFORCE_INTERVAL_MS
+        );
+    }
+
+    /**
+     * Mesurer chaque sous-arbre de .reasoning_rl4/ et l'état des quotas
+     */
+    measure(): StorageReport {
+        return this.buildReport(this.scan());
+    }
+
+    /**
+     * Purger jusqu'à respecter les quotas (un seul passage à la fois)
+     */
+    enforceQuotas(): Promise<ReclaimResult> {
+        return this.schedule(false);
+    }
+
+    /**
+     * Libérer tout ce qui est récupérable en WARM et COLD, même sous les quotas
+     * (action "Reclaim space" du panneau Storage), puis faire respecter les quotas
+     */
+    reclaimAll(): Promise<ReclaimResult> {
+        return this.schedule(true);
+    }
+
+    /**
+     * Un seul passage à la fois : une purge forcée attend le passage en cours
+     */
+    private schedule(force: boolean): Promise<ReclaimResult> {
+        if (this.enforcing && !force) {
+            return this.enforcing;
+        }
+        const previous = this.enforcing ? this.enforcing.catch(() => undefined) : Promise.resolve();
+        const run: Promise<ReclaimResult> = previous
+            .then(() => this.runEnforcement(force))
+            .finally(() => {
+                if (this.enforcing === run) {
+                    this.enforcing = null;
+                }
+            });
+        this.enforcing = run;
+        return run;
+    }
+
+    private async runEnforcement(force: boolean): Promise<ReclaimResult> {
+        const result: ReclaimResult = {
+            reclaimedBytes: 0,
+            rotated: [],
+            archived: [],
+            deleted: [],
+            errors: [],
+            report: this.measure()
+        };
+
+        // 0. Purge forcée : tous les fichiers récupérables WARM / COLD (fichiers actifs exclus)
+        if (force) {
+            for (const memoryClass of [MemoryClass.WARM, MemoryClass.COLD]) {
+                await this.reclaimClass(memoryClass, Infinity, result, false);
+            }
+        }
+
+        // 1. Quotas par classe (WARM archivé d'abord : le tier ARCHIVED est vérifié après)
+        for (const memoryClass of [MemoryClass.WARM, MemoryClass.COLD, MemoryClass.ARCHIVED]) {
+            const usage = this.measure().classes.find(c => c.memoryClass === memoryClass)!;
+            if (usage.quotaBytes !== null && usage.bytes > usage.quotaBytes) {
+                await this.reclaimClass(memoryClass, usage.bytes - usage.quotaBytes, result);
+            }
+        }
+
+        // 2. Quota total : COLD (non requis au rebuild), puis WARM compressé, puis les archives
+        for (const memoryClass of [MemoryClass.COLD, MemoryClass.WARM, MemoryClass.ARCHIVED]) {
+            const report = this.measure();
+            if (report.totalQuotaBytes === null || report.totalBytes <= report.totalQuotaBytes) {
+                break;
+            }
+            await this.reclaimClass(memoryClass, report.totalBytes - report.totalQuotaBytes, result);
+        }
+
+        // Segments MIL archivés ou supprimés : l'index d'offsets ne doit plus les référencer
+        if (this.mil && [...result.archived, ...result.deleted].some(p => p.startsWith('memory' + path.sep))) {
+            await this.mil.pruneSegments();
+        }
+
+        result.report = this.measure();
+        return result;
+    }
+
+    /**
+     * Libérer au moins `excess` octets d'une classe, fichiers inactifs les plus anciens d'abord
+     * (`rotateActive` : roter aussi les traces actives si cela ne suffit pas)
+     */
+    private async reclaimClass(memoryClass: MemoryClass, excess: number, result: ReclaimResult, rotateActive: boolean = true): Promise<void> {
+        const manager = this.createRotationManager(memoryClass);
+        const candidates = this.scan()
+            .filter(f => f.reclaimable && f.subtree.memoryClass === memoryClass)
+            .sort((a, b) => a.mtimeMs - b.mtimeMs);
+
+        let freed = 0;
+        for (const file of candidates) {
+            if (freed >= excess) break;
+            freed += this.merge(result, await manager.reclaimFile(file.path));
+        }
+
+        // Traces actives : rotées (reason 'quota') puis archivées comme un segment
+        if (rotateActive && freed < excess && memoryClass === MemoryClass.WARM) {
+            const tracesDir = path.join(this.rl4Dir, 'traces');
+            const active = fs.existsSync(tracesDir)
+                ? fs.readdirSync(tracesDir).filter(f => f.endsWith('.jsonl') && !ROTATED_SEGMENT.test(f))
+                : [];
+            for (const file of active) {
+                if (freed >= excess) break;
+                const filePath = path.join(tracesDir, file);
+                const check = manager.shouldRotate(filePath, true);
+                if (!check.shouldRotate) continue;
+
+                const rotation = await manager.rotateFile(filePath, check.reason);
+                this.merge(result, { ...rotation, spaceSaved: 0 });
+                for (const rotated of rotation.rotated) {
+                    freed += this.merge(result, await manager.reclaimFile(rotated));
+                }
+            }
+        }
+    }
+
+    private merge(result: ReclaimResult, step: RotationResult): number {
+        const relative = (p: string) => path.relative(this.rl4Dir, p);
+        result.rotated.push(...step.rotated.map(relative));
+        result.archived.push(...step.archived.map(relative));
+        result.deleted.push(...step.deleted.map(relative));
+        result.errors.push(...step.errors);
+        result.reclaimedBytes += step.spaceSaved;
+        return step.spaceSaved;
+    }
+
+    private createRotationManager(memoryClass: MemoryClass): RotationManager {
+        const rotation = this.config.rotation;
+        return new RotationManager(
+            this.workspaceRoot,
+            {
+                maxFileSizeMB: rotation.maxFileSizeMB,
+                maxAgeDays: rotation.maxAgeDays,
+                enableArchiving: rotation.enableArchiving,
+                enableCompression: rotation.enableCompression,
+                compression: rotation.compression,
+                archiveDir: rotation.archiveDir,
+                memoryClass
+            },
+            this.mil
+        );
+    }
+
+    private buildReport(files: MeasuredFile[]): StorageReport {
+        const subtrees = new Map<string, SubtreeUsage>();
+        const classes = new Map<MemoryClass, ClassUsage>();
+        const quotas = this.config.quotas;
+        for (const memoryClass of [MemoryClass.HOT, MemoryClass.WARM, MemoryClass.COLD, MemoryClass.ARCHIVED]) {
+            const quotaMB = memoryClass === MemoryClass.HOT ? null : quotas.perClassMB[memoryClass];
+            classes.set(memoryClass, {
+                memoryClass,
+                bytes: 0,
+                files: 0,
+                quotaBytes: quotaMB === null || quotaMB === undefined || !Number.isFinite(quotaMB) ? null : quotaMB * MB,
+                overQuota: false
+            });
+        }
+
+        let totalBytes = 0;
+        for (const file of files) {
+            const usage = subtrees.get(file.subtree.path) || {
+                path: file.subtree.path,
+                memoryClass: file.subtree.memoryClass,
+                bytes: 0,
+                files: 0,
+                reclaimableBytes: 0
+            };
+            usage.bytes += file.bytes;
+            usage.files++;
+            if (file.reclaimable) {
+                usage.reclaimableBytes += file.bytes;
+            }
+            subtrees.set(file.subtree.path, usage);
+
+            const classUsage = classes.get(file.subtree.memoryClass)!;
+            classUsage.bytes += file.bytes;
+            classUsage.files++;
+            totalBytes += file.bytes;
+        }
+        for (const usage of classes.values()) {
+            usage.overQuota = usage.quotaBytes !== null && usage.bytes > usage.quotaBytes;
+        }
+
+        const totalQuotaBytes = quotas.totalMB === null || quotas.totalMB === undefined ? null : quotas.totalMB * MB;
+        return {
+            measuredAt: new Date().toISOString(),
+            totalBytes,
+            totalQuotaBytes,
+            overQuota: totalQuotaBytes !== null && totalBytes > totalQuotaBytes,
+            subtrees: Array.from(subtrees.values()).sort((a, b) => b.bytes - a.bytes),
+            classes: Array.from(classes.values())
+        };
+    }
+
+    private scan(): MeasuredFile[] {
+        const files: MeasuredFile[] = [];
+        if (!fs.existsSync(this.rl4Dir)) {
+            return files;
+        }
+        const now = Date.now();
+        const walk = (dir: string) => {
+            for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+                const fullPath = path.join(dir, entry.name);
+                if (entry.isDirectory()) {
+                    walk(fullPath);
+                    continue;
+                }
+                if (!entry.isFile()) continue;
+
+                let stats: fs.Stats;
+                try {
+                    stats = fs.statSync(fullPath);
+                } catch {
+                    continue; // Supprimé pendant le parcours
+                }
+                const relative = path.relative(this.rl4Dir, fullPath).split(path.sep).join('/');
+                const subtree = this.classify(relative);
+                files.push({
+                    path: fullPath,
+                    subtree,
+                    bytes: stats.size,
+                    mtimeMs: stats.mtimeMs,
+                    reclaimable: isReclaimable(subtree, entry.name, now - stats.mtimeMs)
+                });
+            }
+        };
+        walk(this.rl4Dir);
+        return files;
+    }
+
+    /**
+     * Sous-arbre d'un chemin relatif : préfixe connu le plus long, sinon dossier de premier
+     * niveau (ou '.' pour les fichiers racine), traité comme HOT
+     */
+    private classify(relative: string): StorageSubtree {
+        let match: StorageSubtree | undefined;
+        for (const subtree of this.subtrees) {
+            if ((relative === subtree.path || relative.startsWith(subtree.path + '/')) &&
+                (!match || subtree.path.length > match.path.length)) {
+                match = subtree;
+            }
+        }
+        if (match) {
+            return match;
+        }
+        const top = relative.includes('/') ? relative.split('/')[0] : '.';
+        return { path: top, memoryClass: MemoryClass.HOT, reclaim: 'never' };
+    }
+}
+
+function isReclaimable(subtree: StorageSubtree, name: string, ageMs: number): boolean {
+    if (subtree.memoryClass === MemoryClass.HOT || name === 'manifest.json') {
+        return false;
+    }
+    switch (subtree.reclaim) {
+        case 'rotated':
+            return ROTATED_SEGMENT.test(name);
+        case 'stale':
+            return ageMs > STALE_AFTER_MS;
+        case 'all':
+            return true;
+        default:
+            return false;
+    }
+}
@@ -0,0 +1,143 @@
+/**
+ * Tests for storage quotas
+ *
+ * Verifies that .reasoning_rl4/ subtrees are measured per MemoryClass, and that
+ * enforcing a quota reclaims the oldest inactive files (archived with a 'quota'
+ * retention event) without ever touching HOT data or active files, and that a
+ * forced reclaim frees every eligible WARM/COLD file even under quota.
+ */
+
+import { StorageAccountant } from '../StorageAccountant';
+import { loadStorageConfig } from '../../config/StorageConfig';
+import { MemoryClass } from '../../memory/MemoryClass';
+import { ArchiveStore } from '../../persistence/ArchiveStore';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+const KB = 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('StorageAccountant - Quotas per MemoryClass', () => {
+  let testWorkspaceRoot: string;
+  let rl4Dir: string;
+
+  function writeFile(relative: string, bytes: number, ageDays: number = 0): string {
+    const filePath = path.join(rl4Dir, relative);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const line = JSON.stringify({ timestamp: Date.now() - ageDays * DAY_MS, payload: 'x'.repeat(64) }) + '\n';
+    fs.writeFileSync(filePath, line.repeat(Math.ceil(bytes / line.length)));
+    const mtime = new Date(Date.now() - ageDays * DAY_MS);
+    fs.utimesSync(filePath, mtime, mtime);
+    return filePath;
+  }
+
+  beforeEach(() => {
+    testWorkspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'rl4-storage-test-'));
+    rl4Dir = path.join(testWorkspaceRoot, '.reasoning_rl4');
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testWorkspaceRoot)) {
+      fs.rmSync(testWorkspaceRoot, { recursive: true, force: true });
+    }
+  });
+
+  test('should reclaim the oldest inactive WARM/COLD files and never touch HOT data', async () => {
+    const ledger = writeFile('ledger/rbom.jsonl', 64 * KB, 30);
+    const activeEvents = writeFile('memory/events.jsonl', 16 * KB, 30);
+    const oldSegment = writeFile('traces/file_changes.2025-01-01T00-00-00-000Z.jsonl', 32 * KB, 10);
+    const newSegment = writeFile('traces/file_changes.2025-03-01T00-00-00-000Z.jsonl', 32 * KB, 5);
+    const oldSnapshot = writeFile('snapshots/snapshot-1.json', 32 * KB, 3);
+    const freshSnapshot = writeFile('snapshots/snapshot-2.json', 32 * KB, 0);
+
+    const config = {
+      ...loadStorageConfig(testWorkspaceRoot),
+      quotas: {
+        totalMB: null,
+        perClassMB: {
+          [MemoryClass.WARM]: 60 / 1024,   // 60 KB: one trace segment must go
+          [MemoryClass.COLD]: 40 / 1024,   // 40 KB: the stale snapshot must go
+          [MemoryClass.ARCHIVED]: null
+        }
+      }
+    };
+    const accountant = new StorageAccountant(testWorkspaceRoot, undefined, config);
+
+    const before = accountant.measure();
+    expect(before.classes.find(c => c.memoryClass === MemoryClass.HOT)).toMatchObject({ files: 1, quotaBytes: null, overQuota: false });
+    expect(before.classes.find(c => c.memoryClass === MemoryClass.WARM)!.overQuota).toBe(true);
+    expect(before.subtrees.find(s => s.path === 'traces')!.reclaimableBytes).toBeGreaterThan(0);
+    expect(before.subtrees.find(s => s.path === 'memory')!.reclaimableBytes).toBe(0); // Active file
+
+    const result = await accountant.enforceQuotas();
+
+    expect(result.errors).toEqual([]);
+    expect(result.archived).toEqual([path.join('traces', 'file_changes.2025-01-01T00-00-00-000Z.jsonl')]);
+    expect(result.deleted).toEqual([path.join('snapshots', 'snapshot-1.json')]);
+    expect(fs.existsSync(oldSegment)).toBe(false);
+    expect(fs.existsSync(oldSnapshot)).toBe(false);
+    for (const kept of [ledger, activeEvents, newSegment, freshSnapshot]) {
+      expect(fs.existsSync(kept)).toBe(true);
+    }
+    expect(new ArchiveStore(testWorkspaceRoot).getSegments().map(s => s.component)).toEqual(['Traces']);
+
+    const after = result.report;
+    expect(after.classes.find(c => c.memoryClass === MemoryClass.WARM)!.overQuota).toBe(false);
+    expect(after.classes.find(c => c.memoryClass === MemoryClass.COLD)!.overQuota).toBe(false);
+    expect(after.subtrees.find(s => s.path === 'archive')!.memoryClass).toBe(MemoryClass.ARCHIVED);
+  });
+
+  test('should reclaim every eligible WARM/COLD file on demand even under quota', async () => {
+    writeFile('ledger/rbom.jsonl', 16 * KB, 30);
+    const activeEvents = writeFile('memory/events.jsonl', 16 * KB, 30);
+    const segment = writeFile('traces/file_changes.2025-01-01T00-00-00-000Z.jsonl', 16 * KB, 10);
+    const staleSnapshot = writeFile('snapshots/snapshot-1.json', 16 * KB, 3);
+    const freshSnapshot = writeFile('snapshots/snapshot-2.json', 16 * KB, 0);
+    const archived = writeFile('memory/events.2025-01-01T00-00-00-000Z.jsonl', 16 * KB, 100);
+    new ArchiveStore(testWorkspaceRoot).archiveSegment(archived, 'MIL', 'none');
+
+    const config = {
+      ...loadStorageConfig(testWorkspaceRoot),
+      quotas: {
+        totalMB: null,
+        perClassMB: { [MemoryClass.WARM]: null, [MemoryClass.COLD]: null, [MemoryClass.ARCHIVED]: null }
+      }
+    };
+    const accountant = new StorageAccountant(testWorkspaceRoot, undefined, config);
+
+    // Under quota: enforcement alone frees nothing
+    expect((await accountant.enforceQuotas()).reclaimedBytes).toBe(0);
+    expect(fs.existsSync(segment)).toBe(true);
+
+    const result = await accountant.reclaimAll();
+    expect(result.errors).toEqual([]);
+    expect(result.archived).toEqual([path.join('traces', 'file_changes.2025-01-01T00-00-00-000Z.jsonl')]);
+    expect(result.deleted).toEqual([path.join('snapshots', 'snapshot-1.json')]);
+    expect(fs.existsSync(staleSnapshot)).toBe(false);
+    expect(fs.existsSync(activeEvents) && fs.existsSync(freshSnapshot)).toBe(true);
+    expect(new ArchiveStore(testWorkspaceRoot).getSegments().map(s => s.component).sort()).toEqual(['MIL', 'Traces']);
+    expect(result.report.subtrees.filter(s => s.memoryClass === MemoryClass.WARM || s.memoryClass === MemoryClass.COLD)
+      .reduce((sum, s) => sum + s.reclaimableBytes, 0)).toBe(0);
+  });
+
+  test('should delete archived segments when the total quota is exceeded', async () => {
+    writeFile('ledger/rbom.jsonl', 32 * KB, 30);
+    const segment = writeFile('memory/events.2025-01-01T00-00-00-000Z.jsonl', 32 * KB, 100);
+    new ArchiveStore(testWorkspaceRoot).archiveSegment(segment, 'MIL', 'none');
+
+    const config = {
+      ...loadStorageConfig(testWorkspaceRoot),
+      quotas: {
+        totalMB: 48 / 1024,
+        perClassMB: { [MemoryClass.WARM]: null, [MemoryClass.COLD]: null, [MemoryClass.ARCHIVED]: null }
+      }
+    };
+    const result = await new StorageAccountant(testWorkspaceRoot, undefined, config).enforceQuotas();
+
+    expect(result.deleted).toEqual([path.join('archive', 'events.2025-01-01T00-00-00-000Z.jsonl')]);
+    expect(new ArchiveStore(testWorkspaceRoot).getSegments()).toEqual([]);
+    expect(result.report.overQuota).toBe(false);
+    expect(fs.existsSync(path.join(rl4Dir, 'ledger', 'rbom.jsonl'))).toBe(true);
+  });
+});
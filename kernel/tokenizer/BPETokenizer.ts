@@ -0,0 +1,116 @@
+/**
+ * BPETokenizer - Byte-level BPE token counting from an offline vocabulary
+ *
+ * Vocabulary format (tiktoken rank files, e.g. cl100k_base.tiktoken):
+ *   one "<base64 token bytes> <rank>" pair per line, lower rank = merged first.
+ *
+ * Text is split with the family's pre-tokenization pattern, each piece is
+ * UTF-8 encoded and merged pairwise by lowest rank until no known pair remains.
+ */
+
+import * as fs from 'fs';
+import { Tokenizer } from './Tokenizer';
+
+// Bound for the per-piece count cache (cleared when full)
+const MAX_CACHED_PIECES = 10000;
+
+export class BPETokenizer implements Tokenizer {
+    readonly exact = true;
+    private readonly pieceCache = new Map<string, number>();
+
+    /**
+     * @param ranks - token bytes (latin1 string, one char per byte) → rank
+     * @param pattern - pre-tokenization pattern (must carry the global flag)
+     */
+    constructor(
+        readonly id: string,
+        private readonly ranks: Map<string, number>,
+        private readonly pattern: RegExp
+    ) {
+        if (!pattern.global) {
+            throw new Error(`[BPETokenizer] Pattern for ${id} must be global`);
+        }
+    }
+
+    /**
+     * Load a tiktoken rank file
+     */
+    static fromTiktokenFile(id: string, filePath: string, pattern: RegExp): BPETokenizer {
+        const ranks = new Map<string, number>();
+        const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+        for (const line of lines) {
+            if (!line.trim()) continue;
+            const [token, rank] = line.trim().split(/\s+/);
+            const value = Number(rank);
+            if (!token || !Number.isInteger(value)) {
+                throw new Error(`[BPETokenizer] Invalid vocabulary line in ${filePath}: ${line.slice(0, 80)}`);
+            }
+            ranks.set(Buffer.from(token, 'base64').toString('latin1'), value);
+        }
+        return new BPETokenizer(id, ranks, pattern);
+    }
+
+    count(text: string): number {
+        let total = 0;
+        for (const match of text.matchAll(this.pattern)) {
+            total += this.countPiece(match[0]);
+        }
+        return total;
+    }
+
+    /**
+     * Token ranks of a text
+     */
+    encode(text: string): number[] {
+        const tokens: number[] = [];
+        for (const match of text.matchAll(this.pattern)) {
+            for (const part of this.mergePiece(Buffer.from(match[0], 'utf-8').toString('latin1'))) {
+                const rank = this.ranks.get(part);
+                if (rank === undefined) {
+                    throw new Error(`[BPETokenizer] Byte sequence missing from ${this.id} vocabulary`);
+                }
+                tokens.push(rank);
+            }
+        }
+        return tokens;
+    }
+
+    private countPiece(piece: string): number {
+        const cached = this.pieceCache.get(piece);
+        if (cached !== undefined) {
+            return cached;
+        }
+        const count = this.mergePiece(Buffer.from(piece, 'utf-8').toString('latin1')).length;
+        if (this.pieceCache.size >= MAX_CACHED_PIECES) {
+            this.pieceCache.clear();
+        }
+        this.pieceCache.set(piece, count);
+        return count;
+    }
+
+    /**
+     * Merge the lowest-ranked adjacent pair until no pair is in the vocabulary
+     */
+    private mergePiece(bytes: string): string[] {
+        if (this.ranks.has(bytes)) {
+            return [bytes];
+        }
+        const parts = bytes.split('');
+        while (parts.length > 1) {
+            let bestRank = Infinity;
+            let bestIndex = -1;
+            for (let i = 0; i < parts.length - 1; i++) {
+                const rank = this.ranks.get(parts[i] + parts[i + 1]);
+                if (rank !== undefined && rank < bestRank) {
+                    bestRank = rank;
+                    bestIndex = i;
+                }
+            }
+            if (bestIndex === -1) {
+                break;
+            }
+            parts.splice(bestIndex, 2, parts[bestIndex] + parts[bestIndex + 1]);
+        }
+        return parts;
+    }
+}
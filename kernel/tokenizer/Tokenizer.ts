@@ -0,0 +1,29 @@
+/**
+ * Tokenizer - Token counting abstraction used for prompt sizing
+ *
+ * Implementations:
+ *   - BPETokenizer: exact counts from an offline BPE vocabulary (tiktoken rank format)
+ *   - HeuristicTokenizer: characters-per-token estimate, used when no vocabulary is available
+ */
+
+export interface Tokenizer {
+    readonly id: string;            // e.g. "cl100k_base", "heuristic:3.5"
+    readonly exact: boolean;        // false when counts are estimated
+    count(text: string): number;
+}
+
+/**
+ * Characters-per-token estimate (no vocabulary)
+ */
+export class HeuristicTokenizer implements Tokenizer {
+    readonly id: string;
+    readonly exact = false;
+
+    constructor(private readonly charsPerToken: number) {
+        this.id = `heuristic:${charsPerToken}`;
+    }
+
+    count(text: string): number {
+        return Math.ceil(text.length / this.charsPerToken);
+    }
+}
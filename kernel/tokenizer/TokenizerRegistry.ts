@@ -0,0 +1,86 @@
+/**
+ * TokenizerRegistry - Resolves a tokenizer per model family
+ *
+ * Each family looks for "<family>.tiktoken" in the search paths (workspace
+ * `.reasoning_rl4/tokenizers/` first, then the vocabularies shipped with the
+ * extension in kernel/tokenizer/vocab/, copied to out/ by compile:extension).
+ * Families without a public vocabulary, or whose file is missing, fall back
+ * to a characters-per-token estimate (Tokenizer.exact = false).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Tokenizer, HeuristicTokenizer } from './Tokenizer';
+import { BPETokenizer } from './BPETokenizer';
+
+export type TokenizerFamily = 'cl100k_base' | 'o200k_base' | 'claude' | 'gemini' | 'heuristic';
+
+interface TokenizerFamilySpec {
+    pattern?: RegExp;               // Pre-tokenization pattern (BPE families only)
+    charsPerToken: number;          // Fallback estimate when no vocabulary is loaded
+}
+
+// JS has no inline (?i:...) groups: contractions are spelled out case-insensitively
+const CONTRACTIONS = "'[sS]|'[tT]|'[rR][eE]|'[vV][eE]|'[mM]|'[lL][lL]|'[dD]";
+
+const FAMILIES: Record<TokenizerFamily, TokenizerFamilySpec> = {
+    cl100k_base: {
+        pattern: new RegExp(`${CONTRACTIONS}|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+`, 'gu'),
+        charsPerToken: 4
+    },
+    o200k_base: {
+        pattern: new RegExp([
+            `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+(?:${CONTRACTIONS})?`,
+            `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*(?:${CONTRACTIONS})?`,
+            `\\p{N}{1,3}`,
+            ` ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*`,
+            `\\s*[\\r\\n]+`,
+            `\\s+(?!\\S)`,
+            `\\s+`
+        ].join('|'), 'gu'),
+        charsPerToken: 4
+    },
+    claude: { charsPerToken: 3.5 },
+    gemini: { charsPerToken: 4 },
+    heuristic: { charsPerToken: 4 }
+};
+
+// Default for the source tree and tsc output; the bundled kernel sets its paths at boot
+let searchPaths: string[] = [path.join(__dirname, 'vocab')];
+const loaded = new Map<TokenizerFamily, Tokenizer>();
+
+/**
+ * Set the directories searched for "<family>.tiktoken" files (first match wins)
+ */
+export function setTokenizerSearchPaths(paths: string[]): void {
+    searchPaths = [...paths];
+    loaded.clear();
+}
+
+/**
+ * Tokenizer for a family (loaded once, then cached)
+ */
+export function getTokenizer(family: TokenizerFamily): Tokenizer {
+    const cached = loaded.get(family);
+    if (cached) {
+        return cached;
+    }
+
+    const spec = FAMILIES[family] || FAMILIES.heuristic;
+    let tokenizer: Tokenizer = new HeuristicTokenizer(spec.charsPerToken);
+    if (spec.pattern) {
+        const vocabPath = searchPaths
+            .map(dir => path.join(dir, `${family}.tiktoken`))
+            .find(candidate => fs.existsSync(candidate));
+        if (vocabPath) {
+            try {
+                tokenizer = BPETokenizer.fromTiktokenFile(family, vocabPath, spec.pattern);
+            } catch (error) {
+                console.warn(`[TokenizerRegistry] Failed to load ${vocabPath}, using estimate: ${error}`);
+            }
+        }
+    }
+
+    loaded.set(family, tokenizer);
+    return tokenizer;
+}
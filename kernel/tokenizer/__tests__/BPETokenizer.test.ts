@@ -0,0 +1,85 @@
+/**
+ * Tests for BPETokenizer and TokenizerRegistry
+ *
+ * Verifies rank-ordered byte-pair merging on a tiny tiktoken-format vocabulary,
+ * vocabulary lookup through the search paths, the estimate fallback, and the
+ * vocabularies shipped in kernel/tokenizer/vocab.
+ */
+
+import { BPETokenizer } from '../BPETokenizer';
+import { getTokenizer, setTokenizerSearchPaths } from '../TokenizerRegistry';
+import { estimateTokens, resolveModelProfile, truncateToTokens } from '../../api/TokenBudget';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('BPETokenizer - Offline vocabulary', () => {
+  let vocabDir: string;
+
+  // Every single byte, then "ab", "cd" and "abcd" (lower rank = merged first)
+  function writeVocab(file: string): void {
+    const lines: string[] = [];
+    for (let byte = 0; byte < 256; byte++) {
+      lines.push(`${Buffer.from([byte]).toString('base64')} ${byte}`);
+    }
+    ['ab', 'cd', 'abcd'].forEach((token, i) => lines.push(`${Buffer.from(token).toString('base64')} ${256 + i}`));
+    fs.writeFileSync(file, lines.join('\n') + '\n');
+  }
+
+  beforeEach(() => {
+    vocabDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rl4-tokenizer-test-'));
+    writeVocab(path.join(vocabDir, 'cl100k_base.tiktoken'));
+    setTokenizerSearchPaths([vocabDir]);
+  });
+
+  afterEach(() => {
+    setTokenizerSearchPaths([]);
+    fs.rmSync(vocabDir, { recursive: true, force: true });
+  });
+
+  test('should merge byte pairs by rank', () => {
+    const tokenizer = BPETokenizer.fromTiktokenFile('test', path.join(vocabDir, 'cl100k_base.tiktoken'), /\S+|\s+/g);
+
+    expect(tokenizer.encode('abcd')).toEqual([258]);
+    expect(tokenizer.encode('abce')).toEqual([256, 99, 101]);
+    expect(tokenizer.count('abcd abce')).toBe(5);
+    expect(tokenizer.count('é')).toBe(2); // 2 UTF-8 bytes, no merge
+  });
+
+  test('should load vocabularies from the search paths and fall back to an estimate', () => {
+    const cl100k = getTokenizer('cl100k_base');
+    expect(cl100k.exact).toBe(true);
+    expect(cl100k.id).toBe('cl100k_base');
+
+    const o200k = getTokenizer('o200k_base');
+    expect(o200k.exact).toBe(false);
+    expect(o200k.count('abcdefgh')).toBe(2);
+
+    // Profiles size prompts with their family's tokenizer
+    const gpt4 = resolveModelProfile('gpt-4');
+    expect(estimateTokens('abcd abcd', gpt4)).toBe(3); // "abcd", " ", "abcd"
+    const truncated = truncateToTokens('abcd abcd abcd abcd', 5, gpt4);
+    expect(estimateTokens(truncated, gpt4)).toBeLessThanOrEqual(5);
+    expect(truncated.endsWith('…')).toBe(true);
+  });
+});
+
+describe('TokenizerRegistry - Shipped vocabularies', () => {
+  afterEach(() => {
+    setTokenizerSearchPaths([]);
+  });
+
+  test('should count exactly with the cl100k_base and o200k_base rank files', () => {
+    setTokenizerSearchPaths([path.join(__dirname, '..', 'vocab')]);
+    const text = "Hello, world! L'été est là.";
+
+    const cl100k = getTokenizer('cl100k_base') as BPETokenizer;
+    expect(cl100k.exact).toBe(true);
+    expect(cl100k.encode(text)).toEqual([9906, 11, 1917, 0, 445, 6, 39883, 1826, 39015, 13]);
+
+    const o200k = getTokenizer('o200k_base') as BPETokenizer;
+    expect(o200k.exact).toBe(true);
+    expect(o200k.encode(text)).toEqual([13225, 11, 2375, 0, 451, 124512, 893, 8052, 13]);
+    expect(estimateTokens(text, resolveModelProfile('gpt-4o'))).toBe(9);
+  });
+});
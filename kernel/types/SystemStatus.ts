@@ -46,5 +46,8 @@ export interface TimeMachineResult {
         safeModeEvents: number;
         avgCognitiveLoad?: number;
         finalBytes: number;
+        finalTokens: number;
+        tokenizer: string;
+        tokensExact: boolean;
     };
 }
\ No newline at end of file
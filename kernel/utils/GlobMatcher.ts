@@ -0,0 +1,94 @@
+/**
+ * GlobMatcher - Correspondance de chemins par glob (sans dépendance externe)
+ *
+ * Syntaxe supportée :
+ *   **      → n'importe quel nombre de segments (y compris zéro)
+ *   *       → n'importe quels caractères sauf '/'
+ *   ?       → un caractère sauf '/'
+ *   {a,b}   → alternatives
+ *   [abc]   → classe de caractères
+ *
+ * Les chemins sont comparés en forme POSIX ('\\' → '/').
+ */
+
+const regexCache: Map<string, RegExp> = new Map();
+
+/**
+ * Vrai si la chaîne contient des méta-caractères glob
+ */
+export function isGlobPattern(pattern: string): boolean {
+    return /[*?{[]/.test(pattern);
+}
+
+/**
+ * Normaliser un chemin en forme POSIX relative (sans './' initial)
+ */
+export function toPosixPath(filePath: string): string {
+    return filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+/**
+ * Compiler un glob en RegExp ancrée
+ */
+export function globToRegExp(pattern: string): RegExp {
+    const cached = regexCache.get(pattern);
+    if (cached) {
+        return cached;
+    }
+
+    const glob = toPosixPath(pattern);
+    let source = '';
+    let braceDepth = 0;
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                // '**/' matche zéro ou plusieurs segments, '**' final matche tout
+                const atSegmentStart = i === 0 || glob[i - 1] === '/';
+                if (glob[i + 2] === '/' && atSegmentStart) {
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i += 1;
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            braceDepth++;
+            source += '(?:';
+        } else if (char === '}' && braceDepth > 0) {
+            braceDepth--;
+            source += ')';
+        } else if (char === ',' && braceDepth > 0) {
+            source += '|';
+        } else if (char === '[') {
+            const close = glob.indexOf(']', i + 1);
+            if (close === -1) {
+                source += '\\[';
+            } else {
+                const body = glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\');
+                source += `[${body}]`;
+                i = close;
+            }
+        } else {
+            source += char.replace(/[.+^$|()\\\]]/g, '\\$&');
+        }
+    }
+
+    const regex = new RegExp(`^${source}$`);
+    regexCache.set(pattern, regex);
+    return regex;
+}
+
+/**
+ * Tester un chemin contre un glob
+ */
+export function matchesGlob(filePath: string, pattern: string): boolean {
+    return globToRegExp(pattern).test(toPosixPath(filePath));
+}
@@ -0,0 +1,249 @@
+/**
+ * IgnoreEngine - Règles d'exclusion partagées (.gitignore, .rl4ignore)
+ *
+ * Une seule source de vérité pour le watcher et les analyseurs qui parcourent le
+ * workspace. Ordre de priorité (la dernière règle qui correspond l'emporte) :
+ *   1. DEFAULT_IGNORES        → défauts RL4 (node_modules/, venv/, ...), annulables par '!'
+ *   2. .git/info/exclude
+ *   3. .gitignore             → racine puis dossiers imbriqués, du plus haut au plus profond
+ *   4. .rl4ignore             → racine du workspace uniquement
+ * MANDATORY_IGNORES (.git, .reasoning_rl4/, .reasoning/) passent avant tout : RL4 ne doit
+ * jamais observer ses propres écritures (boucles infinies).
+ *
+ * Syntaxe gitignore : '#' commentaire, '!' négation, '/' final → dossiers seulement,
+ * '/' initial ou interne → ancré sur le dossier du fichier, sinon à toute profondeur.
+ * Comme git, un fichier dont un dossier parent est exclu ne peut pas être ré-inclus.
+ *
+ * ZERO-INTELLIGENCE : Application littérale des fichiers de règles.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { globToRegExp, toPosixPath } from './GlobMatcher';
+
+export const RL4_IGNORE_FILE = '.rl4ignore';
+export const MANDATORY_IGNORES = ['.git', '/.reasoning_rl4/', '/.reasoning/'];
+export const DEFAULT_IGNORES = ['node_modules/', 'venv/', '.venv/', '__pycache__/', '.DS_Store'];
+
+export interface IgnoreRuleRef {
+    source: string;      // 'mandatory', 'default', ou fichier relatif au workspace (ex: 'src/.gitignore')
+    line: number;        // 1-based (0 pour mandatory/default)
+    pattern: string;     // Ligne d'origine
+    negated: boolean;
+}
+
+export interface IgnoreVerdict {
+    path: string;                // Relatif au workspace, forme POSIX
+    ignored: boolean;
+    rule: IgnoreRuleRef | null;  // Règle décisive (null : aucune règle ne s'applique)
+    ancestor?: string;           // Dossier parent exclu qui emporte ce chemin
+}
+
+interface IgnoreRule extends IgnoreRuleRef {
+    base: string;        // Dossier du fichier de règles ('' = racine)
+    dirOnly: boolean;
+    regex: RegExp;
+}
+
+export class IgnoreEngine {
+    private workspaceRoot: string;
+    private useGitignore: boolean;
+    private mandatory: IgnoreRule[];
+    private defaults: IgnoreRule[];
+    private fileRules: Map<string, IgnoreRule[]> = new Map();   // Fichier de règles → règles compilées
+
+    constructor(workspaceRoot: string, options: { useGitignore?: boolean; defaults?: string[] } = {}) {
+        this.workspaceRoot = workspaceRoot;
+        this.useGitignore = options.useGitignore ?? true;
+        this.mandatory = compileRules(MANDATORY_IGNORES, '', 'mandatory', false);
+        this.defaults = compileRules(options.defaults ?? DEFAULT_IGNORES, '', 'default', false);
+    }
+
+    /**
+     * Oublier les règles chargées (un .gitignore / .rl4ignore a changé)
+     */
+    reload(): void {
+        this.fileRules.clear();
+    }
+
+    /**
+     * Vrai si le chemin (absolu ou relatif au workspace) est exclu
+     */
+    isIgnored(filePath: string, isDirectory: boolean = false): boolean {
+        return this.explain(filePath, isDirectory).ignored;
+    }
+
+    /**
+     * Pourquoi ce chemin est-il exclu (ou pas) : règle décisive, fichier et ligne
+     * @param below - dossier accepté explicitement (ex: préfixe d'un motif configuré) :
+     *   seuls les chemins sous lui sont jugés, pas lui ni ses parents
+     */
+    explain(filePath: string, isDirectory: boolean = false, below?: string): IgnoreVerdict {
+        const rel = this.toRelative(filePath);
+        if (rel === null || rel === '') {
+            return { path: rel ?? toPosixPath(filePath), ignored: false, rule: null };
+        }
+
+        const segments = rel.split('/');
+        const first = below && rel.startsWith(`${below}/`) ? below.split('/').length + 1 : 1;
+        let verdict: IgnoreVerdict = { path: rel, ignored: false, rule: null };
+        for (let i = first; i <= segments.length; i++) {
+            const prefix = segments.slice(0, i).join('/');
+            const isLast = i === segments.length;
+            const rule = this.match(prefix, isLast ? isDirectory : true);
+            if (rule && !rule.negated) {
+                return {
+                    path: rel,
+                    ignored: true,
+                    rule: toRef(rule),
+                    ...(isLast ? {} : { ancestor: prefix })
+                };
+            }
+            if (isLast) {
+                verdict = { path: rel, ignored: false, rule: rule ? toRef(rule) : null };
+            }
+        }
+        return verdict;
+    }
+
+    /**
+     * Fichiers de règles actuellement pris en compte pour un dossier (diagnostic)
+     */
+    sourcesFor(dirPath: string = ''): string[] {
+        const rel = this.toRelative(dirPath) ?? '';
+        return this.ruleFilesFor(rel).filter(file => fs.existsSync(path.join(this.workspaceRoot, file)));
+    }
+
+    private match(rel: string, isDirectory: boolean): IgnoreRule | null {
+        for (const rule of this.mandatory) {
+            if (ruleMatches(rule, rel, isDirectory)) {
+                return rule;
+            }
+        }
+
+        let decisive: IgnoreRule | null = null;
+        const dir = rel.includes('/') ? rel.slice(0, rel.lastIndexOf('/')) : '';
+        const candidates = [this.defaults, ...this.ruleFilesFor(dir).map(file => this.loadRules(file))];
+        for (const rules of candidates) {
+            for (const rule of rules) {
+                if (ruleMatches(rule, rel, isDirectory)) {
+                    decisive = rule;
+                }
+            }
+        }
+        return decisive;
+    }
+
+    /**
+     * Fichiers de règles applicables à un dossier, par priorité croissante
+     */
+    private ruleFilesFor(dir: string): string[] {
+        const files: string[] = [];
+        if (this.useGitignore) {
+            files.push('.git/info/exclude', '.gitignore');
+            const segments = dir ? dir.split('/') : [];
+            for (let i = 1; i <= segments.length; i++) {
+                files.push(`${segments.slice(0, i).join('/')}/.gitignore`);
+            }
+        }
+        files.push(RL4_IGNORE_FILE);
+        return files;
+    }
+
+    private loadRules(file: string): IgnoreRule[] {
+        const cached = this.fileRules.get(file);
+        if (cached) {
+            return cached;
+        }
+
+        let rules: IgnoreRule[] = [];
+        try {
+            const content = fs.readFileSync(path.join(this.workspaceRoot, file), 'utf-8');
+            const base = file === '.git/info/exclude' || !file.includes('/') ? '' : file.slice(0, file.lastIndexOf('/'));
+            rules = compileRules(content.split('\n'), base, file, true);
+        } catch {
+            // Fichier absent : aucune règle
+        }
+        this.fileRules.set(file, rules);
+        return rules;
+    }
+
+    private toRelative(filePath: string): string | null {
+        const rel = toPosixPath(path.isAbsolute(filePath) ? path.relative(this.workspaceRoot, filePath) : filePath)
+            .replace(/\/+$/, '');
+        if (rel === '.') {
+            return '';
+        }
+        if (rel === '..' || rel.startsWith('../') || path.isAbsolute(rel)) {
+            return null;  // Hors workspace : jamais exclu par nos règles
+        }
+        return rel;
+    }
+}
+
+/**
+ * Formater un verdict pour un humain ("dist/app.js is ignored by .gitignore:3 (dist/) via dist/")
+ */
+export function describeIgnoreVerdict(verdict: IgnoreVerdict): string {
+    if (!verdict.rule) {
+        return `${verdict.path} is not ignored (no matching rule)`;
+    }
+    const where = verdict.rule.line > 0 ? `${verdict.rule.source}:${verdict.rule.line}` : `${verdict.rule.source} rules`;
+    if (!verdict.ignored) {
+        return `${verdict.path} is not ignored: re-included by ${where} (${verdict.rule.pattern})`;
+    }
+    return `${verdict.path} is ignored by ${where} (${verdict.rule.pattern})${verdict.ancestor ? ` via ${verdict.ancestor}/` : ''}`;
+}
+
+function compileRules(lines: string[], base: string, source: string, numbered: boolean): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    lines.forEach((raw, index) => {
+        const line = raw.replace(/\r$/, '').replace(/(?<!\\)\s+$/, '');
+        if (!line || line.startsWith('#')) {
+            return;
+        }
+
+        let pattern = line;
+        const negated = pattern.startsWith('!');
+        if (negated) {
+            pattern = pattern.slice(1);
+        } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+            pattern = pattern.slice(1);
+        }
+        const dirOnly = pattern.endsWith('/');
+        pattern = pattern.replace(/\/+$/, '');
+        if (!pattern) {
+            return;
+        }
+        const anchored = pattern.includes('/');
+        pattern = pattern.replace(/^\//, '');
+
+        rules.push({
+            source,
+            line: numbered ? index + 1 : 0,
+            pattern: line,
+            negated,
+            base,
+            dirOnly,
+            regex: globToRegExp(anchored ? pattern : `**/${pattern}`)
+        });
+    });
+    return rules;
+}
+
+function ruleMatches(rule: IgnoreRule, rel: string, isDirectory: boolean): boolean {
+    if (rule.dirOnly && !isDirectory) {
+        return false;
+    }
+    if (rule.base) {
+        if (!rel.startsWith(rule.base + '/')) {
+            return false;
+        }
+        rel = rel.slice(rule.base.length + 1);
+    }
+    return rule.regex.test(rel);
+}
+
+function toRef(rule: IgnoreRule): IgnoreRuleRef {
+    return { source: rule.source, line: rule.line, pattern: rule.pattern, negated: rule.negated };
+}
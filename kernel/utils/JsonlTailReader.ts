@@ -0,0 +1,74 @@
+/**
+ * JsonlTailReader - Lecture incrémentale d'un fichier en append (JSONL, reflog git...)
+ *
+ * Suit le fichier par offset : chaque lecture ne rend que les lignes complètes écrites
+ * depuis la précédente. La ligne en cours d'écriture est gardée jusqu'à son '\n'.
+ * Fichier tronqué ou roté (taille < offset) : on repart de la fin, sans relire l'historique.
+ */
+
+import * as fs from 'fs';
+
+export class JsonlTailReader {
+    private offset: number = 0;
+    private partialLine: string = '';
+
+    constructor(private readonly filePath: string) {}
+
+    /**
+     * Ignorer le contenu existant : seules les lignes écrites ensuite seront lues
+     */
+    seekToEnd(): void {
+        this.offset = this.fileSize();
+        this.partialLine = '';
+    }
+
+    /**
+     * Nouvelles lignes complètes et non vides, dans l'ordre du fichier
+     */
+    readLines(): string[] {
+        const size = this.fileSize();
+        if (size < this.offset) {
+            this.seekToEnd();
+            return [];
+        }
+        if (size === this.offset) {
+            return [];
+        }
+
+        const buffer = Buffer.alloc(size - this.offset);
+        const fd = fs.openSync(this.filePath, 'r');
+        try {
+            fs.readSync(fd, buffer, 0, buffer.length, this.offset);
+        } finally {
+            fs.closeSync(fd);
+        }
+        this.offset = size;
+
+        const lines = (this.partialLine + buffer.toString('utf-8')).split('\n');
+        this.partialLine = lines.pop() || '';  // Ligne en cours d'écriture
+        return lines.filter(line => line.trim());
+    }
+
+    /**
+     * Nouvelles lignes décodées en JSON (lignes malformées ignorées)
+     */
+    readRecords<T = any>(): T[] {
+        const records: T[] = [];
+        for (const line of this.readLines()) {
+            try {
+                records.push(JSON.parse(line));
+            } catch {
+                // skip malformed lines
+            }
+        }
+        return records;
+    }
+
+    private fileSize(): number {
+        try {
+            return fs.statSync(this.filePath).size;
+        } catch {
+            return 0;
+        }
+    }
+}
@@ -0,0 +1,114 @@
+/**
+ * LRUCache - Cache borné à éviction Least-Recently-Used
+ *
+ * Map JavaScript = ordre d'insertion garanti : l'entrée la plus ancienne
+ * (moins récemment utilisée) est toujours la première clé.
+ *
+ * Borne optionnelle en poids (ex: octets) : `weigh` mesure chaque valeur, et l'éviction
+ * continue tant que le poids total dépasse `maxWeight`. Une valeur plus lourde que
+ * `maxWeight` à elle seule n'est pas gardée.
+ */
+
+export class LRUCache<K, V> {
+    private entries: Map<K, V> = new Map();
+    private weights: Map<K, number> = new Map();
+    private totalWeight: number = 0;
+    private evictionCursor: Iterator<K> | null = null;  // Les clés avant le curseur ont toutes été évincées
+    private readonly maxSize: number;
+
+    constructor(
+        maxSize: number,
+        private readonly maxWeight: number = Infinity,
+        private readonly weigh?: (value: V) => number
+    ) {
+        this.maxSize = Math.max(1, Math.floor(maxSize));
+    }
+
+    /**
+     * Lire une entrée (la marque comme récemment utilisée)
+     */
+    get(key: K): V | undefined {
+        if (!this.entries.has(key)) {
+            return undefined;
+        }
+        const value = this.entries.get(key)!;
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        return value;
+    }
+
+    /**
+     * Insérer une entrée (évince la plus ancienne si capacité dépassée)
+     */
+    set(key: K, value: V): void {
+        this.delete(key);
+        const weight = this.weigh ? this.weigh(value) : 0;
+        if (weight > this.maxWeight) {
+            return;
+        }
+        this.entries.set(key, value);
+        this.weights.set(key, weight);
+        this.totalWeight += weight;
+
+        while (this.entries.size > this.maxSize || this.totalWeight > this.maxWeight) {
+            this.delete(this.oldestKey());
+        }
+    }
+
+    has(key: K): boolean {
+        return this.entries.has(key);
+    }
+
+    delete(key: K): boolean {
+        this.totalWeight -= this.weights.get(key) ?? 0;
+        this.weights.delete(key);
+        return this.entries.delete(key);
+    }
+
+    /**
+     * Retirer toutes les entrées qui satisfont le prédicat (renvoie le nombre retiré)
+     */
+    deleteWhere(predicate: (value: V, key: K) => boolean): number {
+        let removed = 0;
+        for (const [key, value] of Array.from(this.entries)) {
+            if (predicate(value, key)) {
+                this.delete(key);
+                removed++;
+            }
+        }
+        return removed;
+    }
+
+    clear(): void {
+        this.evictionCursor = null;
+        this.entries.clear();
+        this.weights.clear();
+        this.totalWeight = 0;
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    get capacity(): number {
+        return this.maxSize;
+    }
+
+    get weight(): number {
+        return this.totalWeight;
+    }
+
+    /**
+     * Plus ancienne entrée. keys().next() repartirait du début de la Map à chaque éviction
+     * et sauterait toutes les entrées supprimées (quadratique) : un itérateur persistant
+     * reprend là où la dernière éviction s'est arrêtée.
+     */
+    private oldestKey(): K {
+        let next = this.evictionCursor?.next();
+        if (!next || next.done) {
+            this.evictionCursor = this.entries.keys();
+            next = this.evictionCursor.next();
+        }
+        return next.value as K;
+    }
+}
@@ -0,0 +1,77 @@
+/**
+ * Tests for the shared ignore engine
+ *
+ * Verifies that .gitignore (root and nested), .rl4ignore and RL4 defaults combine with
+ * gitignore precedence, that RL4's own data stays ignored whatever the rules say, and
+ * that explain() names the decisive rule for "why is this file ignored".
+ */
+
+import { IgnoreEngine, describeIgnoreVerdict } from '../IgnoreEngine';
+import { CodeStateAnalyzer } from '../../api/CodeStateAnalyzer';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('IgnoreEngine - .gitignore and .rl4ignore rules', () => {
+  let root: string;
+
+  function write(relative: string, content: string = ''): void {
+    const filePath = path.join(root, relative);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'rl4-ignore-test-'));
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(root)) {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  test('should apply gitignore precedence across nested files and .rl4ignore', () => {
+    write('.gitignore', '# build output\ndist/\n*.log\n!keep.log\n/secrets.json\n');
+    write('packages/api/.gitignore', 'generated/\n!debug.log\n');
+    write('.rl4ignore', 'fixtures/**/*.jsonl\n!node_modules/\n');
+
+    const engine = new IgnoreEngine(root);
+
+    expect(engine.isIgnored('dist', true)).toBe(true);
+    expect(engine.isIgnored('dist')).toBe(false);                      // dir-only rule, plain file named dist
+    expect(engine.explain('dist/app.js')).toMatchObject({ ignored: true, ancestor: 'dist', rule: { source: '.gitignore', line: 2 } });
+    expect(engine.isIgnored('logs/server.log')).toBe(true);
+    expect(engine.explain('keep.log')).toMatchObject({ ignored: false, rule: { pattern: '!keep.log', negated: true } });
+    expect(engine.isIgnored('secrets.json')).toBe(true);
+    expect(engine.isIgnored('config/secrets.json')).toBe(false);       // anchored on the root
+    expect(engine.isIgnored('packages/api/generated/client.ts')).toBe(true);
+    expect(engine.isIgnored('packages/web/generated/client.ts')).toBe(false);
+    expect(engine.isIgnored('packages/api/debug.log')).toBe(false);    // nested file overrides the root
+    expect(engine.isIgnored('data/events.jsonl')).toBe(false);         // .jsonl sources are no longer blanket-ignored
+    expect(engine.isIgnored('fixtures/a/b/events.jsonl')).toBe(true);
+    expect(engine.isIgnored('node_modules/lib/index.js')).toBe(false); // default re-included by .rl4ignore
+    expect(engine.isIgnored(path.join(root, '.reasoning_rl4', 'traces', 'x.jsonl'))).toBe(true);
+    expect(engine.isIgnored(path.join(os.tmpdir(), 'elsewhere.ts'))).toBe(false);
+
+    expect(describeIgnoreVerdict(engine.explain('dist/app.js'))).toBe('dist/app.js is ignored by .gitignore:2 (dist/) via dist/');
+    expect(describeIgnoreVerdict(engine.explain('src/index.ts'))).toBe('src/index.ts is not ignored (no matching rule)');
+    expect(describeIgnoreVerdict(engine.explain('.git/HEAD'))).toBe('.git/HEAD is ignored by mandatory rules (.git) via .git/');
+
+    fs.writeFileSync(path.join(root, '.gitignore'), '');
+    expect(engine.isIgnored('dist/app.js')).toBe(true);                // cached until reload()
+    engine.reload();
+    expect(engine.isIgnored('dist/app.js')).toBe(false);
+  });
+
+  test('should keep ignored sources out of CodeStateAnalyzer scans', () => {
+    write('.gitignore', 'build/\n');
+    write('src/index.ts', 'export const a = 1;\n');
+    write('build/index.js', 'exports.a = 1;\n');
+    write('node_modules/lib/index.js', 'module.exports = {};\n');
+
+    const snapshot = new CodeStateAnalyzer().analyze(root);
+
+    expect(snapshot.files.map(f => path.relative(root, f.path))).toEqual([path.join('src', 'index.ts')]);
+  });
+});
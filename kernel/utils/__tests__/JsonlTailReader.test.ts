@@ -0,0 +1,45 @@
+/**
+ * Tests for the shared append-only file tail reader
+ *
+ * Verifies that only complete lines written since the last read are returned, that a
+ * line still being written waits for its newline, and that a truncated file restarts
+ * from its end instead of replaying history.
+ */
+
+import { JsonlTailReader } from '../JsonlTailReader';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('JsonlTailReader - Incremental reads', () => {
+  let root: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'rl4-tail-test-'));
+    filePath = path.join(root, 'events.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('should read new complete lines, keep partial ones and restart after truncation', () => {
+    fs.writeFileSync(filePath, '{"n":0}\n');
+    const reader = new JsonlTailReader(filePath);
+    reader.seekToEnd();
+    expect(reader.readRecords()).toEqual([]);
+
+    fs.appendFileSync(filePath, '{"n":1}\nnot json\n\n{"n":');
+    expect(reader.readRecords()).toEqual([{ n: 1 }]);
+    fs.appendFileSync(filePath, '2}\n');
+    expect(reader.readRecords()).toEqual([{ n: 2 }]);
+
+    fs.writeFileSync(filePath, '{"n":3}\n');
+    expect(reader.readLines()).toEqual([]);
+    fs.appendFileSync(filePath, 'raw line\n');
+    expect(reader.readLines()).toEqual(['raw line']);
+
+    expect(new JsonlTailReader(path.join(root, 'missing.jsonl')).readLines()).toEqual([]);
+  });
+});
@@ -14,6 +14,7 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { IgnoreEngine } from '../utils/IgnoreEngine';
 
 export interface ValidationIssue {
     type: 'error' | 'warning' | 'info';
@@ -44,7 +45,7 @@ export interface ValidationResult {
 export interface ValidationOptions {
     includeWarnings: boolean;
     maxDepth: number;
-    skipDirectories: string[];
+    skipDirectories: string[];     // En plus des règles IgnoreEngine (.gitignore, .rl4ignore)
     filePatterns: string[];
     strictMode: boolean;
 }
@@ -70,17 +71,19 @@ export class CrossFileConsistencyValidator {
     private options: ValidationOptions;
     private dependencyGraph: DependencyGraph;
     private jsonSchemas: Map<string, any> = new Map();
+    private ignoreEngine: IgnoreEngine;
 
     constructor(workspaceRoot: string, options?: Partial<ValidationOptions>) {
         this.workspaceRoot = workspaceRoot;
         this.options = {
             includeWarnings: true,
             maxDepth: 10,
-            skipDirectories: ['node_modules', '.git', 'venv', '__pycache__', 'target', 'dist'],
+            skipDirectories: [],
             filePatterns: ['*.json', '*.js', '*.ts', '*.py', '*.rs', '*.yaml', '*.yml'],
             strictMode: false,
             ...options
         };
+        this.ignoreEngine = new IgnoreEngine(workspaceRoot);
 
         this.dependencyGraph = {
             nodes: new Map(),
@@ -346,6 +349,9 @@ export class CrossFileConsistencyValidator {
                 for (const item of items) {
                     const itemPath = path.join(dir, item);
                     const stats = fs.statSync(itemPath);
+                    if (this.ignoreEngine.isIgnored(itemPath, stats.isDirectory())) {
+                        continue;
+                    }
 
                     if (stats.isFile()) {
                         if (this.matchesFilePattern(item, pattern)) {
@@ -20,6 +20,7 @@ import { CapturedSession } from './components/dev/CapturedSession';
 import { TrackedItems } from './components/dev/TrackedItems';
 import { InsightsView } from './components/insights/InsightsView';
 import { TimeMachineView } from './components/timemachine/TimeMachineView';
+import { DecisionView } from './components/decisions/DecisionView';
 import { AboutView } from './components/about/AboutView';
 import { RebuildView } from './components/rebuild/RebuildView';
 
@@ -98,6 +99,8 @@ export default function App() {
         return <InsightsView />;
       case 'timemachine':
         return <TimeMachineView />;
+      case 'decisions':
+        return <DecisionView />;
       case 'about':
         return <AboutView />;
       case 'rebuild':
@@ -39,5 +39,25 @@ export class KernelAPIWrapper {
   buildTimeMachine(startIso: string, endIso: string) {
     this.send('rl4:buildTimeMachine', { startIso, endIso });
   }
+
+  queryEvents(query: string) {
+    this.send('rl4:queryEvents', { query });
+  }
+
+  searchHistory(query: string) {
+    this.send('rl4:searchHistory', { query });
+  }
+
+  replayDiff(a: { startTime: number; endTime: number } | { hash: string }, b: { startTime: number; endTime: number } | { hash: string }) {
+    this.send('rl4:replayDiff', { a, b });
+  }
+
+  getDecisionGraph(decisionId?: string) {
+    this.send('rl4:getDecisionGraph', { decisionId });
+  }
+
+  getDecisionConflicts() {
+    this.send('rl4:getDecisionConflicts', {});
+  }
 }
 
@@ -1,12 +1,21 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useStore } from '../../state/store';
 import { Button } from '../ui/Button';
+import { Dropdown } from '../ui/Dropdown';
+import { useSnapshot } from '../../hooks/useSnapshot';
 
 export const PromptPreview: React.FC = () => {
   const prompt = useStore((s) => s.snapshotPrompt);
   const lastSnapshotIso = useStore((s) => s.lastSnapshotIso);
+  const snapshotTokens = useStore((s) => s.snapshotTokens);
+  const tokenizerInfo = useStore((s) => s.tokenizerInfo);
+  const { loadTokenizer, setTokenizerModel } = useSnapshot();
   const [copied, setCopied] = useState(false);
 
+  useEffect(() => {
+    loadTokenizer();
+  }, []);
+
   const handleCopy = async () => {
     if (prompt) {
       try {
@@ -40,6 +49,27 @@ export const PromptPreview: React.FC = () => {
         </div>
         <span className="chat-secure">Local • Secure</span>
       </div>
+      <div className="prompt-token-bar">
+        {tokenizerInfo && (
+          <Dropdown
+            className="prompt-token-model"
+            options={tokenizerInfo.models.map((model) => ({ label: model, value: model }))}
+            value={tokenizerInfo.model}
+            onChange={setTokenizerModel}
+          />
+        )}
+        {snapshotTokens && (
+          <span
+            className={`prompt-token-count ${snapshotTokens.fits === false ? 'over-budget' : ''}`}
+            title={snapshotTokens.exact ? `Counted with ${snapshotTokens.tokenizer}` : 'Estimated: no vocabulary available for this model'}
+          >
+            {snapshotTokens.exact ? '' : '≈'}{snapshotTokens.tokens.toLocaleString()} tokens
+            {snapshotTokens.budget !== null && ` / ${snapshotTokens.budget.toLocaleString()}`}
+            {' · '}{snapshotTokens.tokenizer}
+            {snapshotTokens.cuts > 0 && ` · ${snapshotTokens.cuts} cut`}
+          </span>
+        )}
+      </div>
       <div className="chat-body">
         <div className="chat-bubble agent">
         {lastSnapshotIso && (
@@ -4,6 +4,7 @@ import { Button } from '../ui/Button';
 import { Card } from '../ui/Card';
 import { ModeSelector } from './ModeSelector';
 import { useSnapshot } from '../../hooks/useSnapshot';
+import { BranchFilter } from '../timemachine/BranchFilter';
 
 const getVsCodeApi = () => {
   if (window.vscode) return window.vscode;
@@ -53,6 +54,7 @@ export const SnapshotSection: React.FC = () => {
           </p>
         )}
       </div>
+      <BranchFilter disabled={loading} />
       <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
       <Button
         variant="primary"
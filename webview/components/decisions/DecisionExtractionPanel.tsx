@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { useStore } from '../../state/store';
+import { Card } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { useDecisions } from '../../hooks/useDecisions';
+
+export const DecisionExtractionPanel: React.FC = () => {
+  const report = useStore((s) => s.decisionExtraction);
+  const busy = useStore((s) => s.decisionExtractionBusy);
+  const error = useStore((s) => s.decisionExtractionError);
+  const { loadExtractionReport, submitDecisions, resubmitDecision } = useDecisions();
+  const [response, setResponse] = useState('');
+  const [edits, setEdits] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    loadExtractionReport();
+  }, []);
+
+  useEffect(() => {
+    setEdits({});
+  }, [report]);
+
+  const keyOf = (block: number, index: number) => `${block}:${index}`;
+
+  return (
+    <Card className="decision-extraction" padded highlight={report && (report.rejected.length > 0 || report.blockErrors.length > 0) ? 'medium' : undefined}>
+      <h4>Submit LLM response</h4>
+      <textarea
+        className="decision-extraction-input"
+        value={response}
+        onChange={(e) => setResponse(e.target.value)}
+        placeholder="Paste the LLM answer (with its [RL4-REF …] line and decisions blocks)"
+        rows={6}
+      />
+      <Button variant="secondary" size="sm" onClick={() => submitDecisions(response)} disabled={busy || !response.trim()}>
+        {busy ? 'Extracting...' : 'Extract decisions'}
+      </Button>
+      {error && <p className="decision-graph-error">Error: {error}</p>}
+
+      {report && (
+        <div className="decision-extraction-report">
+          <div className="decision-conflict-scope">
+            Last extraction {new Date(report.extractedAt).toLocaleString()} · snapshot {report.rcepRef.substring(0, 12)} ·{' '}
+            {report.blocks} block(s) · {report.accepted.length} accepted · {report.rejected.length} rejected
+          </div>
+
+          {report.accepted.length > 0 && (
+            <ul>
+              {report.accepted.map((d) => (
+                <li key={d.id} className="decision-extraction-accepted">
+                  ✓ {d.intent} <span className="decision-conflict-scope">({d.confidence_llm}%, gate {d.confidence_gate})</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {report.blockErrors.map((e) => (
+            <p key={`block-${e.block}`} className="decision-graph-warning">
+              Block {e.block} ({e.format}, line {e.line}) unreadable: {e.message}
+            </p>
+          ))}
+
+          {report.rejected.map((d) => {
+            const key = keyOf(d.block, d.index);
+            const source = edits[key] ?? d.source;
+            return (
+              <div key={key} className="decision-extraction-rejected">
+                <strong>✗ Block {d.block}, decision {d.index + 1}{d.intent ? ` — ${d.intent}` : ''}</strong>
+                <ul>
+                  {d.issues.map((issue, i) => (
+                    <li key={i}>
+                      <code>{issue.path || '(decision)'}</code>: {issue.message}
+                    </li>
+                  ))}
+                </ul>
+                <textarea
+                  className="decision-extraction-input"
+                  value={source}
+                  onChange={(e) => setEdits({ ...edits, [key]: e.target.value })}
+                  rows={Math.min(16, source.split('\n').length + 1)}
+                />
+                <Button variant="secondary" size="sm" onClick={() => resubmitDecision(source, report.rcepRef)} disabled={busy}>
+                  Resubmit
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+};
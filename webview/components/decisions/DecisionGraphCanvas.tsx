@@ -0,0 +1,145 @@
+import React, { useMemo } from 'react';
+import { DecisionGraphData, DecisionGraphNode, DecisionLineage } from '../../state/types';
+
+export interface DecisionGraphCanvasProps {
+  graph: DecisionGraphData;
+  selectedId: string | null;
+  lineage: DecisionLineage | null;
+  conflictIds: string[];
+  onSelect: (id: string | null) => void;
+}
+
+const COLUMN_WIDTH = 200;
+const ROW_HEIGHT = 56;
+const NODE_WIDTH = 168;
+const NODE_HEIGHT = 36;
+const MARGIN = 16;
+
+interface PositionedNode extends DecisionGraphNode {
+  x: number;
+  y: number;
+}
+
+// Layered layout: each decision sits one column after its furthest cause, ADRs in the last column
+function layoutGraph(graph: DecisionGraphData): { nodes: PositionedNode[]; width: number; height: number } {
+  const layer = new Map<string, number>();
+  const decisions = graph.nodes.filter((n) => n.kind === 'decision');
+  decisions.forEach((n) => layer.set(n.id, 0));
+
+  const causal = graph.edges.filter((e) => e.type !== 'adr');
+  // Bounded relaxation so that cycles cannot loop forever
+  for (let pass = 0; pass < decisions.length; pass++) {
+    let changed = false;
+    for (const edge of causal) {
+      const next = (layer.get(edge.from) ?? 0) + 1;
+      if (layer.has(edge.to) && next > (layer.get(edge.to) ?? 0) && next < decisions.length) {
+        layer.set(edge.to, next);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  const adrColumn = decisions.length > 0 ? Math.max(...decisions.map((n) => layer.get(n.id) ?? 0)) + 1 : 0;
+  const rows = new Map<number, number>();
+  const nodes: PositionedNode[] = graph.nodes.map((node) => {
+    const column = node.kind === 'adr' ? adrColumn : layer.get(node.id) ?? 0;
+    const row = rows.get(column) ?? 0;
+    rows.set(column, row + 1);
+    return { ...node, x: MARGIN + column * COLUMN_WIDTH, y: MARGIN + row * ROW_HEIGHT };
+  });
+
+  const columns = nodes.length > 0 ? Math.max(...nodes.map((n) => n.x)) : 0;
+  const maxRows = Math.max(1, ...Array.from(rows.values()));
+  return {
+    nodes,
+    width: columns + NODE_WIDTH + MARGIN * 2,
+    height: MARGIN * 2 + maxRows * ROW_HEIGHT,
+  };
+}
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+export const DecisionGraphCanvas: React.FC<DecisionGraphCanvasProps> = ({ graph, selectedId, lineage, conflictIds, onSelect }) => {
+  const layout = useMemo(() => layoutGraph(graph), [graph]);
+  const byId = useMemo(() => new Map(layout.nodes.map((n) => [n.id, n])), [layout]);
+  const inCycle = useMemo(() => new Set(graph.cycles.flat()), [graph]);
+  const inConflict = useMemo(() => new Set(conflictIds), [conflictIds]);
+
+  const highlighted = useMemo(() => {
+    if (!selectedId) return null;
+    const ids = new Set<string>([selectedId]);
+    if (lineage && lineage.decisionId === selectedId) {
+      lineage.ancestors.forEach((a) => ids.add(a.id));
+      lineage.descendants.forEach((d) => ids.add(d.id));
+    }
+    graph.edges.forEach((e) => {
+      if (e.type === 'adr' && ids.has(e.from)) ids.add(e.to);
+    });
+    return ids;
+  }, [selectedId, lineage, graph]);
+
+  const nodeClass = (node: PositionedNode) => {
+    const classes = ['decision-graph-node', `decision-graph-node-${node.kind}`];
+    if (node.status) classes.push(`status-${node.status}`);
+    if (inCycle.has(node.id)) classes.push('in-cycle');
+    if (inConflict.has(node.id)) classes.push('in-conflict');
+    if (node.id === selectedId) classes.push('selected');
+    if (highlighted && !highlighted.has(node.id)) classes.push('dimmed');
+    return classes.join(' ');
+  };
+
+  return (
+    <div className="decision-graph-scroll">
+      <svg
+        className="decision-graph"
+        width={layout.width}
+        height={layout.height}
+        onClick={() => onSelect(null)}
+      >
+        <defs>
+          <marker id="decision-graph-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+            <path d="M0,0 L10,5 L0,10 z" fill="currentColor" />
+          </marker>
+        </defs>
+        {graph.edges.map((edge) => {
+          const from = byId.get(edge.from);
+          const to = byId.get(edge.to);
+          if (!from || !to) return null;
+          const x1 = from.x + NODE_WIDTH;
+          const y1 = from.y + NODE_HEIGHT / 2;
+          const x2 = to.x;
+          const y2 = to.y + NODE_HEIGHT / 2;
+          const mid = (x1 + x2) / 2;
+          const dimmed = highlighted && !(highlighted.has(edge.from) && highlighted.has(edge.to));
+          return (
+            <path
+              key={`${edge.from}-${edge.to}-${edge.type}`}
+              className={`decision-graph-edge edge-${edge.type}${dimmed ? ' dimmed' : ''}`}
+              d={`M${x1},${y1} C${mid},${y1} ${mid},${y2} ${x2},${y2}`}
+              markerEnd="url(#decision-graph-arrow)"
+            />
+          );
+        })}
+        {layout.nodes.map((node) => (
+          <g
+            key={node.id}
+            className={nodeClass(node)}
+            transform={`translate(${node.x},${node.y})`}
+            onClick={(e) => {
+              e.stopPropagation();
+              if (node.kind === 'decision') onSelect(node.id === selectedId ? null : node.id);
+            }}
+          >
+            <title>{node.label}</title>
+            <rect width={NODE_WIDTH} height={NODE_HEIGHT} rx={node.kind === 'adr' ? 12 : 4} />
+            <text x={8} y={15}>{truncate(node.label, 24)}</text>
+            <text x={8} y={29} className="decision-graph-node-meta">
+              {node.kind === 'adr' ? 'ADR' : `${node.status || 'valid'} · ${node.intent || ''}`}
+            </text>
+          </g>
+        ))}
+      </svg>
+    </div>
+  );
+};
@@ -1,142 +1,130 @@
-import React from 'react';
+import React, { useEffect } from 'react';
+import { eventBus } from '../../utils/eventBus';
+import { useStore } from '../../state/store';
 import { Card } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { DecisionGraphCanvas } from './DecisionGraphCanvas';
+import { DecisionExtractionPanel } from './DecisionExtractionPanel';
+import { useDecisions } from '../../hooks/useDecisions';
 
 export const DecisionView: React.FC = () => {
-  // Temporarily disabled - will be re-enabled with direct IPC in Phase 2
-  return (
-    <Card padded>
-      <p style={{ color: 'var(--text-muted)', textAlign: 'center', padding: '40px 20px' }}>
-        ADR Validation available via VS Code commands.
-        <br />
-        <small>This view will be re-enabled in a future update.</small>
-      </p>
-    </Card>
-  );
+  const graph = useStore((s) => s.decisionGraph);
+  const loading = useStore((s) => s.decisionGraphLoading);
+  const error = useStore((s) => s.decisionGraphError);
+  const selectedId = useStore((s) => s.selectedDecisionId);
+  const lineage = useStore((s) => s.decisionLineage);
+  const conflicts = useStore((s) => s.decisionConflicts);
+  const { loadDecisionGraph, selectDecision } = useDecisions();
 
-  const formatDate = (timestamp: number) => {
-    return new Date(timestamp).toLocaleString();
-  };
+  useEffect(() => {
+    loadDecisionGraph();
+    return eventBus.on('decisions:stored', loadDecisionGraph);
+  }, []);
 
-  const getConfidenceColor = (confidence: number) => {
-    if (confidence >= 95) return 'high';
-    if (confidence >= 80) return 'medium';
-    return 'low';
-  };
+  const labelOf = (id: string) => graph?.nodes.find((n) => n.id === id)?.label || id;
+  const selected = graph?.nodes.find((n) => n.id === selectedId) || null;
+  const decisionCount = graph?.nodes.filter((n) => n.kind === 'decision').length || 0;
 
   return (
     <div className="decision-view">
       <Card className="decision-controls" padded>
-        <div className="time-range-controls">
-          <Input
-            type="datetime-local"
-            label="Start Time"
-            value={new Date(startTime).toISOString().slice(0, 16)}
-            onChange={(e) => setStartTime(new Date(e.target.value).getTime())}
-          />
-          <Input
-            type="datetime-local"
-            label="End Time"
-            value={new Date(endTime).toISOString().slice(0, 16)}
-            onChange={(e) => setEndTime(new Date(e.target.value).getTime())}
-          />
-          <Button variant="primary" onClick={loadDecisions} disabled={loading}>
-            {loading ? 'Loading...' : 'Load Decisions'}
+        <div className="decision-controls-header">
+          <h3>Decision Graph ({decisionCount})</h3>
+          <Button variant="secondary" size="sm" onClick={loadDecisionGraph} disabled={loading}>
+            {loading ? 'Loading...' : 'Refresh'}
           </Button>
         </div>
-        {error && <div className="error-message">{error}</div>}
+        {error && <p className="decision-graph-error">Error: {error}</p>}
+        {graph && graph.cycles.length > 0 && (
+          <p className="decision-graph-warning">
+            {graph.cycles.length} cycle(s) detected: {graph.cycles.map((c) => c.map(labelOf).join(' → ')).join('; ')}
+          </p>
+        )}
+        {graph && graph.dangling.length > 0 && (
+          <p className="decision-graph-warning">
+            {graph.dangling.length} dangling reference(s): {graph.dangling.map((e) => `${e.from} → ${labelOf(e.to)}`).join('; ')}
+          </p>
+        )}
       </Card>
 
-      <div className="decision-list">
-        <Card className="decision-list-header" padded>
-          <h3>Cognitive Decisions ({decisions.length})</h3>
+      <DecisionExtractionPanel />
+
+      {conflicts.length > 0 && (
+        <Card className="decision-conflicts" padded highlight="medium">
+          <h4>Conflicting decisions ({conflicts.length})</h4>
+          <ul>
+            {conflicts.map((conflict) => (
+              <li key={conflict.decision_ids.join('-')}>
+                <div className="decision-conflict-scope">
+                  {[conflict.intent, ...conflict.shared_files].filter(Boolean).join(' · ')}
+                </div>
+                <button className="decision-conflict-link current" onClick={() => selectDecision(conflict.decision_ids[1])}>
+                  Current: {conflict.chosen_options[1]}
+                </button>
+                <button className="decision-conflict-link" onClick={() => selectDecision(conflict.decision_ids[0])}>
+                  Older: {conflict.chosen_options[0]}
+                </button>
+              </li>
+            ))}
+          </ul>
         </Card>
+      )}
 
-        {decisions.length === 0 && !loading && (
-          <Card padded>
-            <p>No decisions found in the selected time range.</p>
-          </Card>
-        )}
+      {graph && graph.nodes.length === 0 && !loading && (
+        <Card padded>
+          <p className="decision-graph-empty">No decisions recorded yet.</p>
+        </Card>
+      )}
 
-        {decisions.map((decision) => (
-          <Card
-            key={decision.id}
-            className={`decision-item ${selectedDecision?.id === decision.id ? 'selected' : ''}`}
-            padded
-            highlight={getConfidenceColor(decision.confidence_llm)}
-            onClick={() => setSelectedDecision(decision)}
-          >
-            <div className="decision-header">
-              <div className="decision-intent">
-                <strong>{decision.intent_text || decision.intent}</strong>
-                <span className="decision-id">#{decision.id.slice(0, 8)}</span>
-              </div>
-              <div className="decision-meta">
-                <span className={`confidence confidence-${getConfidenceColor(decision.confidence_llm)}`}>
-                  {decision.confidence_llm}%
-                </span>
-                <span className={`gate gate-${decision.confidence_gate}`}>
-                  {decision.confidence_gate}
-                </span>
-                <span className="status">{decision.validation_status}</span>
-              </div>
-            </div>
-            <div className="decision-details">
-              <div className="decision-time">{formatDate(decision.timestamp)}</div>
-              {decision.chosen_option && (
-                <div className="decision-option">
-                  <strong>Chosen:</strong> {decision.chosen_option}
-                </div>
-              )}
-              {decision.context_refs.length > 0 && (
-                <div className="decision-refs">
-                  <strong>Context Refs:</strong> {decision.context_refs.length} references
-                </div>
-              )}
-            </div>
-          </Card>
-        ))}
-      </div>
+      {graph && graph.nodes.length > 0 && (
+        <Card className="decision-graph-card" padded>
+          <DecisionGraphCanvas
+            graph={graph}
+            selectedId={selectedId}
+            lineage={lineage}
+            conflictIds={conflicts.flatMap((c) => c.decision_ids)}
+            onSelect={selectDecision}
+          />
+        </Card>
+      )}
 
-      {selectedDecision && (
+      {selected && (
         <Card className="decision-detail" padded highlight="cyan">
-          <h4>Decision Details</h4>
-          <div className="detail-section">
-            <strong>ID:</strong> {selectedDecision.id}
-          </div>
-          <div className="detail-section">
-            <strong>Intent:</strong> {selectedDecision.intent}
-          </div>
-          <div className="detail-section">
-            <strong>Intent Text:</strong> {selectedDecision.intent_text}
-          </div>
-          <div className="detail-section">
-            <strong>Confidence (LLM):</strong> {selectedDecision.confidence_llm}%
-          </div>
-          <div className="detail-section">
-            <strong>Confidence Gate:</strong> {selectedDecision.confidence_gate}
-          </div>
-          <div className="detail-section">
-            <strong>Validation Status:</strong> {selectedDecision.validation_status}
-          </div>
+          <h4>{selected.label}</h4>
           <div className="detail-section">
-            <strong>Timestamp:</strong> {formatDate(selectedDecision.timestamp)}
+            <strong>ID:</strong> {selected.id}
           </div>
-          {selectedDecision.chosen_option && (
+          {selected.timestamp && (
             <div className="detail-section">
-              <strong>Chosen Option:</strong> {selectedDecision.chosen_option}
+              <strong>Timestamp:</strong> {new Date(selected.timestamp).toLocaleString()}
             </div>
           )}
-          {selectedDecision.context_refs.length > 0 && (
-            <div className="detail-section">
-              <strong>Context References:</strong>
-              <ul>
-                {selectedDecision.context_refs.map((ref, idx) => (
-                  <li key={idx}>{ref}</li>
-                ))}
-              </ul>
-            </div>
+          <div className="detail-section">
+            <strong>Status:</strong> {selected.status || 'valid'} · <strong>Gate:</strong> {selected.confidence_gate}
+          </div>
+          {lineage && lineage.decisionId === selected.id ? (
+            <>
+              <div className="detail-section">
+                <strong>Led to this ({lineage.ancestors.length}):</strong>
+                <ul>
+                  {lineage.ancestors.map((a) => (
+                    <li key={a.id}>{'↑'.repeat(a.depth)} {labelOf(a.id)}</li>
+                  ))}
+                </ul>
+              </div>
+              <div className="detail-section">
+                <strong>Depends on this ({lineage.descendants.length}):</strong>
+                <ul>
+                  {lineage.descendants.map((d) => (
+                    <li key={d.id}>{'↓'.repeat(d.depth)} {labelOf(d.id)}</li>
+                  ))}
+                </ul>
+              </div>
+            </>
+          ) : (
+            <p className="decision-graph-empty">Loading lineage...</p>
           )}
-          <Button variant="secondary" onClick={() => setSelectedDecision(null)}>
+          <Button variant="secondary" size="sm" onClick={() => selectDecision(null)}>
             Close
           </Button>
         </Card>
@@ -144,4 +132,3 @@ export const DecisionView: React.FC = () => {
     </div>
   );
 };
-
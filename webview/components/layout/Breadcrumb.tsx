@@ -1,6 +1,6 @@
 import React from 'react';
 
-type TabId = 'control' | 'dev' | 'timemachine' | 'insights' | 'about' | 'rebuild';
+type TabId = 'control' | 'dev' | 'timemachine' | 'decisions' | 'insights' | 'about' | 'rebuild';
 
 export interface BreadcrumbProps {
   activeTab: TabId;
@@ -10,6 +10,7 @@ const breadcrumbs: Record<TabId, string> = {
   control: 'WORK → SNAPSHOT → PR → REPEAT',
   dev: 'TASKS → CAPTURE → PROMOTE',
   timemachine: 'REPLAY → DIAGNOSE → ALIGN',
+  decisions: 'DECIDE → TRACE → REVISIT',
   insights: 'SIGNALS → RISKS → DECISIONS',
   about: 'SUPPORT → FIX → GO',
   rebuild: 'REBUILD → RESTORE → CONTINUE',
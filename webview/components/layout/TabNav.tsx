@@ -1,7 +1,7 @@
 import React from 'react';
 import { Tab } from '../ui/Tab';
 
-type TabId = 'control' | 'dev' | 'timemachine' | 'insights' | 'about' | 'rebuild';
+type TabId = 'control' | 'dev' | 'timemachine' | 'decisions' | 'insights' | 'about' | 'rebuild';
 
 export interface TabNavProps {
   active: TabId;
@@ -38,6 +38,18 @@ const tabs: Array<{ id: TabId; label: string; icon: React.ReactNode }> = [
       </svg>
     ),
   },
+  {
+    id: 'decisions',
+    label: 'Decisions',
+    icon: (
+      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="16" height="16">
+        <circle cx="6" cy="6" r="3" />
+        <circle cx="6" cy="18" r="3" />
+        <circle cx="18" cy="12" r="3" />
+        <path d="M9 6h2a4 4 0 014 4v0M9 18h2a4 4 0 004-4v0" />
+      </svg>
+    ),
+  },
   {
     id: 'insights',
     label: 'Insights',
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { useStore } from '../../state/store';
 import { Card } from '../ui/Card';
 import { Button } from '../ui/Button';
+import { StoragePanel } from './StoragePanel';
 
 const getVsCodeApi = () => {
   if (window.vscode) return window.vscode;
@@ -61,6 +62,9 @@ export const RebuildView: React.FC = () => {
           </div>
         )}
       </Card>
+      <div style={{ marginTop: '24px' }}>
+        <StoragePanel />
+      </div>
     </div>
   );
 };
@@ -0,0 +1,96 @@
+import React, { useEffect } from 'react';
+import { useStore } from '../../state/store';
+import { useStorage } from '../../hooks/useStorage';
+import { Card } from '../ui/Card';
+import { Button } from '../ui/Button';
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+const percent = (bytes: number, of: number): string => `${of > 0 ? Math.min(100, (bytes / of) * 100) : 0}%`;
+
+export const StoragePanel: React.FC = () => {
+  const report = useStore((s) => s.storageReport);
+  const reclaim = useStore((s) => s.storageReclaim);
+  const busy = useStore((s) => s.storageBusy);
+  const error = useStore((s) => s.storageError);
+  const { loadStorageReport, reclaimStorage } = useStorage();
+
+  useEffect(() => {
+    loadStorageReport();
+  }, []);
+
+  // What "Reclaim space" frees: archives are only trimmed when over quota
+  const reclaimable = report
+    ? report.subtrees.filter((s) => s.memoryClass === 'warm' || s.memoryClass === 'cold').reduce((sum, s) => sum + s.reclaimableBytes, 0)
+    : 0;
+  const largest = report && report.subtrees.length > 0 ? report.subtrees[0].bytes : 0;
+
+  return (
+    <Card padded>
+      <div className="storage-panel-header">
+        <h2>Storage</h2>
+        <Button variant="ghost" size="sm" onClick={loadStorageReport} disabled={busy}>Refresh</Button>
+      </div>
+      {error && <p className="storage-panel-error">{error}</p>}
+      {report && (
+        <>
+          <p className="storage-panel-total">
+            {formatBytes(report.totalBytes)}
+            {report.totalQuotaBytes !== null && ` / ${formatBytes(report.totalQuotaBytes)}`}
+            {report.overQuota && <span className="storage-over-quota"> over quota</span>}
+          </p>
+
+          <div className="storage-classes">
+            {report.classes.map((c) => (
+              <div key={c.memoryClass} className={`storage-row ${c.overQuota ? 'over-quota' : ''}`}>
+                <span className="storage-row-label">{c.memoryClass.toUpperCase()}</span>
+                <div className="storage-bar">
+                  <div
+                    className={`storage-bar-fill class-${c.memoryClass}`}
+                    style={{ width: percent(c.bytes, c.quotaBytes ?? report.totalBytes) }}
+                  />
+                </div>
+                <span className="storage-row-size">
+                  {formatBytes(c.bytes)}{c.quotaBytes !== null ? ` / ${formatBytes(c.quotaBytes)}` : ''}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="storage-subtrees">
+            {report.subtrees.map((s) => (
+              <div key={s.path} className="storage-row">
+                <span className="storage-row-label" title={`${s.files} files`}>{s.path}/</span>
+                <div className="storage-bar">
+                  <div className={`storage-bar-fill class-${s.memoryClass}`} style={{ width: percent(s.bytes, largest) }} />
+                </div>
+                <span className="storage-row-size">{formatBytes(s.bytes)}</span>
+              </div>
+            ))}
+          </div>
+
+          <div style={{ marginTop: '16px' }}>
+            <Button variant="primary" onClick={reclaimStorage} disabled={busy} block>
+              {busy ? 'Working...' : `Reclaim space (${formatBytes(reclaimable)} reclaimable)`}
+            </Button>
+            <small className="storage-panel-hint">
+              Archives every rotated trace and removes stale snapshots and diffs, then enforces the quotas of storage_config.json (archives are only trimmed over quota). HOT data and active files are never touched.
+            </small>
+          </div>
+
+          {reclaim && (
+            <p className="storage-panel-result">
+              Reclaimed {formatBytes(reclaim.reclaimedBytes)} ({reclaim.archived.length} archived, {reclaim.deleted.length} deleted)
+              {reclaim.errors.length > 0 && ` — ${reclaim.errors.length} errors, see kernel logs`}
+            </p>
+          )}
+        </>
+      )}
+    </Card>
+  );
+};
@@ -1,128 +1,148 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { useStore } from '../../state/store';
 import { Card } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Dropdown } from '../ui/Dropdown';
+import { DatePicker } from '../timemachine/DatePicker';
+import { RecordedReplay } from '../../state/types';
+import { ReplayTargetInput, useTimeMachine } from '../../hooks/useTimeMachine';
 
-export const ReplayView: React.FC = () => {
-  // Temporarily disabled - will be re-enabled with direct IPC in Phase 2
-  return (
-    <Card padded>
-      <p style={{ color: 'var(--text-muted)', textAlign: 'center', padding: '40px 20px' }}>
-        Replay Trajectory coming soon.
-        <br />
-        <small>This feature will be available in a future update.</small>
-      </p>
-    </Card>
-  );
+interface SideState {
+  source: string; // 'window' or a recorded replay hash
+  startDate: string;
+  endDate: string;
+}
 
-  const formatDate = (timestamp: number) => {
-    return new Date(timestamp).toLocaleString();
-  };
+const WINDOW_SOURCE = 'window';
 
-  const formatHash = (hash: string) => {
-    return `${hash.slice(0, 16)}...${hash.slice(-8)}`;
+const formatHash = (hash: string) => `${hash.slice(0, 10)}…${hash.slice(-6)}`;
+
+const formatRange = (replay: RecordedReplay) =>
+  `${new Date(replay.startTime).toLocaleDateString()} → ${new Date(replay.endTime).toLocaleDateString()}`;
+
+const toTarget = (side: SideState): ReplayTargetInput | null => {
+  if (side.source !== WINDOW_SOURCE) return { hash: side.source };
+  if (!side.startDate || !side.endDate) return null;
+  return {
+    startTime: new Date(`${side.startDate}T00:00:00`).getTime(),
+    endTime: new Date(`${side.endDate}T23:59:59.999`).getTime(),
   };
+};
+
+export const ReplayView: React.FC = () => {
+  const comparison = useStore((s) => s.replayComparison);
+  const recorded = useStore((s) => s.recordedReplays);
+  const loading = useStore((s) => s.replayDiffLoading);
+  const error = useStore((s) => s.replayDiffError);
+  const { compareReplays } = useTimeMachine();
+
+  const [sideA, setSideA] = useState<SideState>({ source: WINDOW_SOURCE, startDate: '', endDate: '' });
+  const [sideB, setSideB] = useState<SideState>({ source: WINDOW_SOURCE, startDate: '', endDate: '' });
+
+  const sourceOptions = [
+    { label: 'Replay a window now', value: WINDOW_SOURCE },
+    ...recorded.map((replay) => ({
+      label: `${formatRange(replay)} · ${formatHash(replay.hash)} (${new Date(replay.timestamp).toLocaleTimeString()})`,
+      value: replay.hash,
+    })),
+  ];
+
+  const targetA = toTarget(sideA);
+  const targetB = toTarget(sideB);
+
+  const renderSide = (label: string, side: SideState, setSide: (s: SideState) => void) => (
+    <div className="replay-diff-side">
+      <strong>{label}</strong>
+      <Dropdown options={sourceOptions} value={side.source} onChange={(source) => setSide({ ...side, source })} />
+      {side.source === WINDOW_SOURCE && (
+        <div className="date-pickers">
+          <DatePicker label="Start" value={side.startDate} onChange={(startDate) => setSide({ ...side, startDate })} max={side.endDate || undefined} />
+          <DatePicker label="End" value={side.endDate} onChange={(endDate) => setSide({ ...side, endDate })} min={side.startDate || undefined} />
+        </div>
+      )}
+    </div>
+  );
+
+  const diff = comparison?.diff;
 
   return (
     <div className="replay-view">
       <Card className="replay-controls" padded>
-        <h3>Replay Cognitive Trajectory</h3>
-        <div className="replay-inputs">
-          <Input
-            type="datetime-local"
-            label="Start Time"
-            value={new Date(startTime).toISOString().slice(0, 16)}
-            onChange={(e) => setStartTime(new Date(e.target.value).getTime())}
-          />
-          <Input
-            type="datetime-local"
-            label="End Time"
-            value={new Date(endTime).toISOString().slice(0, 16)}
-            onChange={(e) => setEndTime(new Date(e.target.value).getTime())}
-          />
-          <Input
-            type="text"
-            label="Anchor Event ID (optional)"
-            value={anchorEventId}
-            onChange={(e) => setAnchorEventId(e.target.value)}
-            placeholder="event-id-123"
-          />
-          <Button variant="primary" onClick={handleReplay} disabled={loading} block>
-            {loading ? 'Replaying...' : 'Replay Trajectory'}
-          </Button>
+        <h3>Compare Replays</h3>
+        <div className="replay-diff-sides">
+          {renderSide('A (reference)', sideA, setSideA)}
+          {renderSide('B', sideB, setSideB)}
         </div>
-        {error && <div className="error-message">{error}</div>}
+        <Button
+          variant="secondary"
+          onClick={() => targetA && targetB && compareReplays(targetA, targetB)}
+          disabled={!targetA || !targetB || loading}
+          block
+        >
+          {loading ? 'Replaying...' : 'Compare'}
+        </Button>
+        {error && <p className="replay-diff-error">Error: {error}</p>}
       </Card>
 
-      {replayResult && (
-        <>
-          <Card className="replay-summary" padded highlight="cyan">
-            <h4>Replay Summary</h4>
-            <div className="summary-stats">
-              <div className="stat">
-                <strong>Events:</strong> {replayResult.events.length}
-              </div>
-              <div className="stat">
-                <strong>Decisions:</strong> {replayResult.decisions.length}
-              </div>
-              <div className="stat">
-                <strong>Replay Hash:</strong>
-                <code className="hash-code" title={replayResult.hash}>
-                  {formatHash(replayResult.hash)}
-                </code>
+      {comparison && diff && (
+        <Card className="replay-diff" padded highlight={diff.identical ? 'low' : 'medium'}>
+          <div className="replay-diff-header">
+            <code title={comparison.a.hash}>A {formatHash(comparison.a.hash)}</code>
+            <span className="replay-diff-verdict">{diff.identical ? 'Identical' : 'Different'}</span>
+            <code title={comparison.b.hash}>B {formatHash(comparison.b.hash)}</code>
+          </div>
+          {!diff.identical && (
+            <div className="replay-diff-columns">
+              <div className="replay-diff-column removed">
+                <h4>Only in A</h4>
+                <ul>
+                  {diff.events.removed.map((e) => (
+                    <li key={`e-${e.id}`}>− event {e.type} <small>{e.id}</small></li>
+                  ))}
+                  {diff.decisions.removed.map((d) => (
+                    <li key={`d-${d.id}`}>− decision {d.intent} <small>{d.confidence_gate}</small></li>
+                  ))}
+                  {diff.scf_ops.removed.map((op, i) => (
+                    <li key={`o-${i}`}>− SCF {op.op} <small>{op.refs.join(', ')}</small></li>
+                  ))}
+                  {diff.rcep_timeline.removed.map((ptr) => (
+                    <li key={`t-${ptr}`}>− RCEP ptr <small>{ptr}</small></li>
+                  ))}
+                </ul>
               </div>
-              <div className="stat">
-                <strong>Replay Time:</strong> {formatDate(replayResult.timestamp)}
+              <div className="replay-diff-column added">
+                <h4>Only in B</h4>
+                <ul>
+                  {diff.events.added.map((e) => (
+                    <li key={`e-${e.id}`}>+ event {e.type} <small>{e.id}</small></li>
+                  ))}
+                  {diff.decisions.added.map((d) => (
+                    <li key={`d-${d.id}`}>+ decision {d.intent} <small>{d.confidence_gate}</small></li>
+                  ))}
+                  {diff.scf_ops.added.map((op, i) => (
+                    <li key={`o-${i}`}>+ SCF {op.op} <small>{op.refs.join(', ')}</small></li>
+                  ))}
+                  {diff.rcep_timeline.added.map((ptr) => (
+                    <li key={`t-${ptr}`}>+ RCEP ptr <small>{ptr}</small></li>
+                  ))}
+                </ul>
               </div>
             </div>
-          </Card>
-
-          <Card className="replay-timeline" padded>
-            <h4>Timeline</h4>
-            <div className="timeline-container">
-              {replayResult.events.map((event, idx) => (
-                <div key={event.id} className="timeline-event">
-                  <div className="event-marker" />
-                  <div className="event-content">
-                    <div className="event-header">
-                      <span className="event-type">{event.type}</span>
-                      <span className="event-time">{formatDate(event.timestamp)}</span>
-                    </div>
-                    <div className="event-details">
-                      <span className="event-id">#{event.id.slice(0, 8)}</span>
-                      <span className="event-source">{event.source}</span>
-                      <span className="event-category">{event.category}</span>
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </Card>
-
-          <Card className="replay-decisions" padded>
-            <h4>Decisions ({replayResult.decisions.length})</h4>
-            {replayResult.decisions.length === 0 ? (
-              <p>No decisions in this trajectory.</p>
-            ) : (
-              <div className="decisions-list">
-                {replayResult.decisions.map((decision) => (
-                  <div key={decision.id} className="decision-item">
-                    <div className="decision-header">
-                      <strong>{decision.intent}</strong>
-                      <span className="decision-time">{formatDate(decision.timestamp)}</span>
-                    </div>
-                    <div className="decision-meta">
-                      <span className="confidence">{decision.confidence_llm}%</span>
-                      <span className={`gate gate-${decision.confidence_gate}`}>
-                        {decision.confidence_gate}
-                      </span>
-                    </div>
-                  </div>
+          )}
+          {diff.decisions.gate_changed.length > 0 && (
+            <div className="replay-diff-gates">
+              <h4>Confidence gate changed</h4>
+              <ul>
+                {diff.decisions.gate_changed.map((change) => (
+                  <li key={change.id}>
+                    {change.intent} <small>{change.id}</small>: {change.from} → {change.to}
+                  </li>
                 ))}
-              </div>
-            )}
-          </Card>
-        </>
+              </ul>
+            </div>
+          )}
+        </Card>
       )}
     </div>
   );
 };
-
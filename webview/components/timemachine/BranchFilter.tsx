@@ -0,0 +1,46 @@
+import React, { useEffect } from 'react';
+import { useStore } from '../../state/store';
+import { Dropdown, DropdownOption } from '../ui/Dropdown';
+import { useTimeMachine } from '../../hooks/useTimeMachine';
+
+export interface BranchFilterProps {
+  disabled?: boolean;
+}
+
+/**
+ * Git branch scope shared by Time Machine prompts and snapshots ('' = all branches)
+ */
+export const BranchFilter: React.FC<BranchFilterProps> = ({ disabled }) => {
+  const branches = useStore((s) => s.gitBranches);
+  const current = useStore((s) => s.currentBranch);
+  const branchFilter = useStore((s) => s.branchFilter);
+  const { loadGitBranches } = useTimeMachine();
+
+  useEffect(() => {
+    loadGitBranches();
+  }, []);
+
+  if (branches.length === 0) {
+    return null;
+  }
+
+  const options: DropdownOption[] = [
+    { label: 'All branches', value: '' },
+    ...branches.map((branch) => ({
+      label: branch === current ? `${branch} (current)` : branch,
+      value: branch,
+    })),
+  ];
+
+  return (
+    <div className="branch-filter">
+      <label>Branch</label>
+      <Dropdown
+        options={options}
+        value={branchFilter}
+        onChange={(value) => useStore.getState().setBranchFilter(value)}
+        disabled={disabled}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Card } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { EventQueryHit } from '../../state/types';
+
+export interface EventQueryBoxProps {
+  query: string;
+  results: EventQueryHit[] | null;
+  loading: boolean;
+  error: string | null;
+  onQueryChange: (query: string) => void;
+  onRun: (query: string) => void;
+}
+
+export const EventQueryBox: React.FC<EventQueryBoxProps> = ({
+  query,
+  results,
+  loading,
+  error,
+  onQueryChange,
+  onRun,
+}) => {
+  const handleRun = () => {
+    if (query.trim()) {
+      onRun(query.trim());
+    }
+  };
+
+  return (
+    <Card className="event-query-box" padded>
+      <div className="event-query-input">
+        <Input
+          value={query}
+          onChange={onQueryChange}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleRun();
+          }}
+          placeholder="type:file_modify AND dir:src since:7d limit:50"
+          disabled={loading}
+        />
+        <Button variant="secondary" onClick={handleRun} disabled={!query.trim() || loading}>
+          {loading ? 'Querying...' : 'Query'}
+        </Button>
+      </div>
+      {error && <p className="event-query-error">Error: {error}</p>}
+      {results && results.length === 0 && !error && <p className="event-query-empty">No matching events.</p>}
+      {results && results.length > 0 && (
+        <ul className="event-query-results">
+          {results.map((event) => (
+            <li key={event.id}>
+              <span className="event-query-time">{new Date(event.timestamp).toLocaleString()}</span>
+              <span className="event-query-type">{event.type}</span>
+              <span className="event-query-files">{event.files.join(', ')}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+};
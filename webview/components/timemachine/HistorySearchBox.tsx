@@ -0,0 +1,70 @@
+import React from 'react';
+import { Card } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { HistorySearchHit } from '../../state/types';
+
+export interface HistorySearchBoxProps {
+  query: string;
+  results: HistorySearchHit[] | null;
+  loading: boolean;
+  error: string | null;
+  onQueryChange: (query: string) => void;
+  onSearch: (query: string) => void;
+}
+
+const KIND_LABELS: Record<HistorySearchHit['kind'], string> = {
+  event: 'Event',
+  decision: 'Decision',
+  adr: 'ADR',
+};
+
+export const HistorySearchBox: React.FC<HistorySearchBoxProps> = ({
+  query,
+  results,
+  loading,
+  error,
+  onQueryChange,
+  onSearch,
+}) => {
+  const handleSearch = () => {
+    if (query.trim()) {
+      onSearch(query.trim());
+    }
+  };
+
+  return (
+    <Card className="history-search-box" padded>
+      <div className="history-search-input">
+        <Input
+          value={query}
+          onChange={onQueryChange}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSearch();
+          }}
+          placeholder="Search commits, chats, ADRs and decisions..."
+          disabled={loading}
+        />
+        <Button variant="secondary" onClick={handleSearch} disabled={!query.trim() || loading}>
+          {loading ? 'Searching...' : 'Search'}
+        </Button>
+      </div>
+      {error && <p className="history-search-error">Error: {error}</p>}
+      {results && results.length === 0 && !error && <p className="history-search-empty">No matches.</p>}
+      {results && results.length > 0 && (
+        <ul className="history-search-results">
+          {results.map((hit) => (
+            <li key={hit.id}>
+              <div className="history-search-hit-header">
+                <span className="history-search-kind">{KIND_LABELS[hit.kind]}</span>
+                <span className="history-search-title">{hit.title}</span>
+                <span className="history-search-time">{new Date(hit.timestamp).toLocaleString()}</span>
+              </div>
+              {hit.excerpt && <p className="history-search-excerpt">{hit.excerpt}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+};
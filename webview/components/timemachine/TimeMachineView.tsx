@@ -5,7 +5,11 @@ import { Button } from '../ui/Button';
 import { DatePicker } from './DatePicker';
 import { Timeline } from './Timeline';
 import { PromptBox } from './PromptBox';
+import { EventQueryBox } from './EventQueryBox';
+import { HistorySearchBox } from './HistorySearchBox';
+import { BranchFilter } from './BranchFilter';
 import { useTimeMachine } from '../../hooks/useTimeMachine';
+import { ReplayView } from '../replay/ReplayView';
 
 export const TimeMachineView: React.FC = () => {
   const startDate = useStore((s) => s.startDate);
@@ -15,7 +19,15 @@ export const TimeMachineView: React.FC = () => {
   const loading = useStore((s) => s.loading);
   const prompt = useStore((s) => s.timeMachinePrompt);
   const error = useStore((s) => s.error);
-  const { buildPrompt, loadTimelineRange } = useTimeMachine();
+  const eventQuery = useStore((s) => s.eventQuery);
+  const eventQueryResults = useStore((s) => s.eventQueryResults);
+  const eventQueryLoading = useStore((s) => s.eventQueryLoading);
+  const eventQueryError = useStore((s) => s.eventQueryError);
+  const historySearch = useStore((s) => s.historySearch);
+  const historySearchResults = useStore((s) => s.historySearchResults);
+  const historySearchLoading = useStore((s) => s.historySearchLoading);
+  const historySearchError = useStore((s) => s.historySearchError);
+  const { buildPrompt, loadTimelineRange, queryEvents, searchHistory } = useTimeMachine();
 
   useEffect(() => {
     loadTimelineRange();
@@ -29,6 +41,14 @@ export const TimeMachineView: React.FC = () => {
 
   return (
     <div className="timemachine-view">
+      <HistorySearchBox
+        query={historySearch}
+        results={historySearchResults}
+        loading={historySearchLoading}
+        error={historySearchError}
+        onQueryChange={(value) => useStore.getState().setHistorySearch(value)}
+        onSearch={searchHistory}
+      />
       <Card className="timemachine-controls" padded>
         <div className="date-pickers">
           <DatePicker
@@ -46,12 +66,22 @@ export const TimeMachineView: React.FC = () => {
             max={maxDate}
           />
         </div>
+        <BranchFilter disabled={loading} />
         <Button variant="primary" onClick={handleBuild} disabled={!startDate || !endDate || loading} block>
           {loading ? 'Building...' : 'Build Time Machine Prompt'}
         </Button>
       </Card>
       {minDate && <Timeline startDate={startDate} endDate={endDate} minDate={minDate} maxDate={maxDate} />}
       <PromptBox prompt={prompt} loading={loading} error={error} />
+      <EventQueryBox
+        query={eventQuery}
+        results={eventQueryResults}
+        loading={eventQueryLoading}
+        error={eventQueryError}
+        onQueryChange={(value) => useStore.getState().setEventQuery(value)}
+        onRun={queryEvents}
+      />
+      <ReplayView />
     </div>
   );
 };
@@ -20,6 +20,16 @@ const handlers: Record<string, MessageHandler> = {
     if (payload?.metadata?.timestamp) {
       useStore.getState().setLastSnapshotIso(payload.metadata.timestamp);
     }
+    const promptMetrics = payload?.metadata?.promptMetrics;
+    const tokenBudget = payload?.metadata?.tokenBudget;
+    useStore.getState().setSnapshotTokens(promptMetrics?.tokenizer ? {
+      tokens: promptMetrics.prompt_tokens,
+      tokenizer: promptMetrics.tokenizer,
+      exact: !!promptMetrics.tokens_exact,
+      budget: tokenBudget?.budget ?? null,
+      fits: tokenBudget ? !!tokenBudget.fits : null,
+      cuts: tokenBudget?.cuts?.length || 0,
+    } : null);
     try {
       if (payload?.prompt && navigator?.clipboard?.writeText) {
         navigator.clipboard.writeText(String(payload.prompt)).catch(() => {});
@@ -30,6 +40,12 @@ const handlers: Record<string, MessageHandler> = {
     eventBus.emit('snapshot:complete');
   },
 
+  tokenizerInfo: (payload) => {
+    if (!payload?.error) {
+      useStore.getState().setTokenizerInfo(payload);
+    }
+  },
+
   // Mode / status
   modeChanged: (payload) => {
     if (payload?.mode) {
@@ -88,6 +104,71 @@ const handlers: Record<string, MessageHandler> = {
     }
     useStore.getState().setTMLoading(false);
   },
+  eventsQueried: (payload) => {
+    useStore.getState().setEventQueryError(payload?.error || null);
+    useStore.getState().setEventQueryResults(payload?.error ? null : payload?.events || []);
+    useStore.getState().setEventQueryLoading(false);
+  },
+  historySearchResults: (payload) => {
+    useStore.getState().setHistorySearchError(payload?.error || null);
+    useStore.getState().setHistorySearchResults(payload?.error ? null : payload?.hits || []);
+    useStore.getState().setHistorySearchLoading(false);
+  },
+  decisionGraph: (payload) => {
+    const store = useStore.getState();
+    store.setDecisionGraphError(payload?.error || null);
+    if (payload?.decisionId) {
+      store.setDecisionLineage(payload.error ? null : {
+        decisionId: payload.decisionId,
+        ancestors: payload.ancestors || [],
+        descendants: payload.descendants || [],
+      });
+    } else {
+      store.setDecisionGraph(payload?.error ? null : {
+        nodes: payload?.nodes || [],
+        edges: payload?.edges || [],
+        cycles: payload?.cycles || [],
+        dangling: payload?.dangling || [],
+      });
+    }
+    store.setDecisionGraphLoading(false);
+  },
+  decisionConflicts: (payload) => {
+    useStore.getState().setDecisionConflicts(payload?.conflicts || []);
+  },
+  decisionExtraction: (payload) => {
+    const store = useStore.getState();
+    store.setDecisionExtractionError(payload?.error || null);
+    if (payload?.report) store.setDecisionExtraction(payload.report);
+    store.setDecisionExtractionBusy(false);
+    if (payload?.stored) eventBus.emit('decisions:stored');
+  },
+  replayDiff: (payload) => {
+    const store = useStore.getState();
+    store.setReplayDiffError(payload?.error || null);
+    if (!payload?.error) {
+      store.setReplayComparison({ a: payload.a, b: payload.b, diff: payload.diff });
+      store.setRecordedReplays(payload.recorded || []);
+    }
+    store.setReplayDiffLoading(false);
+  },
+  gitBranches: (payload) => {
+    useStore.getState().setGitBranches(payload?.branches || [], payload?.current ?? null);
+  },
+  storageReport: (payload) => {
+    const store = useStore.getState();
+    store.setStorageError(payload?.error || null);
+    if (payload?.report) store.setStorageReport(payload.report);
+    if (payload?.reclaim) {
+      store.setStorageReclaim({
+        reclaimedBytes: payload.reclaim.reclaimedBytes,
+        archived: payload.reclaim.archived || [],
+        deleted: payload.reclaim.deleted || [],
+        errors: payload.reclaim.errors || [],
+      });
+    }
+    store.setStorageBusy(false);
+  },
   timelineRange: (payload) => {
     if (payload?.firstCycleIso) useStore.getState().setMinDate(payload.firstCycleIso);
     if (payload?.lastCycleIso) useStore.getState().setMaxDate(payload.lastCycleIso);
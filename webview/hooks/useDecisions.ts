@@ -0,0 +1,52 @@
+import { useStore } from '../state/store';
+
+const getVsCodeApi = () => {
+  if (window.vscode) return window.vscode;
+  if (window.acquireVsCodeApi) {
+    window.vscode = window.acquireVsCodeApi();
+    return window.vscode;
+  }
+  return { postMessage: (msg: any) => console.log('[mock postMessage]', msg) };
+};
+
+const vscode = getVsCodeApi();
+
+export function useDecisions() {
+  const loadDecisionGraph = () => {
+    useStore.getState().setDecisionGraphLoading(true);
+    vscode.postMessage({ type: 'rl4:getDecisionGraph', payload: {} });
+    vscode.postMessage({ type: 'rl4:getDecisionConflicts', payload: {} });
+  };
+
+  const selectDecision = (decisionId: string | null) => {
+    useStore.getState().setSelectedDecisionId(decisionId);
+    useStore.getState().setDecisionLineage(null);
+    if (decisionId) {
+      vscode.postMessage({ type: 'rl4:getDecisionGraph', payload: { decisionId } });
+    }
+  };
+
+  const loadExtractionReport = () => {
+    vscode.postMessage({ type: 'rl4:getDecisionExtraction', payload: {} });
+  };
+
+  // Without rcepRef, the kernel reads the [RL4-REF …] line of the response
+  const submitDecisions = (response: string, rcepRef?: string) => {
+    useStore.getState().setDecisionExtractionBusy(true);
+    useStore.getState().setDecisionExtractionError(null);
+    vscode.postMessage({ type: 'rl4:submitDecisions', payload: { response, rcepRef } });
+  };
+
+  // Corrected decision (JSON) resubmitted alone, against the snapshot of the original response
+  const resubmitDecision = (source: string, rcepRef: string) => {
+    submitDecisions('```json:decisions\n' + source.trim() + '\n```', rcepRef);
+  };
+
+  return {
+    loadDecisionGraph,
+    selectDecision,
+    loadExtractionReport,
+    submitDecisions,
+    resubmitDecision,
+  };
+}
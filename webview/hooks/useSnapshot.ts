@@ -21,11 +21,22 @@ export function useSnapshot() {
 
   const generateSnapshot = (mode: string) => {
     setSnapshotLoading(true);
-    vscode.postMessage({ type: 'rl4:generateSnapshot', payload: { mode } });
+    const branch = useStore.getState().branchFilter || undefined;
+    vscode.postMessage({ type: 'rl4:generateSnapshot', payload: { mode, branch } });
+  };
+
+  const loadTokenizer = () => {
+    vscode.postMessage({ type: 'rl4:getTokenizer', payload: {} });
+  };
+
+  const setTokenizerModel = (model: string) => {
+    vscode.postMessage({ type: 'rl4:setTokenizerModel', payload: { model } });
   };
 
   return {
     generateSnapshot,
+    loadTokenizer,
+    setTokenizerModel,
   };
 }
 
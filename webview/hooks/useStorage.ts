@@ -0,0 +1,30 @@
+import { useStore } from '../state/store';
+
+const getVsCodeApi = () => {
+  if (window.vscode) return window.vscode;
+  if (window.acquireVsCodeApi) {
+    window.vscode = window.acquireVsCodeApi();
+    return window.vscode;
+  }
+  return { postMessage: (msg: any) => console.log('[mock postMessage]', msg) };
+};
+
+const vscode = getVsCodeApi();
+
+export function useStorage() {
+  const loadStorageReport = () => {
+    useStore.getState().setStorageBusy(true);
+    vscode.postMessage({ type: 'rl4:getStorageReport', payload: {} });
+  };
+
+  const reclaimStorage = () => {
+    useStore.getState().setStorageBusy(true);
+    useStore.getState().setStorageReclaim(null);
+    vscode.postMessage({ type: 'rl4:reclaimStorage', payload: {} });
+  };
+
+  return {
+    loadStorageReport,
+    reclaimStorage,
+  };
+}
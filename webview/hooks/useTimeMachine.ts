@@ -11,6 +11,8 @@ const getVsCodeApi = () => {
 
 const vscode = getVsCodeApi();
 
+export type ReplayTargetInput = { startTime: number; endTime: number } | { hash: string };
+
 export function useTimeMachine() {
   const startDate = useStore((s) => s.startDate);
   const endDate = useStore((s) => s.endDate);
@@ -21,19 +23,52 @@ export function useTimeMachine() {
 
   const buildPrompt = (start: string, end: string) => {
     setTMLoading(true);
+    const branch = useStore.getState().branchFilter || undefined;
     vscode.postMessage({
       type: 'rl4:buildTimeMachine',
-      payload: { startIso: start, endIso: end },
+      payload: { startIso: start, endIso: end, branch },
     });
   };
 
+  const loadGitBranches = () => {
+    vscode.postMessage({ type: 'rl4:getGitBranches' });
+  };
+
   const loadTimelineRange = () => {
     vscode.postMessage({ type: 'rl4:getTimelineRange' });
   };
 
+  const queryEvents = (query: string) => {
+    useStore.getState().setEventQueryLoading(true);
+    vscode.postMessage({
+      type: 'rl4:queryEvents',
+      payload: { query },
+    });
+  };
+
+  const searchHistory = (query: string) => {
+    useStore.getState().setHistorySearchLoading(true);
+    vscode.postMessage({
+      type: 'rl4:searchHistory',
+      payload: { query },
+    });
+  };
+
+  const compareReplays = (a: ReplayTargetInput, b: ReplayTargetInput) => {
+    useStore.getState().setReplayDiffLoading(true);
+    vscode.postMessage({
+      type: 'rl4:replayDiff',
+      payload: { a, b },
+    });
+  };
+
   return {
     buildPrompt,
     loadTimelineRange,
+    loadGitBranches,
+    queryEvents,
+    searchHistory,
+    compareReplays,
   };
 }
 
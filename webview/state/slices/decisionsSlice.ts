@@ -0,0 +1,27 @@
+import { DecisionConflict, DecisionExtractionReport, DecisionGraphData, DecisionLineage, DecisionsSlice, StoreState } from '../types';
+
+type SetState = (partial: Partial<StoreState>) => void;
+type GetState = () => StoreState;
+
+export function createDecisionsSlice(set: SetState, _get: GetState): DecisionsSlice {
+  return {
+    decisionGraph: null,
+    decisionGraphLoading: false,
+    decisionGraphError: null,
+    selectedDecisionId: null,
+    decisionLineage: null,
+    decisionConflicts: [],
+    decisionExtraction: null,
+    decisionExtractionBusy: false,
+    decisionExtractionError: null,
+    setDecisionGraph: (g: DecisionGraphData | null) => set({ decisionGraph: g }),
+    setDecisionGraphLoading: (v: boolean) => set({ decisionGraphLoading: v }),
+    setDecisionGraphError: (e: string | null) => set({ decisionGraphError: e }),
+    setSelectedDecisionId: (id: string | null) => set({ selectedDecisionId: id }),
+    setDecisionLineage: (l: DecisionLineage | null) => set({ decisionLineage: l }),
+    setDecisionConflicts: (c: DecisionConflict[]) => set({ decisionConflicts: c }),
+    setDecisionExtraction: (r: DecisionExtractionReport | null) => set({ decisionExtraction: r }),
+    setDecisionExtractionBusy: (v: boolean) => set({ decisionExtractionBusy: v }),
+    setDecisionExtractionError: (e: string | null) => set({ decisionExtractionError: e }),
+  };
+}
@@ -1,4 +1,4 @@
-import { SnapshotSlice, StoreState } from '../types';
+import { SnapshotSlice, SnapshotTokenMetrics, StoreState, TokenizerInfo } from '../types';
 
 type SetState = (partial: Partial<StoreState>) => void;
 type GetState = () => StoreState;
@@ -10,11 +10,15 @@ export function createSnapshotSlice(set: SetState, _get: GetState): SnapshotSlic
     lastSnapshotIso: null,
     filesChanged: 0,
     success: false,
+    snapshotTokens: null,
+    tokenizerInfo: null,
     setSnapshotLoading: (v: boolean) => set({ loading: v }),
     setSnapshotPrompt: (p: string | null) => set({ snapshotPrompt: p }),
     setLastSnapshotIso: (iso: string | null) => set({ lastSnapshotIso: iso }),
     setFilesChanged: (n: number) => set({ filesChanged: n }),
     setSnapshotSuccess: (v: boolean) => set({ success: v }),
+    setSnapshotTokens: (t: SnapshotTokenMetrics | null) => set({ snapshotTokens: t }),
+    setTokenizerInfo: (i: TokenizerInfo | null) => set({ tokenizerInfo: i }),
   };
 }
 
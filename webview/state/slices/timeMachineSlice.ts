@@ -1,4 +1,4 @@
-import { StoreState, TimeMachineSlice } from '../types';
+import { StoreState, TimeMachineSlice, EventQueryHit, HistorySearchHit, ReplayComparison, RecordedReplay } from '../types';
 
 type SetState = (partial: Partial<StoreState>) => void;
 type GetState = () => StoreState;
@@ -13,6 +13,18 @@ export function createTimeMachineSlice(set: SetState, _get: GetState): TimeMachi
     loading: false,
     timeMachinePrompt: null,
     error: null,
+    eventQuery: '',
+    eventQueryResults: null,
+    eventQueryLoading: false,
+    eventQueryError: null,
+    historySearch: '',
+    historySearchResults: null,
+    historySearchLoading: false,
+    historySearchError: null,
+    replayComparison: null,
+    recordedReplays: [],
+    replayDiffLoading: false,
+    replayDiffError: null,
     setStartDate: (v: string) => set({ startDate: v }),
     setEndDate: (v: string) => set({ endDate: v }),
     setMinDate: (v: string | null) => set({ minDate: v }),
@@ -20,6 +32,18 @@ export function createTimeMachineSlice(set: SetState, _get: GetState): TimeMachi
     setTMLoading: (v: boolean) => set({ loading: v }),
     setTMPrompt: (p: string | null) => set({ timeMachinePrompt: p }),
     setTMError: (e: string | null) => set({ error: e }),
+    setEventQuery: (q: string) => set({ eventQuery: q }),
+    setEventQueryResults: (r: EventQueryHit[] | null) => set({ eventQueryResults: r }),
+    setEventQueryLoading: (v: boolean) => set({ eventQueryLoading: v }),
+    setEventQueryError: (e: string | null) => set({ eventQueryError: e }),
+    setHistorySearch: (q: string) => set({ historySearch: q }),
+    setHistorySearchResults: (r: HistorySearchHit[] | null) => set({ historySearchResults: r }),
+    setHistorySearchLoading: (v: boolean) => set({ historySearchLoading: v }),
+    setHistorySearchError: (e: string | null) => set({ historySearchError: e }),
+    setReplayComparison: (c: ReplayComparison | null) => set({ replayComparison: c }),
+    setRecordedReplays: (r: RecordedReplay[]) => set({ recordedReplays: r }),
+    setReplayDiffLoading: (v: boolean) => set({ replayDiffLoading: v }),
+    setReplayDiffError: (e: string | null) => set({ replayDiffError: e }),
   };
 }
 
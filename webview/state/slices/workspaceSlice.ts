@@ -1,4 +1,4 @@
-import { GovernanceMode, StoreState, WorkspaceSlice, WorkspaceStateFromKernel } from '../types';
+import { GovernanceMode, StorageReclaimSummary, StorageReport, StoreState, WorkspaceSlice, WorkspaceStateFromKernel } from '../types';
 
 type SetState = (partial: Partial<StoreState>) => void;
 type GetState = () => StoreState;
@@ -11,11 +11,24 @@ export function createWorkspaceSlice(set: SetState, _get: GetState): WorkspaceSl
     onboardingStep: 0,
     onboardingHints: [],
     rebuildResult: null,
+    storageReport: null,
+    storageReclaim: null,
+    storageBusy: false,
+    storageError: null,
+    gitBranches: [],
+    currentBranch: null,
+    branchFilter: '',
     setWorkspace: (ws: WorkspaceStateFromKernel | null) => set({ workspace: ws }),
     setMode: (mode: GovernanceMode) => set({ mode }),
     setOnboardingComplete: (complete: boolean) => set({ onboardingComplete: complete }),
     setOnboardingStep: (step: number) => set({ onboardingStep: step }),
     setOnboardingHints: (hints: any[]) => set({ onboardingHints: hints }),
     setRebuildResult: (result: any) => set({ rebuildResult: result }),
+    setStorageReport: (report: StorageReport | null) => set({ storageReport: report }),
+    setStorageReclaim: (reclaim: StorageReclaimSummary | null) => set({ storageReclaim: reclaim }),
+    setStorageBusy: (busy: boolean) => set({ storageBusy: busy }),
+    setStorageError: (error: string | null) => set({ storageError: error }),
+    setGitBranches: (branches: string[], current: string | null) => set({ gitBranches: branches, currentBranch: current }),
+    setBranchFilter: (branch: string) => set({ branchFilter: branch }),
   };
 }
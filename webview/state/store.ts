@@ -7,6 +7,7 @@ import { createWorkspaceSlice } from './slices/workspaceSlice';
 import { createDevSlice } from './slices/devSlice';
 import { createInsightsSlice } from './slices/insightsSlice';
 import { createTimeMachineSlice } from './slices/timeMachineSlice';
+import { createDecisionsSlice } from './slices/decisionsSlice';
 import { createSnapshotSlice } from './slices/snapshotSlice';
 
 type PartialState = Partial<StoreState> | ((state: StoreState) => Partial<StoreState>);
@@ -37,6 +38,7 @@ Object.assign(
   createDevSlice(setState, getState),
   createInsightsSlice(setState, getState),
   createTimeMachineSlice(setState, getState),
+  createDecisionsSlice(setState, getState),
   createSnapshotSlice(setState, getState),
 );
 
@@ -84,9 +84,176 @@ export interface KernelStatus {
   version?: string;
 }
 
+export interface EventQueryHit {
+  id: string;
+  seq: number;
+  timestamp: number;
+  type: string;
+  source: string;
+  category: string;
+  files: string[];
+  keywords: string[];
+}
+
+export interface HistorySearchHit {
+  id: string;
+  kind: 'event' | 'decision' | 'adr';
+  ref: string;
+  timestamp: number;
+  title: string;
+  excerpt: string;
+  score: number;
+  matched_terms: string[];
+}
+
+export interface DecisionGraphNode {
+  id: string;
+  kind: 'decision' | 'adr';
+  label: string;
+  timestamp?: number;
+  intent?: string;
+  confidence_gate?: 'pass' | 'fail';
+  status?: 'valid' | 'invalidated' | 'revalidated' | 'superseded';
+}
+
+export interface DecisionGraphEdge {
+  from: string;
+  to: string;
+  type: 'led_to' | 'supersedes' | 'adr' | 'context';
+}
+
+export interface DecisionGraphData {
+  nodes: DecisionGraphNode[];
+  edges: DecisionGraphEdge[];
+  cycles: string[][];
+  dangling: DecisionGraphEdge[];
+}
+
+export interface DecisionConflict {
+  decision_ids: [string, string];
+  current_id: string;
+  reasons: Array<'same_intent' | 'shared_files'>;
+  intent?: string;
+  shared_files: string[];
+  chosen_options: [string, string];
+}
+
+export interface DecisionLineage {
+  decisionId: string;
+  ancestors: Array<{ id: string; depth: number }>;
+  descendants: Array<{ id: string; depth: number }>;
+}
+
+export interface DecisionIssue {
+  path: string;
+  message: string;
+}
+
+export interface DecisionExtractionReport {
+  rcepRef: string;
+  extractedAt: string;
+  blocks: number;
+  accepted: Array<{ block: number; index: number; id: string; intent: string; confidence_llm: number; confidence_gate: 'pass' | 'fail' }>;
+  rejected: Array<{ block: number; index: number; intent?: string; issues: DecisionIssue[]; source: string }>;
+  blockErrors: Array<{ block: number; line: number; format: 'json' | 'json5' | 'yaml'; message: string }>;
+}
+
+export interface TokenizerInfo {
+  model: string;
+  contextWindow: number;
+  tokenizer: string;
+  exact: boolean;
+  models: string[];
+}
+
+export interface SnapshotTokenMetrics {
+  tokens: number;
+  tokenizer: string;
+  exact: boolean;
+  budget: number | null;
+  fits: boolean | null;
+  cuts: number;
+}
+
+export interface RecordedReplay {
+  hash: string;
+  startTime: number;
+  endTime: number;
+  timestamp: number;
+}
+
+export interface ReplayDiffEvent {
+  id: string;
+  seq: number;
+  type: string;
+  timestamp: number;
+}
+
+export interface ReplayDiffDecision {
+  id: string;
+  intent: string;
+  confidence_gate: 'pass' | 'fail';
+}
+
+export interface ReplayDiffOperator {
+  op: string;
+  refs: string[];
+  params: Record<string, any>;
+}
+
+export interface ReplayComparison {
+  a: RecordedReplay;
+  b: RecordedReplay;
+  diff: {
+    identical: boolean;
+    events: { added: ReplayDiffEvent[]; removed: ReplayDiffEvent[] };
+    decisions: {
+      added: ReplayDiffDecision[];
+      removed: ReplayDiffDecision[];
+      gate_changed: Array<{ id: string; intent: string; from: 'pass' | 'fail'; to: 'pass' | 'fail' }>;
+    };
+    scf_ops: { added: ReplayDiffOperator[]; removed: ReplayDiffOperator[] };
+    rcep_timeline: { added: string[]; removed: string[] };
+  };
+}
+
+export type MemoryClassName = 'hot' | 'warm' | 'cold' | 'archived';
+
+export interface StorageSubtreeUsage {
+  path: string;
+  memoryClass: MemoryClassName;
+  bytes: number;
+  files: number;
+  reclaimableBytes: number;
+}
+
+export interface StorageClassUsage {
+  memoryClass: MemoryClassName;
+  bytes: number;
+  files: number;
+  quotaBytes: number | null;
+  overQuota: boolean;
+}
+
+export interface StorageReport {
+  measuredAt: string;
+  totalBytes: number;
+  totalQuotaBytes: number | null;
+  overQuota: boolean;
+  subtrees: StorageSubtreeUsage[];
+  classes: StorageClassUsage[];
+}
+
+export interface StorageReclaimSummary {
+  reclaimedBytes: number;
+  archived: string[];
+  deleted: string[];
+  errors: string[];
+}
+
 // Slice contracts
 export interface UISlice {
-  activeTab: 'control' | 'dev' | 'timemachine' | 'insights' | 'about' | 'rebuild';
+  activeTab: 'control' | 'dev' | 'timemachine' | 'decisions' | 'insights' | 'about' | 'rebuild';
   theme: 'ghost' | 'mint' | 'uv';
   kernelReady: boolean;
   bootPhase: 'booting' | 'detecting' | 'hydrating' | 'ready' | 'error';
@@ -107,12 +274,25 @@ export interface WorkspaceSlice {
   onboardingStep: number;
   onboardingHints: any[];
   rebuildResult: { success: boolean; cyclesIndexed?: number } | null;
+  storageReport: StorageReport | null;
+  storageReclaim: StorageReclaimSummary | null;
+  storageBusy: boolean;
+  storageError: string | null;
+  gitBranches: string[];
+  currentBranch: string | null;
+  branchFilter: string;           // '' = all branches
   setWorkspace: (ws: WorkspaceStateFromKernel | null) => void;
   setMode: (mode: GovernanceMode) => void;
   setOnboardingComplete: (complete: boolean) => void;
   setOnboardingStep: (step: number) => void;
   setOnboardingHints: (hints: any[]) => void;
   setRebuildResult: (result: { success: boolean; cyclesIndexed?: number } | null) => void;
+  setStorageReport: (report: StorageReport | null) => void;
+  setStorageReclaim: (reclaim: StorageReclaimSummary | null) => void;
+  setStorageBusy: (busy: boolean) => void;
+  setStorageError: (error: string | null) => void;
+  setGitBranches: (branches: string[], current: string | null) => void;
+  setBranchFilter: (branch: string) => void;
 }
 
 export interface DevSlice {
@@ -149,6 +329,18 @@ export interface TimeMachineSlice {
   loading: boolean;
   timeMachinePrompt: string | null;
   error: string | null;
+  eventQuery: string;
+  eventQueryResults: EventQueryHit[] | null;
+  eventQueryLoading: boolean;
+  eventQueryError: string | null;
+  historySearch: string;
+  historySearchResults: HistorySearchHit[] | null;
+  historySearchLoading: boolean;
+  historySearchError: string | null;
+  replayComparison: ReplayComparison | null;
+  recordedReplays: RecordedReplay[];
+  replayDiffLoading: boolean;
+  replayDiffError: string | null;
   setStartDate: (v: string) => void;
   setEndDate: (v: string) => void;
   setMinDate: (v: string | null) => void;
@@ -156,6 +348,39 @@ export interface TimeMachineSlice {
   setTMLoading: (v: boolean) => void;
   setTMPrompt: (p: string | null) => void;
   setTMError: (e: string | null) => void;
+  setEventQuery: (q: string) => void;
+  setEventQueryResults: (r: EventQueryHit[] | null) => void;
+  setEventQueryLoading: (v: boolean) => void;
+  setEventQueryError: (e: string | null) => void;
+  setHistorySearch: (q: string) => void;
+  setHistorySearchResults: (r: HistorySearchHit[] | null) => void;
+  setHistorySearchLoading: (v: boolean) => void;
+  setHistorySearchError: (e: string | null) => void;
+  setReplayComparison: (c: ReplayComparison | null) => void;
+  setRecordedReplays: (r: RecordedReplay[]) => void;
+  setReplayDiffLoading: (v: boolean) => void;
+  setReplayDiffError: (e: string | null) => void;
+}
+
+export interface DecisionsSlice {
+  decisionGraph: DecisionGraphData | null;
+  decisionGraphLoading: boolean;
+  decisionGraphError: string | null;
+  selectedDecisionId: string | null;
+  decisionLineage: DecisionLineage | null;
+  decisionConflicts: DecisionConflict[];
+  decisionExtraction: DecisionExtractionReport | null;
+  decisionExtractionBusy: boolean;
+  decisionExtractionError: string | null;
+  setDecisionGraph: (g: DecisionGraphData | null) => void;
+  setDecisionGraphLoading: (v: boolean) => void;
+  setDecisionGraphError: (e: string | null) => void;
+  setSelectedDecisionId: (id: string | null) => void;
+  setDecisionLineage: (l: DecisionLineage | null) => void;
+  setDecisionConflicts: (c: DecisionConflict[]) => void;
+  setDecisionExtraction: (r: DecisionExtractionReport | null) => void;
+  setDecisionExtractionBusy: (v: boolean) => void;
+  setDecisionExtractionError: (e: string | null) => void;
 }
 
 export interface SnapshotSlice {
@@ -164,11 +389,15 @@ export interface SnapshotSlice {
   lastSnapshotIso: string | null;
   filesChanged: number;
   success: boolean;
+  snapshotTokens: SnapshotTokenMetrics | null;
+  tokenizerInfo: TokenizerInfo | null;
   setSnapshotLoading: (v: boolean) => void;
   setSnapshotPrompt: (p: string | null) => void;
   setLastSnapshotIso: (iso: string | null) => void;
   setFilesChanged: (n: number) => void;
   setSnapshotSuccess: (v: boolean) => void;
+  setSnapshotTokens: (t: SnapshotTokenMetrics | null) => void;
+  setTokenizerInfo: (i: TokenizerInfo | null) => void;
 }
 
 export type StoreState = UISlice &
@@ -176,5 +405,6 @@ export type StoreState = UISlice &
   DevSlice &
   InsightsSlice &
   TimeMachineSlice &
+  DecisionsSlice &
   SnapshotSlice;
 
@@ -7,6 +7,7 @@ declare module 'react' {
   export function useEffect(effect: () => void | (() => void), deps?: any[]): void;
   export function useRef<T>(value: T): { current: T };
   export function useCallback<T extends (...args: any[]) => any>(fn: T, deps?: any[]): T;
+  export function useMemo<T>(factory: () => T, deps?: any[]): T;
   export const Fragment: any;
   const React: any;
   export default React;